@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../../lib/delegation-errors"
+import { ActivityLog } from "../../../../../utils/activity-log"
+import { authorize, mailboxAccessDenied } from "../../../../../utils/authorization"
+import { readRequestForm, resolveRequestCredential } from "../../../../../utils/request-credential"
+import { rollbackOperation } from "../../../../../utils/rollback"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Undo a completed add or remove; without a credential the one the operation ran with is used
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const entry = await ActivityLog.get(id)
+    const scopeDenied = entry && (await mailboxAccessDenied(user, [entry.userEmail]))
+    if (scopeDenied) return scopeDenied
+
+    const formData = await readRequestForm(request)
+    const requestCredential = await resolveRequestCredential(request, formData, user)
+
+    const result = await rollbackOperation(id, user.username, requestCredential)
+    if (!result.success) {
+      const errorCode = result.errorCode || "unknown"
+      return NextResponse.json(
+        { ...result, success: false, errorCode, message: result.message },
+        { status: ERROR_STATUS[errorCode] },
+      )
+    }
+    return NextResponse.json({ success: true, message: result.message, result })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/activity/[id]/rollback:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error rolling back operation" }, { status: 500 })
+  }
+}
@@ -0,0 +1,57 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { ActivityLog } from "../../../utils/activity-log"
+import { authorize } from "../../../utils/authorization"
+import type { ActivityQuery } from "../../../types"
+
+// List audit log entries, newest first, with optional filters
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const params = request.nextUrl.searchParams
+
+    const status = params.get("status")
+    if (status && status !== "success" && status !== "error") {
+      return NextResponse.json(
+        { success: false, message: "status must be either success or error" },
+        { status: 400 },
+      )
+    }
+
+    for (const key of ["from", "to"]) {
+      const value = params.get(key)
+      if (value && Number.isNaN(Date.parse(value))) {
+        return NextResponse.json({ success: false, message: `Invalid ${key} date: ${value}` }, { status: 400 })
+      }
+    }
+
+    const query: ActivityQuery = {
+      page: Number(params.get("page")) || undefined,
+      pageSize: Number(params.get("pageSize")) || undefined,
+      operation: params.get("operation") || undefined,
+      userEmail: params.get("userEmail") || undefined,
+      delegateEmail: params.get("delegateEmail") || undefined,
+      actor: params.get("actor") || undefined,
+      status: (status as ActivityQuery["status"]) || undefined,
+      from: params.get("from") || undefined,
+      to: params.get("to") || undefined,
+    }
+
+    const page = await ActivityLog.query(query)
+
+    return NextResponse.json({
+      success: true,
+      ...page,
+    })
+  } catch (error: any) {
+    console.error("Error in GET /api/activity:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message || "Error reading activity log",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { ApiKeys } from "../../../../utils/api-keys"
+import { authorize } from "../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Change an API key's name, role, mailbox scopes, default credential or expiry
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "admin", { sessionOnly: true })
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    if (!body) {
+      return NextResponse.json({ success: false, message: "A JSON body is required" }, { status: 400 })
+    }
+    const apiKey = await ApiKeys.update(id, body)
+    return NextResponse.json({ success: true, message: `Updated API key ${apiKey.name}`, apiKey })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, details: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in PATCH /api/api-keys/[id]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error updating API key" }, { status: 500 })
+  }
+}
+
+// Revoke an API key
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "admin", { sessionOnly: true })
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const apiKey = await ApiKeys.revoke(id)
+    return NextResponse.json({ success: true, message: `Revoked API key ${apiKey.name}`, apiKey })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in DELETE /api/api-keys/[id]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error revoking API key" }, { status: 500 })
+  }
+}
@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../lib/delegation-errors"
+import { ApiKeys } from "../../../utils/api-keys"
+import { authorize } from "../../../utils/authorization"
+
+// List API keys, including expired and revoked ones
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "admin", { sessionOnly: true })
+  if (denied) return denied
+
+  try {
+    const apiKeys = await ApiKeys.list()
+    return NextResponse.json({ success: true, apiKeys })
+  } catch (error: any) {
+    console.error("Error in GET /api/api-keys:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error listing API keys" }, { status: 500 })
+  }
+}
+
+// Create an API key; the token is only returned in this response
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, "admin", { sessionOnly: true })
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body) {
+      return NextResponse.json({ success: false, message: "A JSON body is required" }, { status: 400 })
+    }
+    const { apiKey, token } = await ApiKeys.create(body, user.username)
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Created API key ${apiKey.name}; copy the token now, it will not be shown again`,
+        apiKey,
+        token,
+      },
+      { status: 201 },
+    )
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, details: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/api-keys:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error creating API key" }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { ApprovalRules } from "../../../../utils/approval-rules"
+import { authorize } from "../../../../utils/authorization"
+
+// List the mailbox rules that require approval
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const rules = await ApprovalRules.list()
+    return NextResponse.json({ success: true, rules })
+  } catch (error: any) {
+    console.error("Error in GET /api/approvals/rules:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error loading approval rules" }, { status: 500 })
+  }
+}
+
+// Replace the approval rules
+export async function PUT(request: NextRequest) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!Array.isArray(body?.rules)) {
+      return NextResponse.json({ success: false, message: "rules must be an array" }, { status: 400 })
+    }
+
+    const rules = await ApprovalRules.save(body.rules)
+    return NextResponse.json({ success: true, message: `Saved ${rules.length} approval rules`, rules })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, problems: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in PUT /api/approvals/rules:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error saving approval rules" }, { status: 500 })
+  }
+}
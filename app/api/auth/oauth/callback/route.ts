@@ -0,0 +1,50 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../../utils/authorization"
+import { OAuthManager } from "../../../../../utils/oauth"
+
+// Complete the authorization-code + PKCE exchange and start a session
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const url = new URL("/", request.nextUrl.origin)
+
+  try {
+    // The Google admin session is only usable from a signed-in DelegateEase account
+    const { denied } = await authorize(request, "delegates:read")
+    if (denied) {
+      throw new Error("Sign in to DelegateEase before connecting a Google admin account")
+    }
+
+    const googleError = params.get("error")
+    if (googleError) {
+      throw new Error(`Google sign-in failed: ${googleError}`)
+    }
+
+    const code = params.get("code")
+    const pending = request.cookies.get(OAuthManager.PENDING_COOKIE)?.value
+    if (!code || !pending) {
+      throw new Error("Sign-in session expired, please try again")
+    }
+
+    const redirectUri = OAuthManager.getRedirectUri(request.nextUrl.origin)
+    const { sessionId } = await OAuthManager.completeAuthorization(code, params.get("state") || "", pending, redirectUri)
+
+    url.searchParams.set("oauth", "success")
+    const response = NextResponse.redirect(url)
+    response.cookies.delete({ name: OAuthManager.PENDING_COOKIE, path: "/api/auth/oauth" })
+    response.cookies.set(OAuthManager.SESSION_COOKIE, sessionId, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: request.nextUrl.protocol === "https:",
+      path: "/",
+      maxAge: OAuthManager.SESSION_MAX_AGE,
+    })
+    return response
+  } catch (error: any) {
+    console.error("Error in GET /api/auth/oauth/callback:", error)
+    url.searchParams.set("oauth", "error")
+    url.searchParams.set("message", error.message || "OAuth sign-in failed")
+    const response = NextResponse.redirect(url)
+    response.cookies.delete({ name: OAuthManager.PENDING_COOKIE, path: "/api/auth/oauth" })
+    return response
+  }
+}
@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../../utils/authorization"
+import { OAuthManager } from "../../../../../utils/oauth"
+
+// Report whether the browser has a signed-in OAuth session
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const session = await OAuthManager.getSession(request.cookies.get(OAuthManager.SESSION_COOKIE)?.value)
+
+    return NextResponse.json({
+      success: true,
+      authenticated: !!session,
+      email: session?.email,
+    })
+  } catch (error: any) {
+    console.error("Error in GET /api/auth/oauth/session:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        authenticated: false,
+        message: error.message || "Error reading OAuth session",
+      },
+      { status: 500 },
+    )
+  }
+}
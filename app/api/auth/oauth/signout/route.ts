@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../../utils/authorization"
+import { OAuthManager } from "../../../../../utils/oauth"
+
+// Revoke the OAuth tokens and end the session
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    await OAuthManager.signOut(request.cookies.get(OAuthManager.SESSION_COOKIE)?.value)
+
+    const response = NextResponse.json({
+      success: true,
+      message: "Signed out successfully",
+    })
+    response.cookies.delete(OAuthManager.SESSION_COOKIE)
+    return response
+  } catch (error: any) {
+    console.error("Error in POST /api/auth/oauth/signout:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message || "Error signing out",
+      },
+      { status: 500 },
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../../utils/authorization"
+import { OAuthManager } from "../../../../../utils/oauth"
+
+// Redirect the browser to Google's consent screen
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const redirectUri = OAuthManager.getRedirectUri(request.nextUrl.origin)
+    const { url, pending } = await OAuthManager.beginAuthorization(redirectUri)
+
+    const response = NextResponse.redirect(url)
+    response.cookies.set(OAuthManager.PENDING_COOKIE, pending, {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: request.nextUrl.protocol === "https:",
+      path: "/api/auth/oauth",
+      maxAge: OAuthManager.PENDING_MAX_AGE,
+    })
+    return response
+  } catch (error: any) {
+    console.error("Error in GET /api/auth/oauth/start:", error)
+    const url = new URL("/", request.nextUrl.origin)
+    url.searchParams.set("oauth", "error")
+    url.searchParams.set("message", error.message || "Failed to start OAuth sign-in")
+    return NextResponse.redirect(url)
+  }
+}
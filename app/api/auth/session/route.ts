@@ -0,0 +1,48 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { currentUser, withSessionCookie } from "../../../../utils/authorization"
+import { UserAccounts } from "../../../../utils/user-accounts"
+
+// Report the signed-in user, and whether the first admin still has to be created
+export async function GET(request: NextRequest) {
+  try {
+    const user = await currentUser(request)
+    const setupRequired = !user && !(await UserAccounts.hasUsers())
+    return NextResponse.json({ success: true, authenticated: !!user, user, setupRequired })
+  } catch (error: any) {
+    console.error("Error in GET /api/auth/session:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error reading session" }, { status: 500 })
+  }
+}
+
+// Sign in with a username and password
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const { sessionId, user } = await UserAccounts.signIn(body?.username, body?.password)
+    const response = NextResponse.json({ success: true, message: `Signed in as ${user.username}`, user })
+    return withSessionCookie(request, response, sessionId)
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/auth/session:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error signing in" }, { status: 500 })
+  }
+}
+
+// Sign out and end the session
+export async function DELETE(request: NextRequest) {
+  try {
+    await UserAccounts.signOut(request.cookies.get(UserAccounts.SESSION_COOKIE)?.value)
+    const response = NextResponse.json({ success: true, message: "Signed out successfully" })
+    response.cookies.delete(UserAccounts.SESSION_COOKIE)
+    return response
+  } catch (error: any) {
+    console.error("Error in DELETE /api/auth/session:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error signing out" }, { status: 500 })
+  }
+}
@@ -0,0 +1,27 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { withSessionCookie } from "../../../../utils/authorization"
+import { UserAccounts } from "../../../../utils/user-accounts"
+
+// Create the first admin account and sign it in; only possible while no account exists
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    await UserAccounts.create(
+      { username: body?.username, password: body?.password, displayName: body?.displayName },
+      { firstAdmin: true },
+    )
+    const { sessionId, user } = await UserAccounts.signIn(body.username, body.password)
+    const response = NextResponse.json({ success: true, message: `Created admin ${user.username}`, user }, { status: 201 })
+    return withSessionCookie(request, response, sessionId)
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, details: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/auth/setup:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error creating admin" }, { status: 500 })
+  }
+}
@@ -0,0 +1,101 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { hasPermission } from "../../../../lib/permissions"
+import { authorize } from "../../../../utils/authorization"
+import { approveChangeRequest } from "../../../../utils/change-request-review"
+import { ChangeRequests } from "../../../../utils/change-requests"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Helper function to turn permission and state errors into responses
+function failure(error: any, route: string, fallback: string) {
+  if (error instanceof DelegationError) {
+    return NextResponse.json(
+      { success: false, errorCode: error.code, message: error.message },
+      { status: ERROR_STATUS[error.code] },
+    )
+  }
+  console.error(`Error in ${route}:`, error)
+  return NextResponse.json({ success: false, message: error.message || fallback }, { status: 500 })
+}
+
+// Get a single change request
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const changeRequest = await ChangeRequests.get(id)
+    if (!changeRequest) {
+      return NextResponse.json({ success: false, message: `Change request ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, changeRequest })
+  } catch (error: any) {
+    return failure(error, "GET /api/change-requests/[id]", "Error loading change request")
+  }
+}
+
+// Approve, reject or comment on a change request
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { user, denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    const reviewer = user.username
+    const comment = typeof body?.comment === "string" ? body.comment : undefined
+
+    // Anyone signed in may comment; deciding needs the approver role
+    if ((body?.action === "approve" || body?.action === "reject") && !hasPermission(user, "changes:approve")) {
+      throw new DelegationError("forbidden", `The ${user.role} role may not approve or reject change requests`)
+    }
+
+    if (body?.action === "approve") {
+      const changeRequest = await approveChangeRequest(id, reviewer, comment)
+      return NextResponse.json({
+        success: changeRequest.status === "completed",
+        message: changeRequest.result?.message || `Change request ${changeRequest.status}`,
+        changeRequest,
+      })
+    }
+    if (body?.action === "reject") {
+      const changeRequest = await ChangeRequests.reject(id, reviewer, comment)
+      return NextResponse.json({ success: true, message: "Change request rejected", changeRequest })
+    }
+    if (body?.action === "comment") {
+      const changeRequest = await ChangeRequests.comment(id, reviewer, comment || "")
+      return NextResponse.json({ success: true, message: "Comment added", changeRequest })
+    }
+
+    return NextResponse.json(
+      { success: false, message: "action must be one of approve, reject, comment" },
+      { status: 400 },
+    )
+  } catch (error: any) {
+    return failure(error, "PATCH /api/change-requests/[id]", "Error updating change request")
+  }
+}
+
+// Withdraw a pending change request
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { user, denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const pending = await ChangeRequests.get(id)
+    if (!pending) {
+      return NextResponse.json({ success: false, message: `Change request ${id} not found` }, { status: 404 })
+    }
+    if (pending.requestedBy !== user.username && !hasPermission(user, "admin")) {
+      throw new DelegationError("forbidden", "Only the requester or an admin can withdraw a change request")
+    }
+
+    const changeRequest = await ChangeRequests.cancel(id)
+    return NextResponse.json({ success: true, message: "Change request cancelled", changeRequest })
+  } catch (error: any) {
+    return failure(error, "DELETE /api/change-requests/[id]", "Error cancelling change request")
+  }
+}
@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../utils/authorization"
+import { ChangeRequests } from "../../../utils/change-requests"
+import type { ChangeRequestStatus } from "../../../types"
+
+const STATUSES: ChangeRequestStatus[] = ["pending", "approved", "rejected", "cancelled", "completed", "failed"]
+
+// List change requests, pending ones first
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const status = request.nextUrl.searchParams.get("status")
+    if (status && !STATUSES.includes(status as ChangeRequestStatus)) {
+      return NextResponse.json(
+        { success: false, message: `status must be one of ${STATUSES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    const changeRequests = await ChangeRequests.list((status as ChangeRequestStatus) || undefined)
+    return NextResponse.json({ success: true, changeRequests })
+  } catch (error: any) {
+    console.error("Error in GET /api/change-requests:", error)
+    return NextResponse.json(
+      { success: false, message: error.message || "Error listing change requests" },
+      { status: 500 },
+    )
+  }
+}
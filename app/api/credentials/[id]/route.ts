@@ -0,0 +1,119 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../utils/authorization"
+import { CredentialVault } from "../../../../utils/credential-vault"
+import { ServiceAccountManager } from "../../../../utils/service-account"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Helper function to look up a credential's metadata
+async function findCredential(id: string) {
+  const credentials = await CredentialVault.list()
+  return credentials.find((credential) => credential.id === id)
+}
+
+// Relabel a credential
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const { label } = await request.json()
+
+    if (!label || typeof label !== "string") {
+      return NextResponse.json({ success: false, message: "label is required" }, { status: 400 })
+    }
+    if (!(await findCredential(id))) {
+      return NextResponse.json({ success: false, message: `Credential ${id} not found` }, { status: 404 })
+    }
+
+    const credential = await CredentialVault.setLabel(id, label)
+    return NextResponse.json({ success: true, message: "Credential updated successfully", credential })
+  } catch (error: any) {
+    console.error("Error in PATCH /api/credentials/[id]:", error)
+    return NextResponse.json(
+      { success: false, message: error.message || "Error updating credential" },
+      { status: 500 },
+    )
+  }
+}
+
+// Rotate a credential to a new key for the same service account
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const formData = await request.formData()
+    const serviceAccountFile = formData.get("serviceAccount") as File | null
+
+    if (!serviceAccountFile || typeof serviceAccountFile === "string") {
+      return NextResponse.json({ success: false, message: "Service account file is required" }, { status: 400 })
+    }
+
+    const existing = await findCredential(id)
+    if (!existing) {
+      return NextResponse.json({ success: false, message: `Credential ${id} not found` }, { status: 404 })
+    }
+    if (existing.revokedAt) {
+      return NextResponse.json({ success: false, message: `Credential ${id} has been revoked` }, { status: 409 })
+    }
+
+    let serviceAccount
+    try {
+      serviceAccount = await ServiceAccountManager.parseFile(serviceAccountFile)
+    } catch (parseError: any) {
+      return NextResponse.json({ success: false, message: parseError.message }, { status: 400 })
+    }
+
+    const problems = ServiceAccountManager.validate(serviceAccount)
+    if (problems.length > 0) {
+      return NextResponse.json(
+        { success: false, message: `Invalid service account key: ${problems.join("; ")}`, problems },
+        { status: 400 },
+      )
+    }
+
+    if (serviceAccount.client_email !== existing.clientEmail) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: `Replacement key belongs to ${serviceAccount.client_email}, expected ${existing.clientEmail}`,
+        },
+        { status: 400 },
+      )
+    }
+
+    const credential = await CredentialVault.rotate(id, serviceAccount)
+    return NextResponse.json({ success: true, message: "Credential rotated successfully", credential })
+  } catch (error: any) {
+    console.error("Error in PUT /api/credentials/[id]:", error)
+    return NextResponse.json(
+      { success: false, message: error.message || "Error rotating credential" },
+      { status: 500 },
+    )
+  }
+}
+
+// Revoke a credential, destroying its stored key
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    if (!(await findCredential(id))) {
+      return NextResponse.json({ success: false, message: `Credential ${id} not found` }, { status: 404 })
+    }
+
+    const credential = await CredentialVault.revoke(id)
+    return NextResponse.json({ success: true, message: "Credential revoked successfully", credential })
+  } catch (error: any) {
+    console.error("Error in DELETE /api/credentials/[id]:", error)
+    return NextResponse.json(
+      { success: false, message: error.message || "Error revoking credential" },
+      { status: 500 },
+    )
+  }
+}
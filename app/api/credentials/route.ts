@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../utils/authorization"
+import { CredentialVault } from "../../../utils/credential-vault"
+import { ServiceAccountManager } from "../../../utils/service-account"
+
+// List stored credentials (metadata only, never key material)
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const credentials = await CredentialVault.list()
+    return NextResponse.json({ success: true, credentials })
+  } catch (error: any) {
+    console.error("Error in GET /api/credentials:", error)
+    return NextResponse.json(
+      { success: false, message: error.message || "Error listing credentials" },
+      { status: 500 },
+    )
+  }
+}
+
+// Upload a service account key into the vault
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const formData = await request.formData()
+    const serviceAccountFile = formData.get("serviceAccount") as File | null
+    const label = (formData.get("label") as string | null) || undefined
+
+    if (!serviceAccountFile || typeof serviceAccountFile === "string") {
+      return NextResponse.json({ success: false, message: "Service account file is required" }, { status: 400 })
+    }
+
+    let serviceAccount
+    try {
+      serviceAccount = await ServiceAccountManager.parseFile(serviceAccountFile)
+    } catch (parseError: any) {
+      return NextResponse.json({ success: false, message: parseError.message }, { status: 400 })
+    }
+
+    const problems = ServiceAccountManager.validate(serviceAccount)
+    if (problems.length > 0) {
+      return NextResponse.json(
+        { success: false, message: `Invalid service account key: ${problems.join("; ")}`, problems },
+        { status: 400 },
+      )
+    }
+
+    const credential = await CredentialVault.store(serviceAccount, label)
+
+    return NextResponse.json({
+      success: true,
+      message: "Credential stored successfully",
+      credential,
+    })
+  } catch (error: any) {
+    console.error("Error in POST /api/credentials:", error)
+    return NextResponse.json(
+      { success: false, message: error.message || "Error storing credential" },
+      { status: 500 },
+    )
+  }
+}
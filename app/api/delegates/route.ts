@@ -1,58 +1,41 @@
 import { type NextRequest, NextResponse } from "next/server"
-import { google, type gmail_v1 } from "googleapis"
-import { ServiceAccountManager } from "../../../utils/service-account"
-import { listDelegates as listDelegatesFromGmail, createGmailClient as createGmailClientFromUtils } from "../../../utils/gmail-integration"
-import { writeFile, unlink } from "fs/promises"
-import { join } from "path"
-import { tmpdir } from "os"
-import { randomUUID } from "crypto"
-import { promises as fsPromises } from "fs"
+import { type gmail_v1 } from "googleapis"
+import { connectGmailClient, processDelegateOperation, toDelegationError } from "../../../utils/gmail-integration"
+import { authorize, mailboxAccessDenied } from "../../../utils/authorization"
+import { readRequestForm, resolveRequestCredential } from "../../../utils/request-credential"
+import { DelegationError, ERROR_HINTS, ERROR_STATUS, classifyGmailError } from "../../../lib/delegation-errors"
+import type { DelegationErrorCode } from "@/types"
+import type { OperationResult } from "@/types/delegates"
 import { exec } from "child_process"
 import { promisify } from "util"
 
 const execPromise = promisify(exec)
 
-// Helper function to save service account file temporarily
-async function saveServiceAccountFile(file: File): Promise<string> {
-  const tempFilePath = join(tmpdir(), `sa_${randomUUID()}.json`)
-  const arrayBuffer = await file.arrayBuffer()
-  const buffer = Buffer.from(arrayBuffer)
-  await writeFile(tempFilePath, buffer)
-  return tempFilePath
-}
-
-// Helper function to clean up temporary files
-async function cleanupFile(filePath: string): Promise<void> {
-  try {
-    await unlink(filePath)
-  } catch (error) {
-    console.error("Error cleaning up file:", error)
-  }
+// Helper function to build an error response with the status matching its cause
+function errorResponse(errorCode: DelegationErrorCode, message: string, details?: any) {
+  return NextResponse.json(
+    {
+      success: false,
+      errorCode,
+      error: message,
+      message,
+      hint: ERROR_HINTS[errorCode],
+      details,
+    },
+    { status: ERROR_STATUS[errorCode] },
+  )
 }
 
-// Helper function to create Gmail client
-async function createGmailClient(serviceAccountPath: string, userEmail: string): Promise<gmail_v1.Gmail | null> {
-  try {
-    const serviceAccount = await ServiceAccountManager.readFile(serviceAccountPath)
-
-    const auth = new google.auth.JWT(
-      serviceAccount.client_email,
-      undefined,
-      serviceAccount.private_key,
-      [
-        "https://www.googleapis.com/auth/gmail.settings.sharing",
-        "https://www.googleapis.com/auth/gmail.settings.basic",
-        "https://www.googleapis.com/auth/gmail.modify",
-      ],
-      userEmail,
-    )
-
-    const gmail: gmail_v1.Gmail = google.gmail({ version: "v1", auth })
-    return gmail
-  } catch (error) {
-    console.error("Error creating Gmail client:", error)
-    return null
+// Helper function to respond with the outcome of an operation; failures get the status matching their cause
+function operationResponse(result: OperationResult) {
+  if (result.success || result.dryRun) {
+    return NextResponse.json(result)
   }
+  const errorCode = result.errorCode || "unknown"
+  return NextResponse.json(
+    { ...result, success: false, errorCode, error: result.message, hint: ERROR_HINTS[errorCode] },
+    { status: ERROR_STATUS[errorCode] },
+  )
 }
 
 // List delegates operation
@@ -70,6 +53,7 @@ async function listDelegates(gmail: gmail_v1.Gmail): Promise<any> {
     return {
       success: false,
       message: error.message || "Error listing delegates",
+      errorCode: classifyGmailError(error),
       error: String(error),
     }
   }
@@ -87,6 +71,7 @@ async function addDelegateDirectly(gmail: gmail_v1.Gmail, delegateEmail: string)
         return {
           success: false,
           message: `Delegate ${delegateEmail} already exists`,
+          errorCode: "already_exists",
         }
       }
     }
@@ -109,6 +94,7 @@ async function addDelegateDirectly(gmail: gmail_v1.Gmail, delegateEmail: string)
     return {
       success: false,
       message: error.message || "Error adding delegate",
+      errorCode: classifyGmailError(error),
       error: String(error),
     }
   }
@@ -126,6 +112,7 @@ async function removeDelegateDirectly(gmail: gmail_v1.Gmail, delegateEmail: stri
         return {
           success: false,
           message: `Delegate ${delegateEmail} does not exist`,
+          errorCode: "not_found",
         }
       }
     }
@@ -145,26 +132,32 @@ async function removeDelegateDirectly(gmail: gmail_v1.Gmail, delegateEmail: stri
     return {
       success: false,
       message: error.message || "Error removing delegate",
+      errorCode: classifyGmailError(error),
       error: String(error),
     }
   }
 }
 
 // Process batch operations
-async function processBatch(serviceAccountPath: string, operations: any[]): Promise<any[]> {
+async function processBatch(credential: any, operations: any[]): Promise<any[]> {
   const results = []
 
   for (const op of operations) {
     const { operation, userEmail, delegateEmail } = op
 
     // Create Gmail client for this user
-    const gmail = await createGmailClient(serviceAccountPath, userEmail)
-    if (!gmail) {
+    let gmail: gmail_v1.Gmail
+    try {
+      gmail = await connectGmailClient(credential, userEmail)
+    } catch (error: any) {
+      const delegationError = toDelegationError(error, "Failed to create Gmail client")
       results.push({
         success: false,
         userEmail,
         operation,
-        message: "Failed to create Gmail client",
+        message: delegationError.message,
+        errorCode: delegationError.code,
+        details: delegationError.details,
       })
       continue
     }
@@ -200,6 +193,7 @@ async function processBatch(serviceAccountPath: string, operations: any[]): Prom
         delegateEmail,
         operation,
         message: `Invalid operation: ${operation}`,
+        errorCode: "invalid_request",
       })
     }
   }
@@ -209,161 +203,85 @@ async function processBatch(serviceAccountPath: string, operations: any[]): Prom
 
 // Main API handler
 export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
   try {
-    const formData = await request.formData()
-    const serviceAccountFile = formData.get("serviceAccountFile") as File
+    const formData = await readRequestForm(request)
     const userEmail = formData.get("userEmail") as string
     const delegateEmail = formData.get("delegateEmail") as string
 
-    if (!serviceAccountFile || !userEmail || !delegateEmail) {
-      return NextResponse.json(
-        { error: "Missing required fields" },
-        { status: 400 },
-      )
-    }
-
-    // Save service account file temporarily
-    const filepath = await ServiceAccountManager.saveFile(serviceAccountFile)
+    // Use a stored credential, an uploaded key, or the signed-in OAuth admin
+    const requestCredential = await resolveRequestCredential(request, formData, user)
 
-    try {
-      // Read service account file
-      const serviceAccount = await ServiceAccountManager.readFile(filepath)
-
-      // Create Gmail client
-      const gmail = await createGmailClientFromUtils(serviceAccount, userEmail)
-      if (!gmail) {
-        return NextResponse.json(
-          { error: "Failed to create Gmail client" },
-          { status: 500 },
-        )
-      }
-
-      // List existing delegates
-      const listResult = await listDelegatesFromGmail(gmail)
-      if (!listResult.success) {
-        return NextResponse.json(
-          { error: listResult.message },
-          { status: 500 },
-        )
-      }
-
-      // Check if delegate already exists
-      const existingDelegate = listResult.delegates?.find(
-        (d) => d.delegateEmail === delegateEmail,
-      )
-      if (existingDelegate) {
-        return NextResponse.json(
-          { error: "Delegate already exists" },
-          { status: 400 },
-        )
-      }
-
-      // Add delegate
-      await gmail.users.settings.delegates.create({
-        userId: "me",
-        requestBody: {
-          delegateEmail,
-        },
-      })
+    if (!requestCredential || !userEmail || !delegateEmail) {
+      return errorResponse("invalid_request", "Missing required fields")
+    }
 
-      return NextResponse.json({
-        success: true,
-        message: "Delegate added successfully",
-      })
-    } finally {
-      // Clean up service account file
-      await ServiceAccountManager.cleanupFile(filepath)
+    // Operators may only change the mailboxes assigned to them
+    const outOfScope = await mailboxAccessDenied(user, [userEmail])
+    if (outOfScope) {
+      return outOfScope
     }
+
+    // Expiry, the delegation policy, approval rules, dry runs and the activity log are handled with every other add
+    const result = await processDelegateOperation("add", userEmail, delegateEmail, requestCredential, "api", {
+      expiresAt: (formData.get("expiresAt") as string | null) || undefined,
+      reason: (formData.get("reason") as string | null) || undefined,
+      dryRun: formData.get("dryRun") === "true",
+    })
+    return operationResponse(result)
   } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return errorResponse(error.code, error.message, error.details)
+    }
     console.error("Error in POST /api/delegates:", error)
-    return NextResponse.json(
-      {
-        error: error.message || "Internal server error",
-        details: error.stack,
-      },
-      { status: 500 },
-    )
+    return errorResponse("unknown", error.message || "Internal server error", error.stack)
   }
 }
 
 export async function DELETE(request: NextRequest) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
   try {
-    const formData = await request.formData()
-    const serviceAccountFile = formData.get("serviceAccountFile") as File
+    const formData = await readRequestForm(request)
     const userEmail = formData.get("userEmail") as string
     const delegateEmail = formData.get("delegateEmail") as string
 
-    if (!serviceAccountFile || !userEmail || !delegateEmail) {
-      return NextResponse.json(
-        { error: "Missing required fields" },
-        { status: 400 },
-      )
-    }
-
-    // Save service account file temporarily
-    const filepath = await ServiceAccountManager.saveFile(serviceAccountFile)
-
-    try {
-      // Read service account file
-      const serviceAccount = await ServiceAccountManager.readFile(filepath)
-
-      // Create Gmail client
-      const gmail = await createGmailClientFromUtils(serviceAccount, userEmail)
-      if (!gmail) {
-        return NextResponse.json(
-          { error: "Failed to create Gmail client" },
-          { status: 500 },
-        )
-      }
-
-      // List existing delegates
-      const listResult = await listDelegatesFromGmail(gmail)
-      if (!listResult.success) {
-        return NextResponse.json(
-          { error: listResult.message },
-          { status: 500 },
-        )
-      }
+    // Use a stored credential, an uploaded key, or the signed-in OAuth admin
+    const requestCredential = await resolveRequestCredential(request, formData, user)
 
-      // Check if delegate exists
-      const existingDelegate = listResult.delegates?.find(
-        (d) => d.delegateEmail === delegateEmail,
-      )
-      if (!existingDelegate) {
-        return NextResponse.json(
-          { error: "Delegate does not exist" },
-          { status: 400 },
-        )
-      }
-
-      // Remove delegate
-      await gmail.users.settings.delegates.delete({
-        userId: "me",
-        delegateEmail,
-      })
+    if (!requestCredential || !userEmail || !delegateEmail) {
+      return errorResponse("invalid_request", "Missing required fields")
+    }
 
-      return NextResponse.json({
-        success: true,
-        message: "Delegate removed successfully",
-      })
-    } finally {
-      // Clean up service account file
-      await ServiceAccountManager.cleanupFile(filepath)
+    // Operators may only change the mailboxes assigned to them
+    const outOfScope = await mailboxAccessDenied(user, [userEmail])
+    if (outOfScope) {
+      return outOfScope
     }
+
+    // The delegation policy, approval rules, grants, dry runs and the activity log are handled with every other remove
+    const result = await processDelegateOperation("remove", userEmail, delegateEmail, requestCredential, "api", {
+      reason: (formData.get("reason") as string | null) || undefined,
+      dryRun: formData.get("dryRun") === "true",
+    })
+    return operationResponse(result)
   } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return errorResponse(error.code, error.message, error.details)
+    }
     console.error("Error in DELETE /api/delegates:", error)
-    return NextResponse.json(
-      {
-        error: error.message || "Internal server error",
-        details: error.stack,
-      },
-      { status: 500 },
-    )
+    return errorResponse("unknown", error.message || "Internal server error", error.stack)
   }
 }
 
 // Also support GET requests for testing
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
   return NextResponse.json({
     success: true,
     message: "Delegates API is working. Please use POST method with service account and operation details.",
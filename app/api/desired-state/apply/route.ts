@@ -0,0 +1,64 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { authorize } from "../../../../utils/authorization"
+import { BatchJobManager } from "../../../../utils/batch-jobs"
+import { formatPlan, parseDesiredState, planDesiredState, planToOperations } from "../../../../utils/desired-state"
+import { readRequestForm, resolveRequestCredential } from "../../../../utils/request-credential"
+
+// Re-plan a desired-state file against Gmail and run the changes as a batch job
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const formData = await readRequestForm(request)
+    const configFile = formData.get("configFile") as File | null
+    const config =
+      configFile && typeof configFile !== "string" ? await configFile.text() : (formData.get("config") as string | null)
+
+    if (!config) {
+      return NextResponse.json({ success: false, message: "A desired-state config is required" }, { status: 400 })
+    }
+
+    const state = parseDesiredState(config)
+
+    // Use a stored credential, an uploaded key, or the signed-in OAuth admin
+    const requestCredential = await resolveRequestCredential(request, formData, user)
+    if (!requestCredential) {
+      return NextResponse.json(
+        { success: false, message: "A service account credential or OAuth session is required" },
+        { status: 400 },
+      )
+    }
+
+    // Always plan again so changes made since a reviewed plan are not clobbered blindly
+    const plan = await planDesiredState(state, requestCredential)
+    const operations = planToOperations(plan)
+
+    if (operations.length === 0) {
+      return NextResponse.json({ success: true, message: "No changes to apply", plan, summary: formatPlan(plan) })
+    }
+
+    const job = await BatchJobManager.submit(operations, requestCredential)
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Applying ${operations.length} changes as batch job ${job.id}`,
+        plan,
+        summary: formatPlan(plan),
+        job: BatchJobManager.toSummary(job),
+      },
+      { status: 202 },
+    )
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, problems: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/desired-state/apply:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error applying plan" }, { status: 500 })
+  }
+}
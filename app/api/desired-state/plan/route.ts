@@ -0,0 +1,46 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { authorize } from "../../../../utils/authorization"
+import { formatPlan, parseDesiredState, planDesiredState } from "../../../../utils/desired-state"
+import { readRequestForm, resolveRequestCredential } from "../../../../utils/request-credential"
+
+// Compute the changes needed to reach a desired-state file without making them
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const formData = await readRequestForm(request)
+    const configFile = formData.get("configFile") as File | null
+    const config =
+      configFile && typeof configFile !== "string" ? await configFile.text() : (formData.get("config") as string | null)
+
+    if (!config) {
+      return NextResponse.json({ success: false, message: "A desired-state config is required" }, { status: 400 })
+    }
+
+    const state = parseDesiredState(config)
+
+    // Use a stored credential, an uploaded key, or the signed-in OAuth admin
+    const requestCredential = await resolveRequestCredential(request, formData, user)
+    if (!requestCredential) {
+      return NextResponse.json(
+        { success: false, message: "A service account credential or OAuth session is required" },
+        { status: 400 },
+      )
+    }
+
+    const plan = await planDesiredState(state, requestCredential)
+
+    return NextResponse.json({ success: true, plan, summary: formatPlan(plan) })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, problems: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/desired-state/plan:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error computing plan" }, { status: 500 })
+  }
+}
@@ -0,0 +1,60 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../../lib/delegation-errors"
+import { authorize } from "../../../../../utils/authorization"
+import { DriftMonitor } from "../../../../../utils/drift"
+
+type RouteContext = { params: Promise<{ mailbox: string }> }
+
+// Toggle auto-remediation or accept the mailbox's current delegates as its new baseline
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const { mailbox } = await params
+    const body = await request.json().catch(() => null)
+    if (!body || (typeof body.autoRemediate !== "boolean" && body.rebaseline !== true)) {
+      return NextResponse.json(
+        { success: false, message: "Provide autoRemediate (boolean) or rebaseline: true" },
+        { status: 400 },
+      )
+    }
+
+    const baseline = await DriftMonitor.update(decodeURIComponent(mailbox), {
+      autoRemediate: typeof body.autoRemediate === "boolean" ? body.autoRemediate : undefined,
+      rebaseline: body.rebaseline === true,
+    })
+
+    return NextResponse.json({ success: true, message: "Baseline updated", baseline })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in PATCH /api/drift/baselines/[mailbox]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error updating baseline" }, { status: 500 })
+  }
+}
+
+// Stop watching a mailbox; its recorded drift events are kept
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const { mailbox } = await params
+    await DriftMonitor.unregister(decodeURIComponent(mailbox))
+    return NextResponse.json({ success: true, message: "Mailbox is no longer watched for drift" })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in DELETE /api/drift/baselines/[mailbox]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error removing baseline" }, { status: 500 })
+  }
+}
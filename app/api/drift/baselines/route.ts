@@ -0,0 +1,53 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { authorize } from "../../../../utils/authorization"
+import { DriftMonitor } from "../../../../utils/drift"
+
+// List mailboxes registered for drift detection
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const baselines = await DriftMonitor.listBaselines()
+    return NextResponse.json({ success: true, baselines })
+  } catch (error: any) {
+    console.error("Error in GET /api/drift/baselines:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error listing baselines" }, { status: 500 })
+  }
+}
+
+// Register a mailbox, using its current delegates as the baseline unless delegates are given
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    const mailbox = typeof body?.mailbox === "string" ? body.mailbox.trim() : ""
+    const credentialId = typeof body?.credentialId === "string" ? body.credentialId : ""
+
+    if (!mailbox || !credentialId) {
+      return NextResponse.json({ success: false, message: "mailbox and credentialId are required" }, { status: 400 })
+    }
+    if (body.delegates !== undefined && !Array.isArray(body.delegates)) {
+      return NextResponse.json({ success: false, message: "delegates must be an array of emails" }, { status: 400 })
+    }
+
+    const baseline = await DriftMonitor.register(mailbox, credentialId, {
+      autoRemediate: body.autoRemediate === true,
+      delegates: body.delegates,
+    })
+
+    return NextResponse.json({ success: true, message: `Watching ${baseline.mailbox} for drift`, baseline })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/drift/baselines:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error registering mailbox" }, { status: 500 })
+  }
+}
@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../utils/authorization"
+import { DriftMonitor } from "../../../../utils/drift"
+import { isSchedulerRequest } from "../../../../utils/scheduler"
+
+// Check registered mailboxes against their baselines now; server.js calls this on a timer
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    const mailbox = typeof body?.mailbox === "string" && body.mailbox ? body.mailbox : undefined
+
+    const summary = await DriftMonitor.check(isSchedulerRequest(request) ? "scheduler" : "manual", mailbox)
+
+    return NextResponse.json({
+      success: true,
+      message: `Checked ${summary.checked} mailboxes: ${summary.drifted} drifted, ${summary.errors} errors`,
+      summary,
+    })
+  } catch (error: any) {
+    console.error("Error in POST /api/drift/check:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error checking for drift" }, { status: 500 })
+  }
+}
@@ -0,0 +1,37 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../utils/authorization"
+import { DriftMonitor } from "../../../../utils/drift"
+
+// List drift events, newest first; format=csv or format=json downloads them as a file
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const params = request.nextUrl.searchParams
+    const format = params.get("format")
+    if (format && format !== "csv" && format !== "json") {
+      return NextResponse.json({ success: false, message: "format must be either csv or json" }, { status: 400 })
+    }
+
+    const events = await DriftMonitor.events({
+      mailbox: params.get("mailbox") || undefined,
+      limit: Number(params.get("limit")) || (format ? Number.MAX_SAFE_INTEGER : undefined),
+    })
+
+    if (format) {
+      const filename = `drift-events-${new Date().toISOString().slice(0, 10)}.${format}`
+      return new NextResponse(format === "csv" ? DriftMonitor.toCsv(events) : JSON.stringify(events, null, 2), {
+        headers: {
+          "Content-Type": format === "csv" ? "text/csv; charset=utf-8" : "application/json",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      })
+    }
+
+    return NextResponse.json({ success: true, events })
+  } catch (error: any) {
+    console.error("Error in GET /api/drift/events:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error reading drift events" }, { status: 500 })
+  }
+}
@@ -0,0 +1,69 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { authorize, mailboxAccessDenied } from "../../../../utils/authorization"
+import { DelegationGrants } from "../../../../utils/delegation-grants"
+import { revokeGrant } from "../../../../utils/grant-expiry"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Extend a time-bound delegation
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const existing = await DelegationGrants.get(id)
+    const scopeDenied = existing && (await mailboxAccessDenied(user, [existing.userEmail]))
+    if (scopeDenied) return scopeDenied
+
+    const body = await request.json().catch(() => null)
+    if (typeof body?.expiresAt !== "string") {
+      return NextResponse.json({ success: false, message: "expiresAt is required" }, { status: 400 })
+    }
+
+    const grant = await DelegationGrants.extend(id, body.expiresAt)
+    return NextResponse.json({ success: true, message: `Access extended until ${grant.expiresAt}`, grant })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in PATCH /api/grants/[id]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error extending grant" }, { status: 500 })
+  }
+}
+
+// Remove a time-bound delegate before it expires
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const existing = await DelegationGrants.get(id)
+    const scopeDenied = existing && (await mailboxAccessDenied(user, [existing.userEmail]))
+    if (scopeDenied) return scopeDenied
+
+    const result = await revokeGrant(id, user.username)
+    if (!result.success) {
+      const errorCode = result.errorCode || "unknown"
+      return NextResponse.json(
+        { success: false, errorCode, message: result.message, details: result.details },
+        { status: ERROR_STATUS[errorCode] },
+      )
+    }
+    return NextResponse.json({ success: true, message: result.message, result })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in DELETE /api/grants/[id]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error revoking grant" }, { status: 500 })
+  }
+}
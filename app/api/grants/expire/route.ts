@@ -0,0 +1,29 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../utils/authorization"
+import { expireDueGrants } from "../../../../utils/grant-expiry"
+
+// Remove delegates whose grant has lapsed; server.js calls this on a timer
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const summary = await expireDueGrants()
+    summary.results.forEach((result) => {
+      if (result.success) {
+        console.log(result.message)
+      } else {
+        console.error(`Could not expire ${result.delegateEmail} on ${result.userEmail}: ${result.message}`)
+      }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: summary.due > 0 ? `${summary.due} grants due: ${summary.expired} expired, ${summary.failed} failed` : undefined,
+      summary,
+    })
+  } catch (error: any) {
+    console.error("Error in POST /api/grants/expire:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error expiring grants" }, { status: 500 })
+  }
+}
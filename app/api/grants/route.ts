@@ -0,0 +1,31 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../utils/authorization"
+import { DelegationGrants } from "../../../utils/delegation-grants"
+import type { DelegationGrantStatus } from "../../../types"
+
+// List time-bound delegations, soonest expiry first
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const params = request.nextUrl.searchParams
+    const status = params.get("status")
+    if (status && status !== "active" && status !== "expired" && status !== "revoked") {
+      return NextResponse.json(
+        { success: false, message: "status must be one of active, expired or revoked" },
+        { status: 400 },
+      )
+    }
+
+    const grants = await DelegationGrants.list({
+      userEmail: params.get("userEmail") || undefined,
+      status: (status as DelegationGrantStatus) || undefined,
+    })
+
+    return NextResponse.json({ success: true, grants })
+  } catch (error: any) {
+    console.error("Error in GET /api/grants:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error listing grants" }, { status: 500 })
+  }
+}
@@ -0,0 +1,76 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../../utils/authorization"
+import { BatchJobManager } from "../../../../../utils/batch-jobs"
+import type { BatchJobEvent } from "@/types"
+
+export const dynamic = "force-dynamic"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Interval for comment lines that keep reverse proxies from closing an idle stream
+const HEARTBEAT_MS = 15000
+
+// Stream batch job progress as Server-Sent Events
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  const { id } = await params
+  const job = await BatchJobManager.get(id)
+  if (!job) {
+    return NextResponse.json({ success: false, message: `Job ${id} not found` }, { status: 404 })
+  }
+
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false
+
+      const send = (event: BatchJobEvent) => {
+        if (closed) return
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`))
+      }
+
+      const unsubscribe = BatchJobManager.subscribe(id, (event) => {
+        send(event)
+        if (event.type === "status" && BatchJobManager.isFinished(event.job)) {
+          cleanup()
+        }
+      })
+
+      const heartbeat = setInterval(() => {
+        if (!closed) controller.enqueue(encoder.encode(": heartbeat\n\n"))
+      }, HEARTBEAT_MS)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        unsubscribe()
+        controller.close()
+      }
+
+      request.signal.addEventListener("abort", cleanup)
+
+      // The snapshot lets a reconnecting client (e.g. after a page reload) rebuild the full row table
+      send({ type: "snapshot", job })
+      if (BatchJobManager.isFinished(job)) {
+        cleanup()
+      }
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  })
+}
@@ -0,0 +1,45 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../../lib/delegation-errors"
+import { authorize, mailboxAccessDenied } from "../../../../../utils/authorization"
+import { BatchJobManager } from "../../../../../utils/batch-jobs"
+import { readRequestForm, resolveRequestCredential } from "../../../../../utils/request-credential"
+import { rollbackJob } from "../../../../../utils/rollback"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Undo a finished batch job as a new background job; without a credential the one the job ran with is used
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const original = await BatchJobManager.get(id)
+    const scopeDenied = original && (await mailboxAccessDenied(user, original.rows.map((row) => row.userEmail)))
+    if (scopeDenied) return scopeDenied
+
+    const formData = await readRequestForm(request)
+    const requestCredential = await resolveRequestCredential(request, formData, user)
+
+    const { job, skipped } = await rollbackJob(id, user.username, requestCredential)
+    const skippedNote = skipped.length > 0 ? `; ${skipped.length} could no longer be undone` : ""
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Rollback job queued with ${job.total} operations${skippedNote}`,
+        job: BatchJobManager.toSummary(job),
+        skipped,
+      },
+      { status: 202 },
+    )
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/jobs/[id]/rollback:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error rolling back job" }, { status: 500 })
+  }
+}
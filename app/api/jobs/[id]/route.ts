@@ -0,0 +1,49 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize, mailboxAccessDenied } from "../../../../utils/authorization"
+import { BatchJobManager } from "../../../../utils/batch-jobs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Get a batch job with the status of every row
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const job = await BatchJobManager.get(id)
+    if (!job) {
+      return NextResponse.json({ success: false, message: `Job ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, job })
+  } catch (error: any) {
+    console.error("Error in GET /api/jobs/[id]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error loading job" }, { status: 500 })
+  }
+}
+
+// Cancel a batch job; rows already in flight are allowed to finish
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const original = await BatchJobManager.get(id)
+    const scopeDenied = original && (await mailboxAccessDenied(user, BatchJobManager.unfinishedMailboxes(original)))
+    if (scopeDenied) return scopeDenied
+
+    const job = await BatchJobManager.cancel(id)
+    if (!job) {
+      return NextResponse.json({ success: false, message: `Job ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json({
+      success: true,
+      message: job.status === "cancelled" ? "Job cancelled" : "Cancellation requested",
+      job: BatchJobManager.toSummary(job),
+    })
+  } catch (error: any) {
+    console.error("Error in DELETE /api/jobs/[id]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error cancelling job" }, { status: 500 })
+  }
+}
@@ -0,0 +1,96 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../lib/delegation-errors"
+import { authorize } from "../../../utils/authorization"
+import { BatchJobManager } from "../../../utils/batch-jobs"
+import { MailboxAccess } from "../../../utils/mailbox-access"
+import { readRequestForm, resolveRequestCredential } from "../../../utils/request-credential"
+
+// List recent batch jobs
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const jobs = await BatchJobManager.list()
+    return NextResponse.json({ success: true, jobs })
+  } catch (error: any) {
+    console.error("Error in GET /api/jobs:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error listing jobs" }, { status: 500 })
+  }
+}
+
+// Submit a batch of operations to run in the background
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
+  try {
+    const formData = await readRequestForm(request)
+    const operationsJson = formData.get("operations") as string | null
+
+    if (!operationsJson) {
+      return NextResponse.json({ success: false, message: "Operations are required" }, { status: 400 })
+    }
+
+    let operations
+    try {
+      operations = JSON.parse(operationsJson)
+    } catch {
+      return NextResponse.json({ success: false, message: "Operations must be valid JSON" }, { status: 400 })
+    }
+
+    if (!Array.isArray(operations) || operations.length === 0) {
+      return NextResponse.json({ success: false, message: "Operations must be a non-empty array" }, { status: 400 })
+    }
+
+    // Rows for mailboxes outside the user's scope are rejected individually; the rest of the batch still runs
+    const outOfScope = await MailboxAccess.outOfScope(
+      user,
+      operations.filter((op: any) => op && op.operation !== "list").map((op: any) => String(op.userEmail || "")),
+    )
+
+    // Use a stored credential, an uploaded key, or the signed-in OAuth admin
+    const requestCredential = await resolveRequestCredential(request, formData, user)
+    if (!requestCredential) {
+      return NextResponse.json(
+        { success: false, message: "A service account credential or OAuth session is required" },
+        { status: 400 },
+      )
+    }
+
+    // A dry run reports what each row would do and submits nothing
+    if (formData.get("dryRun") === "true") {
+      const results = await BatchJobManager.preview(operations, requestCredential, outOfScope)
+      const applicable = results.filter((result) => result.success).length
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        message: `${applicable} of ${results.length} operations would be applied`,
+        results,
+      })
+    }
+
+    const reason = (formData.get("reason") as string | null) || undefined
+    const job = await BatchJobManager.submit(operations, requestCredential, { reason, outOfScope })
+
+    const refused = job.rows.filter((row) => row.result?.errorCode === "forbidden").length
+    const refusedNote = refused > 0 ? `; ${refused} outside your mailbox scopes were rejected` : ""
+    return NextResponse.json(
+      {
+        success: true,
+        message: `Batch job queued with ${job.total} operations${refusedNote}`,
+        job: BatchJobManager.toSummary(job),
+      },
+      { status: 202 },
+    )
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/jobs:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error submitting job" }, { status: 500 })
+  }
+}
@@ -0,0 +1,66 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { authorize } from "../../../../utils/authorization"
+import { CredentialVault } from "../../../../utils/credential-vault"
+import { DelegationPolicyStore } from "../../../../utils/delegation-policy"
+import { dryRunPolicy } from "../../../../utils/policy-dry-run"
+import type { RequestCredential } from "../../../../utils/request-credential"
+import type { PolicyCheck } from "../../../../types"
+
+// Evaluate changes against the current policy, or draft rules, without applying them
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!Array.isArray(body?.operations) || body.operations.length === 0) {
+      return NextResponse.json({ success: false, message: "operations must be a non-empty array" }, { status: 400 })
+    }
+
+    const checks: PolicyCheck[] = []
+    const problems: string[] = []
+    body.operations.forEach((op: any, index: number) => {
+      if ((op?.operation !== "add" && op?.operation !== "remove") || !op.userEmail || !op.delegateEmail) {
+        problems.push(`Operation ${index + 1}: operation must be add or remove, with userEmail and delegateEmail`)
+        return
+      }
+      checks.push({ operation: op.operation, userEmail: op.userEmail, delegateEmail: op.delegateEmail })
+    })
+    if (problems.length > 0) {
+      return NextResponse.json({ success: false, message: problems.join("; "), problems }, { status: 400 })
+    }
+
+    // Delegate limits can only be checked with a credential that can read the mailboxes
+    let requestCredential: RequestCredential | null = null
+    if (typeof body.credentialId === "string") {
+      try {
+        const serviceAccount = await CredentialVault.get(body.credentialId)
+        requestCredential = { credential: serviceAccount, actor: serviceAccount.client_email, credentialId: body.credentialId }
+      } catch (credentialError: any) {
+        return NextResponse.json({ success: false, message: credentialError.message }, { status: 400 })
+      }
+    }
+
+    const policy = Array.isArray(body.rules) ? await DelegationPolicyStore.draft(body.rules) : await DelegationPolicyStore.get()
+    const results = await dryRunPolicy(policy, checks, requestCredential)
+    const blocked = results.filter((result) => !result.evaluation.allowed).length
+
+    return NextResponse.json({
+      success: true,
+      message: `${results.length - blocked} allowed, ${blocked} blocked by policy version ${policy.version}`,
+      policyVersion: policy.version,
+      draft: Array.isArray(body.rules),
+      results,
+    })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, problems: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/policies/evaluate:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error evaluating policy" }, { status: 500 })
+  }
+}
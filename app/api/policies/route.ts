@@ -0,0 +1,47 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../lib/delegation-errors"
+import { authorize } from "../../../utils/authorization"
+import { DelegationPolicyStore } from "../../../utils/delegation-policy"
+
+// Get the current delegation policy
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const policy = await DelegationPolicyStore.get()
+    return NextResponse.json({ success: true, policy })
+  } catch (error: any) {
+    console.error("Error in GET /api/policies:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error loading policy" }, { status: 500 })
+  }
+}
+
+// Save a new version of the delegation policy
+export async function PUT(request: NextRequest) {
+  const { user, denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!Array.isArray(body?.rules)) {
+      return NextResponse.json({ success: false, message: "rules must be an array" }, { status: 400 })
+    }
+
+    const policy = await DelegationPolicyStore.save(
+      body.rules,
+      user.username,
+      typeof body.baseVersion === "number" ? body.baseVersion : undefined,
+    )
+    return NextResponse.json({ success: true, message: `Saved policy version ${policy.version}`, policy })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, problems: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in PUT /api/policies:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error saving policy" }, { status: 500 })
+  }
+}
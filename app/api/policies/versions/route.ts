@@ -0,0 +1,17 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../utils/authorization"
+import { DelegationPolicyStore } from "../../../../utils/delegation-policy"
+
+// List every saved version of the delegation policy, newest first
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const versions = await DelegationPolicyStore.versions()
+    return NextResponse.json({ success: true, versions })
+  } catch (error: any) {
+    console.error("Error in GET /api/policies/versions:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error listing policy versions" }, { status: 500 })
+  }
+}
@@ -0,0 +1,44 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { google } from "googleapis"
+import { authorize } from "../../../utils/authorization"
+import { readRequestForm, resolveRequestCredential } from "../../../utils/request-credential"
+import { runPreflight } from "../../../utils/preflight"
+
+// Validate a service account key and test domain-wide delegation against a mailbox
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const formData = await readRequestForm(request)
+    const mailbox = formData.get("mailbox") as string
+
+    if (!mailbox) {
+      return NextResponse.json({ success: false, message: "Mailbox email is required" }, { status: 400 })
+    }
+
+    const requestCredential = await resolveRequestCredential(request, formData, user)
+    if (!requestCredential || requestCredential.credential instanceof google.auth.OAuth2) {
+      return NextResponse.json(
+        { success: false, message: "A service account credential is required for the preflight check" },
+        { status: 400 },
+      )
+    }
+
+    const result = await runPreflight(requestCredential.credential, mailbox)
+
+    return NextResponse.json({
+      success: result.valid,
+      ...result,
+    })
+  } catch (error: any) {
+    console.error("Error in POST /api/preflight:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        message: error.message || "Error running preflight check",
+      },
+      { status: 500 },
+    )
+  }
+}
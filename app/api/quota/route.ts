@@ -0,0 +1,11 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../utils/authorization"
+import { QuotaTracker } from "../../../utils/gmail-retry"
+
+// Report Gmail API usage per Cloud project and impersonated user since the server started
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  return NextResponse.json({ success: true, usage: QuotaTracker.usage() })
+}
@@ -0,0 +1,85 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { authorize, mailboxAccessDenied } from "../../../../utils/authorization"
+import { ScheduledOperations } from "../../../../utils/scheduled-operations"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Helper function to turn validation and state errors into responses
+function failure(error: any, route: string, fallback: string) {
+  if (error instanceof DelegationError) {
+    return NextResponse.json(
+      { success: false, errorCode: error.code, message: error.message, problems: error.details },
+      { status: ERROR_STATUS[error.code] },
+    )
+  }
+  console.error(`Error in ${route}:`, error)
+  return NextResponse.json({ success: false, message: error.message || fallback }, { status: 500 })
+}
+
+// Get a scheduled operation, including its result once it has run
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const operation = await ScheduledOperations.get(id)
+    if (!operation) {
+      return NextResponse.json({ success: false, message: `Scheduled operation ${id} not found` }, { status: 404 })
+    }
+    return NextResponse.json({ success: true, operation })
+  } catch (error: any) {
+    return failure(error, "GET /api/scheduled-operations/[id]", "Error loading scheduled operation")
+  }
+}
+
+// Change a pending operation's time, addresses or expiry
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    if (!body) {
+      return NextResponse.json({ success: false, message: "A JSON body is required" }, { status: 400 })
+    }
+
+    // Both the mailbox it is scheduled for and any new one must be within the user's scope
+    const existing = await ScheduledOperations.get(id)
+    const mailboxes = [existing?.userEmail, body.userEmail].filter((mailbox): mailbox is string => !!mailbox)
+    const scopeDenied = await mailboxAccessDenied(user, mailboxes)
+    if (scopeDenied) return scopeDenied
+
+    const operation = await ScheduledOperations.update(id, {
+      operation: body.operation,
+      userEmail: body.userEmail,
+      delegateEmail: body.delegateEmail,
+      expiresAt: body.expiresAt,
+      runAt: body.runAt,
+      timezone: body.timezone,
+    })
+    return NextResponse.json({ success: true, message: `Rescheduled for ${operation.runAt}`, operation })
+  } catch (error: any) {
+    return failure(error, "PATCH /api/scheduled-operations/[id]", "Error updating scheduled operation")
+  }
+}
+
+// Cancel a pending operation
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const existing = await ScheduledOperations.get(id)
+    const scopeDenied = existing && (await mailboxAccessDenied(user, [existing.userEmail]))
+    if (scopeDenied) return scopeDenied
+
+    const operation = await ScheduledOperations.cancel(id)
+    return NextResponse.json({ success: true, message: "Scheduled operation cancelled", operation })
+  } catch (error: any) {
+    return failure(error, "DELETE /api/scheduled-operations/[id]", "Error cancelling scheduled operation")
+  }
+}
@@ -0,0 +1,85 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../lib/delegation-errors"
+import { authorize, mailboxAccessDenied } from "../../../utils/authorization"
+import { CredentialVault } from "../../../utils/credential-vault"
+import { ScheduledOperations } from "../../../utils/scheduled-operations"
+import type { ScheduledOperationStatus } from "../../../types"
+
+const STATUSES: ScheduledOperationStatus[] = ["pending", "running", "completed", "failed", "cancelled"]
+
+// List scheduled operations, pending ones first
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  try {
+    const status = request.nextUrl.searchParams.get("status")
+    if (status && !STATUSES.includes(status as ScheduledOperationStatus)) {
+      return NextResponse.json(
+        { success: false, message: `status must be one of ${STATUSES.join(", ")}` },
+        { status: 400 },
+      )
+    }
+
+    const operations = await ScheduledOperations.list((status as ScheduledOperationStatus) || undefined)
+    return NextResponse.json({ success: true, operations })
+  } catch (error: any) {
+    console.error("Error in GET /api/scheduled-operations:", error)
+    return NextResponse.json(
+      { success: false, message: error.message || "Error listing scheduled operations" },
+      { status: 500 },
+    )
+  }
+}
+
+// Queue an add or remove to run at a wall-clock time in a given time zone
+export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, "delegates:write")
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body.credentialId !== "string") {
+      return NextResponse.json({ success: false, message: "A stored credentialId is required" }, { status: 400 })
+    }
+
+    const scopeDenied = await mailboxAccessDenied(user, [String(body.userEmail || "")])
+    if (scopeDenied) return scopeDenied
+
+    let serviceAccount
+    try {
+      serviceAccount = await CredentialVault.get(body.credentialId)
+    } catch (credentialError: any) {
+      return NextResponse.json({ success: false, message: credentialError.message }, { status: 400 })
+    }
+
+    const scheduled = await ScheduledOperations.create(
+      {
+        operation: body.operation,
+        userEmail: body.userEmail || "",
+        delegateEmail: body.delegateEmail || "",
+        expiresAt: body.expiresAt || undefined,
+        runAt: body.runAt || "",
+        timezone: body.timezone || "UTC",
+      },
+      { credential: serviceAccount, actor: user.username, credentialId: body.credentialId, user: user.username },
+    )
+
+    return NextResponse.json(
+      { success: true, message: `Scheduled for ${scheduled.runAt}`, operation: scheduled },
+      { status: 201 },
+    )
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, problems: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/scheduled-operations:", error)
+    return NextResponse.json(
+      { success: false, message: error.message || "Error scheduling operation" },
+      { status: 500 },
+    )
+  }
+}
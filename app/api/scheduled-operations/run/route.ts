@@ -0,0 +1,26 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../../utils/authorization"
+import { ScheduledOperations } from "../../../../utils/scheduled-operations"
+
+// Run scheduled operations that are due; server.js calls this on a timer
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, "admin")
+  if (denied) return denied
+
+  try {
+    const finished = await ScheduledOperations.runDue()
+    const failed = finished.filter((operation) => operation.status === "failed").length
+
+    return NextResponse.json({
+      success: true,
+      message: finished.length > 0 ? `Ran ${finished.length} scheduled operations, ${failed} failed` : undefined,
+      operations: finished,
+    })
+  } catch (error: any) {
+    console.error("Error in POST /api/scheduled-operations/run:", error)
+    return NextResponse.json(
+      { success: false, message: error.message || "Error running scheduled operations" },
+      { status: 500 },
+    )
+  }
+}
@@ -1,23 +1,17 @@
 import { type NextRequest, NextResponse } from "next/server"
 import { google, type gmail_v1 } from "googleapis"
-import { writeFile, unlink } from "fs/promises"
-import { join } from "path"
-import { tmpdir } from "os"
-import { randomUUID } from "crypto"
-import { promises as fsPromises } from "fs"
+import { authorize } from "../../../utils/authorization"
+import { readRequestForm, resolveRequestCredential } from "../../../utils/request-credential"
 
 export async function POST(request: NextRequest) {
+  const { user, denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
   console.log("Simple list API called with POST method")
 
   try {
     // Parse the form data
-    const formData = await request.formData()
-
-    // Get the service account file
-    const serviceAccountFile = formData.get("serviceAccount") as File
-    if (!serviceAccountFile) {
-      return NextResponse.json({ success: false, message: "Service account file is required" }, { status: 400 })
-    }
+    const formData = await readRequestForm(request)
 
     // Get the user email
     const userEmail = formData.get("userEmail") as string
@@ -25,76 +19,62 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, message: "User email is required" }, { status: 400 })
     }
 
+    // Resolve a stored credential, an uploaded key, or the OAuth session
+    const requestCredential = await resolveRequestCredential(request, formData, user)
+    if (!requestCredential) {
+      return NextResponse.json({ success: false, message: "Service account file is required" }, { status: 400 })
+    }
+
     console.log("Processing request for user email:", userEmail)
 
-    // Create a temporary file for the service account
-    const tempFilePath = join(tmpdir(), `sa_${randomUUID()}.json`)
+    const { credential } = requestCredential
 
-    try {
-      // Convert the File to an ArrayBuffer and then to a Buffer
-      const arrayBuffer = await serviceAccountFile.arrayBuffer()
-      const buffer = Buffer.from(arrayBuffer)
+    // Configure Google Auth
+    const auth =
+      credential instanceof google.auth.OAuth2
+        ? credential
+        : new google.auth.JWT(
+            credential.client_email,
+            undefined,
+            credential.private_key,
+            [
+              "https://www.googleapis.com/auth/gmail.settings.sharing",
+              "https://www.googleapis.com/auth/gmail.settings.basic",
+              "https://www.googleapis.com/auth/gmail.modify",
+            ],
+            userEmail,
+          )
 
-      // Write the service account file to disk
-      await writeFile(tempFilePath, buffer)
-      console.log("Service account file saved to:", tempFilePath)
+    // Create the Gmail API client
+    const gmail: gmail_v1.Gmail = google.gmail({ version: "v1", auth })
 
-      // Read the service account file
-      const serviceAccountContent = await fsPromises.readFile(tempFilePath, "utf-8")
-      const serviceAccount = JSON.parse(serviceAccountContent)
+    // List delegates
+    console.log("Listing delegates...")
+    try {
+      const response = await gmail.users.settings.delegates.list({
+        userId: "me", // 'me' refers to the impersonated user
+      })
+
+      console.log("Delegates response:", response.data)
 
-      // Configure Google Auth
-      const auth = new google.auth.JWT(
-        serviceAccount.client_email,
-        undefined,
-        serviceAccount.private_key,
-        [
-          "https://www.googleapis.com/auth/gmail.settings.sharing",
-          "https://www.googleapis.com/auth/gmail.settings.basic",
-          "https://www.googleapis.com/auth/gmail.modify",
-        ],
+      return NextResponse.json({
+        success: true,
         userEmail,
+        operation: "list",
+        message: "Delegates retrieved successfully",
+        delegates: response.data.delegates || [],
+      })
+    } catch (gmailError: any) {
+      console.error("Gmail API error:", gmailError)
+      return NextResponse.json(
+        {
+          success: false,
+          message: gmailError.message || "Error listing delegates",
+          error: String(gmailError),
+          stack: gmailError.stack,
+        },
+        { status: 500 },
       )
-
-      // Create the Gmail API client
-      const gmail: gmail_v1.Gmail = google.gmail({ version: "v1", auth })
-
-      // List delegates
-      console.log("Listing delegates...")
-      try {
-        const response = await gmail.users.settings.delegates.list({
-          userId: "me", // 'me' refers to the impersonated user
-        })
-
-        console.log("Delegates response:", response.data)
-
-        return NextResponse.json({
-          success: true,
-          userEmail,
-          operation: "list",
-          message: "Delegates retrieved successfully",
-          delegates: response.data.delegates || [],
-        })
-      } catch (gmailError: any) {
-        console.error("Gmail API error:", gmailError)
-        return NextResponse.json(
-          {
-            success: false,
-            message: gmailError.message || "Error listing delegates",
-            error: String(gmailError),
-            stack: gmailError.stack,
-          },
-          { status: 500 },
-        )
-      }
-    } finally {
-      // Clean up the temporary file
-      try {
-        await unlink(tempFilePath)
-        console.log("Cleaned up service account file")
-      } catch (cleanupError) {
-        console.error("Error cleaning up service account file:", cleanupError)
-      }
     }
   } catch (error: any) {
     console.error("API error:", error)
@@ -111,7 +91,10 @@ export async function POST(request: NextRequest) {
 }
 
 // Also support GET requests for testing
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
   return NextResponse.json({
     success: true,
     message: "Simple list API is working. Please use POST method with service account and user email.",
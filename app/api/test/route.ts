@@ -1,6 +1,10 @@
-import { NextResponse } from "next/server"
+import { type NextRequest, NextResponse } from "next/server"
+import { authorize } from "../../../utils/authorization"
+
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
 
-export async function GET() {
   return NextResponse.json({
     success: true,
     message: "API is working correctly",
@@ -8,7 +12,10 @@ export async function GET() {
   })
 }
 
-export async function POST() {
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
   return NextResponse.json({
     success: true,
     message: "POST request received successfully",
@@ -0,0 +1,52 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
+import { authorize } from "../../../../utils/authorization"
+import { UserAccounts } from "../../../../utils/user-accounts"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Change a user's role, mailbox scopes, password, or disable the account
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "admin", { sessionOnly: true })
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    const body = await request.json().catch(() => null)
+    if (!body) {
+      return NextResponse.json({ success: false, message: "A JSON body is required" }, { status: 400 })
+    }
+    const user = await UserAccounts.update(id, body)
+    return NextResponse.json({ success: true, message: `Updated user ${user.username}`, user })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, details: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in PATCH /api/users/[id]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error updating user" }, { status: 500 })
+  }
+}
+
+// Delete a user account and end its sessions
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const { denied } = await authorize(request, "admin", { sessionOnly: true })
+  if (denied) return denied
+
+  try {
+    const { id } = await params
+    await UserAccounts.remove(id)
+    return NextResponse.json({ success: true, message: "User deleted" })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in DELETE /api/users/[id]:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error deleting user" }, { status: 500 })
+  }
+}
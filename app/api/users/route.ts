@@ -0,0 +1,42 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { DelegationError, ERROR_STATUS } from "../../../lib/delegation-errors"
+import { authorize } from "../../../utils/authorization"
+import { UserAccounts } from "../../../utils/user-accounts"
+
+// List user accounts
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "admin", { sessionOnly: true })
+  if (denied) return denied
+
+  try {
+    const users = await UserAccounts.list()
+    return NextResponse.json({ success: true, users })
+  } catch (error: any) {
+    console.error("Error in GET /api/users:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error listing users" }, { status: 500 })
+  }
+}
+
+// Create a user account
+export async function POST(request: NextRequest) {
+  const { denied } = await authorize(request, "admin", { sessionOnly: true })
+  if (denied) return denied
+
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body) {
+      return NextResponse.json({ success: false, message: "A JSON body is required" }, { status: 400 })
+    }
+    const user = await UserAccounts.create(body)
+    return NextResponse.json({ success: true, message: `Created user ${user.username}`, user }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof DelegationError) {
+      return NextResponse.json(
+        { success: false, errorCode: error.code, message: error.message, details: error.details },
+        { status: ERROR_STATUS[error.code] },
+      )
+    }
+    console.error("Error in POST /api/users:", error)
+    return NextResponse.json({ success: false, message: error.message || "Error creating user" }, { status: 500 })
+  }
+}
@@ -0,0 +1,35 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { accessScanBodySchema } from "../../../../../lib/api-schemas"
+import { DelegationError } from "../../../../../lib/delegation-errors"
+import { mailAccessCsv } from "../../../../../lib/mail-access"
+import { hasPermission } from "../../../../../lib/permissions"
+import { ACCESS_CHECK } from "../../../../../utils/access-audit"
+import { errorResponse, parseJsonBody, requireCredential, respond, toAccessScan } from "../../../../../utils/api-v2"
+import { requireUser } from "../../../../../utils/authorization"
+import { MailboxScan } from "../../../../../utils/mailbox-scan"
+
+// Scan mailboxes, or the whole domain, for IMAP and POP access; format=csv downloads the table
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { mailboxes, credentialId, format } = await parseJsonBody(request, accessScanBodySchema)
+    if (!mailboxes && !hasPermission(user, "admin")) {
+      throw new DelegationError("forbidden", "Only admins can scan every mailbox of the domain; list the mailboxes")
+    }
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const scan = toAccessScan(await MailboxScan.scan(requestCredential, mailboxes, ACCESS_CHECK))
+    if (format === "csv") {
+      const filename = `mail-access-${new Date().toISOString().slice(0, 10)}.csv`
+      return new NextResponse(mailAccessCsv(scan.mailboxes), {
+        headers: {
+          "Content-Type": "text/csv; charset=utf-8",
+          "Content-Disposition": `attachment; filename="${filename}"`,
+        },
+      })
+    }
+    return respond(scan)
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/access/scan")
+  }
+}
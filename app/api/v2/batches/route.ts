@@ -0,0 +1,46 @@
+import type { NextRequest } from "next/server"
+import { createBatchBodySchema } from "../../../../lib/api-schemas"
+import {
+  errorResponse,
+  parseJsonBody,
+  requireCredential,
+  respond,
+  toBatchPreview,
+  toJob,
+} from "../../../../utils/api-v2"
+import { requireUser } from "../../../../utils/authorization"
+import { BatchJobManager } from "../../../../utils/batch-jobs"
+import { MailboxAccess } from "../../../../utils/mailbox-access"
+
+// Submit a batch of operations to run as a background job, or preview it
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const body = await parseJsonBody(request, createBatchBodySchema)
+    // Batch rows carry a send-as address in the same field as a delegate
+    const operations = body.operations.map((operation) => ({
+      operation: operation.operation,
+      userEmail: operation.mailbox,
+      delegateEmail: operation.sendAsEmail || operation.delegateEmail,
+      expiresAt: operation.expiresAt,
+      displayName: operation.displayName,
+      vacation: operation.vacation,
+    }))
+
+    // Rows for mailboxes outside the user's scope are rejected individually; the rest of the batch still runs
+    const outOfScope = await MailboxAccess.outOfScope(
+      user,
+      operations.filter((operation) => operation.operation !== "list").map((operation) => operation.userEmail),
+    )
+
+    const requestCredential = await requireCredential(request, user, body.credentialId)
+    if (body.dryRun) {
+      return respond(toBatchPreview(await BatchJobManager.preview(operations, requestCredential, outOfScope)))
+    }
+
+    const job = await BatchJobManager.submit(operations, requestCredential, { reason: body.reason, outOfScope })
+    return respond(toJob(job), 202, { Location: `/api/v2/jobs/${job.id}` })
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/batches")
+  }
+}
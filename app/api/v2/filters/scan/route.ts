@@ -0,0 +1,24 @@
+import type { NextRequest } from "next/server"
+import { filterScanBodySchema } from "../../../../../lib/api-schemas"
+import { DelegationError } from "../../../../../lib/delegation-errors"
+import { hasPermission } from "../../../../../lib/permissions"
+import { errorResponse, parseJsonBody, requireCredential, respond, toFilterScan } from "../../../../../utils/api-v2"
+import { requireUser } from "../../../../../utils/authorization"
+import { FILTER_CHECK } from "../../../../../utils/filter-audit"
+import { MailboxScan } from "../../../../../utils/mailbox-scan"
+
+// Scan mailboxes, or the whole domain, for filters that forward mail outside the organisation
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { mailboxes, credentialId } = await parseJsonBody(request, filterScanBodySchema)
+    if (!mailboxes && !hasPermission(user, "admin")) {
+      throw new DelegationError("forbidden", "Only admins can scan every mailbox of the domain; list the mailboxes")
+    }
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(toFilterScan(await MailboxScan.scan(requestCredential, mailboxes, FILTER_CHECK)))
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/filters/scan")
+  }
+}
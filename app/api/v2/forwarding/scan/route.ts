@@ -0,0 +1,30 @@
+import type { NextRequest } from "next/server"
+import { forwardingScanBodySchema } from "../../../../../lib/api-schemas"
+import { DelegationError } from "../../../../../lib/delegation-errors"
+import { hasPermission } from "../../../../../lib/permissions"
+import {
+  errorResponse,
+  parseJsonBody,
+  requireCredential,
+  respond,
+  toForwardingScan,
+} from "../../../../../utils/api-v2"
+import { requireUser } from "../../../../../utils/authorization"
+import { FORWARDING_CHECK } from "../../../../../utils/forwarding-audit"
+import { MailboxScan } from "../../../../../utils/mailbox-scan"
+
+// Scan mailboxes, or the whole domain, for auto-forwarding that sends mail outside the organisation
+export async function POST(request: NextRequest) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { mailboxes, credentialId } = await parseJsonBody(request, forwardingScanBodySchema)
+    if (!mailboxes && !hasPermission(user, "admin")) {
+      throw new DelegationError("forbidden", "Only admins can scan every mailbox of the domain; list the mailboxes")
+    }
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(toForwardingScan(await MailboxScan.scan(requestCredential, mailboxes, FORWARDING_CHECK)))
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/forwarding/scan")
+  }
+}
@@ -0,0 +1,44 @@
+import type { NextRequest } from "next/server"
+import { jobParamsSchema } from "../../../../../lib/api-schemas"
+import { DelegationError } from "../../../../../lib/delegation-errors"
+import { errorResponse, parseInput, respond, toJob } from "../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../utils/authorization"
+import { BatchJobManager } from "../../../../../utils/batch-jobs"
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// Get a batch job with the status of every operation
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    await requireUser(request, "delegates:read")
+    const { id } = parseInput(jobParamsSchema, await params, "path")
+
+    const job = await BatchJobManager.get(id)
+    if (!job) {
+      throw new DelegationError("not_found", `Job ${id} not found`)
+    }
+    return respond(toJob(job))
+  } catch (error) {
+    return errorResponse(error, "GET /api/v2/jobs/[id]")
+  }
+}
+
+// Cancel a batch job; operations already in flight are allowed to finish
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { id } = parseInput(jobParamsSchema, await params, "path")
+
+    const original = await BatchJobManager.get(id)
+    if (original) {
+      await requireMailboxAccess(user, BatchJobManager.unfinishedMailboxes(original))
+    }
+    const job = await BatchJobManager.cancel(id)
+    if (!job) {
+      throw new DelegationError("not_found", `Job ${id} not found`)
+    }
+    return respond(toJob(job))
+  } catch (error) {
+    return errorResponse(error, "DELETE /api/v2/jobs/[id]")
+  }
+}
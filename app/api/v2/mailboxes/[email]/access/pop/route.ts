@@ -0,0 +1,30 @@
+import type { NextRequest } from "next/server"
+import { mailboxParamsSchema, updatePopBodySchema } from "../../../../../../../lib/api-schemas"
+import {
+  changeMailAccess,
+  errorResponse,
+  parseInput,
+  parseJsonBody,
+  requireCredential,
+  respond,
+} from "../../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string }> }
+
+// Turn POP off or choose which mail it downloads, or report what doing so would change
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { credentialId, dryRun, ...pop } = await parseJsonBody(request, updatePopBodySchema)
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(await changeMailAccess("pop-update", email, requestCredential, { pop, dryRun }))
+  } catch (error) {
+    return errorResponse(error, "PUT /api/v2/mailboxes/[email]/access/pop")
+  }
+}
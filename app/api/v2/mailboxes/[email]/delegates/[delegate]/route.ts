@@ -0,0 +1,58 @@
+import type { NextRequest } from "next/server"
+import {
+  credentialQuerySchema,
+  delegateParamsSchema,
+  removeDelegateQuerySchema,
+} from "../../../../../../../lib/api-schemas"
+import { DelegationError } from "../../../../../../../lib/delegation-errors"
+import {
+  changeDelegate,
+  errorResponse,
+  listMailboxDelegates,
+  parseInput,
+  requireCredential,
+  respond,
+} from "../../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string; delegate: string }> }
+
+// Get one delegate of a mailbox
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { email, delegate } = parseInput(delegateParamsSchema, await params, "path")
+    const { credentialId } = parseInput(credentialQuerySchema, request.nextUrl.searchParams, "query")
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { delegates } = await listMailboxDelegates(email, requestCredential)
+    const found = delegates.find((candidate) => candidate.delegateEmail === delegate)
+    if (!found) {
+      throw new DelegationError("not_found", `${delegate} is not a delegate of ${email}`)
+    }
+    return respond(found)
+  } catch (error) {
+    return errorResponse(error, "GET /api/v2/mailboxes/[email]/delegates/[delegate]")
+  }
+}
+
+// Remove a delegate, or report what removing it would do
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email, delegate } = parseInput(delegateParamsSchema, await params, "path")
+    const query = parseInput(removeDelegateQuerySchema, request.nextUrl.searchParams, "query")
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, query.credentialId)
+    const { status, data } = await changeDelegate("remove", email, delegate, requestCredential, {
+      reason: query.reason,
+      dryRun: query.dryRun,
+    })
+    return respond(data, status)
+  } catch (error) {
+    return errorResponse(error, "DELETE /api/v2/mailboxes/[email]/delegates/[delegate]")
+  }
+}
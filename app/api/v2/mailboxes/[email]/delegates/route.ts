@@ -0,0 +1,52 @@
+import type { NextRequest } from "next/server"
+import { addDelegateBodySchema, credentialQuerySchema, mailboxParamsSchema } from "../../../../../../lib/api-schemas"
+import {
+  changeDelegate,
+  errorResponse,
+  listMailboxDelegates,
+  parseInput,
+  parseJsonBody,
+  requireCredential,
+  respond,
+} from "../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string }> }
+
+// List a mailbox's delegates, with the expiry of time-bound ones
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { credentialId } = parseInput(credentialQuerySchema, request.nextUrl.searchParams, "query")
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(await listMailboxDelegates(email, requestCredential))
+  } catch (error) {
+    return errorResponse(error, "GET /api/v2/mailboxes/[email]/delegates")
+  }
+}
+
+// Add a delegate, or report what adding it would do
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const body = await parseJsonBody(request, addDelegateBodySchema)
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, body.credentialId)
+    const { status, data } = await changeDelegate("add", email, body.delegateEmail, requestCredential, {
+      expiresAt: body.expiresAt,
+      reason: body.reason,
+      dryRun: body.dryRun,
+    })
+
+    const location = `${request.nextUrl.pathname}/${encodeURIComponent(body.delegateEmail)}`
+    return respond(data, status, status === 201 ? { Location: location } : undefined)
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/mailboxes/[email]/delegates")
+  }
+}
@@ -0,0 +1,24 @@
+import type { NextRequest } from "next/server"
+import { dryRunQuerySchema, filterParamsSchema } from "../../../../../../../lib/api-schemas"
+import { changeFilter, errorResponse, parseInput, requireCredential, respond } from "../../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string; id: string }> }
+
+// Delete a filter, or report what deleting it would do
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email, id } = parseInput(filterParamsSchema, await params, "path")
+    const { credentialId, dryRun } = parseInput(dryRunQuerySchema, request.nextUrl.searchParams, "query")
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { status, data } = await changeFilter("filter-delete", email, requestCredential, { filterId: id, dryRun })
+    return respond(data, status)
+  } catch (error) {
+    return errorResponse(error, "DELETE /api/v2/mailboxes/[email]/filters/[id]")
+  }
+}
@@ -0,0 +1,26 @@
+import type { NextRequest } from "next/server"
+import { credentialQuerySchema, mailboxParamsSchema } from "../../../../../../../lib/api-schemas"
+import {
+  errorResponse,
+  exportMailboxFilters,
+  parseInput,
+  requireCredential,
+  respond,
+} from "../../../../../../../utils/api-v2"
+import { requireUser } from "../../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string }> }
+
+// Export a mailbox's filters as a set that can be imported into other mailboxes
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { credentialId } = parseInput(credentialQuerySchema, request.nextUrl.searchParams, "query")
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(await exportMailboxFilters(email, requestCredential))
+  } catch (error) {
+    return errorResponse(error, "GET /api/v2/mailboxes/[email]/filters/export")
+  }
+}
@@ -0,0 +1,30 @@
+import type { NextRequest } from "next/server"
+import { importFiltersBodySchema, mailboxParamsSchema } from "../../../../../../../lib/api-schemas"
+import {
+  errorResponse,
+  importMailboxFilters,
+  parseInput,
+  parseJsonBody,
+  requireCredential,
+  respond,
+} from "../../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string }> }
+
+// Create the filters of an exported set that the mailbox does not already have, or report which would be created
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { filters, credentialId, dryRun } = await parseJsonBody(request, importFiltersBodySchema)
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(await importMailboxFilters(email, filters, requestCredential, { dryRun }))
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/mailboxes/[email]/filters/import")
+  }
+}
@@ -0,0 +1,51 @@
+import type { NextRequest } from "next/server"
+import { createFilterBodySchema, credentialQuerySchema, mailboxParamsSchema } from "../../../../../../lib/api-schemas"
+import {
+  changeFilter,
+  errorResponse,
+  listMailboxFilters,
+  parseInput,
+  parseJsonBody,
+  requireCredential,
+  respond,
+} from "../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string }> }
+
+// List a mailbox's filters, each described in words
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { credentialId } = parseInput(credentialQuerySchema, request.nextUrl.searchParams, "query")
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(await listMailboxFilters(email, requestCredential))
+  } catch (error) {
+    return errorResponse(error, "GET /api/v2/mailboxes/[email]/filters")
+  }
+}
+
+// Create a filter, or report what creating it would do
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { criteria, action, credentialId, dryRun } = await parseJsonBody(request, createFilterBodySchema)
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { status, data } = await changeFilter("filter-create", email, requestCredential, {
+      filter: { criteria, action },
+      dryRun,
+    })
+
+    const location = data.filter?.id && `${request.nextUrl.pathname}/${encodeURIComponent(data.filter.id)}`
+    return respond(data, status, status === 201 && location ? { Location: location } : undefined)
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/mailboxes/[email]/filters")
+  }
+}
@@ -0,0 +1,30 @@
+import type { NextRequest } from "next/server"
+import { dryRunQuerySchema, forwardingParamsSchema } from "../../../../../../../../lib/api-schemas"
+import {
+  changeForwarding,
+  errorResponse,
+  parseInput,
+  requireCredential,
+  respond,
+} from "../../../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string; address: string }> }
+
+// Remove a forwarding address, or report what removing it would do
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email, address } = parseInput(forwardingParamsSchema, await params, "path")
+    const { credentialId, dryRun } = parseInput(dryRunQuerySchema, request.nextUrl.searchParams, "query")
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { status, data } = await changeForwarding("forwarding-remove", email, address, requestCredential, { dryRun })
+    return respond(data, status)
+  } catch (error) {
+    return errorResponse(error, "DELETE /api/v2/mailboxes/[email]/forwarding/addresses/[address]")
+  }
+}
@@ -0,0 +1,35 @@
+import type { NextRequest } from "next/server"
+import { addForwardingAddressBodySchema, mailboxParamsSchema } from "../../../../../../../lib/api-schemas"
+import {
+  changeForwarding,
+  errorResponse,
+  parseInput,
+  parseJsonBody,
+  requireCredential,
+  respond,
+} from "../../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string }> }
+
+// Add a forwarding address, or report what adding it would do
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { forwardingEmail, credentialId, dryRun } = await parseJsonBody(request, addForwardingAddressBodySchema)
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { status, data } = await changeForwarding("forwarding-add", email, forwardingEmail, requestCredential, {
+      dryRun,
+    })
+
+    const location = `${request.nextUrl.pathname}/${encodeURIComponent(forwardingEmail)}`
+    return respond(data, status, status === 201 ? { Location: location } : undefined)
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/mailboxes/[email]/forwarding/addresses")
+  }
+}
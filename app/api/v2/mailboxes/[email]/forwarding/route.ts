@@ -0,0 +1,53 @@
+import type { NextRequest } from "next/server"
+import {
+  credentialQuerySchema,
+  mailboxParamsSchema,
+  updateAutoForwardingBodySchema,
+} from "../../../../../../lib/api-schemas"
+import {
+  changeForwarding,
+  errorResponse,
+  parseInput,
+  parseJsonBody,
+  readMailboxForwarding,
+  requireCredential,
+  respond,
+} from "../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string }> }
+
+// Get a mailbox's forwarding addresses and auto-forwarding, flagged when mail leaves the organisation
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { credentialId } = parseInput(credentialQuerySchema, request.nextUrl.searchParams, "query")
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(await readMailboxForwarding(email, requestCredential))
+  } catch (error) {
+    return errorResponse(error, "GET /api/v2/mailboxes/[email]/forwarding")
+  }
+}
+
+// Turn auto-forwarding on or off, or report what changing it would do
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { credentialId, dryRun, ...autoForwarding } = await parseJsonBody(request, updateAutoForwardingBodySchema)
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { status, data } = await changeForwarding("forwarding-update", email, undefined, requestCredential, {
+      autoForwarding,
+      dryRun,
+    })
+    return respond(data, status)
+  } catch (error) {
+    return errorResponse(error, "PUT /api/v2/mailboxes/[email]/forwarding")
+  }
+}
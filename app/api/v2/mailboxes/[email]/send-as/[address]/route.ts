@@ -0,0 +1,75 @@
+import type { NextRequest } from "next/server"
+import {
+  credentialQuerySchema,
+  dryRunQuerySchema,
+  sendAsParamsSchema,
+  updateSendAsBodySchema,
+} from "../../../../../../../lib/api-schemas"
+import { DelegationError } from "../../../../../../../lib/delegation-errors"
+import {
+  changeSendAs,
+  errorResponse,
+  listMailboxSendAs,
+  parseInput,
+  parseJsonBody,
+  requireCredential,
+  respond,
+} from "../../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string; address: string }> }
+
+// Get one send-as alias of a mailbox
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { email, address } = parseInput(sendAsParamsSchema, await params, "path")
+    const { credentialId } = parseInput(credentialQuerySchema, request.nextUrl.searchParams, "query")
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { sendAs } = await listMailboxSendAs(email, requestCredential)
+    const found = sendAs.find((alias) => alias.sendAsEmail.toLowerCase() === address)
+    if (!found) {
+      throw new DelegationError("not_found", `${address} is not a send-as address of ${email}`)
+    }
+    return respond(found)
+  } catch (error) {
+    return errorResponse(error, "GET /api/v2/mailboxes/[email]/send-as/[address]")
+  }
+}
+
+// Change the display name, reply-to address, signature or default flag of a send-as alias
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email, address } = parseInput(sendAsParamsSchema, await params, "path")
+    const { credentialId, ...settings } = await parseJsonBody(request, updateSendAsBodySchema)
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { status, data } = await changeSendAs("sendas-update", email, address, requestCredential, { settings })
+    return respond(data, status)
+  } catch (error) {
+    return errorResponse(error, "PATCH /api/v2/mailboxes/[email]/send-as/[address]")
+  }
+}
+
+// Remove a send-as alias, or report what removing it would do
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email, address } = parseInput(sendAsParamsSchema, await params, "path")
+    const { credentialId, dryRun } = parseInput(dryRunQuerySchema, request.nextUrl.searchParams, "query")
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { status, data } = await changeSendAs("sendas-remove", email, address, requestCredential, { dryRun })
+    return respond(data, status)
+  } catch (error) {
+    return errorResponse(error, "DELETE /api/v2/mailboxes/[email]/send-as/[address]")
+  }
+}
@@ -0,0 +1,29 @@
+import type { NextRequest } from "next/server"
+import { credentialQuerySchema, sendAsParamsSchema } from "../../../../../../../../lib/api-schemas"
+import { errorResponse, parseInput, requireCredential, respond } from "../../../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../../../utils/authorization"
+import { connectGmailClient, verifySendAs } from "../../../../../../../../utils/gmail-integration"
+
+type RouteContext = { params: Promise<{ email: string; address: string }> }
+
+// Send the verification email for a pending send-as alias again
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email, address } = parseInput(sendAsParamsSchema, await params, "path")
+    const { credentialId } = parseInput(credentialQuerySchema, request.nextUrl.searchParams, "query")
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const gmail = await connectGmailClient(requestCredential.credential, email)
+    await verifySendAs(gmail, address)
+    return respond(
+      { mailbox: email, sendAsEmail: address, message: `A verification email was sent to ${address}` },
+      202,
+    )
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/mailboxes/[email]/send-as/[address]/verify")
+  }
+}
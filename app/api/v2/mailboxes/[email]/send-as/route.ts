@@ -0,0 +1,51 @@
+import type { NextRequest } from "next/server"
+import { createSendAsBodySchema, credentialQuerySchema, mailboxParamsSchema } from "../../../../../../lib/api-schemas"
+import {
+  changeSendAs,
+  errorResponse,
+  listMailboxSendAs,
+  parseInput,
+  parseJsonBody,
+  requireCredential,
+  respond,
+} from "../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string }> }
+
+// List a mailbox's send-as aliases, including its primary address
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { credentialId } = parseInput(credentialQuerySchema, request.nextUrl.searchParams, "query")
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(await listMailboxSendAs(email, requestCredential))
+  } catch (error) {
+    return errorResponse(error, "GET /api/v2/mailboxes/[email]/send-as")
+  }
+}
+
+// Add a send-as alias, or report what adding it would do
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { sendAsEmail, credentialId, dryRun, ...settings } = await parseJsonBody(request, createSendAsBodySchema)
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const { status, data } = await changeSendAs("sendas-add", email, sendAsEmail, requestCredential, {
+      settings,
+      dryRun,
+    })
+
+    const location = `${request.nextUrl.pathname}/${encodeURIComponent(sendAsEmail)}`
+    return respond(data, status, status === 201 ? { Location: location } : undefined)
+  } catch (error) {
+    return errorResponse(error, "POST /api/v2/mailboxes/[email]/send-as")
+  }
+}
@@ -0,0 +1,52 @@
+import type { NextRequest } from "next/server"
+import { credentialQuerySchema, mailboxParamsSchema, updateVacationBodySchema } from "../../../../../../lib/api-schemas"
+import {
+  changeVacation,
+  errorResponse,
+  parseInput,
+  parseJsonBody,
+  readMailboxVacation,
+  requireCredential,
+  respond,
+} from "../../../../../../utils/api-v2"
+import { requireMailboxAccess, requireUser } from "../../../../../../utils/authorization"
+
+type RouteContext = { params: Promise<{ email: string }> }
+
+// Get a mailbox's vacation responder
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:read")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { credentialId } = parseInput(credentialQuerySchema, request.nextUrl.searchParams, "query")
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    return respond(await readMailboxVacation(email, requestCredential))
+  } catch (error) {
+    return errorResponse(error, "GET /api/v2/mailboxes/[email]/vacation")
+  }
+}
+
+// Turn the vacation responder on with the given text, or off, or report what doing so would change
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  try {
+    const user = await requireUser(request, "delegates:write")
+    const { email } = parseInput(mailboxParamsSchema, await params, "path")
+    const { credentialId, dryRun, enableAutoReply, ...vacation } = await parseJsonBody(
+      request,
+      updateVacationBodySchema,
+    )
+
+    // Operators may only change the mailboxes assigned to them
+    await requireMailboxAccess(user, [email])
+
+    const requestCredential = await requireCredential(request, user, credentialId)
+    const data = await changeVacation(enableAutoReply ? "vacation-on" : "vacation-off", email, requestCredential, {
+      vacation,
+      dryRun,
+    })
+    return respond(data)
+  } catch (error) {
+    return errorResponse(error, "PUT /api/v2/mailboxes/[email]/vacation")
+  }
+}
@@ -0,0 +1,11 @@
+import { type NextRequest, NextResponse } from "next/server"
+import { buildOpenApiDocument } from "../../../../lib/openapi"
+import { authorize } from "../../../../utils/authorization"
+
+// Serve the OpenAPI document of the v2 API, generated from the schemas the routes validate with
+export async function GET(request: NextRequest) {
+  const { denied } = await authorize(request, "delegates:read")
+  if (denied) return denied
+
+  return NextResponse.json(buildOpenApiDocument(`${request.nextUrl.origin}/api/v2`))
+}
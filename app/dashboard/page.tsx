@@ -0,0 +1,41 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import Link from "next/link"
+import { ThemeProvider } from "next-themes"
+import RequireUser, { UserMenu } from "../../components/current-user"
+import Dashboard from "../../components/dashboard"
+
+export default function DashboardPage() {
+  const [mounted, setMounted] = useState(false)
+
+  // Ensure theme is only applied after mounting to prevent hydration mismatch
+  useEffect(() => {
+    setMounted(true)
+  }, [])
+
+  if (!mounted) {
+    return null
+  }
+
+  return (
+    <ThemeProvider attribute="class" defaultTheme="light">
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto space-y-4">
+          <RequireUser>
+            <header className="flex items-center justify-between p-4 border-b">
+              <h1 className="text-2xl font-bold">DelegateEase Dashboard</h1>
+              <nav className="flex items-center gap-4">
+                <Link href="/" className="text-sm font-medium hover:underline">
+                  Manage Delegates
+                </Link>
+                <UserMenu />
+              </nav>
+            </header>
+            <Dashboard />
+          </RequireUser>
+        </div>
+      </div>
+    </ThemeProvider>
+  )
+}
@@ -1,7 +1,9 @@
 "use client"
 
 import { useState, useEffect } from "react"
+import Link from "next/link"
 import { ThemeProvider } from "next-themes"
+import RequireUser, { UserMenu } from "../components/current-user"
 import DelegateEaseApp from "../components/delegate-ease-app"
 
 export default function Home() {
@@ -20,13 +22,18 @@ export default function Home() {
     <ThemeProvider attribute="class" defaultTheme="light">
       <div className="container mx-auto px-4 py-8">
         <div className="max-w-4xl mx-auto">
-          <header className="flex items-center justify-between p-4 border-b">
-            <h1 className="text-2xl font-bold">DelegateEase</h1>
-            <nav className="flex gap-4">
-              {/* Add any necessary navigation links here */}
-            </nav>
-          </header>
-          <DelegateEaseApp />
+          <RequireUser>
+            <header className="flex items-center justify-between p-4 border-b">
+              <h1 className="text-2xl font-bold">DelegateEase</h1>
+              <nav className="flex items-center gap-4">
+                <Link href="/dashboard" className="text-sm font-medium hover:underline">
+                  Dashboard
+                </Link>
+                <UserMenu />
+              </nav>
+            </header>
+            <DelegateEaseApp />
+          </RequireUser>
         </div>
       </div>
     </ThemeProvider>
@@ -2,67 +2,87 @@
 
 import { useState, useEffect } from "react"
 import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
 import { ScrollArea } from "@/components/ui/scroll-area"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { toast } from "@/components/ui/use-toast"
+import type { ActivityEntry, ActivityPage } from "@/types"
 
-interface ActivityItem {
-  id: string
-  timestamp: string
-  operation: "add" | "remove" | "list"
-  userEmail: string
-  delegateEmail?: string
-  status: "success" | "error"
-}
+const PAGE_SIZE = 20
 
 export default function ActivityLog() {
-  const [activities, setActivities] = useState<ActivityItem[]>([])
+  const [activities, setActivities] = useState<ActivityEntry[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [page, setPage] = useState(1)
+  const [total, setTotal] = useState(0)
+  const [operationFilter, setOperationFilter] = useState("all")
+  const [statusFilter, setStatusFilter] = useState("all")
+  const [mailboxFilter, setMailboxFilter] = useState("")
+  const [reloadKey, setReloadKey] = useState(0)
+  const [undoingId, setUndoingId] = useState<string | null>(null)
 
-  // Simulate loading data
   useEffect(() => {
-    setTimeout(() => {
-      setActivities([
-        {
-          id: "1",
-          timestamp: new Date(Date.now() - 1000 * 60 * 5).toISOString(),
-          operation: "add",
-          userEmail: "shared@example.com",
-          delegateEmail: "user1@example.com",
-          status: "success",
-        },
-        {
-          id: "2",
-          timestamp: new Date(Date.now() - 1000 * 60 * 10).toISOString(),
-          operation: "remove",
-          userEmail: "shared@example.com",
-          delegateEmail: "user2@example.com",
-          status: "success",
-        },
-        {
-          id: "3",
-          timestamp: new Date(Date.now() - 1000 * 60 * 15).toISOString(),
-          operation: "list",
-          userEmail: "shared@example.com",
-          status: "success",
-        },
-        {
-          id: "4",
-          timestamp: new Date(Date.now() - 1000 * 60 * 20).toISOString(),
-          operation: "add",
-          userEmail: "shared@example.com",
-          delegateEmail: "user3@example.com",
-          status: "error",
-        },
-      ])
-      setIsLoading(false)
-    }, 1000)
-  }, [])
+    const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) })
+    if (operationFilter !== "all") params.set("operation", operationFilter)
+    if (statusFilter !== "all") params.set("status", statusFilter)
+    if (mailboxFilter) params.set("userEmail", mailboxFilter)
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    setError(null)
+
+    fetch(`/api/activity?${params.toString()}`, { signal: controller.signal })
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) {
+          throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+        }
+        const activityPage = data as ActivityPage
+        setActivities(activityPage.entries)
+        setTotal(activityPage.total)
+        setIsLoading(false)
+      })
+      .catch((err: any) => {
+        if (err.name === "AbortError") return
+        console.error("Error loading activity log:", err)
+        setError(err.message || "Failed to load activity")
+        setIsLoading(false)
+      })
+
+    return () => controller.abort()
+  }, [page, operationFilter, statusFilter, mailboxFilter, reloadKey])
+
+  // Undo an add or remove with the signed-in session or the credential the change was made with
+  const handleUndo = async (activity: ActivityEntry) => {
+    try {
+      setUndoingId(activity.id)
+      const response = await fetch(`/api/activity/${activity.id}/rollback`, { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      const pending = data.errorCode === "pending_approval"
+      toast({ title: pending ? "Rollback waiting for approval" : "Change rolled back", description: data.message })
+      setReloadKey((key) => key + 1)
+    } catch (err: any) {
+      toast({
+        title: "Rollback failed",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setUndoingId(null)
+    }
+  }
 
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp)
-    return date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+    return date.toLocaleString([], { dateStyle: "short", timeStyle: "short" })
   }
 
-  const getOperationText = (activity: ActivityItem) => {
+  const getOperationText = (activity: ActivityEntry) => {
     switch (activity.operation) {
       case "add":
         return `Added ${activity.delegateEmail} to ${activity.userEmail}`
@@ -70,43 +90,183 @@ export default function ActivityLog() {
         return `Removed ${activity.delegateEmail} from ${activity.userEmail}`
       case "list":
         return `Listed delegates for ${activity.userEmail}`
+      case "sendas-add":
+        return `Added send-as address ${activity.delegateEmail} to ${activity.userEmail}`
+      case "sendas-update":
+        return `Updated send-as address ${activity.delegateEmail} on ${activity.userEmail}`
+      case "sendas-remove":
+        return `Removed send-as address ${activity.delegateEmail} from ${activity.userEmail}`
+      case "forwarding-list":
+        return `Read forwarding settings of ${activity.userEmail}`
+      case "forwarding-add":
+        return `Added forwarding address ${activity.delegateEmail} to ${activity.userEmail}`
+      case "forwarding-remove":
+        return `Removed forwarding address ${activity.delegateEmail} from ${activity.userEmail}`
+      case "forwarding-update":
+        return activity.delegateEmail
+          ? `Turned on auto-forwarding from ${activity.userEmail} to ${activity.delegateEmail}`
+          : `Turned off auto-forwarding for ${activity.userEmail}`
+      case "vacation-get":
+        return `Read vacation responder of ${activity.userEmail}`
+      case "vacation-on":
+        return `Turned on vacation responder for ${activity.userEmail}`
+      case "vacation-off":
+        return `Turned off vacation responder for ${activity.userEmail}`
+      case "filter-list":
+        return `Listed filters of ${activity.userEmail}`
+      case "filter-create":
+        return `Created a filter on ${activity.userEmail}`
+      case "filter-delete":
+        return `Deleted a filter from ${activity.userEmail}`
+      case "filter-import":
+        return `Imported filters into ${activity.userEmail}`
+      case "access-get":
+        return `Read IMAP and POP settings of ${activity.userEmail}`
+      case "imap-update":
+        return `Changed IMAP settings of ${activity.userEmail}`
+      case "pop-update":
+        return `Changed POP settings of ${activity.userEmail}`
+      case "imap-disable":
+        return `Turned off IMAP for ${activity.userEmail}`
+      case "pop-disable":
+        return `Turned off POP for ${activity.userEmail}`
     }
   }
 
-  if (isLoading) {
-    return (
-      <div className="space-y-4">
-        <div className="animate-pulse h-12 bg-muted rounded"></div>
-        <div className="animate-pulse h-12 bg-muted rounded"></div>
-        <div className="animate-pulse h-12 bg-muted rounded"></div>
-      </div>
-    )
-  }
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE))
 
   return (
-    <ScrollArea className="h-[300px]">
-      <div className="space-y-4">
-        {activities.map((activity) => (
-          <div key={activity.id} className="flex items-center justify-between p-3 border rounded-md">
-            <div className="flex items-center space-x-3">
-              <div
-                className={`w-2 h-2 rounded-full ${activity.status === "success" ? "bg-green-500" : "bg-red-500"}`}
-              ></div>
-              <div>
-                <p className="text-sm font-medium">{getOperationText(activity)}</p>
-                <p className="text-xs text-muted-foreground">{formatTime(activity.timestamp)}</p>
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          placeholder="Filter by mailbox..."
+          value={mailboxFilter}
+          onChange={(e) => {
+            setMailboxFilter(e.target.value)
+            setPage(1)
+          }}
+        />
+        <Select
+          value={operationFilter}
+          onValueChange={(value) => {
+            setOperationFilter(value)
+            setPage(1)
+          }}
+        >
+          <SelectTrigger className="sm:w-[160px]">
+            <SelectValue placeholder="Operation" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All operations</SelectItem>
+            <SelectItem value="add">Add</SelectItem>
+            <SelectItem value="remove">Remove</SelectItem>
+            <SelectItem value="list">List</SelectItem>
+            <SelectItem value="sendas-add">Send-as add</SelectItem>
+            <SelectItem value="sendas-update">Send-as update</SelectItem>
+            <SelectItem value="sendas-remove">Send-as remove</SelectItem>
+            <SelectItem value="forwarding-add">Forwarding add</SelectItem>
+            <SelectItem value="forwarding-update">Forwarding update</SelectItem>
+            <SelectItem value="forwarding-remove">Forwarding remove</SelectItem>
+            <SelectItem value="vacation-on">Vacation on</SelectItem>
+            <SelectItem value="vacation-off">Vacation off</SelectItem>
+            <SelectItem value="filter-create">Filter create</SelectItem>
+            <SelectItem value="filter-delete">Filter delete</SelectItem>
+            <SelectItem value="filter-import">Filter import</SelectItem>
+            <SelectItem value="imap-update">IMAP update</SelectItem>
+            <SelectItem value="pop-update">POP update</SelectItem>
+            <SelectItem value="imap-disable">IMAP disable</SelectItem>
+            <SelectItem value="pop-disable">POP disable</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select
+          value={statusFilter}
+          onValueChange={(value) => {
+            setStatusFilter(value)
+            setPage(1)
+          }}
+        >
+          <SelectTrigger className="sm:w-[130px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All results</SelectItem>
+            <SelectItem value="success">Success</SelectItem>
+            <SelectItem value="error">Error</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoading ? (
+        <div className="space-y-4">
+          <div className="animate-pulse h-12 bg-muted rounded"></div>
+          <div className="animate-pulse h-12 bg-muted rounded"></div>
+          <div className="animate-pulse h-12 bg-muted rounded"></div>
+        </div>
+      ) : error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : activities.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No activity recorded yet</p>
+      ) : (
+        <ScrollArea className="h-[300px]">
+          <div className="space-y-4">
+            {activities.map((activity) => (
+              <div key={activity.id} className="flex items-center justify-between p-3 border rounded-md">
+                <div className="flex items-center space-x-3">
+                  <div
+                    className={`w-2 h-2 rounded-full ${activity.success ? "bg-green-500" : "bg-red-500"}`}
+                  ></div>
+                  <div>
+                    <p className="text-sm font-medium">{getOperationText(activity)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatTime(activity.timestamp)} by {activity.actor}
+                      {activity.rollbackOf && " · rollback"}
+                      {activity.rolledBackBy && " · rolled back"}
+                    </p>
+                    {!activity.success && <p className="text-xs text-red-600 dark:text-red-400">{activity.message}</p>}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  {activity.success && activity.inverse && !activity.rolledBackBy && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={undoingId === activity.id}
+                      onClick={() => handleUndo(activity)}
+                    >
+                      {undoingId === activity.id ? "Undoing..." : "Undo"}
+                    </Button>
+                  )}
+                  <Badge
+                    variant={
+                      activity.operation === "add"
+                        ? "default"
+                        : activity.operation === "remove"
+                          ? "destructive"
+                          : "outline"
+                    }
+                  >
+                    {activity.operation}
+                  </Badge>
+                </div>
               </div>
-            </div>
-            <Badge
-              variant={
-                activity.operation === "add" ? "default" : activity.operation === "remove" ? "destructive" : "outline"
-              }
-            >
-              {activity.operation}
-            </Badge>
+            ))}
           </div>
-        ))}
+        </ScrollArea>
+      )}
+
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-muted-foreground">
+          Page {page} of {totalPages} ({total} entries)
+        </p>
+        <div className="flex space-x-2">
+          <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+            Previous
+          </Button>
+          <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+            Next
+          </Button>
+        </div>
       </div>
-    </ScrollArea>
+    </div>
   )
 }
@@ -0,0 +1,242 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { toast } from "@/components/ui/use-toast"
+import { USER_ROLES } from "@/lib/permissions"
+import type { ApiKey, CredentialSummary, UserRole } from "@/types"
+
+function keyStatus(apiKey: ApiKey): "active" | "expired" | "revoked" {
+  if (apiKey.revokedAt) return "revoked"
+  if (apiKey.expiresAt && Date.parse(apiKey.expiresAt) <= Date.now()) return "expired"
+  return "active"
+}
+
+export default function ApiKeyManager() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [name, setName] = useState("")
+  const [role, setRole] = useState<UserRole>("operator")
+  const [scopesText, setScopesText] = useState("")
+  const [credentialId, setCredentialId] = useState("")
+  const [expiresAt, setExpiresAt] = useState("")
+  const [newToken, setNewToken] = useState<string | null>(null)
+
+  const loadKeys = async () => {
+    try {
+      const response = await fetch("/api/api-keys")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status}`)
+      }
+      setApiKeys(data.apiKeys)
+    } catch (err: any) {
+      console.error("Error loading API keys:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadKeys()
+    fetch("/api/credentials")
+      .then((response) => response.json())
+      .then((data) => setCredentials((data.credentials || []).filter((c: CredentialSummary) => !c.revokedAt)))
+      .catch((err) => console.error("Error loading credentials:", err))
+  }, [])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const response = await fetch("/api/api-keys", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name,
+          role,
+          mailboxScopes: scopesText
+            .split(/[,\n]+/)
+            .map((scope) => scope.trim())
+            .filter(Boolean),
+          credentialId: credentialId || undefined,
+          expiresAt: expiresAt ? new Date(expiresAt).toISOString() : undefined,
+        }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      setNewToken(data.token)
+      setName("")
+      setScopesText("")
+      setExpiresAt("")
+      await loadKeys()
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!window.confirm(`Revoke the API key ${apiKey.name}? Scripts using it will stop working.`)) return
+    try {
+      const response = await fetch(`/api/api-keys/${apiKey.id}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      toast({ title: "API key revoked", description: data.message })
+      await loadKeys()
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (isLoading) {
+    return <div className="animate-pulse h-12 bg-muted rounded"></div>
+  }
+
+  return (
+    <div className="space-y-6">
+      {newToken && (
+        <Alert>
+          <AlertTitle>Copy the new API key now</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p className="text-xs">
+              It is only shown once. Send it as <code>Authorization: Bearer &lt;key&gt;</code>.
+            </p>
+            <code className="block break-all text-xs bg-muted p-2 rounded">{newToken}</code>
+            <Button size="sm" variant="outline" onClick={() => setNewToken(null)}>
+              Done
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {apiKeys.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No API keys yet</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Key</TableHead>
+              <TableHead>Role</TableHead>
+              <TableHead>Expires</TableHead>
+              <TableHead>Last Used</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {apiKeys.map((apiKey) => (
+              <TableRow key={apiKey.id}>
+                <TableCell>
+                  <p className="text-sm">{apiKey.name}</p>
+                  <p className="text-xs text-muted-foreground font-mono">{apiKey.prefix}…</p>
+                </TableCell>
+                <TableCell>
+                  <p className="text-sm">{apiKey.role}</p>
+                  {apiKey.mailboxScopes.length > 0 && (
+                    <p className="text-xs text-muted-foreground">{apiKey.mailboxScopes.join(", ")}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs">
+                  {apiKey.expiresAt ? new Date(apiKey.expiresAt).toLocaleString() : "Never"}
+                </TableCell>
+                <TableCell className="text-xs">
+                  {apiKey.lastUsedAt ? new Date(apiKey.lastUsedAt).toLocaleString() : "Never"}
+                </TableCell>
+                <TableCell className="text-right">
+                  {keyStatus(apiKey) === "active" ? (
+                    <Button size="sm" variant="ghost" onClick={() => handleRevoke(apiKey)}>
+                      Revoke
+                    </Button>
+                  ) : (
+                    <Badge variant="secondary">{keyStatus(apiKey)}</Badge>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="api-key-name">Name</Label>
+          <Input
+            id="api-key-name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="provisioning"
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Role</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {USER_ROLES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Credential</Label>
+          <Select value={credentialId} onValueChange={setCredentialId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Credential the key acts with" />
+            </SelectTrigger>
+            <SelectContent>
+              {credentials.map((credential) => (
+                <SelectItem key={credential.id} value={credential.id}>
+                  {credential.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {role === "operator" && (
+          <div className="space-y-1 md:col-span-2">
+            <Label htmlFor="api-key-scopes">Mailbox Scopes</Label>
+            <Input
+              id="api-key-scopes"
+              value={scopesText}
+              onChange={(e) => setScopesText(e.target.value)}
+              placeholder="support-*, group:helpdesk@example.com, ou:/Regional/EMEA"
+            />
+          </div>
+        )}
+        <div className="space-y-1">
+          <Label htmlFor="api-key-expires">Expires (optional)</Label>
+          <Input
+            id="api-key-expires"
+            type="datetime-local"
+            value={expiresAt}
+            onChange={(e) => setExpiresAt(e.target.value)}
+          />
+        </div>
+        <Button type="submit">Create API Key</Button>
+      </form>
+    </div>
+  )
+}
@@ -1,23 +1,82 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import ServiceAccountUpload from "./service-account-upload"
+import CredentialManager from "./credential-manager"
+import PreflightCheck from "./preflight-check"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
-import type { AuthOptionsProps } from "@/types"
+import { toast } from "@/components/ui/use-toast"
+import type { AuthOptionsProps, CredentialSummary } from "@/types"
 
-export default function AuthOptions({ onServiceAccountUploaded, onOAuthComplete }: AuthOptionsProps) {
+export default function AuthOptions({
+  onServiceAccountUploaded,
+  selectedCredentialId,
+  onCredentialRevoked,
+  onOAuthComplete,
+  onOAuthSignOut,
+}: AuthOptionsProps) {
   const [isAuthenticating, setIsAuthenticating] = useState(false)
+  const [credentialsVersion, setCredentialsVersion] = useState(0)
+  const [pendingCredential, setPendingCredential] = useState<CredentialSummary | null>(null)
+  const [oauthEmail, setOAuthEmail] = useState<string | null>(null)
+
+  // Pick up an existing session, and the result of a redirect back from Google
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search)
+    const oauthResult = params.get("oauth")
+    if (oauthResult) {
+      window.history.replaceState(null, "", window.location.pathname)
+    }
+
+    if (oauthResult === "error") {
+      toast({
+        title: "OAuth sign-in failed",
+        description: params.get("message") || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    }
+
+    fetch("/api/auth/oauth/session")
+      .then((response) => response.json())
+      .then((data) => {
+        if (data.authenticated) {
+          setOAuthEmail(data.email)
+          if (oauthResult === "success") {
+            onOAuthComplete(data.email)
+          }
+        }
+      })
+      .catch((error) => console.error("Error checking OAuth session:", error))
+  }, [])
 
   const handleOAuthClick = () => {
     setIsAuthenticating(true)
+    window.location.href = "/api/auth/oauth/start"
+  }
 
-    // Simulate OAuth flow
-    setTimeout(() => {
-      setIsAuthenticating(false)
-      onOAuthComplete()
-    }, 2000)
+  const handleSignOut = async () => {
+    try {
+      const response = await fetch("/api/auth/oauth/signout", { method: "POST" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+
+      setOAuthEmail(null)
+      onOAuthSignOut?.()
+      toast({
+        title: "Signed out",
+        description: "Your Google session has been revoked",
+      })
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    }
   }
 
   return (
@@ -35,7 +94,7 @@ export default function AuthOptions({ onServiceAccountUploaded, onOAuthComplete
         <Alert>
           <AlertTitle>Service Account Authentication</AlertTitle>
           <AlertDescription>
-            Upload your service account JSON key file to authenticate.
+            Upload your service account JSON key file once. It is stored encrypted on the server and referenced by ID afterwards.
           </AlertDescription>
         </Alert>
 
@@ -49,7 +108,35 @@ export default function AuthOptions({ onServiceAccountUploaded, onOAuthComplete
           </ol>
         </div>
 
-        <ServiceAccountUpload onServiceAccountUploaded={onServiceAccountUploaded} />
+        <ServiceAccountUpload
+          onServiceAccountUploaded={(credential) => {
+            setCredentialsVersion((version) => version + 1)
+            setPendingCredential(credential)
+          }}
+        />
+
+        {pendingCredential && (
+          <PreflightCheck
+            key={pendingCredential.id}
+            credential={pendingCredential}
+            onContinue={() => {
+              onServiceAccountUploaded(pendingCredential)
+              setPendingCredential(null)
+            }}
+          />
+        )}
+
+        <CredentialManager
+          refreshKey={credentialsVersion}
+          selectedId={selectedCredentialId}
+          onSelect={setPendingCredential}
+          onRevoked={(credential) => {
+            if (pendingCredential?.id === credential.id) {
+              setPendingCredential(null)
+            }
+            onCredentialRevoked?.(credential)
+          }}
+        />
       </TabsContent>
 
       <TabsContent value="oauth" className="space-y-4">
@@ -70,30 +157,45 @@ export default function AuthOptions({ onServiceAccountUploaded, onOAuthComplete
           </ol>
         </div>
 
-        <div className="flex justify-center">
-          <Button onClick={handleOAuthClick} className="w-full max-w-xs" disabled={isAuthenticating}>
-            {isAuthenticating ? (
-              <>
-                <svg
-                  className="animate-spin -ml-1 mr-3 h-4 w-4"
-                  xmlns="http://www.w3.org/2000/svg"
-                  fill="none"
-                  viewBox="0 0 24 24"
-                >
-                  <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
-                  <path
-                    className="opacity-75"
-                    fill="currentColor"
-                    d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                  ></path>
-                </svg>
-                Authenticating...
-              </>
-            ) : (
-              "Sign in with Google"
-            )}
-          </Button>
-        </div>
+        {oauthEmail ? (
+          <div className="flex flex-col items-center space-y-3">
+            <p className="text-sm">
+              Signed in as <span className="font-medium">{oauthEmail}</span>
+            </p>
+            <p className="text-xs text-muted-foreground">OAuth sessions can only manage delegates for your own mailbox</p>
+            <div className="flex space-x-2">
+              <Button onClick={() => onOAuthComplete(oauthEmail)}>Continue</Button>
+              <Button variant="outline" onClick={handleSignOut}>
+                Sign out
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex justify-center">
+            <Button onClick={handleOAuthClick} className="w-full max-w-xs" disabled={isAuthenticating}>
+              {isAuthenticating ? (
+                <>
+                  <svg
+                    className="animate-spin -ml-1 mr-3 h-4 w-4"
+                    xmlns="http://www.w3.org/2000/svg"
+                    fill="none"
+                    viewBox="0 0 24 24"
+                  >
+                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
+                    <path
+                      className="opacity-75"
+                      fill="currentColor"
+                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                    ></path>
+                  </svg>
+                  Authenticating...
+                </>
+              ) : (
+                "Sign in with Google"
+              )}
+            </Button>
+          </div>
+        )}
       </TabsContent>
     </Tabs>
   )
@@ -0,0 +1,226 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/components/ui/use-toast"
+import type { BatchJob, BatchJobEvent, BatchJobSummary, BatchRowStatus } from "@/types"
+
+interface BatchJobProgressProps {
+  jobId: string
+  credentialId?: string | null
+  onFinished: (job: BatchJob) => void
+  onDismiss: () => void
+  onRollback?: (job: BatchJobSummary) => void
+}
+
+const ROW_BADGES: Record<BatchRowStatus, "default" | "secondary" | "destructive" | "outline" | "success" | "warning"> = {
+  pending: "outline",
+  running: "warning",
+  success: "success",
+  error: "destructive",
+  cancelled: "secondary",
+}
+
+export default function BatchJobProgress({ jobId, credentialId, onFinished, onDismiss, onRollback }: BatchJobProgressProps) {
+  const [job, setJob] = useState<BatchJob | null>(null)
+  const [connectionError, setConnectionError] = useState<string | null>(null)
+  const [isCancelling, setIsCancelling] = useState(false)
+  const [isRollingBack, setIsRollingBack] = useState(false)
+  const onFinishedRef = useRef(onFinished)
+  onFinishedRef.current = onFinished
+
+  useEffect(() => {
+    const source = new EventSource(`/api/jobs/${jobId}/events`)
+    let finished = false
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as BatchJobEvent
+      setConnectionError(null)
+
+      setJob((current) => {
+        if (event.type === "snapshot") {
+          return event.job
+        }
+        if (!current) {
+          return current
+        }
+        if (event.type === "row") {
+          const rows = current.rows.slice()
+          rows[event.row.index] = event.row
+          return { ...event.job, rows }
+        }
+        return { ...current, ...event.job }
+      })
+
+      const status = event.job.status
+      if (!finished && (status === "completed" || status === "cancelled" || status === "failed")) {
+        finished = true
+        source.close()
+        // Fetch the final state so the caller gets every row, including ones settled while reconnecting
+        fetch(`/api/jobs/${jobId}`)
+          .then((response) => response.json())
+          .then((data) => {
+            if (data.job) {
+              setJob(data.job)
+              onFinishedRef.current(data.job)
+            }
+          })
+          .catch((err) => console.error("Error loading finished job:", err))
+      }
+    }
+
+    source.onerror = () => {
+      if (finished) return
+      // A 404 closes the stream for good; otherwise EventSource reconnects on its own
+      if (source.readyState === EventSource.CLOSED) {
+        setConnectionError("This job could not be found. It may have been removed from the server.")
+      } else {
+        setConnectionError("Connection lost, reconnecting...")
+      }
+    }
+
+    return () => {
+      finished = true
+      source.close()
+    }
+  }, [jobId])
+
+  const handleCancel = async () => {
+    try {
+      setIsCancelling(true)
+      const response = await fetch(`/api/jobs/${jobId}`, { method: "DELETE" })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      toast({ title: "Batch job", description: data.message })
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsCancelling(false)
+    }
+  }
+
+  // Undo every change the job made as a new job; the server falls back to the credential the job ran with
+  const handleRollback = async () => {
+    try {
+      setIsRollingBack(true)
+      const formData = new FormData()
+      if (credentialId) {
+        formData.append("credentialId", credentialId)
+      }
+      const response = await fetch(`/api/jobs/${jobId}/rollback`, { method: "POST", body: formData })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      toast({ title: "Rollback started", description: data.message })
+      onRollback?.(data.job)
+    } catch (err: any) {
+      toast({
+        title: "Rollback failed",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsRollingBack(false)
+    }
+  }
+
+  if (!job) {
+    return connectionError ? (
+      <div className="space-y-2">
+        <p className="text-sm text-destructive">{connectionError}</p>
+        <Button variant="outline" size="sm" onClick={onDismiss}>
+          Dismiss
+        </Button>
+      </div>
+    ) : (
+      <div className="animate-pulse h-12 bg-muted rounded"></div>
+    )
+  }
+
+  const isActive = job.status === "queued" || job.status === "running"
+  const settled = job.rows.filter((row) => row.status !== "pending" && row.status !== "running").length
+  const percent = job.total > 0 ? Math.round((settled / job.total) * 100) : 100
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <p className="text-sm font-medium">
+            {settled} of {job.total} operations processed
+          </p>
+          <p className="text-xs text-muted-foreground">
+            {job.succeeded} succeeded, {job.failed} failed · started by {job.actor}
+          </p>
+          {job.rollbackOf && <p className="text-xs text-muted-foreground">Rolls back job {job.rollbackOf}</p>}
+        </div>
+        <div className="flex items-center space-x-2">
+          <Badge variant={job.status === "completed" ? "success" : job.status === "failed" ? "destructive" : "outline"}>
+            {job.status}
+          </Badge>
+          {isActive ? (
+            <Button variant="destructive" size="sm" onClick={handleCancel} disabled={isCancelling}>
+              {isCancelling ? "Cancelling..." : "Cancel"}
+            </Button>
+          ) : (
+            <>
+              {onRollback && job.succeeded > 0 && (
+                <Button variant="outline" size="sm" onClick={handleRollback} disabled={isRollingBack}>
+                  {isRollingBack ? "Rolling Back..." : "Roll Back"}
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={onDismiss}>
+                Dismiss
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <Progress value={percent} />
+
+      {job.message && <p className="text-sm text-destructive">{job.message}</p>}
+      {connectionError && isActive && <p className="text-xs text-muted-foreground">{connectionError}</p>}
+
+      <ScrollArea className="h-[300px]">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>#</TableHead>
+              <TableHead>Operation</TableHead>
+              <TableHead>Mailbox</TableHead>
+              <TableHead>Delegate</TableHead>
+              <TableHead>Status</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {job.rows.map((row) => (
+              <TableRow key={row.index}>
+                <TableCell className="text-xs text-muted-foreground">{row.index + 1}</TableCell>
+                <TableCell>{row.operation}</TableCell>
+                <TableCell className="text-xs">{row.userEmail}</TableCell>
+                <TableCell className="text-xs">{row.delegateEmail || "-"}</TableCell>
+                <TableCell>
+                  <Badge variant={ROW_BADGES[row.status]}>{row.status}</Badge>
+                  {row.result && !row.result.success && (
+                    <p className="text-xs text-red-600 dark:text-red-400 mt-1">{row.result.message}</p>
+                  )}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </ScrollArea>
+    </div>
+  )
+}
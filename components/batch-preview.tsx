@@ -0,0 +1,114 @@
+"use client"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { DelegationErrorCode, OperationResult } from "@/types"
+
+interface BatchPreviewProps {
+  results: OperationResult[]
+  isLoading?: boolean
+  onRun: (indexes: number[]) => void
+  onClose: () => void
+}
+
+// Rows that would change nothing, as opposed to rows that could not be checked
+const SKIP_REASONS: Partial<Record<DelegationErrorCode, string>> = {
+  already_exists: "skip: already a delegate",
+  not_found: "skip: not a delegate",
+  policy_violation: "blocked by policy",
+}
+
+// Send-as rows skip for the same reasons, but about an alias rather than a delegate
+const SEND_AS_SKIP_REASONS: Partial<Record<DelegationErrorCode, string>> = {
+  already_exists: "skip: alias exists",
+  not_found: "skip: no such alias",
+}
+
+const CHANGE_LABELS: Record<string, string> = {
+  add: "will add",
+  remove: "will remove",
+  "sendas-add": "will add send-as",
+  "sendas-remove": "will remove send-as",
+  "vacation-on": "will turn on responder",
+  "vacation-off": "will turn off responder",
+  "imap-disable": "will turn off IMAP",
+  "pop-disable": "will turn off POP",
+}
+
+function outcome(result: OperationResult): { label: string; variant: "success" | "warning" | "secondary" | "destructive" } {
+  if (result.success) {
+    if (result.operation === "list") return { label: "read only", variant: "secondary" }
+    const label = CHANGE_LABELS[result.operation] || `will ${result.operation}`
+    return result.requiresApproval ? { label: `${label} after approval`, variant: "warning" } : { label, variant: "success" }
+  }
+  const reasons = result.operation.startsWith("sendas-") ? SEND_AS_SKIP_REASONS : SKIP_REASONS
+  const skip = result.errorCode && reasons[result.errorCode]
+  return skip ? { label: skip, variant: "secondary" } : { label: "error", variant: "destructive" }
+}
+
+export default function BatchPreview({ results, isLoading, onRun, onClose }: BatchPreviewProps) {
+  // Only rows that would change something are ticked to start with
+  const [selected, setSelected] = useState<boolean[]>(() =>
+    results.map((result) => result.success && result.operation !== "list"),
+  )
+
+  const toggle = (index: number) => setSelected((current) => current.map((value, i) => (i === index ? !value : value)))
+  const selectedIndexes = selected.map((value, index) => (value ? index : -1)).filter((index) => index >= 0)
+  const changes = results.filter((result) => result.success && result.operation !== "list").length
+
+  return (
+    <div className="space-y-3 border rounded-lg p-4">
+      <div className="flex items-center justify-between">
+        <p className="text-sm font-medium">
+          Preview: {changes} of {results.length} rows would change a mailbox
+        </p>
+        <Button variant="ghost" size="sm" onClick={onClose}>
+          Close
+        </Button>
+      </div>
+
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="w-8"></TableHead>
+            <TableHead>Operation</TableHead>
+            <TableHead>Mailbox</TableHead>
+            <TableHead>Delegate</TableHead>
+            <TableHead>Outcome</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {results.map((result, index) => {
+            const { label, variant } = outcome(result)
+            return (
+              <TableRow key={index}>
+                <TableCell>
+                  <input
+                    type="checkbox"
+                    checked={selected[index]}
+                    onChange={() => toggle(index)}
+                    aria-label={`Run row ${index + 1}`}
+                    className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                </TableCell>
+                <TableCell>{result.operation}</TableCell>
+                <TableCell className="text-xs">{result.userEmail}</TableCell>
+                <TableCell className="text-xs">{result.delegateEmail}</TableCell>
+                <TableCell>
+                  <Badge variant={variant}>{label}</Badge>
+                  {!result.success && <p className="text-xs text-muted-foreground mt-1">{result.message}</p>}
+                </TableCell>
+              </TableRow>
+            )
+          })}
+        </TableBody>
+      </Table>
+
+      <Button className="w-full" disabled={isLoading || selectedIndexes.length === 0} onClick={() => onRun(selectedIndexes)}>
+        Run {selectedIndexes.length} Selected {selectedIndexes.length === 1 ? "Row" : "Rows"}
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,262 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { hasPermission } from "@/lib/permissions"
+import type { ApprovalRule, ChangeRequest, ChangeRequestStatus } from "@/types"
+import { useCurrentUser } from "./current-user"
+
+const STATUS_BADGES: Record<ChangeRequestStatus, "outline" | "warning" | "success" | "destructive" | "secondary"> = {
+  pending: "outline",
+  approved: "warning",
+  completed: "success",
+  failed: "destructive",
+  rejected: "destructive",
+  cancelled: "secondary",
+}
+
+// One rule per line: pattern,operations,approvers (operations and approvers separated by spaces)
+function rulesToText(rules: ApprovalRule[]): string {
+  return rules.map((rule) => [rule.mailboxPattern, rule.operations.join(" "), rule.approvers.join(" ")].join(",")).join("\n")
+}
+
+function textToRules(text: string): Array<Partial<ApprovalRule>> {
+  return text
+    .split("\n")
+    .filter((line) => line.trim())
+    .map((line) => {
+      const [mailboxPattern, operations, approvers] = line.split(",").map((item) => (item || "").trim())
+      return {
+        mailboxPattern,
+        operations: (operations ? operations.split(/\s+/) : ["add", "remove"]) as ApprovalRule["operations"],
+        approvers: approvers ? approvers.split(/\s+/) : [],
+      }
+    })
+}
+
+export default function ChangeRequests() {
+  const [changeRequests, setChangeRequests] = useState<ChangeRequest[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [comments, setComments] = useState<Record<string, string>>({})
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [rulesText, setRulesText] = useState("")
+  const [showRules, setShowRules] = useState(false)
+
+  const loadData = async () => {
+    try {
+      const [requestResponse, rulesResponse] = await Promise.all([
+        fetch("/api/change-requests"),
+        fetch("/api/approvals/rules"),
+      ])
+      const requestData = await requestResponse.json()
+      const rulesData = await rulesResponse.json()
+      if (!requestResponse.ok) {
+        throw new Error(requestData.message || `Server returned an error: ${requestResponse.status}`)
+      }
+      setChangeRequests(requestData.changeRequests)
+      setRulesText(rulesToText(rulesData.rules || []))
+    } catch (err: any) {
+      console.error("Error loading change requests:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const user = useCurrentUser()
+  const canApprove = hasPermission(user, "changes:approve")
+  const isAdmin = hasPermission(user, "admin")
+
+  useEffect(() => {
+    loadData()
+    const timer = setInterval(loadData, 30000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Shared request helper that reports errors as toasts
+  const request = async (url: string, method: string, body: unknown, successTitle: string) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      toast({
+        title: data.success ? successTitle : "Change failed",
+        description: data.message,
+        variant: data.success ? "default" : "destructive",
+      })
+      return true
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  const handleDecision = async (changeRequest: ChangeRequest, action: "approve" | "reject" | "comment") => {
+    setBusyId(changeRequest.id)
+    const done = await request(
+      `/api/change-requests/${changeRequest.id}`,
+      "PATCH",
+      { action, comment: comments[changeRequest.id] },
+      action === "approve" ? "Change approved" : action === "reject" ? "Change rejected" : "Comment added",
+    )
+    if (done) {
+      setComments((current) => ({ ...current, [changeRequest.id]: "" }))
+    }
+    await loadData()
+    setBusyId(null)
+  }
+
+  const handleCancel = async (changeRequest: ChangeRequest) => {
+    if (!window.confirm(`Withdraw the request to ${changeRequest.operation} ${changeRequest.delegateEmail}?`)) return
+    await request(`/api/change-requests/${changeRequest.id}`, "DELETE", undefined, "Change request cancelled")
+    await loadData()
+  }
+
+  const handleSaveRules = async () => {
+    const saved = await request("/api/approvals/rules", "PUT", { rules: textToRules(rulesText) }, "Approval rules saved")
+    if (saved) {
+      await loadData()
+    }
+  }
+
+  if (isLoading) {
+    return <div className="animate-pulse h-12 bg-muted rounded"></div>
+  }
+
+  const pending = changeRequests.filter((changeRequest) => changeRequest.status === "pending")
+  const decided = changeRequests.filter((changeRequest) => changeRequest.status !== "pending").slice(0, 10)
+
+  return (
+    <div className="space-y-6">
+      {isAdmin && (
+        <div className="flex justify-end">
+          <Button variant="outline" onClick={() => setShowRules(!showRules)}>
+            {showRules ? "Hide Rules" : "Approval Rules"}
+          </Button>
+        </div>
+      )}
+
+      {isAdmin && showRules && (
+        <div className="space-y-2">
+          <Textarea
+            value={rulesText}
+            onChange={(e) => setRulesText(e.target.value)}
+            placeholder="hr-*,add remove,lead@example.com manager@example.com"
+            rows={4}
+          />
+          <p className="text-xs text-muted-foreground">
+            One rule per line: mailboxPattern,operations,approvers. Patterns without @ match the part before it. Leave
+            approvers empty to let anyone other than the requester approve.
+          </p>
+          <Button size="sm" onClick={handleSaveRules}>
+            Save Rules
+          </Button>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <p className="text-sm font-medium">Waiting for Approval</p>
+        {pending.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pending change requests</p>
+        ) : (
+          pending.map((changeRequest) => (
+            <div key={changeRequest.id} className="p-4 border rounded-lg space-y-2">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">
+                  {changeRequest.operation === "add" ? "Add" : "Remove"} {changeRequest.delegateEmail}{" "}
+                  {changeRequest.operation === "add" ? "to" : "from"} {changeRequest.userEmail}
+                </p>
+                <Badge variant={STATUS_BADGES[changeRequest.status]}>{changeRequest.status}</Badge>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Requested by {changeRequest.requestedBy} on {new Date(changeRequest.createdAt).toLocaleString()}
+                {changeRequest.expiresAt && ` · access until ${new Date(changeRequest.expiresAt).toLocaleString()}`}
+              </p>
+              <p className="text-sm">{changeRequest.reason || <span className="italic">No reason given</span>}</p>
+              {changeRequest.comments.map((comment, index) => (
+                <p key={index} className="text-xs border-l-2 pl-2">
+                  <span className="font-medium">{comment.author}:</span> {comment.text}
+                </p>
+              ))}
+              <Input
+                placeholder="Comment (optional)"
+                value={comments[changeRequest.id] || ""}
+                onChange={(e) => setComments((current) => ({ ...current, [changeRequest.id]: e.target.value }))}
+              />
+              <div className="flex justify-end space-x-1">
+                {(isAdmin || changeRequest.requestedBy === user?.username) && (
+                  <Button size="sm" variant="ghost" onClick={() => handleCancel(changeRequest)}>
+                    Withdraw
+                  </Button>
+                )}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={busyId === changeRequest.id || !comments[changeRequest.id]?.trim()}
+                  onClick={() => handleDecision(changeRequest, "comment")}
+                >
+                  Comment
+                </Button>
+                {canApprove && (
+                  <>
+                    <Button
+                      size="sm"
+                      variant="destructive"
+                      disabled={busyId === changeRequest.id}
+                      onClick={() => handleDecision(changeRequest, "reject")}
+                    >
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={busyId === changeRequest.id}
+                      onClick={() => handleDecision(changeRequest, "approve")}
+                    >
+                      {busyId === changeRequest.id ? "Working..." : "Approve"}
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {decided.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">Recently Decided</p>
+          {decided.map((changeRequest) => (
+            <div key={changeRequest.id} className="flex items-start justify-between text-xs border-b pb-2">
+              <div>
+                <p>
+                  {changeRequest.operation} {changeRequest.delegateEmail} on {changeRequest.userEmail}
+                </p>
+                <p className="text-muted-foreground">
+                  {changeRequest.decidedBy || changeRequest.requestedBy}
+                  {changeRequest.decisionComment && `: ${changeRequest.decisionComment}`}
+                </p>
+                {changeRequest.result && !changeRequest.result.success && (
+                  <p className="text-red-600 dark:text-red-400">{changeRequest.result.message}</p>
+                )}
+              </div>
+              <Badge variant={STATUS_BADGES[changeRequest.status]}>{changeRequest.status}</Badge>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
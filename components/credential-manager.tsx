@@ -0,0 +1,186 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect, useRef } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/components/ui/use-toast"
+import type { CredentialSummary } from "@/types"
+
+interface CredentialManagerProps {
+  refreshKey?: number
+  selectedId?: string | null
+  onSelect: (credential: CredentialSummary) => void
+  onRevoked?: (credential: CredentialSummary) => void
+}
+
+export default function CredentialManager({ refreshKey, selectedId, onSelect, onRevoked }: CredentialManagerProps) {
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editLabel, setEditLabel] = useState("")
+  const rotateInputRef = useRef<HTMLInputElement>(null)
+  const [rotatingId, setRotatingId] = useState<string | null>(null)
+
+  const loadCredentials = async () => {
+    try {
+      const response = await fetch("/api/credentials")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      setCredentials(data.credentials)
+    } catch (err: any) {
+      console.error("Error loading credentials:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadCredentials()
+  }, [refreshKey])
+
+  // Shared request helper that reports errors as toasts
+  const request = async (url: string, init: RequestInit, successTitle: string) => {
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      toast({ title: successTitle, description: data.message })
+      await loadCredentials()
+      return data.credential as CredentialSummary
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+      return null
+    }
+  }
+
+  const handleSaveLabel = async (id: string) => {
+    await request(
+      `/api/credentials/${id}`,
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ label: editLabel }),
+      },
+      "Credential renamed",
+    )
+    setEditingId(null)
+  }
+
+  const handleRotate = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    const id = rotatingId
+    event.target.value = ""
+    if (!file || !id) return
+
+    const formData = new FormData()
+    formData.append("serviceAccount", file)
+    await request(`/api/credentials/${id}`, { method: "PUT", body: formData }, "Credential rotated")
+    setRotatingId(null)
+  }
+
+  const handleRevoke = async (credential: CredentialSummary) => {
+    if (!window.confirm(`Revoke "${credential.label}"? Its stored key will be destroyed.`)) return
+
+    const revoked = await request(`/api/credentials/${credential.id}`, { method: "DELETE" }, "Credential revoked")
+    if (revoked) {
+      onRevoked?.(revoked)
+    }
+  }
+
+  if (isLoading) {
+    return <div className="animate-pulse h-12 bg-muted rounded"></div>
+  }
+
+  if (credentials.length === 0) {
+    return <p className="text-sm text-muted-foreground">No stored credentials yet</p>
+  }
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm font-medium">Stored Credentials</p>
+      <Input type="file" accept=".json" className="hidden" ref={rotateInputRef} onChange={handleRotate} />
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Label</TableHead>
+            <TableHead>Service Account</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {credentials.map((credential) => (
+            <TableRow key={credential.id}>
+              <TableCell>
+                {editingId === credential.id ? (
+                  <div className="flex space-x-2">
+                    <Input value={editLabel} onChange={(e) => setEditLabel(e.target.value)} className="h-8" />
+                    <Button size="sm" onClick={() => handleSaveLabel(credential.id)} disabled={!editLabel.trim()}>
+                      Save
+                    </Button>
+                  </div>
+                ) : (
+                  credential.label
+                )}
+              </TableCell>
+              <TableCell className="text-xs">{credential.clientEmail}</TableCell>
+              <TableCell>
+                {credential.revokedAt ? (
+                  <Badge variant="destructive">revoked</Badge>
+                ) : credential.id === selectedId ? (
+                  <Badge variant="success">in use</Badge>
+                ) : (
+                  <Badge variant="outline">{credential.rotatedAt ? "rotated" : "active"}</Badge>
+                )}
+              </TableCell>
+              <TableCell className="text-right space-x-1">
+                {!credential.revokedAt && (
+                  <>
+                    <Button size="sm" variant="default" onClick={() => onSelect(credential)}>
+                      Use
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditingId(credential.id)
+                        setEditLabel(credential.label)
+                      }}
+                    >
+                      Rename
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setRotatingId(credential.id)
+                        rotateInputRef.current?.click()
+                      }}
+                    >
+                      Rotate
+                    </Button>
+                    <Button size="sm" variant="destructive" onClick={() => handleRevoke(credential)}>
+                      Revoke
+                    </Button>
+                  </>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  )
+}
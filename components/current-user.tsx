@@ -0,0 +1,146 @@
+"use client"
+
+import { createContext, useContext, useState, useEffect, type ReactNode } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/components/ui/use-toast"
+import type { UserAccount } from "@/types"
+
+const CurrentUserContext = createContext<{ user: UserAccount | null; signOut: () => Promise<void> }>({
+  user: null,
+  signOut: async () => {},
+})
+
+// The signed-in DelegateEase user; null outside RequireUser
+export function useCurrentUser(): UserAccount | null {
+  return useContext(CurrentUserContext).user
+}
+
+// Signed-in user's name and role, with a sign-out button
+export function UserMenu() {
+  const { user, signOut } = useContext(CurrentUserContext)
+  if (!user) {
+    return null
+  }
+
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      <span>{user.displayName || user.username}</span>
+      <Badge variant="secondary">{user.role}</Badge>
+      <Button size="sm" variant="ghost" onClick={signOut}>
+        Sign Out
+      </Button>
+    </div>
+  )
+}
+
+// Shows the sign-in form, or the first-admin setup form, until a user is signed in
+export default function RequireUser({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<UserAccount | null>(null)
+  const [setupRequired, setSetupRequired] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((response) => response.json())
+      .then((data) => {
+        setUser(data.user || null)
+        setSetupRequired(!!data.setupRequired)
+      })
+      .catch((error) => console.error("Error checking session:", error))
+      .finally(() => setIsLoading(false))
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+    try {
+      const response = await fetch(setupRequired ? "/api/auth/setup" : "/api/auth/session", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ username, password }),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      setPassword("")
+      setSetupRequired(false)
+      setUser(data.user)
+    } catch (err: any) {
+      toast({
+        title: setupRequired ? "Setup failed" : "Sign-in failed",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const signOut = async () => {
+    try {
+      await fetch("/api/auth/session", { method: "DELETE" })
+    } catch (error) {
+      console.error("Error signing out:", error)
+    }
+    setUser(null)
+  }
+
+  if (isLoading) {
+    return <div className="animate-pulse h-12 bg-muted rounded"></div>
+  }
+
+  if (!user) {
+    return (
+      <Card className="max-w-md mx-auto mt-8">
+        <CardHeader>
+          <CardTitle>{setupRequired ? "Set Up DelegateEase" : "Sign In"}</CardTitle>
+          <CardDescription>
+            {setupRequired
+              ? "No accounts exist yet. Create the first admin account; it can then add other users."
+              : "Sign in with your DelegateEase account"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="signin-username">Username</Label>
+              <Input
+                id="signin-username"
+                autoComplete="username"
+                placeholder="you@example.com"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="signin-password">Password</Label>
+              <Input
+                id="signin-password"
+                type="password"
+                autoComplete={setupRequired ? "new-password" : "current-password"}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+              />
+              {setupRequired && <p className="text-xs text-muted-foreground">At least 8 characters</p>}
+            </div>
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? "Working..." : setupRequired ? "Create Admin" : "Sign In"}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return <CurrentUserContext.Provider value={{ user, signOut }}>{children}</CurrentUserContext.Provider>
+}
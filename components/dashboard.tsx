@@ -3,11 +3,20 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import ActivityLog from "./activity-log"
+import ChangeRequests from "./change-requests"
 import DelegateStatistics from "./delegate-stats"
+import DelegationPolicyEditor from "./delegation-policy"
+import DriftMonitor from "./drift-monitor"
+import UserManager from "./user-manager"
+import ApiKeyManager from "./api-key-manager"
+import { useCurrentUser } from "./current-user"
+import { hasPermission } from "@/lib/permissions"
 import { Button } from "@/components/ui/button"
 import { PlusCircle, UserCheck, UserMinus, RefreshCw } from "lucide-react"
 
 export default function Dashboard() {
+  const isAdmin = hasPermission(useCurrentUser(), "admin")
+
   return (
     <div className="space-y-4">
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -69,6 +78,60 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle>Change Requests</CardTitle>
+          <CardDescription>Delegate changes to protected mailboxes wait here for a second user to approve</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChangeRequests />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delegation Policy</CardTitle>
+          <CardDescription>Rules every add and remove is checked against before it reaches Gmail</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DelegationPolicyEditor />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delegation Drift</CardTitle>
+          <CardDescription>Delegates added or removed outside DelegateEase since a mailbox was baselined</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <DriftMonitor />
+        </CardContent>
+      </Card>
+
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Users and Roles</CardTitle>
+            <CardDescription>Who can sign in to DelegateEase, and which mailboxes operators may change</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <UserManager />
+          </CardContent>
+        </Card>
+      )}
+
+      {isAdmin && (
+        <Card>
+          <CardHeader>
+            <CardTitle>API Keys</CardTitle>
+            <CardDescription>Bearer tokens for scripts and provisioning systems, each with its own role and scopes</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ApiKeyManager />
+          </CardContent>
+        </Card>
+      )}
+
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
           <CardHeader>
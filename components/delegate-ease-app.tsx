@@ -1,27 +1,41 @@
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import DelegateForm from "./delegate-form"
 import ResultDisplay from "./result-display"
+import BatchJobProgress from "./batch-job-progress"
 import AuthOptions from "./auth-options"
+import ScheduledOperations from "./scheduled-operations"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { toast } from "@/components/ui/use-toast"
 import { Alert, AlertDescription } from "@/components/ui/alert"
-import type { AuthMethod } from "@/types"
+import type { AuthMethod, BatchJob, BatchJobSummary, CredentialSummary } from "@/types"
+
+// localStorage key remembering the running batch job so progress survives a page reload
+const ACTIVE_JOB_KEY = "delegateease.activeJob"
 
 export default function DelegateEaseApp() {
   const [authMethod, setAuthMethod] = useState<AuthMethod>(null)
-  const [serviceAccountFile, setServiceAccountFile] = useState<File | null>(null)
+  const [credential, setCredential] = useState<CredentialSummary | null>(null)
   const [results, setResults] = useState<any[] | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [activeTab, setActiveTab] = useState("auth")
   const [rawOutput, setRawOutput] = useState<string | null>(null)
   const [debugInfo, setDebugInfo] = useState<string | null>(null)
+  const [activeJobId, setActiveJobId] = useState<string | null>(null)
+
+  useEffect(() => {
+    const storedJobId = window.localStorage.getItem(ACTIVE_JOB_KEY)
+    if (storedJobId) {
+      setActiveJobId(storedJobId)
+      setActiveTab("manage")
+    }
+  }, [])
 
-  const handleServiceAccountUploaded = (file: File) => {
-    setServiceAccountFile(file)
+  const handleServiceAccountUploaded = (selected: CredentialSummary) => {
+    setCredential(selected)
     setAuthMethod("service-account")
     setResults(null)
     setError(null)
@@ -29,14 +43,14 @@ export default function DelegateEaseApp() {
     setDebugInfo(null)
 
     toast({
-      title: "Service account uploaded",
-      description: "Your service account file is ready to use",
+      title: "Service account selected",
+      description: `Using stored credential "${selected.label}"`,
     })
   }
 
-  const handleOAuthComplete = () => {
+  const handleOAuthComplete = (email: string) => {
     setAuthMethod("oauth")
-    setServiceAccountFile(null)
+    setCredential(null)
     setResults(null)
     setError(null)
     setRawOutput(null)
@@ -44,10 +58,25 @@ export default function DelegateEaseApp() {
 
     toast({
       title: "OAuth authentication complete",
-      description: "You are now authenticated with Google",
+      description: `You are now authenticated with Google as ${email}`,
     })
   }
 
+  const handleCredentialRevoked = (revoked: CredentialSummary) => {
+    if (credential?.id === revoked.id) {
+      setCredential(null)
+      setAuthMethod(null)
+    }
+  }
+
+  const handleOAuthSignOut = () => {
+    if (authMethod === "oauth") {
+      setAuthMethod(null)
+      setResults(null)
+      setError(null)
+    }
+  }
+
   const handleSubmit = async (formData: FormData, endpoint: string) => {
     try {
       setError(null)
@@ -56,9 +85,9 @@ export default function DelegateEaseApp() {
       setDebugInfo(null)
       setIsLoading(true)
 
-      // Add the service account file to the form data if using service account auth
-      if (authMethod === "service-account" && serviceAccountFile) {
-        formData.append("serviceAccount", serviceAccountFile)
+      // Reference the stored credential if using service account auth
+      if (authMethod === "service-account" && credential && !formData.has("credentialId")) {
+        formData.append("credentialId", credential.id)
       }
 
       console.log(`Submitting request to ${endpoint}`)
@@ -84,10 +113,38 @@ export default function DelegateEaseApp() {
         throw new Error(`Server returned an invalid JSON response. Status: ${response.status} ${response.statusText}`)
       }
 
+      // Show classified failures as a failed result so the remediation hint is displayed
+      if (!response.ok && data.errorCode) {
+        setResults([
+          {
+            success: false,
+            operation: (formData.get("operation") as string) || "unknown",
+            userEmail: (formData.get("userEmail") as string) || "",
+            delegateEmail: (formData.get("delegateEmail") as string) || undefined,
+            message: data.message || data.error,
+            errorCode: data.errorCode,
+            details: data.details,
+          },
+        ])
+        return
+      }
+
       if (!response.ok) {
         throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
       }
 
+      // Batches run as background jobs; progress is streamed by BatchJobProgress
+      if (data.job) {
+        window.localStorage.setItem(ACTIVE_JOB_KEY, data.job.id)
+        setActiveJobId(data.job.id)
+
+        toast({
+          title: "Batch job started",
+          description: data.message,
+        })
+        return
+      }
+
       // Store raw output if available
       const isBatch = formData.has("operations")
       if (isBatch) {
@@ -122,10 +179,12 @@ export default function DelegateEaseApp() {
       } else {
         setResults([data])
 
+        // Changes to mailboxes that require approval are accepted but not yet applied
+        const isPending = data.errorCode === "pending_approval"
         toast({
-          title: data.success ? "Operation successful" : "Operation failed",
+          title: data.success ? "Operation successful" : isPending ? "Approval requested" : "Operation failed",
           description: data.message,
-          variant: data.success ? "default" : "destructive",
+          variant: data.success || isPending ? "default" : "destructive",
         })
       }
     } catch (err: any) {
@@ -142,6 +201,39 @@ export default function DelegateEaseApp() {
     }
   }
 
+  const handleJobFinished = (job: BatchJob) => {
+    window.localStorage.removeItem(ACTIVE_JOB_KEY)
+    setResults(
+      job.rows.map(
+        (row) =>
+          row.result || {
+            success: false,
+            operation: row.operation,
+            userEmail: row.userEmail,
+            delegateEmail: row.delegateEmail,
+            message: "Cancelled before it ran",
+          },
+      ),
+    )
+
+    toast({
+      title: `Batch job ${job.status}`,
+      description: `${job.succeeded} operations succeeded, ${job.failed} failed`,
+      variant: job.failed > 0 || job.status !== "completed" ? "destructive" : "default",
+    })
+  }
+
+  const handleJobRolledBack = (rollback: BatchJobSummary) => {
+    window.localStorage.setItem(ACTIVE_JOB_KEY, rollback.id)
+    setResults(null)
+    setActiveJobId(rollback.id)
+  }
+
+  const handleJobDismissed = () => {
+    window.localStorage.removeItem(ACTIVE_JOB_KEY)
+    setActiveJobId(null)
+  }
+
   const handleDirectApiResult = (result: any) => {
     setResults(result)
   }
@@ -162,11 +254,14 @@ export default function DelegateEaseApp() {
     <div className="bg-background">
       <div className="space-y-6">
         <Tabs value={activeTab} onValueChange={handleTabChange} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-3">
             <TabsTrigger value="auth">Authentication</TabsTrigger>
             <TabsTrigger value="manage" disabled={!authMethod}>
               Manage Delegates
             </TabsTrigger>
+            <TabsTrigger value="scheduled" disabled={!authMethod}>
+              Scheduled
+            </TabsTrigger>
           </TabsList>
           <TabsContent value="auth">
             <Card>
@@ -176,16 +271,19 @@ export default function DelegateEaseApp() {
               </CardHeader>
               <CardContent>
                 <AuthOptions
-                  onServiceAccountUploaded={(file) => {
-                    handleServiceAccountUploaded(file)
+                  onServiceAccountUploaded={(selected) => {
+                    handleServiceAccountUploaded(selected)
                     // Automatically switch to manage tab after authentication
                     setActiveTab("manage")
                   }}
-                  onOAuthComplete={() => {
-                    handleOAuthComplete()
+                  selectedCredentialId={credential?.id}
+                  onCredentialRevoked={handleCredentialRevoked}
+                  onOAuthComplete={(email) => {
+                    handleOAuthComplete(email)
                     // Automatically switch to manage tab after authentication
                     setActiveTab("manage")
                   }}
+                  onOAuthSignOut={handleOAuthSignOut}
                 />
               </CardContent>
             </Card>
@@ -208,7 +306,7 @@ export default function DelegateEaseApp() {
 
                 <DelegateForm
                   authMethod={authMethod}
-                  serviceAccountFile={serviceAccountFile}
+                  credentialId={credential?.id || null}
                   onSubmit={handleSubmit}
                   isLoading={isLoading}
                   onDirectApiResult={handleDirectApiResult}
@@ -217,6 +315,24 @@ export default function DelegateEaseApp() {
                 />
               </CardContent>
             </Card>
+            {activeJobId && (
+              <Card className="mt-6">
+                <CardHeader>
+                  <CardTitle>Batch Job</CardTitle>
+                  <CardDescription>Operations run in the background; you can reload or leave this page</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <BatchJobProgress
+                    key={activeJobId}
+                    jobId={activeJobId}
+                    credentialId={credential?.id || null}
+                    onFinished={handleJobFinished}
+                    onDismiss={handleJobDismissed}
+                    onRollback={handleJobRolledBack}
+                  />
+                </CardContent>
+              </Card>
+            )}
             {(results || error) && (
               <Card className="mt-6">
                 <CardHeader>
@@ -252,6 +368,19 @@ export default function DelegateEaseApp() {
               </Card>
             )}
           </TabsContent>
+          <TabsContent value="scheduled">
+            <Card>
+              <CardHeader>
+                <CardTitle>Scheduled Changes</CardTitle>
+                <CardDescription>
+                  Queue delegate changes to run later; results appear in the activity log like any other operation
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ScheduledOperations credentialId={credential?.id || null} />
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
     </div>
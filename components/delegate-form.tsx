@@ -17,7 +17,7 @@ import { useDelegateFormHandler } from "@/hooks/useDelegateFormHandler"
 
 export default function DelegateForm({
   authMethod,
-  serviceAccountFile,
+  credentialId,
   onSubmit,
   isLoading,
   onDirectApiResult,
@@ -42,17 +42,17 @@ export default function DelegateForm({
     parseBatchOperations,
   } = useDelegateFormHandler({
     onSubmit: (formData, endpoint) => onSubmit(formData, endpoint),
-    serviceAccountFile,
+    credentialId,
     authMethod: typeof authMethod === "string" ? authMethod : "",
   })
 
   const [batchInput, setBatchInput] = useState("")
 
   const handleDirectApiClick = async () => {
-    if (!serviceAccountFile) {
+    if (authMethod !== "oauth" && !credentialId) {
       toast({
         title: "Missing service account",
-        description: "Service account file is required",
+        description: "A stored service account credential is required",
         variant: "destructive",
       })
       return
@@ -71,7 +71,9 @@ export default function DelegateForm({
       onDirectApiLoading(true)
 
       const formData = new FormData()
-      formData.append("serviceAccount", serviceAccountFile)
+      if (credentialId) {
+        formData.append("credentialId", credentialId)
+      }
       formData.append("userEmail", userEmail)
       formData.append("operation", "list")
 
@@ -109,7 +111,7 @@ export default function DelegateForm({
   }
 
   return (
-    <Tabs defaultValue="single" className="w-full">
+    <Tabs defaultValue="single" className="w-full" onValueChange={(value) => setBatchMode(value === "batch")}>
       <TabsList className="grid w-full grid-cols-2">
         <TabsTrigger value="single">Single Operation</TabsTrigger>
         <TabsTrigger value="batch">Batch Operations</TabsTrigger>
@@ -0,0 +1,251 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/components/ui/use-toast"
+import { hasPermission } from "@/lib/permissions"
+import type { CredentialSummary, DelegationPolicy, PolicyDryRunResult } from "@/types"
+import { useCurrentUser } from "./current-user"
+
+const EXAMPLE_RULES = `[
+  { "type": "allowed_domains", "domains": ["example.com"] },
+  { "type": "max_delegates", "maxDelegates": 10 },
+  { "type": "require_approval", "mailboxPattern": "hr-*" },
+  { "type": "never_delegate", "mailboxes": ["ceo@example.com"], "description": "Executives never have delegates" }
+]`
+
+export default function DelegationPolicyEditor() {
+  const [policy, setPolicy] = useState<DelegationPolicy | null>(null)
+  const [versions, setVersions] = useState<DelegationPolicy[]>([])
+  const [rulesText, setRulesText] = useState("")
+  const [testLines, setTestLines] = useState("")
+  const [dryRun, setDryRun] = useState<PolicyDryRunResult[] | null>(null)
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([])
+  const [credentialId, setCredentialId] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const isAdmin = hasPermission(useCurrentUser(), "admin")
+
+  const loadPolicy = async () => {
+    try {
+      const [policyResponse, versionResponse] = await Promise.all([
+        fetch("/api/policies"),
+        fetch("/api/policies/versions"),
+      ])
+      const policyData = await policyResponse.json()
+      const versionData = await versionResponse.json()
+      if (!policyResponse.ok) {
+        throw new Error(policyData.message || `Server returned an error: ${policyResponse.status}`)
+      }
+      setPolicy(policyData.policy)
+      setRulesText(JSON.stringify(policyData.policy.rules, null, 2))
+      setVersions(versionData.versions || [])
+    } catch (err: any) {
+      console.error("Error loading delegation policy:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadPolicy()
+    fetch("/api/credentials")
+      .then((response) => response.json())
+      .then((data) => setCredentials((data.credentials || []).filter((c: CredentialSummary) => !c.revokedAt)))
+      .catch((err) => console.error("Error loading credentials:", err))
+  }, [])
+
+  const parseRules = () => {
+    try {
+      return JSON.parse(rulesText)
+    } catch {
+      toast({ title: "Invalid rules", description: "Rules must be a JSON array", variant: "destructive" })
+      return null
+    }
+  }
+
+  // Shared request helper that reports errors as toasts
+  const request = async (url: string, method: string, body: unknown) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      return data
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+      return null
+    }
+  }
+
+  const handleSave = async () => {
+    const rules = parseRules()
+    if (!rules) return
+    const data = await request("/api/policies", "PUT", { rules, baseVersion: policy?.version })
+    if (data) {
+      toast({ title: "Policy saved", description: data.message })
+      await loadPolicy()
+    }
+  }
+
+  const handleDryRun = async () => {
+    const rules = parseRules()
+    if (!rules) return
+    const operations = testLines
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => {
+        const [operation, userEmail, delegateEmail] = line.split(",").map((item) => item.trim())
+        return { operation, userEmail, delegateEmail }
+      })
+    const data = await request("/api/policies/evaluate", "POST", {
+      rules,
+      operations,
+      credentialId: credentialId || undefined,
+    })
+    if (data) {
+      setDryRun(data.results)
+    }
+  }
+
+  if (isLoading) {
+    return <div className="animate-pulse h-12 bg-muted rounded"></div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="policy-rules">Rules</Label>
+          <span className="text-xs text-muted-foreground">
+            {policy && policy.version > 0
+              ? `Version ${policy.version}, saved by ${policy.updatedBy} on ${new Date(policy.updatedAt).toLocaleString()}`
+              : "No policy saved yet"}
+          </span>
+        </div>
+        <Textarea
+          id="policy-rules"
+          value={rulesText}
+          onChange={(e) => setRulesText(e.target.value)}
+          placeholder={EXAMPLE_RULES}
+          rows={10}
+          className="font-mono text-xs"
+        />
+        <p className="text-xs text-muted-foreground">
+          Rule types: allowed_domains, block_external, max_delegates, require_approval, never_delegate. Any rule can be
+          limited to mailboxes with a mailboxPattern such as hr-*.
+        </p>
+        {isAdmin && (
+          <Button size="sm" onClick={handleSave}>
+            Save New Version
+          </Button>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="policy-test">Dry Run</Label>
+        <Textarea
+          id="policy-test"
+          value={testLines}
+          onChange={(e) => setTestLines(e.target.value)}
+          placeholder="add,shared@example.com,user@partner.com"
+          rows={3}
+        />
+        <p className="text-xs text-muted-foreground">
+          Checks the rules above, saved or not, against these changes. Delegate limits are checked when a stored
+          credential is selected.
+        </p>
+        <div className="flex space-x-2">
+          <Select value={credentialId} onValueChange={setCredentialId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Credential for delegate limits" />
+            </SelectTrigger>
+            <SelectContent>
+              {credentials.map((credential) => (
+                <SelectItem key={credential.id} value={credential.id}>
+                  {credential.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="outline" onClick={handleDryRun} disabled={!testLines.trim()}>
+            Evaluate
+          </Button>
+        </div>
+
+        {dryRun && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Change</TableHead>
+                <TableHead>Outcome</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {dryRun.map((result, index) => (
+                <TableRow key={index}>
+                  <TableCell className="text-xs">
+                    {result.operation} {result.delegateEmail} on {result.userEmail}
+                  </TableCell>
+                  <TableCell className="text-xs space-y-1">
+                    {result.evaluation.allowed ? (
+                      <Badge variant={result.requiresApproval ? "warning" : "success"}>
+                        {result.requiresApproval ? "needs approval" : "allowed"}
+                      </Badge>
+                    ) : (
+                      <Badge variant="destructive">blocked</Badge>
+                    )}
+                    {result.evaluation.violations.map((violation) => (
+                      <p key={violation.ruleId} className="text-red-600 dark:text-red-400">
+                        {violation.message}
+                      </p>
+                    ))}
+                    {result.limitNotChecked && (
+                      <p className="text-muted-foreground">Limit not checked: {result.limitNotChecked}</p>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      {versions.length > 1 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">History</p>
+          {versions.map((version) => (
+            <div key={version.version} className="flex items-center justify-between text-xs border-b pb-2">
+              <span>
+                Version {version.version}: {version.rules.length} rules, by {version.updatedBy} on{" "}
+                {new Date(version.updatedAt).toLocaleString()}
+              </span>
+              {version.version !== policy?.version && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setRulesText(JSON.stringify(version.rules, null, 2))}
+                >
+                  Load
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button"
 import { toast } from "@/components/ui/use-toast"
 
 interface DirectApiButtonProps {
-  serviceAccountFile: File | null
+  credentialId: string | null
   userEmail: string
   onResult: (result: any) => void
   onError: (error: string) => void
@@ -13,7 +13,7 @@ interface DirectApiButtonProps {
 }
 
 export default function DirectApiButton({
-  serviceAccountFile,
+  credentialId,
   userEmail,
   onResult,
   onError,
@@ -22,10 +22,10 @@ export default function DirectApiButton({
   const [isLoading, setIsLoading] = useState(false)
 
   const handleClick = async () => {
-    if (!serviceAccountFile) {
+    if (!credentialId) {
       toast({
         title: "Missing service account",
-        description: "Service account file is required",
+        description: "A stored service account credential is required",
         variant: "destructive",
       })
       return
@@ -45,7 +45,7 @@ export default function DirectApiButton({
       onLoading(true)
 
       const formData = new FormData()
-      formData.append("serviceAccount", serviceAccountFile)
+      formData.append("credentialId", credentialId)
       formData.append("userEmail", userEmail)
 
       console.log("Submitting direct API request")
@@ -100,7 +100,7 @@ export default function DirectApiButton({
       type="button"
       variant="outline"
       onClick={handleClick}
-      disabled={isLoading || !serviceAccountFile || !userEmail}
+      disabled={isLoading || !credentialId || !userEmail}
       className="mt-2"
     >
       {isLoading ? (
@@ -0,0 +1,289 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/components/ui/use-toast"
+import type { CredentialSummary, DriftBaseline, DriftEvent, DriftStatus } from "@/types"
+
+const STATUS_BADGES: Record<DriftStatus, "success" | "warning" | "destructive"> = {
+  in_sync: "success",
+  drifted: "warning",
+  error: "destructive",
+}
+
+export default function DriftMonitor() {
+  const [baselines, setBaselines] = useState<DriftBaseline[]>([])
+  const [events, setEvents] = useState<DriftEvent[]>([])
+  const [credentials, setCredentials] = useState<CredentialSummary[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [isChecking, setIsChecking] = useState(false)
+  const [mailbox, setMailbox] = useState("")
+  const [credentialId, setCredentialId] = useState("")
+  const [autoRemediate, setAutoRemediate] = useState(false)
+
+  const loadData = async () => {
+    try {
+      const [baselineResponse, eventResponse] = await Promise.all([
+        fetch("/api/drift/baselines"),
+        fetch("/api/drift/events?limit=20"),
+      ])
+      const baselineData = await baselineResponse.json()
+      const eventData = await eventResponse.json()
+      if (!baselineResponse.ok) {
+        throw new Error(baselineData.message || `Server returned an error: ${baselineResponse.status}`)
+      }
+      setBaselines(baselineData.baselines)
+      setEvents(eventData.events || [])
+    } catch (err: any) {
+      console.error("Error loading drift data:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadData()
+    fetch("/api/credentials")
+      .then((response) => response.json())
+      .then((data) => setCredentials((data.credentials || []).filter((c: CredentialSummary) => !c.revokedAt)))
+      .catch((err) => console.error("Error loading credentials:", err))
+  }, [])
+
+  // Shared request helper that reports errors as toasts
+  const request = async (url: string, init: RequestInit, successTitle: string) => {
+    try {
+      const response = await fetch(url, init)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      toast({ title: successTitle, description: data.message })
+      await loadData()
+      return true
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  const jsonRequest = (method: string, body: unknown): RequestInit => ({
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  })
+
+  const handleRegister = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const registered = await request(
+      "/api/drift/baselines",
+      jsonRequest("POST", { mailbox, credentialId, autoRemediate }),
+      "Mailbox registered",
+    )
+    if (registered) {
+      setMailbox("")
+    }
+  }
+
+  const handleCheck = async () => {
+    setIsChecking(true)
+    await request("/api/drift/check", jsonRequest("POST", {}), "Drift check finished")
+    setIsChecking(false)
+  }
+
+  const baselineUrl = (baseline: DriftBaseline) => `/api/drift/baselines/${encodeURIComponent(baseline.mailbox)}`
+
+  const handleUnregister = async (baseline: DriftBaseline) => {
+    if (!window.confirm(`Stop watching ${baseline.mailbox} for drift?`)) return
+    await request(baselineUrl(baseline), { method: "DELETE" }, "Mailbox unregistered")
+  }
+
+  if (isLoading) {
+    return <div className="animate-pulse h-12 bg-muted rounded"></div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={handleRegister} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+        <div className="space-y-1 md:col-span-2">
+          <Label htmlFor="drift-mailbox">Mailbox</Label>
+          <Input
+            id="drift-mailbox"
+            type="email"
+            placeholder="user@example.com"
+            value={mailbox}
+            onChange={(e) => setMailbox(e.target.value)}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Credential</Label>
+          <Select value={credentialId} onValueChange={setCredentialId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Stored credential" />
+            </SelectTrigger>
+            <SelectContent>
+              {credentials.map((credential) => (
+                <SelectItem key={credential.id} value={credential.id}>
+                  {credential.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={!mailbox.trim() || !credentialId}>
+          Watch Mailbox
+        </Button>
+        <div className="flex items-center space-x-2 md:col-span-4">
+          <Switch id="drift-auto-remediate" checked={autoRemediate} onCheckedChange={setAutoRemediate} />
+          <Label htmlFor="drift-auto-remediate" className="text-sm font-normal">
+            Automatically restore the baseline when drift is found
+          </Label>
+        </div>
+      </form>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">Watched Mailboxes</p>
+          <Button variant="outline" size="sm" onClick={handleCheck} disabled={isChecking || baselines.length === 0}>
+            {isChecking ? "Checking..." : "Check Now"}
+          </Button>
+        </div>
+        {baselines.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No mailboxes are watched for drift yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mailbox</TableHead>
+                <TableHead>Baseline</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Auto-remediate</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {baselines.map((baseline) => (
+                <TableRow key={baseline.mailbox}>
+                  <TableCell className="text-xs">{baseline.mailbox}</TableCell>
+                  <TableCell className="text-xs" title={baseline.delegates.join("\n")}>
+                    {baseline.delegates.length} delegates
+                  </TableCell>
+                  <TableCell>
+                    {baseline.lastStatus ? (
+                      <Badge variant={STATUS_BADGES[baseline.lastStatus]}>{baseline.lastStatus.replace("_", " ")}</Badge>
+                    ) : (
+                      <Badge variant="outline">not checked</Badge>
+                    )}
+                    {baseline.lastCheckedAt && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {new Date(baseline.lastCheckedAt).toLocaleString()}
+                      </p>
+                    )}
+                    {baseline.lastError && (
+                      <p className="text-xs text-red-600 dark:text-red-400 mt-1">{baseline.lastError}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={baseline.autoRemediate}
+                      onCheckedChange={(checked) =>
+                        request(baselineUrl(baseline), jsonRequest("PATCH", { autoRemediate: checked }), "Baseline updated")
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="text-right space-x-1">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      title="Accept the mailbox's current delegates as its baseline"
+                      onClick={() =>
+                        request(baselineUrl(baseline), jsonRequest("PATCH", { rebaseline: true }), "Baseline updated")
+                      }
+                    >
+                      Re-baseline
+                    </Button>
+                    <Button variant="destructive" size="sm" onClick={() => handleUnregister(baseline)}>
+                      Unwatch
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <p className="text-sm font-medium">Recent Drift</p>
+          <div className="space-x-1">
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/drift/events?format=csv">Export CSV</a>
+            </Button>
+            <Button variant="outline" size="sm" asChild>
+              <a href="/api/drift/events?format=json">Export JSON</a>
+            </Button>
+          </div>
+        </div>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No drift recorded</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Mailbox</TableHead>
+                <TableHead>Changes</TableHead>
+                <TableHead>Outcome</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="text-xs">
+                    {new Date(event.timestamp).toLocaleString()}
+                    <p className="text-muted-foreground">{event.trigger}</p>
+                  </TableCell>
+                  <TableCell className="text-xs">{event.mailbox}</TableCell>
+                  <TableCell className="text-xs">
+                    {event.unexpected.map((delegate) => (
+                      <p key={`+${delegate}`} className="text-red-600 dark:text-red-400">
+                        + {delegate}
+                      </p>
+                    ))}
+                    {event.missing.map((delegate) => (
+                      <p key={`-${delegate}`} className="text-amber-600 dark:text-amber-400">
+                        - {delegate}
+                      </p>
+                    ))}
+                    {event.error && <p className="text-red-600 dark:text-red-400">{event.error}</p>}
+                  </TableCell>
+                  <TableCell>
+                    {event.status === "error" ? (
+                      <Badge variant="destructive">error</Badge>
+                    ) : event.remediated ? (
+                      <Badge variant="success">remediated</Badge>
+                    ) : (
+                      <Badge variant="warning">drifted</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -15,12 +15,28 @@ import { Alert, AlertDescription } from "@/components/ui/alert"
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip"
 import { HelpCircle, Upload, Search, AlertTriangle } from "lucide-react"
-import type { DelegateFormProps } from "@/types"
+import type { DelegateFormProps, OperationResult } from "@/types"
 import { useDelegateFormHandler } from "@/hooks/useDelegateFormHandler"
+import { canChangeMailbox, hasDirectoryScopes, hasPermission } from "@/lib/permissions"
+import BatchPreview from "./batch-preview"
+import { useCurrentUser } from "./current-user"
+import FilterManager from "./filter-manager"
+import ForwardingManager from "./forwarding-manager"
+import MailAccessAudit from "./mail-access-audit"
+import SendAsManager from "./send-as-manager"
+import VacationEditor from "./vacation-editor"
+
+interface BatchRow {
+  operation: string
+  userEmail: string
+  delegateEmail: string
+  expiresAt?: string
+  displayName?: string
+}
 
 export default function EnhancedDelegateForm({
   authMethod,
-  serviceAccountFile,
+  credentialId,
   onSubmit,
   isLoading,
   onDirectApiResult,
@@ -30,17 +46,26 @@ export default function EnhancedDelegateForm({
   const [operation, setOperation] = useState<string>("list")
   const [userEmail, setUserEmail] = useState<string>("")
   const [delegateEmail, setDelegateEmail] = useState<string>("")
+  const [expiresAt, setExpiresAt] = useState<string>("")
+  const [reason, setReason] = useState<string>("")
   const [batchEmails, setBatchEmails] = useState<string>("")
   const [debugMode, setDebugMode] = useState<boolean>(false)
   const [showConfirmation, setShowConfirmation] = useState<boolean>(false)
   const [searchQuery, setSearchQuery] = useState<string>("")
+  const [isPreviewing, setIsPreviewing] = useState<boolean>(false)
+  const [preview, setPreview] = useState<{
+    operations: BatchRow[]
+    results: OperationResult[]
+  } | null>(null)
+  const user = useCurrentUser()
+  const canWrite = hasPermission(user, "delegates:write")
 
   // Memoize handlers to prevent unnecessary re-renders
   const handleDirectApiClick = useCallback(async () => {
-    if (!serviceAccountFile) {
+    if (authMethod !== "oauth" && !credentialId) {
       toast({
         title: "Missing service account",
-        description: "Service account file is required",
+        description: "A stored service account credential is required",
         variant: "destructive",
       })
       return
@@ -59,7 +84,9 @@ export default function EnhancedDelegateForm({
       onDirectApiLoading(true)
 
       const formData = new FormData()
-      formData.append("serviceAccount", serviceAccountFile)
+      if (credentialId) {
+        formData.append("credentialId", credentialId)
+      }
       formData.append("userEmail", userEmail)
       formData.append("operation", "list")
 
@@ -92,7 +119,86 @@ export default function EnhancedDelegateForm({
     } finally {
       onDirectApiLoading(false)
     }
-  }, [serviceAccountFile, userEmail, onDirectApiLoading, onDirectApiResult, onDirectApiError])
+  }, [authMethod, credentialId, userEmail, onDirectApiLoading, onDirectApiResult, onDirectApiError])
+
+  // Each batch line is operation,userEmail,delegateEmail[,expiresAt]; a sendas-add ends with a display name instead
+  const parseBatchOperations = (): BatchRow[] =>
+    batchEmails
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => {
+        const [op, user, delegate, last] = line.split(",").map((item) => item.trim())
+        return {
+          operation: op,
+          userEmail: user,
+          delegateEmail: delegate,
+          expiresAt: op !== "sendas-add" ? last || undefined : undefined,
+          displayName: op === "sendas-add" ? last || undefined : undefined,
+        }
+      })
+
+  // Batch form data with the selected credential; OAuth requests are authorized by the session cookie
+  const createBatchFormData = (operations: BatchRow[]) => {
+    const formData = new FormData()
+    if (authMethod === "service-account" && credentialId) {
+      formData.append("credentialId", credentialId)
+    }
+    formData.append("authMethod", authMethod || "")
+    formData.append("operations", JSON.stringify(operations))
+    if (reason.trim()) {
+      formData.append("reason", reason.trim())
+    }
+    return formData
+  }
+
+  // Check every row against the mailboxes' current delegates without changing anything
+  const handlePreview = async () => {
+    if (authMethod !== "oauth" && !credentialId) {
+      toast({
+        title: "Missing service account",
+        description: "A stored service account credential is required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    const operations = parseBatchOperations()
+    const formData = createBatchFormData(operations)
+    formData.append("dryRun", "true")
+
+    try {
+      setPreview(null)
+      setIsPreviewing(true)
+      const response = await fetch("/api/jobs", { method: "POST", body: formData })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      setPreview({ operations, results: data.results })
+    } catch (err: any) {
+      toast({
+        title: "Preview failed",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsPreviewing(false)
+    }
+  }
+
+  // Submit only the rows ticked in the preview as a background job
+  const handleRunSelected = async (indexes: number[]) => {
+    if (!preview) return
+    const operations = indexes.map((index) => preview.operations[index])
+    try {
+      await onSubmit(createBatchFormData(operations), "/api/jobs")
+      setPreview(null)
+      setBatchEmails("")
+      setReason("")
+    } catch (error) {
+      console.error("Error submitting previewed batch:", error)
+    }
+  }
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -144,12 +250,13 @@ export default function EnhancedDelegateForm({
     try {
       const formData = new FormData()
 
-      if (authMethod === "service-account" && serviceAccountFile) {
-        formData.append("serviceAccount", serviceAccountFile)
-      } else {
+      // OAuth requests are authorized by the session cookie, so no file is attached
+      if (authMethod === "service-account" && credentialId) {
+        formData.append("credentialId", credentialId)
+      } else if (authMethod !== "oauth") {
         toast({
           title: "Missing service account",
-          description: "Service account file is required",
+          description: "A stored service account credential is required",
           variant: "destructive",
         })
         return
@@ -157,23 +264,15 @@ export default function EnhancedDelegateForm({
 
       formData.append("authMethod", authMethod)
       formData.append("operation", operation)
+      // Shown to approvers when a change needs approval
+      if (reason.trim()) {
+        formData.append("reason", reason.trim())
+      }
 
       if (isBatchMode) {
         // Parse batch operations
         try {
-          const operations = batchEmails
-            .split("\n")
-            .filter((line) => line.trim())
-            .map((line) => {
-              const [op, user, delegate] = line.split(",").map((item) => item.trim())
-              return {
-                operation: op,
-                userEmail: user,
-                delegateEmail: delegate,
-              }
-            })
-
-          formData.append("operations", JSON.stringify(operations))
+          formData.append("operations", JSON.stringify(parseBatchOperations()))
         } catch (error) {
           toast({
             title: "Invalid format",
@@ -187,6 +286,9 @@ export default function EnhancedDelegateForm({
         if (delegateEmail) {
           formData.append("delegateEmail", delegateEmail)
         }
+        if (operation === "add" && expiresAt) {
+          formData.append("expiresAt", new Date(expiresAt).toISOString())
+        }
       }
 
       if (debugMode) {
@@ -196,17 +298,20 @@ export default function EnhancedDelegateForm({
         }
       }
 
-      // Use the consolidated API endpoint
-      const endpoint = "/api/delegates"
+      // Batches run as background jobs; single operations use the consolidated API endpoint
+      const endpoint = isBatchMode ? "/api/jobs" : "/api/delegates"
       await onSubmit(formData, endpoint)
 
       // Reset form if successful
       if (!isBatchMode) {
         if (operation !== "list") {
           setDelegateEmail("")
+          setExpiresAt("")
+          setReason("")
         }
       } else {
         setBatchEmails("")
+        setReason("")
       }
 
       // Reset confirmation state
@@ -230,8 +335,12 @@ export default function EnhancedDelegateForm({
         const batchLines = lines
           .filter((line) => line.trim())
           .map((line) => {
-            const [operation, userEmail, delegateEmail] = line.split(",")
-            return `${operation.trim()},${userEmail.trim()},${delegateEmail?.trim() || ""}`
+            const [operation, userEmail, delegateEmail, expiresAt] = line.split(",")
+            const fields = [operation.trim(), userEmail.trim(), delegateEmail?.trim() || ""]
+            if (expiresAt?.trim()) {
+              fields.push(expiresAt.trim())
+            }
+            return fields.join(",")
           })
         setBatchEmails(batchLines.join("\n"))
       }
@@ -242,9 +351,16 @@ export default function EnhancedDelegateForm({
   return (
     <>
       <Tabs defaultValue="single" className="w-full">
-        <TabsList className="grid w-full grid-cols-2">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="single">Single Operation</TabsTrigger>
-          <TabsTrigger value="batch">Batch Operations</TabsTrigger>
+          <TabsTrigger value="batch" disabled={!canWrite}>
+            Batch Operations
+          </TabsTrigger>
+          <TabsTrigger value="send-as">Send-As</TabsTrigger>
+          <TabsTrigger value="forwarding">Forwarding</TabsTrigger>
+          <TabsTrigger value="vacation">Vacation</TabsTrigger>
+          <TabsTrigger value="filters">Filters</TabsTrigger>
+          <TabsTrigger value="access">Access</TabsTrigger>
         </TabsList>
 
         <TabsContent value="single">
@@ -300,29 +416,36 @@ export default function EnhancedDelegateForm({
                     List Delegates
                   </Label>
                 </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="add" id="add" />
-                  <Label htmlFor="add" className="cursor-pointer">
-                    Add Delegate
-                  </Label>
-                </div>
-                <div className="flex items-center space-x-2">
-                  <RadioGroupItem value="remove" id="remove" />
-                  <Label htmlFor="remove" className="cursor-pointer">
-                    Remove Delegate
-                  </Label>
-                  <TooltipProvider>
-                    <Tooltip>
-                      <TooltipTrigger asChild>
-                        <AlertTriangle className="h-4 w-4 text-amber-500" />
-                      </TooltipTrigger>
-                      <TooltipContent>
-                        <p>This action will remove access and cannot be undone</p>
-                      </TooltipContent>
-                    </Tooltip>
-                  </TooltipProvider>
-                </div>
+                {canWrite && (
+                  <>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="add" id="add" />
+                      <Label htmlFor="add" className="cursor-pointer">
+                        Add Delegate
+                      </Label>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <RadioGroupItem value="remove" id="remove" />
+                      <Label htmlFor="remove" className="cursor-pointer">
+                        Remove Delegate
+                      </Label>
+                      <TooltipProvider>
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <AlertTriangle className="h-4 w-4 text-amber-500" />
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>This action will remove access; use Undo in the activity log to restore it</p>
+                          </TooltipContent>
+                        </Tooltip>
+                      </TooltipProvider>
+                    </div>
+                  </>
+                )}
               </RadioGroup>
+              {!canWrite && (
+                <p className="text-xs text-muted-foreground">Your {user?.role} role can list delegates but not change them</p>
+              )}
             </div>
 
             <div className="space-y-2">
@@ -336,6 +459,14 @@ export default function EnhancedDelegateForm({
                 required
               />
               <p className="text-xs text-muted-foreground">The email address of the shared mailbox</p>
+              {operation !== "list" &&
+                userEmail.includes("@") &&
+                !canChangeMailbox(user, userEmail) &&
+                !hasDirectoryScopes(user) && (
+                  <p className="text-xs text-red-600 dark:text-red-400">
+                    This mailbox is outside the mailboxes you are allowed to change
+                  </p>
+                )}
             </div>
 
             {operation !== "list" && (
@@ -355,6 +486,36 @@ export default function EnhancedDelegateForm({
               </div>
             )}
 
+            {operation === "add" && (
+              <div className="space-y-2">
+                <Label htmlFor="expires-at">Access Expires (optional)</Label>
+                <Input
+                  id="expires-at"
+                  type="datetime-local"
+                  value={expiresAt}
+                  onChange={(e) => setExpiresAt(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  The delegate is removed automatically at this time. Requires a stored credential.
+                </p>
+              </div>
+            )}
+
+            {operation !== "list" && (
+              <div className="space-y-2">
+                <Label htmlFor="change-reason">Reason (optional)</Label>
+                <Input
+                  id="change-reason"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder="e.g. Covering the shared inbox during leave"
+                />
+                <p className="text-xs text-muted-foreground">
+                  Mailboxes with an approval rule queue the change for a second user, who sees this reason
+                </p>
+              </div>
+            )}
+
             <div className="flex items-center space-x-2">
               <input
                 type="checkbox"
@@ -431,7 +592,15 @@ export default function EnhancedDelegateForm({
                     </TooltipTrigger>
                     <TooltipContent side="left" className="max-w-sm">
                       <p>Format each line as: operation,userEmail,delegateEmail</p>
-                      <p className="mt-1">Valid operations: add, remove, list</p>
+                      <p className="mt-1">Valid operations: add, remove, list, sendas-add, sendas-remove</p>
+                      <p className="mt-1">An add can end with an ISO expiry, e.g. add,shared@example.com,user@example.com,2025-07-01T09:00:00Z</p>
+                      <p className="mt-1">
+                        Send-as rows take the alias in place of the delegate, and a sendas-add can end with a display
+                        name, e.g. sendas-add,user@example.com,sales@example.com,Sales Team
+                      </p>
+                      <p className="mt-1">
+                        imap-disable and pop-disable rows only take the mailbox, e.g. imap-disable,user@example.com
+                      </p>
                     </TooltipContent>
                   </Tooltip>
                 </TooltipProvider>
@@ -474,8 +643,14 @@ export default function EnhancedDelegateForm({
 
               {searchQuery && <p className="text-xs text-muted-foreground">Showing lines containing "{searchQuery}"</p>}
 
+              <Input
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason for these changes (optional, shown to approvers)"
+              />
+
               <div className="text-xs text-muted-foreground space-y-1">
-                <p>Format: operation,userEmail,delegateEmail (one per line)</p>
+                <p>Format: operation,userEmail,delegateEmail[,expiresAt] (one per line)</p>
                 <p>Example:</p>
                 <pre className="bg-muted p-2 rounded text-xs">
                   add,shared@example.com,user1@example.com
@@ -485,6 +660,8 @@ export default function EnhancedDelegateForm({
                   remove,shared@example.com,user3@example.com
                   <br />
                   list,shared@example.com,
+                  <br />
+                  sendas-add,user1@example.com,sales@example.com,Sales Team
                 </pre>
               </div>
             </div>
@@ -504,6 +681,25 @@ export default function EnhancedDelegateForm({
 
             <Separator className="my-4" />
 
+            {preview && (
+              <BatchPreview
+                results={preview.results}
+                isLoading={isLoading}
+                onRun={handleRunSelected}
+                onClose={() => setPreview(null)}
+              />
+            )}
+
+            <Button
+              type="button"
+              variant="outline"
+              onClick={handlePreview}
+              disabled={!authMethod || isLoading || isPreviewing || !batchEmails.trim()}
+              className="w-full"
+            >
+              {isPreviewing ? "Checking Rows..." : "Preview Changes"}
+            </Button>
+
             <Button type="submit" disabled={!authMethod || isLoading || !batchEmails.trim()} className="w-full">
               {isLoading ? (
                 <>
@@ -535,6 +731,49 @@ export default function EnhancedDelegateForm({
             </Button>
           </form>
         </TabsContent>
+
+        <TabsContent value="send-as">
+          <SendAsManager authMethod={authMethod} credentialId={credentialId} />
+        </TabsContent>
+
+        <TabsContent value="forwarding">
+          <ForwardingManager
+            authMethod={authMethod}
+            credentialId={credentialId}
+            isLoading={isLoading}
+            onResult={onDirectApiResult}
+            onError={onDirectApiError}
+            onLoading={onDirectApiLoading}
+          />
+        </TabsContent>
+
+        <TabsContent value="vacation">
+          <VacationEditor
+            authMethod={authMethod}
+            credentialId={credentialId}
+            isLoading={isLoading}
+            onSubmit={onSubmit}
+            onResult={onDirectApiResult}
+            onError={onDirectApiError}
+            onLoading={onDirectApiLoading}
+          />
+        </TabsContent>
+
+        <TabsContent value="filters">
+          <FilterManager authMethod={authMethod} credentialId={credentialId} onResult={onDirectApiResult} />
+        </TabsContent>
+
+        <TabsContent value="access">
+          <MailAccessAudit
+            authMethod={authMethod}
+            credentialId={credentialId}
+            isLoading={isLoading}
+            onSubmit={onSubmit}
+            onResult={onDirectApiResult}
+            onError={onDirectApiError}
+            onLoading={onDirectApiLoading}
+          />
+        </TabsContent>
       </Tabs>
 
       {/* Confirmation Dialog */}
@@ -544,7 +783,7 @@ export default function EnhancedDelegateForm({
             <DialogTitle>Confirm Delegate Removal</DialogTitle>
           </DialogHeader>
           <div className="py-4">
-            <p>Are you sure you want to remove delegate access? This action cannot be undone.</p>
+            <p>Are you sure you want to remove delegate access? You can restore it with Undo in the activity log.</p>
             <div className="flex justify-end space-x-2 mt-4">
               <Button variant="outline" onClick={() => setShowConfirmation(false)}>
                 Cancel
@@ -0,0 +1,416 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Separator } from "@/components/ui/separator"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { canChangeMailbox, hasDirectoryScopes, hasPermission } from "@/lib/permissions"
+import type { AuthMethod, FilterDefinition, MailFilter, OperationResult } from "@/types"
+import { useCurrentUser } from "./current-user"
+
+interface FilterManagerProps {
+  authMethod: AuthMethod
+  credentialId: string | null
+  onResult: (results: OperationResult[]) => void
+}
+
+// Checkbox actions of the create form and the labels they add or remove
+const QUICK_ACTIONS = [
+  { id: "skipInbox", label: "Skip the inbox", removeLabel: "INBOX" },
+  { id: "markRead", label: "Mark as read", removeLabel: "UNREAD" },
+  { id: "star", label: "Star it", addLabel: "STARRED" },
+  { id: "trash", label: "Delete it", addLabel: "TRASH" },
+]
+
+export default function FilterManager({ authMethod, credentialId, onResult }: FilterManagerProps) {
+  const [mailbox, setMailbox] = useState("")
+  const [loadedMailbox, setLoadedMailbox] = useState<string | null>(null)
+  const [filters, setFilters] = useState<MailFilter[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [from, setFrom] = useState("")
+  const [to, setTo] = useState("")
+  const [subject, setSubject] = useState("")
+  const [query, setQuery] = useState("")
+  const [hasAttachment, setHasAttachment] = useState(false)
+  const [label, setLabel] = useState("")
+  const [quickActions, setQuickActions] = useState<string[]>([])
+  const [forward, setForward] = useState("")
+  const [scanMailboxes, setScanMailboxes] = useState("")
+  const importInput = useRef<HTMLInputElement>(null)
+  const user = useCurrentUser()
+  const canWrite = hasPermission(user, "delegates:write")
+  const isAdmin = hasPermission(user, "admin")
+  const outOfScope = !!loadedMailbox && !canChangeMailbox(user, loadedMailbox) && !hasDirectoryScopes(user)
+
+  // Calls a v2 route with the selected credential; OAuth requests are authorized by the session cookie
+  const callApi = async (segments: string[], init: RequestInit = {}) => {
+    const path = segments.map(encodeURIComponent).join("/")
+    // Requests with a JSON body name the credential in the body instead
+    const search = credentialId && !init.body ? `?credentialId=${encodeURIComponent(credentialId)}` : ""
+    const response = await fetch(`/api/v2/${path}${search}`, init)
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error?.message || `Server returned an error: ${response.status} ${response.statusText}`)
+    }
+    return data.data
+  }
+
+  const sendJson = (method: string, body: Record<string, unknown>): RequestInit => ({
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(credentialId ? { ...body, credentialId } : body),
+  })
+
+  const loadFilters = async (address: string) => {
+    const data = await callApi(["mailboxes", address, "filters"])
+    setFilters(data.filters)
+    setLoadedMailbox(data.mailbox)
+  }
+
+  const runAction = async (action: () => Promise<string | undefined>) => {
+    if (authMethod !== "oauth" && !credentialId) {
+      toast({
+        title: "Missing service account",
+        description: "A stored service account credential is required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      const message = await action()
+      if (message) {
+        toast({ title: "Operation successful", description: message })
+      }
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleLoad = (e: React.FormEvent) => {
+    e.preventDefault()
+    runAction(async () => {
+      await loadFilters(mailbox.trim())
+      return undefined
+    })
+  }
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!loadedMailbox) return
+    const chosen = QUICK_ACTIONS.filter((action) => quickActions.includes(action.id))
+    const addLabels = [...(label.trim() ? [label.trim()] : []), ...chosen.flatMap((action) => action.addLabel || [])]
+    const removeLabels = chosen.flatMap((action) => action.removeLabel || [])
+    const filter: FilterDefinition = {
+      criteria: {
+        from: from.trim() || undefined,
+        to: to.trim() || undefined,
+        subject: subject.trim() || undefined,
+        query: query.trim() || undefined,
+        hasAttachment: hasAttachment || undefined,
+      },
+      action: {
+        addLabels: addLabels.length > 0 ? addLabels : undefined,
+        removeLabels: removeLabels.length > 0 ? removeLabels : undefined,
+        forward: forward.trim() || undefined,
+      },
+    }
+    runAction(async () => {
+      const data = await callApi(["mailboxes", loadedMailbox, "filters"], sendJson("POST", { ...filter }))
+      setFrom("")
+      setTo("")
+      setSubject("")
+      setQuery("")
+      setHasAttachment(false)
+      setLabel("")
+      setQuickActions([])
+      setForward("")
+      await loadFilters(loadedMailbox)
+      return data.message
+    })
+  }
+
+  const handleDelete = (filter: MailFilter) => {
+    if (!loadedMailbox || !filter.id) return
+    if (!window.confirm(`Delete this filter from ${loadedMailbox}?\n\n${filter.description}`)) return
+    runAction(async () => {
+      const data = await callApi(["mailboxes", loadedMailbox, "filters", filter.id as string], { method: "DELETE" })
+      await loadFilters(loadedMailbox)
+      return data.message
+    })
+  }
+
+  // Download the mailbox's filters as a JSON filter set
+  const handleExport = () => {
+    if (!loadedMailbox) return
+    runAction(async () => {
+      const filterSet = await callApi(["mailboxes", loadedMailbox, "filters", "export"])
+      const blob = new Blob([JSON.stringify(filterSet, null, 2)], { type: "application/json" })
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `filters-${loadedMailbox}.json`
+      link.click()
+      URL.revokeObjectURL(url)
+      return `Exported ${filterSet.filters.length} filters`
+    })
+  }
+
+  // Preview an exported filter set against the mailbox, then create the filters it does not have yet
+  const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file || !loadedMailbox) return
+    runAction(async () => {
+      let filterSet: any
+      try {
+        filterSet = JSON.parse(await file.text())
+      } catch {
+        throw new Error(`${file.name} is not a JSON filter set`)
+      }
+      const filters = Array.isArray(filterSet) ? filterSet : filterSet.filters
+      const preview = await callApi(
+        ["mailboxes", loadedMailbox, "filters", "import"],
+        sendJson("POST", { filters, dryRun: true }),
+      )
+      if (preview.created === 0) {
+        return `${loadedMailbox} already has every filter in ${file.name}`
+      }
+      if (!window.confirm(`${preview.message}. Import them into ${loadedMailbox}?`)) {
+        return undefined
+      }
+      const data = await callApi(["mailboxes", loadedMailbox, "filters", "import"], sendJson("POST", { filters }))
+      await loadFilters(loadedMailbox)
+      return data.message
+    })
+  }
+
+  // Scan the listed mailboxes, or the whole domain, and show the flagged ones with the other results
+  const handleScan = () => {
+    const mailboxes = scanMailboxes
+      .split(/[\s,]+/)
+      .map((address) => address.trim())
+      .filter(Boolean)
+    runAction(async () => {
+      const scan = await callApi(
+        ["filters", "scan"],
+        sendJson("POST", { mailboxes: mailboxes.length > 0 ? mailboxes : undefined }),
+      )
+      const external = (filters?: MailFilter[]) => (filters || []).filter((filter) => filter.forwardsExternally)
+      onResult(
+        scan.mailboxes
+          .filter((entry: any) => !entry.success || external(entry.filters).length > 0)
+          .map((entry: any) => ({
+            success: entry.success,
+            operation: "filter-list",
+            userEmail: entry.mailbox,
+            message: entry.message,
+            errorCode: entry.errorCode,
+            filters: entry.filters && external(entry.filters),
+          })),
+      )
+      return (
+        `${scan.flagged} of ${scan.scanned} mailboxes have filters forwarding outside the organisation; ` +
+        `${scan.errors} could not be read`
+      )
+    })
+  }
+
+  const toggleQuickAction = (id: string, checked: boolean) =>
+    setQuickActions((current) => (checked ? [...current, id] : current.filter((action) => action !== id)))
+
+  return (
+    <div className="space-y-6 mt-4">
+      <form onSubmit={handleLoad} className="space-y-2">
+        <Label htmlFor="filter-mailbox">Mailbox Email</Label>
+        <div className="flex gap-2">
+          <Input
+            id="filter-mailbox"
+            type="email"
+            value={mailbox}
+            onChange={(e) => setMailbox(e.target.value)}
+            placeholder="user@example.com"
+            required
+          />
+          <Button type="submit" disabled={!authMethod || isLoading}>
+            {isLoading ? "Loading..." : "Load Filters"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The mailbox whose filters to manage. Changes are recorded in the activity log but cannot be rolled back.
+        </p>
+      </form>
+
+      {loadedMailbox && (
+        <div className="space-y-4">
+          {filters.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Filter</TableHead>
+                  {canWrite && <TableHead className="text-right">Actions</TableHead>}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filters.map((filter) => (
+                  <TableRow key={filter.id}>
+                    <TableCell>
+                      <span>{filter.description}</span>
+                      {filter.forwardsExternally && (
+                        <Badge variant="destructive" className="ml-2">
+                          forwards externally
+                        </Badge>
+                      )}
+                    </TableCell>
+                    {canWrite && (
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          disabled={isLoading || outOfScope}
+                          onClick={() => handleDelete(filter)}
+                        >
+                          Delete
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">{loadedMailbox} has no filters</p>
+          )}
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" disabled={isLoading} onClick={handleExport}>
+              Export Filters
+            </Button>
+            {canWrite && !outOfScope && (
+              <>
+                <Button
+                  type="button"
+                  variant="outline"
+                  disabled={isLoading}
+                  onClick={() => importInput.current?.click()}
+                >
+                  Import Filters
+                </Button>
+                <input
+                  ref={importInput}
+                  type="file"
+                  accept="application/json,.json"
+                  className="hidden"
+                  onChange={handleImport}
+                />
+              </>
+            )}
+          </div>
+
+          {canWrite && outOfScope && (
+            <p className="text-xs text-red-600 dark:text-red-400">
+              This mailbox is outside the mailboxes you are allowed to change
+            </p>
+          )}
+
+          {canWrite && !outOfScope && (
+            <form onSubmit={handleCreate} className="space-y-3 rounded-lg border p-4">
+              <h3 className="text-sm font-medium">Create Filter</h3>
+              <div className="grid gap-3 sm:grid-cols-2">
+                <Input value={from} onChange={(e) => setFrom(e.target.value)} placeholder="From" />
+                <Input value={to} onChange={(e) => setTo(e.target.value)} placeholder="To" />
+                <Input value={subject} onChange={(e) => setSubject(e.target.value)} placeholder="Subject" />
+                <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Has the words" />
+              </div>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="filter-has-attachment"
+                  checked={hasAttachment}
+                  onChange={(e) => setHasAttachment(e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                />
+                <Label htmlFor="filter-has-attachment" className="text-sm">
+                  Has attachment
+                </Label>
+              </div>
+              <Separator />
+              <div className="grid gap-3 sm:grid-cols-2">
+                <Input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Apply label (optional)" />
+                <Input
+                  type="email"
+                  value={forward}
+                  onChange={(e) => setForward(e.target.value)}
+                  placeholder="Forward to (optional)"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                {QUICK_ACTIONS.map((action) => (
+                  <div key={action.id} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      id={`filter-${action.id}`}
+                      checked={quickActions.includes(action.id)}
+                      onChange={(e) => toggleQuickAction(action.id, e.target.checked)}
+                      className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+                    />
+                    <Label htmlFor={`filter-${action.id}`} className="text-sm">
+                      {action.label}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Labels that do not exist yet are created. Mail can only be forwarded to a verified forwarding address
+                of the mailbox.
+              </p>
+              <Button type="submit" disabled={isLoading}>
+                Create Filter
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+
+      <Separator />
+
+      <div className="space-y-2">
+        <Label htmlFor="filter-scan">Scan for Forwarding Filters</Label>
+        <Textarea
+          id="filter-scan"
+          value={scanMailboxes}
+          onChange={(e) => setScanMailboxes(e.target.value)}
+          placeholder={`Mailboxes to scan, one per line${isAdmin ? "; leave empty to scan the whole domain" : ""}`}
+          rows={4}
+        />
+        <p className="text-xs text-muted-foreground">
+          Lists the mailboxes with a filter that forwards outside the organisation, and those that could not be read.
+          Such filters keep forwarding when auto-forwarding is off.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleScan}
+          disabled={!authMethod || isLoading || (!isAdmin && !scanMailboxes.trim())}
+          className="w-full"
+        >
+          {isLoading ? "Scanning..." : scanMailboxes.trim() ? "Scan Mailboxes" : "Scan Domain"}
+        </Button>
+      </div>
+    </div>
+  )
+}
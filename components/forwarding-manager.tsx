@@ -0,0 +1,330 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { canChangeMailbox, hasDirectoryScopes, hasPermission } from "@/lib/permissions"
+import type { AuthMethod, ForwardingOperation, OperationResult } from "@/types"
+import { useCurrentUser } from "./current-user"
+
+interface ForwardingManagerProps {
+  authMethod: AuthMethod
+  credentialId: string | null
+  isLoading: boolean
+  onResult: (results: OperationResult[]) => void
+  onError: (error: string) => void
+  onLoading: (isLoading: boolean) => void
+}
+
+type FormOperation = ForwardingOperation | "forwarding-off"
+
+const OPERATIONS: { value: FormOperation; label: string; write: boolean }[] = [
+  { value: "forwarding-list", label: "Show Forwarding", write: false },
+  { value: "forwarding-add", label: "Add Address", write: true },
+  { value: "forwarding-remove", label: "Remove Address", write: true },
+  { value: "forwarding-update", label: "Turn On Auto-Forwarding", write: true },
+  { value: "forwarding-off", label: "Turn Off Auto-Forwarding", write: true },
+]
+
+const DISPOSITIONS = [
+  { value: "leaveInInbox", label: "Keep in the inbox" },
+  { value: "markRead", label: "Keep and mark as read" },
+  { value: "archive", label: "Archive" },
+  { value: "trash", label: "Move to trash" },
+]
+
+export default function ForwardingManager({
+  authMethod,
+  credentialId,
+  isLoading,
+  onResult,
+  onError,
+  onLoading,
+}: ForwardingManagerProps) {
+  const [operation, setOperation] = useState<FormOperation>("forwarding-list")
+  const [userEmail, setUserEmail] = useState("")
+  const [forwardingEmail, setForwardingEmail] = useState("")
+  const [disposition, setDisposition] = useState("leaveInInbox")
+  const [scanMailboxes, setScanMailboxes] = useState("")
+  const [flaggedOnly, setFlaggedOnly] = useState(true)
+  const user = useCurrentUser()
+  const canWrite = hasPermission(user, "delegates:write")
+  const isAdmin = hasPermission(user, "admin")
+  const needsAddress = ["forwarding-add", "forwarding-remove", "forwarding-update"].includes(operation)
+
+  // Calls a v2 route with the selected credential; OAuth requests are authorized by the session cookie
+  const callApi = async (path: string, init: RequestInit = {}) => {
+    // Requests with a JSON body name the credential in the body instead
+    const query = credentialId && !init.body ? `?credentialId=${encodeURIComponent(credentialId)}` : ""
+    const response = await fetch(`/api/v2${path}${query}`, init)
+    const data = await response.json()
+    if (!response.ok) {
+      const error = data.error || { code: "unknown", message: `Server returned an error: ${response.status}` }
+      throw Object.assign(new Error(error.message), { code: error.code, details: error.details })
+    }
+    return data.data
+  }
+
+  const sendJson = (method: string, body: Record<string, unknown>): RequestInit => ({
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(credentialId ? { ...body, credentialId } : body),
+  })
+
+  const checkCredential = () => {
+    if (authMethod !== "oauth" && !credentialId) {
+      toast({
+        title: "Missing service account",
+        description: "A stored service account credential is required",
+        variant: "destructive",
+      })
+      return false
+    }
+    return true
+  }
+
+  // Run the selected operation and show its outcome as a result, like the delegate operations
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!checkCredential()) return
+
+    const mailbox = userEmail.trim()
+    const address = forwardingEmail.trim()
+    const base = `/mailboxes/${encodeURIComponent(mailbox)}/forwarding`
+    const resultOperation: ForwardingOperation = operation === "forwarding-off" ? "forwarding-update" : operation
+    try {
+      onLoading(true)
+      let result: OperationResult
+      if (operation === "forwarding-list") {
+        const forwarding = await callApi(base)
+        result = {
+          success: true,
+          operation,
+          userEmail: mailbox,
+          message: forwarding.forwardsExternally
+            ? `${mailbox} auto-forwards outside the organisation`
+            : `Forwarding settings of ${mailbox}`,
+          forwarding,
+        }
+      } else {
+        const data =
+          operation === "forwarding-add"
+            ? await callApi(`${base}/addresses`, sendJson("POST", { forwardingEmail: address }))
+            : operation === "forwarding-remove"
+              ? await callApi(`${base}/addresses/${encodeURIComponent(address)}`, { method: "DELETE" })
+              : await callApi(
+                  base,
+                  sendJson(
+                    "PUT",
+                    operation === "forwarding-off"
+                      ? { enabled: false }
+                      : { enabled: true, emailAddress: address, disposition },
+                  ),
+                )
+        result = {
+          success: true,
+          operation: data.operation,
+          userEmail: data.mailbox,
+          delegateEmail: data.forwardingEmail,
+          message: data.message,
+          forwarding: data.forwarding,
+        }
+        setForwardingEmail("")
+      }
+      onResult([result])
+      toast({ title: "Operation successful", description: result.message })
+    } catch (err: any) {
+      // Classified failures are shown as a failed result so the remediation hint is displayed
+      onResult([
+        {
+          success: false,
+          operation: resultOperation,
+          userEmail: mailbox,
+          delegateEmail: address || undefined,
+          message: err.message || "An unexpected error occurred",
+          errorCode: err.code,
+          details: err.details,
+        },
+      ])
+      toast({
+        title: "Operation failed",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      onLoading(false)
+    }
+  }
+
+  // Scan the listed mailboxes, or the whole domain, for auto-forwarding outside the organisation
+  const handleScan = async () => {
+    if (!checkCredential()) return
+
+    const mailboxes = scanMailboxes
+      .split(/[\s,]+/)
+      .map((mailbox) => mailbox.trim())
+      .filter(Boolean)
+    try {
+      onLoading(true)
+      const scan = await callApi(
+        "/forwarding/scan",
+        sendJson("POST", { mailboxes: mailboxes.length > 0 ? mailboxes : undefined }),
+      )
+      const results: OperationResult[] = scan.mailboxes
+        .filter((entry: any) => !flaggedOnly || !entry.success || entry.forwarding?.forwardsExternally)
+        .map((entry: any) => ({
+          success: entry.success,
+          operation: "forwarding-list",
+          userEmail: entry.mailbox,
+          message: entry.message,
+          errorCode: entry.errorCode,
+          forwarding: entry.forwarding,
+        }))
+      onResult(results)
+      toast({
+        title: "Forwarding scan completed",
+        description:
+          `${scan.flagged} of ${scan.scanned} mailboxes auto-forward outside the organisation; ` +
+          `${scan.errors} could not be read`,
+        variant: scan.flagged > 0 ? "destructive" : "default",
+      })
+    } catch (err: any) {
+      onError(err.message || "An unexpected error occurred")
+    } finally {
+      onLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6 mt-4">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label>Operation</Label>
+          <RadioGroup
+            value={operation}
+            onValueChange={(value) => setOperation(value as FormOperation)}
+            className="grid grid-cols-2 gap-2"
+          >
+            {OPERATIONS.filter((option) => canWrite || !option.write).map((option) => (
+              <div key={option.value} className="flex items-center space-x-2">
+                <RadioGroupItem value={option.value} id={option.value} />
+                <Label htmlFor={option.value} className="cursor-pointer">
+                  {option.label}
+                </Label>
+              </div>
+            ))}
+          </RadioGroup>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="forwarding-mailbox">Mailbox Email</Label>
+          <Input
+            id="forwarding-mailbox"
+            type="email"
+            value={userEmail}
+            onChange={(e) => setUserEmail(e.target.value)}
+            placeholder="user@example.com"
+            required
+          />
+          {operation !== "forwarding-list" &&
+            userEmail.includes("@") &&
+            !canChangeMailbox(user, userEmail) &&
+            !hasDirectoryScopes(user) && (
+              <p className="text-xs text-red-600 dark:text-red-400">
+                This mailbox is outside the mailboxes you are allowed to change
+              </p>
+            )}
+        </div>
+
+        {needsAddress && (
+          <div className="space-y-2">
+            <Label htmlFor="forwarding-address">Forwarding Address</Label>
+            <Input
+              id="forwarding-address"
+              type="email"
+              value={forwardingEmail}
+              onChange={(e) => setForwardingEmail(e.target.value)}
+              placeholder="archive@example.com"
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              {operation === "forwarding-add"
+                ? "Gmail emails the address a verification link; it can be used once the link is followed"
+                : operation === "forwarding-update"
+                  ? "Must be a verified forwarding address of the mailbox"
+                  : "Turn auto-forwarding off first if it uses this address"}
+            </p>
+          </div>
+        )}
+
+        {operation === "forwarding-update" && (
+          <div className="space-y-2">
+            <Label>Mailbox Copy</Label>
+            <Select value={disposition} onValueChange={setDisposition}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DISPOSITIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <Button type="submit" disabled={!authMethod || isLoading} className="w-full">
+          {isLoading ? "Processing..." : OPERATIONS.find((option) => option.value === operation)?.label}
+        </Button>
+      </form>
+
+      <Separator />
+
+      <div className="space-y-2">
+        <Label htmlFor="forwarding-scan">Scan for External Forwarding</Label>
+        <Textarea
+          id="forwarding-scan"
+          value={scanMailboxes}
+          onChange={(e) => setScanMailboxes(e.target.value)}
+          placeholder={`Mailboxes to scan, one per line${isAdmin ? "; leave empty to scan the whole domain" : ""}`}
+          rows={4}
+        />
+        <div className="flex items-center space-x-2">
+          <input
+            type="checkbox"
+            id="forwarding-flagged-only"
+            checked={flaggedOnly}
+            onChange={(e) => setFlaggedOnly(e.target.checked)}
+            className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+          />
+          <Label htmlFor="forwarding-flagged-only" className="text-sm">
+            Only show mailboxes that forward outside the organisation or could not be read
+          </Label>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Addresses outside the mailbox's domain and DELEGATEEASE_INTERNAL_DOMAINS count as external. A domain scan
+          needs a service account and the directory credential used by group and OU scopes.
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleScan}
+          disabled={!authMethod || isLoading || (!isAdmin && !scanMailboxes.trim())}
+          className="w-full"
+        >
+          {isLoading ? "Scanning..." : scanMailboxes.trim() ? "Scan Mailboxes" : "Scan Domain"}
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,402 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Separator } from "@/components/ui/separator"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { type MailAccessRow, mailAccessCsv } from "@/lib/mail-access"
+import { canChangeMailbox, hasDirectoryScopes, hasPermission } from "@/lib/permissions"
+import type { AuthMethod, MailAccessOperation, MailAccessSettings, OperationResult, PopSettings } from "@/types"
+import { useCurrentUser } from "./current-user"
+
+interface MailAccessAuditProps {
+  authMethod: AuthMethod
+  credentialId: string | null
+  isLoading: boolean
+  onSubmit: (formData: FormData, endpoint: string) => Promise<void>
+  onResult: (results: OperationResult[]) => void
+  onError: (error: string) => void
+  onLoading: (isLoading: boolean) => void
+}
+
+const ACCESS_WINDOWS: { value: PopSettings["accessWindow"]; label: string }[] = [
+  { value: "disabled", label: "Off" },
+  { value: "fromNowOn", label: "Mail that arrives from now on" },
+  { value: "allMail", label: "All mail" },
+]
+
+// Helper function to describe POP access in a table cell
+function popLabel(access: MailAccessSettings): string {
+  return ACCESS_WINDOWS.find((option) => option.value === access.pop.accessWindow)?.label || access.pop.accessWindow
+}
+
+export default function MailAccessAudit({
+  authMethod,
+  credentialId,
+  isLoading,
+  onSubmit,
+  onResult,
+  onError,
+  onLoading,
+}: MailAccessAuditProps) {
+  const [userEmail, setUserEmail] = useState("")
+  const [loaded, setLoaded] = useState<{ mailbox: string; access: MailAccessSettings } | null>(null)
+  const [accessWindow, setAccessWindow] = useState<PopSettings["accessWindow"]>("disabled")
+  const [scanMailboxes, setScanMailboxes] = useState("")
+  const [scanRows, setScanRows] = useState<MailAccessRow[] | null>(null)
+  const [flaggedOnly, setFlaggedOnly] = useState(false)
+  const user = useCurrentUser()
+  const canWrite = hasPermission(user, "delegates:write")
+  const isAdmin = hasPermission(user, "admin")
+  const outOfScope = !!loaded && !canChangeMailbox(user, loaded.mailbox) && !hasDirectoryScopes(user)
+
+  // Calls a v2 route with the selected credential; OAuth requests are authorized by the session cookie
+  const callApi = async (path: string, init: RequestInit = {}) => {
+    // Requests with a JSON body name the credential in the body instead
+    const query = credentialId && !init.body ? `?credentialId=${encodeURIComponent(credentialId)}` : ""
+    const response = await fetch(`/api/v2${path}${query}`, init)
+    const data = await response.json()
+    if (!response.ok) {
+      const error = data.error || { code: "unknown", message: `Server returned an error: ${response.status}` }
+      throw Object.assign(new Error(error.message), { code: error.code, details: error.details })
+    }
+    return data.data
+  }
+
+  const sendJson = (method: string, body: Record<string, unknown>): RequestInit => ({
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(credentialId ? { ...body, credentialId } : body),
+  })
+
+  const checkCredential = () => {
+    if (authMethod !== "oauth" && !credentialId) {
+      toast({
+        title: "Missing service account",
+        description: "A stored service account credential is required",
+        variant: "destructive",
+      })
+      return false
+    }
+    return true
+  }
+
+  // Run one read or change and show its outcome as a result, like the delegate operations
+  const runOperation = async (
+    operation: MailAccessOperation,
+    mailbox: string,
+    request: () => Promise<{ message: string; access?: MailAccessSettings }>,
+  ) => {
+    if (!checkCredential()) return
+
+    try {
+      onLoading(true)
+      const { message, access } = await request()
+      if (access) {
+        setLoaded({ mailbox, access })
+        setAccessWindow(access.pop.accessWindow)
+      }
+      onResult([{ success: true, operation, userEmail: mailbox, message, access }])
+      toast({ title: "Operation successful", description: message })
+    } catch (err: any) {
+      // Classified failures are shown as a failed result so the remediation hint is displayed
+      onResult([
+        {
+          success: false,
+          operation,
+          userEmail: mailbox,
+          message: err.message || "An unexpected error occurred",
+          errorCode: err.code,
+          details: err.details,
+        },
+      ])
+      toast({
+        title: "Operation failed",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      onLoading(false)
+    }
+  }
+
+  const handleLoad = (e: React.FormEvent) => {
+    e.preventDefault()
+    const mailbox = userEmail.trim()
+    runOperation("access-get", mailbox, async () => {
+      const access = await callApi(`/mailboxes/${encodeURIComponent(mailbox)}/access`)
+      return { message: `Access settings of ${mailbox}`, access }
+    })
+  }
+
+  const handleImap = (enabled: boolean) => {
+    if (!loaded) return
+    const { mailbox } = loaded
+    runOperation("imap-update", mailbox, () =>
+      callApi(`/mailboxes/${encodeURIComponent(mailbox)}/access/imap`, sendJson("PUT", { enabled })),
+    )
+  }
+
+  const handlePop = () => {
+    if (!loaded) return
+    const { mailbox } = loaded
+    runOperation("pop-update", mailbox, () =>
+      callApi(`/mailboxes/${encodeURIComponent(mailbox)}/access/pop`, sendJson("PUT", { accessWindow })),
+    )
+  }
+
+  // Scan the listed mailboxes, or the whole domain, and show the settings as a table
+  const handleScan = async () => {
+    if (!checkCredential()) return
+
+    const mailboxes = scanMailboxes
+      .split(/[\s,]+/)
+      .map((mailbox) => mailbox.trim())
+      .filter(Boolean)
+    try {
+      onLoading(true)
+      const scan = await callApi(
+        "/access/scan",
+        sendJson("POST", { mailboxes: mailboxes.length > 0 ? mailboxes : undefined }),
+      )
+      setScanRows(scan.mailboxes)
+      toast({
+        title: "Access scan completed",
+        description:
+          `${scan.flagged} of ${scan.scanned} mailboxes have IMAP or POP on; ` +
+          `${scan.errors} could not be read`,
+        variant: scan.flagged > 0 ? "destructive" : "default",
+      })
+    } catch (err: any) {
+      onError(err.message || "An unexpected error occurred")
+    } finally {
+      onLoading(false)
+    }
+  }
+
+  const handleDownload = () => {
+    if (!scanRows) return
+    const blob = new Blob([mailAccessCsv(scanRows)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `mail-access-${new Date().toISOString().slice(0, 10)}.csv`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Turn off whichever protocols are on in every flagged mailbox, as one background job
+  const handleDisable = async () => {
+    if (!scanRows || !checkCredential()) return
+
+    const operations = scanRows.flatMap(({ mailbox, access }) => [
+      ...(access?.imap.enabled ? [{ operation: "imap-disable", userEmail: mailbox }] : []),
+      ...(access && access.pop.accessWindow !== "disabled" ? [{ operation: "pop-disable", userEmail: mailbox }] : []),
+    ])
+    const mailboxCount = scanRows.filter((row) => row.access?.legacyAccess).length
+    if (!window.confirm(`Turn off IMAP and POP in ${mailboxCount} mailboxes?`)) return
+
+    const formData = new FormData()
+    if (authMethod === "service-account" && credentialId) {
+      formData.append("credentialId", credentialId)
+    }
+    formData.append("authMethod", authMethod || "")
+    formData.append("operations", JSON.stringify(operations))
+    try {
+      await onSubmit(formData, "/api/jobs")
+      setScanRows(null)
+    } catch (error) {
+      console.error("Error submitting access batch:", error)
+    }
+  }
+
+  const visibleRows = (scanRows || []).filter((row) => !flaggedOnly || !row.success || row.access?.legacyAccess)
+  const flaggedCount = (scanRows || []).filter((row) => row.access?.legacyAccess).length
+
+  return (
+    <div className="space-y-6 mt-4">
+      <form onSubmit={handleLoad} className="space-y-2">
+        <Label htmlFor="access-mailbox">Mailbox Email</Label>
+        <div className="flex gap-2">
+          <Input
+            id="access-mailbox"
+            type="email"
+            value={userEmail}
+            onChange={(e) => setUserEmail(e.target.value)}
+            placeholder="user@example.com"
+            required
+          />
+          <Button type="submit" disabled={!authMethod || isLoading}>
+            {isLoading ? "Loading..." : "Show Settings"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          IMAP and POP let mail clients read a mailbox with its password, outside delegation and sign-in policies.
+        </p>
+      </form>
+
+      {loaded && (
+        <div className="space-y-4 rounded-lg border p-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{loaded.mailbox}</span>
+            <Badge variant={loaded.access.imap.enabled ? "destructive" : "secondary"}>
+              IMAP {loaded.access.imap.enabled ? "on" : "off"}
+            </Badge>
+            <Badge variant={loaded.access.pop.accessWindow !== "disabled" ? "destructive" : "secondary"}>
+              POP {loaded.access.pop.accessWindow !== "disabled" ? "on" : "off"}
+            </Badge>
+            {loaded.access.displayLanguage && <Badge variant="outline">{loaded.access.displayLanguage}</Badge>}
+          </div>
+
+          {canWrite && outOfScope && (
+            <p className="text-xs text-red-600 dark:text-red-400">
+              This mailbox is outside the mailboxes you are allowed to change
+            </p>
+          )}
+
+          {canWrite && !outOfScope && (
+            <>
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isLoading}
+                onClick={() => handleImap(!loaded.access.imap.enabled)}
+              >
+                {loaded.access.imap.enabled ? "Turn IMAP Off" : "Turn IMAP On"}
+              </Button>
+              <div className="space-y-2">
+                <Label>POP Access</Label>
+                <div className="flex gap-2">
+                  <Select
+                    value={accessWindow}
+                    onValueChange={(value) => setAccessWindow(value as PopSettings["accessWindow"])}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ACCESS_WINDOWS.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    disabled={isLoading || accessWindow === loaded.access.pop.accessWindow}
+                    onClick={handlePop}
+                  >
+                    Save POP
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      <Separator />
+
+      <div className="space-y-2">
+        <Label htmlFor="access-scan">Audit IMAP and POP Access</Label>
+        <Textarea
+          id="access-scan"
+          value={scanMailboxes}
+          onChange={(e) => setScanMailboxes(e.target.value)}
+          placeholder={`Mailboxes to scan, one per line${isAdmin ? "; leave empty to scan the whole domain" : ""}`}
+          rows={4}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleScan}
+          disabled={!authMethod || isLoading || (!isAdmin && !scanMailboxes.trim())}
+          className="w-full"
+        >
+          {isLoading ? "Scanning..." : scanMailboxes.trim() ? "Scan Mailboxes" : "Scan Domain"}
+        </Button>
+      </div>
+
+      {scanRows && (
+        <div className="space-y-4">
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="access-flagged-only"
+              checked={flaggedOnly}
+              onChange={(e) => setFlaggedOnly(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            <Label htmlFor="access-flagged-only" className="text-sm">
+              Only show mailboxes with IMAP or POP on, or that could not be read
+            </Label>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Mailbox</TableHead>
+                <TableHead>IMAP</TableHead>
+                <TableHead>POP</TableHead>
+                <TableHead>Language</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleRows.map((row) => (
+                <TableRow key={row.mailbox}>
+                  <TableCell className="font-medium">{row.mailbox}</TableCell>
+                  {row.access ? (
+                    <>
+                      <TableCell>
+                        <Badge variant={row.access.imap.enabled ? "destructive" : "secondary"}>
+                          {row.access.imap.enabled ? "On" : "Off"}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={row.access.pop.accessWindow !== "disabled" ? "destructive" : "secondary"}>
+                          {popLabel(row.access)}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{row.access.displayLanguage || "-"}</TableCell>
+                    </>
+                  ) : (
+                    <TableCell colSpan={3} className="text-red-600 dark:text-red-400">
+                      {row.message}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" onClick={handleDownload}>
+              Download CSV
+            </Button>
+            {canWrite && flaggedCount > 0 && (
+              <Button type="button" variant="destructive" disabled={isLoading} onClick={handleDisable}>
+                Turn Off IMAP and POP ({flaggedCount})
+              </Button>
+            )}
+          </div>
+          {canWrite && flaggedCount > 0 && (
+            <p className="text-xs text-muted-foreground">
+              Runs as a batch job of imap-disable and pop-disable rows. Mailboxes outside the ones you may change are
+              reported as failed rows.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
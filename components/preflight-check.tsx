@@ -0,0 +1,135 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
+import { toast } from "@/components/ui/use-toast"
+import type { CredentialSummary, PreflightResult } from "@/types"
+
+interface PreflightCheckProps {
+  credential: CredentialSummary
+  onContinue: () => void
+}
+
+export default function PreflightCheck({ credential, onContinue }: PreflightCheckProps) {
+  const [mailbox, setMailbox] = useState("")
+  const [isChecking, setIsChecking] = useState(false)
+  const [result, setResult] = useState<PreflightResult | null>(null)
+
+  const handleCheck = async () => {
+    if (!mailbox) {
+      toast({
+        title: "Missing information",
+        description: "Please enter a mailbox to test impersonation against",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setIsChecking(true)
+      setResult(null)
+
+      const formData = new FormData()
+      formData.append("credentialId", credential.id)
+      formData.append("mailbox", mailbox)
+
+      const response = await fetch("/api/preflight", {
+        method: "POST",
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!data.scopes) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+
+      setResult(data)
+    } catch (err: any) {
+      toast({
+        title: "Preflight check failed",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsChecking(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4 border rounded-lg p-4">
+      <div>
+        <h4 className="text-sm font-medium">Preflight Check</h4>
+        <p className="text-xs text-muted-foreground">
+          Verify that {credential.clientEmail} can impersonate a mailbox with every scope DelegateEase needs
+        </p>
+      </div>
+
+      <div className="flex space-x-2">
+        <div className="flex-1 space-y-1">
+          <Label htmlFor="preflight-mailbox" className="sr-only">
+            Test Mailbox
+          </Label>
+          <Input
+            id="preflight-mailbox"
+            type="email"
+            value={mailbox}
+            onChange={(e) => setMailbox(e.target.value)}
+            placeholder="shared@example.com"
+          />
+        </div>
+        <Button type="button" variant="outline" onClick={handleCheck} disabled={isChecking}>
+          {isChecking ? "Checking..." : "Run Check"}
+        </Button>
+      </div>
+
+      {result && (
+        <Alert variant={result.valid ? "default" : "destructive"}>
+          <AlertTitle>{result.message}</AlertTitle>
+          <AlertDescription>
+            {result.problems.length > 0 && (
+              <ul className="list-disc list-inside text-sm mt-2">
+                {result.problems.map((problem) => (
+                  <li key={problem}>{problem}</li>
+                ))}
+              </ul>
+            )}
+            {result.scopes.length > 0 && (
+              <ul className="text-sm mt-2 space-y-1">
+                {result.scopes.map((check) => (
+                  <li key={check.scope}>
+                    <span className={check.granted ? "text-green-600" : "text-red-600"}>
+                      {check.granted ? "✓" : "✗"}
+                    </span>{" "}
+                    <code className="text-xs">{check.scope}</code>
+                    {check.error && <p className="text-xs text-muted-foreground ml-4">{check.error}</p>}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {result.missingScopes.length > 0 && (
+              <div className="mt-3 text-sm space-y-2">
+                <p>
+                  In the Google Workspace Admin Console, go to Security &gt; API Controls &gt; Domain-wide Delegation
+                  and grant these scopes to the client ID below:
+                </p>
+                <p>
+                  Client ID: <code className="bg-muted px-1 rounded">{result.clientId}</code>
+                </p>
+                <pre className="bg-muted p-2 rounded text-xs whitespace-pre-wrap">{result.missingScopes.join(",\n")}</pre>
+              </div>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex justify-end">
+        <Button type="button" onClick={onContinue} variant={result?.valid ? "default" : "outline"}>
+          {result?.valid ? "Continue" : "Skip and Continue"}
+        </Button>
+      </div>
+    </div>
+  )
+}
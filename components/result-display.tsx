@@ -1,12 +1,154 @@
+"use client"
+
+import { useState, useEffect } from "react"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert"
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { toast } from "@/components/ui/use-toast"
 import { cn } from "@/lib/utils"
-import type { ResultDisplayProps } from "@/types"
+import { ERROR_HINTS } from "@/lib/delegation-errors"
+import type { DelegationErrorCode, DelegationGrant, PolicyViolation, ResultDisplayProps } from "@/types"
+
+// Helper function to describe how long a time-bound delegate keeps access
+function formatRemaining(expiresAt: string, now: number): string {
+  const remaining = Date.parse(expiresAt) - now
+  if (remaining <= 0) {
+    return "expiring now"
+  }
+  const minutes = Math.floor(remaining / 60000)
+  const days = Math.floor(minutes / 1440)
+  const hours = Math.floor((minutes % 1440) / 60)
+  if (days > 0) {
+    return `${days}d ${hours}h left`
+  }
+  return hours > 0 ? `${hours}h ${minutes % 60}m left` : `${Math.max(minutes, 1)}m left`
+}
+
+// Helper function to name the address an operation acted on
+function targetLabel(operation: string): string {
+  if (operation.startsWith("forwarding-")) return "Forwarding address"
+  if (operation.startsWith("sendas-")) return "Send-as address"
+  return "Delegate"
+}
+
+// Helper function to format a timestamp for a datetime-local input
+function toLocalInput(value: string): string {
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+function GrantExpiry({ grant, now, onChanged }: { grant: DelegationGrant; now: number; onChanged: () => void }) {
+  const [isEditing, setIsEditing] = useState(false)
+  const [expiresAt, setExpiresAt] = useState(toLocalInput(grant.expiresAt))
+  const [isSaving, setIsSaving] = useState(false)
+
+  const request = async (init: RequestInit, successTitle: string) => {
+    try {
+      setIsSaving(true)
+      const response = await fetch(`/api/grants/${grant.id}`, init)
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      toast({ title: successTitle, description: data.message })
+      setIsEditing(false)
+      onChanged()
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleExtend = () =>
+    request(
+      {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ expiresAt: new Date(expiresAt).toISOString() }),
+      },
+      "Access extended",
+    )
+
+  const handleRevoke = () => {
+    if (!window.confirm(`Remove ${grant.delegateEmail} now instead of at ${new Date(grant.expiresAt).toLocaleString()}?`)) {
+      return
+    }
+    request({ method: "DELETE" }, "Access revoked")
+  }
+
+  if (isEditing) {
+    return (
+      <div className="flex items-center space-x-1">
+        <Input
+          type="datetime-local"
+          value={expiresAt}
+          onChange={(e) => setExpiresAt(e.target.value)}
+          className="h-8 w-auto"
+        />
+        <Button size="sm" onClick={handleExtend} disabled={isSaving || !expiresAt}>
+          Save
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>
+          Cancel
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="flex items-center space-x-1">
+      <span className="text-xs mr-2" title={new Date(grant.expiresAt).toLocaleString()}>
+        {formatRemaining(grant.expiresAt, now)}
+      </span>
+      {grant.lastError && (
+        <Badge variant="destructive" title={grant.lastError}>
+          removal failed
+        </Badge>
+      )}
+      <Button size="sm" variant="outline" onClick={() => setIsEditing(true)} disabled={isSaving}>
+        Extend
+      </Button>
+      <Button size="sm" variant="destructive" onClick={handleRevoke} disabled={isSaving}>
+        Revoke
+      </Button>
+    </div>
+  )
+}
 
 export default function ResultDisplay({ results, error }: ResultDisplayProps) {
+  const [grants, setGrants] = useState<DelegationGrant[]>([])
+  const [now, setNow] = useState(Date.now())
+  const hasDelegates = !!results?.some((result) => result.delegates && result.delegates.length > 0)
+
+  const loadGrants = () => {
+    fetch("/api/grants?status=active")
+      .then((response) => response.json())
+      .then((data) => setGrants(data.grants || []))
+      .catch((err) => console.error("Error loading delegation grants:", err))
+  }
+
+  useEffect(() => {
+    if (!hasDelegates) return
+    loadGrants()
+    // Keep the remaining time current while the results are on screen
+    const timer = setInterval(() => setNow(Date.now()), 60000)
+    return () => clearInterval(timer)
+  }, [results, hasDelegates])
+
+  const findGrant = (userEmail: string, delegateEmail: string | null | undefined) =>
+    grants.find(
+      (grant) =>
+        grant.userEmail === userEmail.toLowerCase() && grant.delegateEmail === (delegateEmail || "").toLowerCase(),
+    )
+
   if (error) {
     return (
       <Alert variant="destructive">
@@ -27,8 +169,34 @@ export default function ResultDisplay({ results, error }: ResultDisplayProps) {
     return null
   }
 
+  // Group failures by cause so batch reports show what went wrong at a glance
+  const failureCounts: Partial<Record<DelegationErrorCode, number>> = {}
+  results.forEach((result) => {
+    if (!result.success) {
+      const code = result.errorCode || "unknown"
+      failureCounts[code] = (failureCounts[code] || 0) + 1
+    }
+  })
+  const failureCauses = Object.keys(failureCounts) as DelegationErrorCode[]
+
   return (
     <div className="space-y-4">
+      {results.length > 1 && failureCauses.length > 0 && (
+        <div className="p-4 border rounded-lg">
+          <p className="text-sm font-medium mb-2">Failures by cause</p>
+          <div className="space-y-2">
+            {failureCauses.map((code) => (
+              <div key={code} className="flex items-start space-x-2">
+                <Badge variant="destructive">
+                  {code.replace(/_/g, " ")} × {failureCounts[code]}
+                </Badge>
+                <p className="text-xs text-muted-foreground">{ERROR_HINTS[code]}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {results.map((result, index) => (
         <div
           key={index}
@@ -36,7 +204,9 @@ export default function ResultDisplay({ results, error }: ResultDisplayProps) {
             "p-4 border rounded-lg",
             result.success
               ? "border-green-200 bg-green-50 dark:border-green-900 dark:bg-green-900/20"
-              : "border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-900/20",
+              : result.errorCode === "pending_approval"
+                ? "border-amber-200 bg-amber-50 dark:border-amber-900 dark:bg-amber-900/20"
+                : "border-red-200 bg-red-50 dark:border-red-900 dark:bg-red-900/20",
           )}
         >
           <div className="flex items-center justify-between">
@@ -74,15 +244,40 @@ export default function ResultDisplay({ results, error }: ResultDisplayProps) {
                   {result.userEmail}
                 </p>
                 {result.delegateEmail && (
-                  <p className="text-sm text-muted-foreground">Delegate: {result.delegateEmail}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {targetLabel(result.operation)}: {result.delegateEmail}
+                  </p>
                 )}
               </div>
             </div>
-            <Badge variant={result.success ? "success" : "destructive"}>{result.success ? "Success" : "Failed"}</Badge>
+            {result.errorCode === "pending_approval" ? (
+              <Badge variant="warning">Pending approval</Badge>
+            ) : (
+              <Badge variant={result.success ? "success" : "destructive"}>{result.success ? "Success" : "Failed"}</Badge>
+            )}
           </div>
 
           <p className="mt-2 text-sm">{result.message}</p>
 
+          {!result.success && result.errorCode && (
+            <p className="mt-1 text-xs text-muted-foreground">
+              <Badge variant="outline" className="mr-2">
+                {result.errorCode.replace(/_/g, " ")}
+              </Badge>
+              {ERROR_HINTS[result.errorCode]}
+            </p>
+          )}
+
+          {result.errorCode === "policy_violation" && Array.isArray(result.details?.violations) && (
+            <ul className="mt-1 text-xs list-disc pl-5">
+              {result.details.violations.map((violation: PolicyViolation) => (
+                <li key={violation.ruleId}>
+                  <span className="font-mono">{violation.type}</span>: {violation.message}
+                </li>
+              ))}
+            </ul>
+          )}
+
           {result.delegates && result.delegates.length > 0 && (
             <div className="mt-4">
               <p className="text-sm font-medium mb-2">Current Delegates:</p>
@@ -91,6 +286,7 @@ export default function ResultDisplay({ results, error }: ResultDisplayProps) {
                   <TableRow>
                     <TableHead>Email</TableHead>
                     <TableHead>Status</TableHead>
+                    <TableHead>Expires</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
@@ -110,6 +306,16 @@ export default function ResultDisplay({ results, error }: ResultDisplayProps) {
                           {delegate.verificationStatus || "unknown"}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        {(() => {
+                          const grant = findGrant(result.userEmail, delegate.delegateEmail)
+                          return grant ? (
+                            <GrantExpiry key={grant.id + grant.expiresAt} grant={grant} now={now} onChanged={loadGrants} />
+                          ) : (
+                            <span className="text-xs text-muted-foreground">Never</span>
+                          )
+                        })()}
+                      </TableCell>
                     </TableRow>
                   ))}
                 </TableBody>
@@ -117,6 +323,119 @@ export default function ResultDisplay({ results, error }: ResultDisplayProps) {
             </div>
           )}
 
+          {result.forwarding && (
+            <div className="mt-4 space-y-2">
+              <div className="flex items-center space-x-2">
+                <p className="text-sm font-medium">
+                  Auto-forwarding:{" "}
+                  {result.forwarding.autoForwarding.enabled
+                    ? `on, to ${result.forwarding.autoForwarding.emailAddress} (${
+                        result.forwarding.autoForwarding.disposition || "leaveInInbox"
+                      })`
+                    : "off"}
+                </p>
+                {result.forwarding.forwardsExternally && (
+                  <Badge variant="destructive">Forwards outside the organisation</Badge>
+                )}
+              </div>
+              {result.forwarding.forwardingAddresses.length > 0 ? (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Forwarding Address</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Domain</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {result.forwarding.forwardingAddresses.map((address) => (
+                      <TableRow key={address.forwardingEmail}>
+                        <TableCell>{address.forwardingEmail}</TableCell>
+                        <TableCell>
+                          <Badge variant={address.verificationStatus === "accepted" ? "success" : "warning"}>
+                            {address.verificationStatus || "unknown"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={address.external ? "destructive" : "outline"}>
+                            {address.external ? "external" : "internal"}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              ) : (
+                <p className="text-xs text-muted-foreground">No forwarding addresses</p>
+              )}
+            </div>
+          )}
+
+          {result.filters && result.filters.length > 0 && (
+            <div className="mt-4 space-y-1">
+              <p className="text-sm font-medium">Filters:</p>
+              <ul className="space-y-1 text-sm">
+                {result.filters.map((filter, index) => (
+                  <li key={filter.id || index}>
+                    {filter.description}
+                    {filter.forwardsExternally && (
+                      <Badge variant="destructive" className="ml-2">
+                        forwards externally
+                      </Badge>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {result.vacation && (
+            <div className="mt-4 space-y-1 text-sm">
+              <div className="flex items-center space-x-2">
+                <p className="font-medium">Vacation responder:</p>
+                <Badge variant={result.vacation.enableAutoReply ? "success" : "outline"}>
+                  {result.vacation.enableAutoReply ? "on" : "off"}
+                </Badge>
+                {result.vacation.restrictToContacts && <Badge variant="secondary">contacts only</Badge>}
+                {result.vacation.restrictToDomain && <Badge variant="secondary">domain only</Badge>}
+              </div>
+              {(result.vacation.startTime || result.vacation.endTime) && (
+                <p className="text-xs text-muted-foreground">
+                  {result.vacation.startTime ? `From ${new Date(result.vacation.startTime).toLocaleString()} ` : ""}
+                  {result.vacation.endTime
+                    ? `until ${new Date(result.vacation.endTime).toLocaleString()}`
+                    : "until turned off"}
+                </p>
+              )}
+              {result.vacation.responseSubject && <p>Subject: {result.vacation.responseSubject}</p>}
+              {(result.vacation.responseBodyPlainText || result.vacation.responseBodyHtml) && (
+                <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded bg-muted p-2 text-xs">
+                  {result.vacation.responseBodyHtml || result.vacation.responseBodyPlainText}
+                </pre>
+              )}
+            </div>
+          )}
+
+          {result.access && (
+            <div className="mt-4 space-y-1 text-sm">
+              <div className="flex items-center space-x-2">
+                <p className="font-medium">Mail client access:</p>
+                <Badge variant={result.access.imap.enabled ? "destructive" : "outline"}>
+                  IMAP {result.access.imap.enabled ? "on" : "off"}
+                </Badge>
+                <Badge variant={result.access.pop.accessWindow !== "disabled" ? "destructive" : "outline"}>
+                  POP {result.access.pop.accessWindow !== "disabled" ? result.access.pop.accessWindow : "off"}
+                </Badge>
+                {result.access.displayLanguage && <Badge variant="secondary">{result.access.displayLanguage}</Badge>}
+              </div>
+              {result.access.imap.enabled && result.access.imap.expungeBehavior && (
+                <p className="text-xs text-muted-foreground">
+                  Expunged IMAP messages: {result.access.imap.expungeBehavior}
+                </p>
+              )}
+            </div>
+          )}
+
           {(result.details || result.rawOutput) && (
             <Collapsible className="mt-2">
               <CollapsibleTrigger asChild>
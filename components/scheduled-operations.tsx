@@ -0,0 +1,313 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/components/ui/use-toast"
+import { utcToZonedTime } from "@/lib/timezone"
+import type { ScheduledOperation, ScheduledOperationStatus } from "@/types"
+
+interface ScheduledOperationsProps {
+  credentialId: string | null
+}
+
+const STATUS_BADGES: Record<ScheduledOperationStatus, "outline" | "warning" | "success" | "destructive" | "secondary"> = {
+  pending: "outline",
+  running: "warning",
+  completed: "success",
+  failed: "destructive",
+  cancelled: "secondary",
+}
+
+const BROWSER_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC"
+const TIME_ZONES: string[] = (Intl as any).supportedValuesOf?.("timeZone") || [BROWSER_TIME_ZONE, "UTC"]
+
+export default function ScheduledOperations({ credentialId }: ScheduledOperationsProps) {
+  const [operations, setOperations] = useState<ScheduledOperation[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [operation, setOperation] = useState<"add" | "remove">("add")
+  const [userEmail, setUserEmail] = useState("")
+  const [delegateEmail, setDelegateEmail] = useState("")
+  const [runAt, setRunAt] = useState("")
+  const [timezone, setTimezone] = useState(BROWSER_TIME_ZONE)
+  const [expiresAt, setExpiresAt] = useState("")
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [editRunAt, setEditRunAt] = useState("")
+  const [editTimezone, setEditTimezone] = useState("")
+
+  const loadOperations = async () => {
+    try {
+      const response = await fetch("/api/scheduled-operations")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      setOperations(data.operations)
+    } catch (err: any) {
+      console.error("Error loading scheduled operations:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadOperations()
+    // Pick up operations the scheduler has run in the meantime
+    const timer = setInterval(loadOperations, 30000)
+    return () => clearInterval(timer)
+  }, [])
+
+  // Shared request helper that reports errors as toasts
+  const request = async (url: string, method: string, body: unknown, successTitle: string) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      toast({ title: successTitle, description: data.message })
+      await loadOperations()
+      return true
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  const handleSchedule = async (event: React.FormEvent) => {
+    event.preventDefault()
+    const scheduled = await request(
+      "/api/scheduled-operations",
+      "POST",
+      {
+        credentialId,
+        operation,
+        userEmail,
+        delegateEmail,
+        runAt,
+        timezone,
+        // The expiry is entered in the same time zone as the run time
+        expiresAt: operation === "add" && expiresAt ? expiresAt : undefined,
+      },
+      "Operation scheduled",
+    )
+    if (scheduled) {
+      setDelegateEmail("")
+      setRunAt("")
+      setExpiresAt("")
+    }
+  }
+
+  const startEditing = (scheduled: ScheduledOperation) => {
+    setEditingId(scheduled.id)
+    setEditTimezone(scheduled.timezone)
+    setEditRunAt(utcToZonedTime(scheduled.runAt, scheduled.timezone))
+  }
+
+  const handleReschedule = async (scheduled: ScheduledOperation) => {
+    const saved = await request(
+      `/api/scheduled-operations/${scheduled.id}`,
+      "PATCH",
+      { runAt: editRunAt, timezone: editTimezone },
+      "Operation rescheduled",
+    )
+    if (saved) {
+      setEditingId(null)
+    }
+  }
+
+  const handleCancel = async (scheduled: ScheduledOperation) => {
+    if (!window.confirm(`Cancel the scheduled ${scheduled.operation} of ${scheduled.delegateEmail}?`)) return
+    await request(`/api/scheduled-operations/${scheduled.id}`, "DELETE", undefined, "Operation cancelled")
+  }
+
+  return (
+    <div className="space-y-6">
+      <datalist id="scheduled-time-zones">
+        {TIME_ZONES.map((zone) => (
+          <option key={zone} value={zone} />
+        ))}
+      </datalist>
+
+      {credentialId ? (
+        <form onSubmit={handleSchedule} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-1">
+            <Label>Operation</Label>
+            <Select value={operation} onValueChange={(value) => setOperation(value as "add" | "remove")}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="add">Add delegate</SelectItem>
+                <SelectItem value="remove">Remove delegate</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="scheduled-user-email">Mailbox Email</Label>
+            <Input
+              id="scheduled-user-email"
+              type="email"
+              placeholder="shared@example.com"
+              value={userEmail}
+              onChange={(e) => setUserEmail(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="scheduled-delegate-email">Delegate Email</Label>
+            <Input
+              id="scheduled-delegate-email"
+              type="email"
+              placeholder="user@example.com"
+              value={delegateEmail}
+              onChange={(e) => setDelegateEmail(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="scheduled-run-at">Run At</Label>
+            <div className="flex space-x-2">
+              <Input
+                id="scheduled-run-at"
+                type="datetime-local"
+                value={runAt}
+                onChange={(e) => setRunAt(e.target.value)}
+              />
+              <Input
+                list="scheduled-time-zones"
+                value={timezone}
+                onChange={(e) => setTimezone(e.target.value)}
+                placeholder="Time zone"
+              />
+            </div>
+          </div>
+          {operation === "add" && (
+            <div className="space-y-1">
+              <Label htmlFor="scheduled-expires-at">Access Expires (optional)</Label>
+              <Input
+                id="scheduled-expires-at"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          )}
+          <div className="flex items-end">
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={!userEmail.trim() || !delegateEmail.trim() || !runAt || !timezone.trim()}
+            >
+              Schedule
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Scheduled operations run with a stored service account credential. Select one on the Authentication tab.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="animate-pulse h-12 bg-muted rounded"></div>
+      ) : operations.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No scheduled operations</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Runs At</TableHead>
+              <TableHead>Operation</TableHead>
+              <TableHead>Mailbox</TableHead>
+              <TableHead>Delegate</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {operations.map((scheduled) => (
+              <TableRow key={scheduled.id}>
+                <TableCell className="text-xs">
+                  {editingId === scheduled.id ? (
+                    <div className="space-y-1">
+                      <Input
+                        type="datetime-local"
+                        value={editRunAt}
+                        onChange={(e) => setEditRunAt(e.target.value)}
+                        className="h-8"
+                      />
+                      <Input
+                        list="scheduled-time-zones"
+                        value={editTimezone}
+                        onChange={(e) => setEditTimezone(e.target.value)}
+                        className="h-8"
+                      />
+                    </div>
+                  ) : (
+                    <>
+                      <p>
+                        {utcToZonedTime(scheduled.runAt, scheduled.timezone).replace("T", " ")} {scheduled.timezone}
+                      </p>
+                      <p className="text-muted-foreground">{new Date(scheduled.runAt).toLocaleString()} your time</p>
+                    </>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {scheduled.operation}
+                  {scheduled.expiresAt && (
+                    <p className="text-xs text-muted-foreground">
+                      until {new Date(scheduled.expiresAt).toLocaleString()}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell className="text-xs">{scheduled.userEmail}</TableCell>
+                <TableCell className="text-xs">{scheduled.delegateEmail}</TableCell>
+                <TableCell>
+                  <Badge variant={STATUS_BADGES[scheduled.status]}>{scheduled.status}</Badge>
+                  {scheduled.result && !scheduled.result.success && (
+                    <p className="text-xs text-red-600 dark:text-red-400 mt-1">{scheduled.result.message}</p>
+                  )}
+                </TableCell>
+                <TableCell className="text-right space-x-1">
+                  {scheduled.status === "pending" &&
+                    (editingId === scheduled.id ? (
+                      <>
+                        <Button size="sm" onClick={() => handleReschedule(scheduled)} disabled={!editRunAt}>
+                          Save
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                          Cancel
+                        </Button>
+                      </>
+                    ) : (
+                      <>
+                        <Button size="sm" variant="outline" onClick={() => startEditing(scheduled)}>
+                          Edit
+                        </Button>
+                        <Button size="sm" variant="destructive" onClick={() => handleCancel(scheduled)}>
+                          Cancel
+                        </Button>
+                      </>
+                    ))}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,278 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/components/ui/use-toast"
+import { canChangeMailbox, hasDirectoryScopes, hasPermission } from "@/lib/permissions"
+import type { AuthMethod, SendAsAlias } from "@/types"
+import { useCurrentUser } from "./current-user"
+
+interface SendAsManagerProps {
+  authMethod: AuthMethod
+  credentialId: string | null
+}
+
+const VERIFICATION_BADGES: Record<string, "success" | "warning" | "outline"> = {
+  accepted: "success",
+  pending: "warning",
+}
+
+export default function SendAsManager({ authMethod, credentialId }: SendAsManagerProps) {
+  const [mailbox, setMailbox] = useState("")
+  const [loadedMailbox, setLoadedMailbox] = useState<string | null>(null)
+  const [aliases, setAliases] = useState<SendAsAlias[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [sendAsEmail, setSendAsEmail] = useState("")
+  const [displayName, setDisplayName] = useState("")
+  const [replyToAddress, setReplyToAddress] = useState("")
+  const user = useCurrentUser()
+  const canWrite = hasPermission(user, "delegates:write")
+  const outOfScope = !!loadedMailbox && !canChangeMailbox(user, loadedMailbox) && !hasDirectoryScopes(user)
+
+  // Calls a v2 mailbox route with the selected credential; OAuth requests are authorized by the session cookie
+  const callApi = async (segments: string[], init: RequestInit = {}) => {
+    const path = segments.map(encodeURIComponent).join("/")
+    const query = credentialId ? `?credentialId=${encodeURIComponent(credentialId)}` : ""
+    const response = await fetch(`/api/v2/mailboxes/${path}${query}`, init)
+    const data = await response.json()
+    if (!response.ok) {
+      throw new Error(data.error?.message || `Server returned an error: ${response.status} ${response.statusText}`)
+    }
+    return data.data
+  }
+
+  const sendJson = (method: string, body: Record<string, unknown>): RequestInit => ({
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(credentialId ? { ...body, credentialId } : body),
+  })
+
+  const loadAliases = async (address: string) => {
+    const data = await callApi([address, "send-as"])
+    setAliases(data.sendAs)
+    setLoadedMailbox(data.mailbox)
+  }
+
+  const runAction = async (action: () => Promise<string | undefined>) => {
+    if (authMethod !== "oauth" && !credentialId) {
+      toast({
+        title: "Missing service account",
+        description: "A stored service account credential is required",
+        variant: "destructive",
+      })
+      return
+    }
+
+    try {
+      setIsLoading(true)
+      const message = await action()
+      if (message) {
+        toast({ title: "Operation successful", description: message })
+      }
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleLoad = (e: React.FormEvent) => {
+    e.preventDefault()
+    runAction(async () => {
+      await loadAliases(mailbox.trim())
+      return undefined
+    })
+  }
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!loadedMailbox) return
+    runAction(async () => {
+      const data = await callApi(
+        [loadedMailbox, "send-as"],
+        sendJson("POST", {
+          sendAsEmail,
+          displayName: displayName.trim() || undefined,
+          replyToAddress: replyToAddress.trim() || undefined,
+        }),
+      )
+      setSendAsEmail("")
+      setDisplayName("")
+      setReplyToAddress("")
+      await loadAliases(loadedMailbox)
+      return data.message
+    })
+  }
+
+  const handleMakeDefault = (alias: SendAsAlias) => {
+    if (!loadedMailbox) return
+    runAction(async () => {
+      const data = await callApi(
+        [loadedMailbox, "send-as", alias.sendAsEmail],
+        sendJson("PATCH", { isDefault: true }),
+      )
+      await loadAliases(loadedMailbox)
+      return data.message
+    })
+  }
+
+  const handleVerify = (alias: SendAsAlias) => {
+    if (!loadedMailbox) return
+    runAction(async () => {
+      const data = await callApi([loadedMailbox, "send-as", alias.sendAsEmail, "verify"], { method: "POST" })
+      return data.message
+    })
+  }
+
+  const handleRemove = (alias: SendAsAlias) => {
+    if (!loadedMailbox) return
+    if (!window.confirm(`Remove ${alias.sendAsEmail} from ${loadedMailbox}? The user can no longer send as it.`)) return
+    runAction(async () => {
+      const data = await callApi([loadedMailbox, "send-as", alias.sendAsEmail], { method: "DELETE" })
+      await loadAliases(loadedMailbox)
+      return data.message
+    })
+  }
+
+  return (
+    <div className="space-y-6 mt-4">
+      <form onSubmit={handleLoad} className="space-y-2">
+        <Label htmlFor="send-as-mailbox">Mailbox Email</Label>
+        <div className="flex gap-2">
+          <Input
+            id="send-as-mailbox"
+            type="email"
+            value={mailbox}
+            onChange={(e) => setMailbox(e.target.value)}
+            placeholder="user@example.com"
+            required
+          />
+          <Button type="submit" disabled={!authMethod || isLoading}>
+            {isLoading ? "Loading..." : "Load Aliases"}
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          The user whose send-as addresses to manage. Changes are recorded in the activity log but cannot be rolled
+          back.
+        </p>
+      </form>
+
+      {loadedMailbox && (
+        <div className="space-y-4">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Address</TableHead>
+                <TableHead>Display Name</TableHead>
+                <TableHead>Reply-To</TableHead>
+                <TableHead>Status</TableHead>
+                {canWrite && <TableHead className="text-right">Actions</TableHead>}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {aliases.map((alias) => (
+                <TableRow key={alias.sendAsEmail}>
+                  <TableCell className="font-medium">{alias.sendAsEmail}</TableCell>
+                  <TableCell>{alias.displayName || "—"}</TableCell>
+                  <TableCell>{alias.replyToAddress || "—"}</TableCell>
+                  <TableCell className="space-x-1">
+                    {alias.isPrimary && <Badge variant="secondary">primary</Badge>}
+                    {alias.isDefault && <Badge>default</Badge>}
+                    {alias.verificationStatus && (
+                      <Badge variant={VERIFICATION_BADGES[alias.verificationStatus] || "outline"}>
+                        {alias.verificationStatus}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  {canWrite && (
+                    <TableCell className="text-right space-x-2">
+                      {!alias.isDefault && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isLoading || outOfScope}
+                          onClick={() => handleMakeDefault(alias)}
+                        >
+                          Make Default
+                        </Button>
+                      )}
+                      {alias.verificationStatus === "pending" && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          disabled={isLoading || outOfScope}
+                          onClick={() => handleVerify(alias)}
+                        >
+                          Resend Verification
+                        </Button>
+                      )}
+                      {!alias.isPrimary && (
+                        <Button
+                          size="sm"
+                          variant="destructive"
+                          disabled={isLoading || outOfScope}
+                          onClick={() => handleRemove(alias)}
+                        >
+                          Remove
+                        </Button>
+                      )}
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+
+          {canWrite && outOfScope && (
+            <p className="text-xs text-red-600 dark:text-red-400">
+              This mailbox is outside the mailboxes you are allowed to change
+            </p>
+          )}
+
+          {canWrite && !outOfScope && (
+            <form onSubmit={handleAdd} className="space-y-3 rounded-lg border p-4">
+              <h3 className="text-sm font-medium">Add Send-As Address</h3>
+              <div className="grid gap-3 sm:grid-cols-3">
+                <Input
+                  type="email"
+                  value={sendAsEmail}
+                  onChange={(e) => setSendAsEmail(e.target.value)}
+                  placeholder="sales@example.com"
+                  required
+                />
+                <Input
+                  value={displayName}
+                  onChange={(e) => setDisplayName(e.target.value)}
+                  placeholder="Display name (optional)"
+                />
+                <Input
+                  type="email"
+                  value={replyToAddress}
+                  onChange={(e) => setReplyToAddress(e.target.value)}
+                  placeholder="Reply-to (optional)"
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Addresses Gmail cannot verify itself stay pending until the owner follows the link it emails them.
+                Requires a service account with domain-wide delegation.
+              </p>
+              <Button type="submit" disabled={isLoading || !sendAsEmail}>
+                Add Send-As Address
+              </Button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,19 +4,56 @@ import React, { useState, useRef } from "react"
 import { Label } from "@/components/ui/label"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
-import { cn } from "@/lib/utils"
+import { toast } from "@/components/ui/use-toast"
 import type { ServiceAccountUploadProps } from "@/types"
 
 export default function ServiceAccountUpload({ onServiceAccountUploaded }: ServiceAccountUploadProps) {
   const [file, setFile] = useState<File | null>(null)
   const [isDragging, setIsDragging] = useState(false)
+  const [isUploading, setIsUploading] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
+  // Store the key in the server-side vault; only the credential ID is kept in the browser
+  const uploadFile = async (selectedFile: File) => {
+    setFile(selectedFile)
+    setIsUploading(true)
+
+    try {
+      const formData = new FormData()
+      formData.append("serviceAccount", selectedFile)
+      formData.append("label", selectedFile.name.replace(/\.json$/i, ""))
+
+      const response = await fetch("/api/credentials", {
+        method: "POST",
+        body: formData,
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+
+      onServiceAccountUploaded(data.credential)
+    } catch (err: any) {
+      console.error("Error uploading service account:", err)
+      setFile(null)
+      toast({
+        title: "Upload failed",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      setIsUploading(false)
+      if (fileInputRef.current) {
+        fileInputRef.current.value = ""
+      }
+    }
+  }
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = event.target.files?.[0]
     if (selectedFile) {
-      setFile(selectedFile)
-      onServiceAccountUploaded(selectedFile)
+      uploadFile(selectedFile)
     }
   }
 
@@ -36,8 +73,7 @@ export default function ServiceAccountUpload({ onServiceAccountUploaded }: Servi
 
     const droppedFile = event.dataTransfer.files?.[0]
     if (droppedFile) {
-      setFile(droppedFile)
-      onServiceAccountUploaded(droppedFile)
+      uploadFile(droppedFile)
     }
   }
 
@@ -57,7 +93,7 @@ export default function ServiceAccountUpload({ onServiceAccountUploaded }: Servi
             <div className="text-muted-foreground">
               {file ? (
                 <div className="space-y-2">
-                  <p className="font-medium">Selected file:</p>
+                  <p className="font-medium">{isUploading ? "Storing file:" : "Stored file:"}</p>
                   <p className="text-sm">{file.name}</p>
                 </div>
               ) : (
@@ -75,8 +111,9 @@ export default function ServiceAccountUpload({ onServiceAccountUploaded }: Servi
               type="button"
               variant="outline"
               onClick={() => fileInputRef.current?.click()}
+              disabled={isUploading}
             >
-              Select File
+              {isUploading ? "Uploading..." : "Select File"}
             </Button>
           </div>
         </div>
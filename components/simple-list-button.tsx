@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button"
 import { toast } from "@/components/ui/use-toast"
 
 interface SimpleListButtonProps {
-  serviceAccountFile: File | null
+  credentialId: string | null
   userEmail: string
   onResult: (result: any) => void
   onError: (error: string) => void
@@ -13,7 +13,7 @@ interface SimpleListButtonProps {
 }
 
 export default function SimpleListButton({
-  serviceAccountFile,
+  credentialId,
   userEmail,
   onResult,
   onError,
@@ -23,10 +23,10 @@ export default function SimpleListButton({
 
   const handleClick = async () => {
     // Check if we have the required data
-    if (!serviceAccountFile) {
+    if (!credentialId) {
       toast({
         title: "Missing service account",
-        description: "Please upload a service account file first",
+        description: "Please select a stored service account credential first",
         variant: "destructive",
       })
       return
@@ -46,7 +46,7 @@ export default function SimpleListButton({
       onLoading(true)
 
       const formData = new FormData()
-      formData.append("serviceAccount", serviceAccountFile)
+      formData.append("credentialId", credentialId)
       formData.append("userEmail", userEmail)
       formData.append("operation", "list")
 
@@ -0,0 +1,236 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "@/components/ui/use-toast"
+import { USER_ROLES } from "@/lib/permissions"
+import type { UserAccount, UserAccountInput, UserRole } from "@/types"
+import { useCurrentUser } from "./current-user"
+
+// Scopes are edited as a comma-separated list; OU paths may contain spaces
+function scopesToText(scopes: string[]): string {
+  return scopes.join(", ")
+}
+
+function textToScopes(text: string): string[] {
+  return text
+    .split(/[,\n]+/)
+    .map((scope) => scope.trim())
+    .filter(Boolean)
+}
+
+export default function UserManager() {
+  const currentUser = useCurrentUser()
+  const [users, setUsers] = useState<UserAccount[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [username, setUsername] = useState("")
+  const [password, setPassword] = useState("")
+  const [role, setRole] = useState<UserRole>("viewer")
+  const [scopesText, setScopesText] = useState("")
+  const [editedScopes, setEditedScopes] = useState<Record<string, string>>({})
+
+  const loadUsers = async () => {
+    try {
+      const response = await fetch("/api/users")
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status}`)
+      }
+      setUsers(data.users)
+    } catch (err: any) {
+      console.error("Error loading users:", err)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadUsers()
+  }, [])
+
+  // Shared request helper that reports errors as toasts
+  const request = async (url: string, method: string, body: UserAccountInput | undefined, successTitle: string) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { "Content-Type": "application/json" },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.message || `Server returned an error: ${response.status} ${response.statusText}`)
+      }
+      toast({ title: successTitle, description: data.message })
+      return true
+    } catch (err: any) {
+      toast({
+        title: "Error",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+      return false
+    }
+  }
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const created = await request(
+      "/api/users",
+      "POST",
+      { username, password, role, mailboxScopes: textToScopes(scopesText) },
+      "User created",
+    )
+    if (created) {
+      setUsername("")
+      setPassword("")
+      setScopesText("")
+      await loadUsers()
+    }
+  }
+
+  const handleUpdate = async (user: UserAccount, changes: UserAccountInput) => {
+    await request(`/api/users/${user.id}`, "PATCH", changes, "User updated")
+    await loadUsers()
+  }
+
+  const handleDelete = async (user: UserAccount) => {
+    if (!window.confirm(`Delete the account ${user.username}?`)) return
+    await request(`/api/users/${user.id}`, "DELETE", undefined, "User deleted")
+    await loadUsers()
+  }
+
+  if (isLoading) {
+    return <div className="animate-pulse h-12 bg-muted rounded"></div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>User</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Mailbox Scopes</TableHead>
+            <TableHead></TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {users.map((user) => (
+            <TableRow key={user.id}>
+              <TableCell>
+                <p className="text-sm">{user.username}</p>
+                <p className="text-xs text-muted-foreground">
+                  {user.lastSignInAt ? `Last signed in ${new Date(user.lastSignInAt).toLocaleString()}` : "Never signed in"}
+                </p>
+                {user.disabled && <Badge variant="secondary">disabled</Badge>}
+              </TableCell>
+              <TableCell>
+                <Select value={user.role} onValueChange={(value) => handleUpdate(user, { role: value as UserRole })}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {USER_ROLES.map((option) => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </TableCell>
+              <TableCell>
+                {user.role === "admin" ? (
+                  <span className="text-xs text-muted-foreground">All mailboxes</span>
+                ) : (
+                  <Input
+                    value={editedScopes[user.id] ?? scopesToText(user.mailboxScopes)}
+                    onChange={(e) => setEditedScopes((current) => ({ ...current, [user.id]: e.target.value }))}
+                    onBlur={() => {
+                      if (editedScopes[user.id] === undefined) return
+                      handleUpdate(user, { mailboxScopes: textToScopes(editedScopes[user.id]) })
+                      setEditedScopes(({ [user.id]: _edited, ...rest }) => rest)
+                    }}
+                    placeholder="support-*, group:helpdesk@example.com, ou:/Regional/EMEA"
+                  />
+                )}
+              </TableCell>
+              <TableCell className="text-right space-x-1">
+                {user.id !== currentUser?.id && (
+                  <>
+                    <Button size="sm" variant="ghost" onClick={() => handleUpdate(user, { disabled: !user.disabled })}>
+                      {user.disabled ? "Enable" : "Disable"}
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(user)}>
+                      Delete
+                    </Button>
+                  </>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+        <div className="space-y-1">
+          <Label htmlFor="new-username">Username</Label>
+          <Input
+            id="new-username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            placeholder="operator@example.com"
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="new-password">Password</Label>
+          <Input
+            id="new-password"
+            type="password"
+            autoComplete="new-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            required
+          />
+        </div>
+        <div className="space-y-1">
+          <Label>Role</Label>
+          <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {USER_ROLES.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {option}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit">Add User</Button>
+        {role === "operator" && (
+          <div className="space-y-1 md:col-span-4">
+            <Label htmlFor="new-scopes">Mailbox Scopes</Label>
+            <Input
+              id="new-scopes"
+              value={scopesText}
+              onChange={(e) => setScopesText(e.target.value)}
+              placeholder="support-*, group:helpdesk@example.com, ou:/Regional/EMEA"
+            />
+            <p className="text-xs text-muted-foreground">
+              The mailboxes this operator may add and remove delegates on: patterns such as support-* (without @ they
+              match the part before it), single addresses, members of a Google group (group:), or users in an org unit
+              and its children (ou:).
+            </p>
+          </div>
+        )}
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,382 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Separator } from "@/components/ui/separator"
+import { Textarea } from "@/components/ui/textarea"
+import { toast } from "@/components/ui/use-toast"
+import { canChangeMailbox, hasDirectoryScopes, hasPermission } from "@/lib/permissions"
+import type { AuthMethod, OperationResult, VacationInput, VacationOperation } from "@/types"
+import { useCurrentUser } from "./current-user"
+
+interface VacationEditorProps {
+  authMethod: AuthMethod
+  credentialId: string | null
+  isLoading: boolean
+  onSubmit: (formData: FormData, endpoint: string) => Promise<void>
+  onResult: (results: OperationResult[]) => void
+  onError: (error: string) => void
+  onLoading: (isLoading: boolean) => void
+}
+
+// Helper function to format a timestamp for a datetime-local input
+function toLocalInput(value?: string): string {
+  if (!value) return ""
+  const date = new Date(value)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+export default function VacationEditor({
+  authMethod,
+  credentialId,
+  isLoading,
+  onSubmit,
+  onResult,
+  onError,
+  onLoading,
+}: VacationEditorProps) {
+  const [userEmail, setUserEmail] = useState("")
+  const [subject, setSubject] = useState("")
+  const [bodyFormat, setBodyFormat] = useState<"plain" | "html">("plain")
+  const [body, setBody] = useState("")
+  const [startTime, setStartTime] = useState("")
+  const [endTime, setEndTime] = useState("")
+  const [restrictToContacts, setRestrictToContacts] = useState(false)
+  const [restrictToDomain, setRestrictToDomain] = useState(false)
+  const [teamMailboxes, setTeamMailboxes] = useState("")
+  const user = useCurrentUser()
+  const canWrite = hasPermission(user, "delegates:write")
+
+  // Calls a v2 route with the selected credential; OAuth requests are authorized by the session cookie
+  const callApi = async (path: string, init: RequestInit = {}) => {
+    // Requests with a JSON body name the credential in the body instead
+    const query = credentialId && !init.body ? `?credentialId=${encodeURIComponent(credentialId)}` : ""
+    const response = await fetch(`/api/v2${path}${query}`, init)
+    const data = await response.json()
+    if (!response.ok) {
+      const error = data.error || { code: "unknown", message: `Server returned an error: ${response.status}` }
+      throw Object.assign(new Error(error.message), { code: error.code, details: error.details })
+    }
+    return data.data
+  }
+
+  const checkCredential = () => {
+    if (authMethod !== "oauth" && !credentialId) {
+      toast({
+        title: "Missing service account",
+        description: "A stored service account credential is required",
+        variant: "destructive",
+      })
+      return false
+    }
+    return true
+  }
+
+  // The responder as entered; empty fields are left out so Gmail clears them
+  const responder = (): VacationInput => ({
+    responseSubject: subject.trim() || undefined,
+    responseBodyPlainText: bodyFormat === "plain" ? body.trim() || undefined : undefined,
+    responseBodyHtml: bodyFormat === "html" ? body.trim() || undefined : undefined,
+    startTime: startTime ? new Date(startTime).toISOString() : undefined,
+    endTime: endTime ? new Date(endTime).toISOString() : undefined,
+    restrictToContacts: restrictToContacts || undefined,
+    restrictToDomain: restrictToDomain || undefined,
+  })
+
+  const mailboxPath = () => `/mailboxes/${encodeURIComponent(userEmail.trim())}/vacation`
+
+  // Read, change or turn off the mailbox's responder and show the outcome as a result
+  const runOperation = async (operation: VacationOperation) => {
+    if (!checkCredential()) return
+
+    const mailbox = userEmail.trim()
+    try {
+      onLoading(true)
+      let result: OperationResult
+      if (operation === "vacation-get") {
+        const vacation = await callApi(mailboxPath())
+        setSubject(vacation.responseSubject || "")
+        setBodyFormat(vacation.responseBodyHtml ? "html" : "plain")
+        setBody(vacation.responseBodyHtml || vacation.responseBodyPlainText || "")
+        setStartTime(toLocalInput(vacation.startTime))
+        setEndTime(toLocalInput(vacation.endTime))
+        setRestrictToContacts(!!vacation.restrictToContacts)
+        setRestrictToDomain(!!vacation.restrictToDomain)
+        result = {
+          success: true,
+          operation,
+          userEmail: mailbox,
+          message: vacation.enableAutoReply
+            ? `${mailbox} has a vacation responder on`
+            : `${mailbox} has no vacation responder on`,
+          vacation,
+        }
+      } else {
+        const payload =
+          operation === "vacation-on" ? { ...responder(), enableAutoReply: true } : { enableAutoReply: false }
+        const data = await callApi(mailboxPath(), {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(credentialId ? { ...payload, credentialId } : payload),
+        })
+        result = {
+          success: true,
+          operation: data.operation,
+          userEmail: data.mailbox,
+          message: data.message,
+          vacation: data.vacation,
+        }
+      }
+      onResult([result])
+      toast({ title: "Operation successful", description: result.message })
+    } catch (err: any) {
+      // Classified failures are shown as a failed result so the remediation hint is displayed
+      onResult([
+        {
+          success: false,
+          operation,
+          userEmail: mailbox,
+          message: err.message || "An unexpected error occurred",
+          errorCode: err.code,
+          details: err.details,
+        },
+      ])
+      toast({
+        title: "Operation failed",
+        description: err.message || "An unexpected error occurred",
+        variant: "destructive",
+      })
+    } finally {
+      onLoading(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    runOperation("vacation-on")
+  }
+
+  // Set or turn off the responder of every listed mailbox as one background job
+  const handleTeam = async (operation: "vacation-on" | "vacation-off") => {
+    if (!checkCredential()) return
+
+    const mailboxes = teamMailboxes
+      .split(/[\s,]+/)
+      .map((mailbox) => mailbox.trim())
+      .filter(Boolean)
+    const vacation = operation === "vacation-on" ? responder() : undefined
+    if (vacation && !vacation.responseSubject && !vacation.responseBodyPlainText && !vacation.responseBodyHtml) {
+      onError("Enter a subject or a message for the responder first")
+      return
+    }
+
+    const formData = new FormData()
+    if (authMethod === "service-account" && credentialId) {
+      formData.append("credentialId", credentialId)
+    }
+    formData.append("authMethod", authMethod || "")
+    formData.append(
+      "operations",
+      JSON.stringify(mailboxes.map((mailbox) => ({ operation, userEmail: mailbox, vacation }))),
+    )
+    try {
+      await onSubmit(formData, "/api/jobs")
+      setTeamMailboxes("")
+    } catch (error) {
+      console.error("Error submitting vacation batch:", error)
+    }
+  }
+
+  const outOfScope = userEmail.includes("@") && !canChangeMailbox(user, userEmail) && !hasDirectoryScopes(user)
+  const hasResponse = !!(subject.trim() || body.trim())
+
+  return (
+    <div className="space-y-6 mt-4">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="vacation-mailbox">Mailbox Email</Label>
+          <div className="flex gap-2">
+            <Input
+              id="vacation-mailbox"
+              type="email"
+              value={userEmail}
+              onChange={(e) => setUserEmail(e.target.value)}
+              placeholder="user@example.com"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!authMethod || isLoading || !userEmail.includes("@")}
+              onClick={() => runOperation("vacation-get")}
+            >
+              Load Responder
+            </Button>
+          </div>
+          {canWrite && outOfScope && (
+            <p className="text-xs text-red-600 dark:text-red-400">
+              This mailbox is outside the mailboxes you are allowed to change
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="vacation-subject">Subject</Label>
+          <Input
+            id="vacation-subject"
+            value={subject}
+            onChange={(e) => setSubject(e.target.value)}
+            placeholder="Out of office"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="vacation-body">Message</Label>
+            <RadioGroup
+              value={bodyFormat}
+              onValueChange={(value) => setBodyFormat(value as "plain" | "html")}
+              className="flex gap-4"
+            >
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="plain" id="vacation-plain" />
+                <Label htmlFor="vacation-plain" className="cursor-pointer text-sm">
+                  Plain text
+                </Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="html" id="vacation-html" />
+                <Label htmlFor="vacation-html" className="cursor-pointer text-sm">
+                  HTML
+                </Label>
+              </div>
+            </RadioGroup>
+          </div>
+          <Textarea
+            id="vacation-body"
+            value={body}
+            onChange={(e) => setBody(e.target.value)}
+            placeholder={
+              bodyFormat === "html"
+                ? "<p>I am away until Monday. For urgent matters contact <b>team@example.com</b>.</p>"
+                : "I am away until Monday. For urgent matters contact team@example.com."
+            }
+            rows={5}
+            className={bodyFormat === "html" ? "font-mono text-sm" : undefined}
+          />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="vacation-start">Start (optional)</Label>
+            <Input
+              id="vacation-start"
+              type="datetime-local"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="vacation-end">End (optional)</Label>
+            <Input
+              id="vacation-end"
+              type="datetime-local"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="vacation-contacts-only"
+              checked={restrictToContacts}
+              onChange={(e) => setRestrictToContacts(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            <Label htmlFor="vacation-contacts-only" className="text-sm">
+              Only reply to people in the mailbox's contacts
+            </Label>
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              id="vacation-domain-only"
+              checked={restrictToDomain}
+              onChange={(e) => setRestrictToDomain(e.target.checked)}
+              className="h-4 w-4 rounded border-gray-300 text-primary focus:ring-primary"
+            />
+            <Label htmlFor="vacation-domain-only" className="text-sm">
+              Only reply to people in the mailbox's domain
+            </Label>
+          </div>
+        </div>
+
+        {canWrite && (
+          <div className="flex gap-2">
+            <Button type="submit" disabled={!authMethod || isLoading || !hasResponse || outOfScope} className="flex-1">
+              {isLoading ? "Processing..." : "Turn On Responder"}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              disabled={!authMethod || isLoading || !userEmail.includes("@") || outOfScope}
+              onClick={() => runOperation("vacation-off")}
+            >
+              Turn Off
+            </Button>
+          </div>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Turning the responder on replaces its text and dates; turning it off keeps them. Without an end date it
+          answers until it is turned off. Changes are recorded in the activity log but cannot be rolled back.
+        </p>
+      </form>
+
+      {canWrite && (
+        <>
+          <Separator />
+
+          <div className="space-y-2">
+            <Label htmlFor="vacation-team">Apply to a Team</Label>
+            <Textarea
+              id="vacation-team"
+              value={teamMailboxes}
+              onChange={(e) => setTeamMailboxes(e.target.value)}
+              placeholder="Mailboxes to set the responder above on, one per line"
+              rows={4}
+            />
+            <p className="text-xs text-muted-foreground">
+              Runs as a background batch job, one row per mailbox, and reports each mailbox's outcome.
+            </p>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleTeam("vacation-on")}
+                disabled={!authMethod || isLoading || !teamMailboxes.trim() || !hasResponse}
+                className="flex-1"
+              >
+                Turn On for Team
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => handleTeam("vacation-off")}
+                disabled={!authMethod || isLoading || !teamMailboxes.trim()}
+              >
+                Turn Off for Team
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,61 @@
+// Script to plan and apply a desired-state delegation file (YAML or JSON) against Gmail
+// Usage: delegateState.js <plan|apply> --config delegates.yaml --serviceAccountFile key.json
+
+import { readFileSync } from "fs"
+import { applyPlan, formatPlan, parseDesiredState, planDesiredState } from "./utils/desired-state"
+
+async function runDesiredState(command: string, configFile: string, serviceAccountFile: string): Promise<number> {
+  console.log(`Loading desired state from ${configFile}...`)
+  const state = parseDesiredState(readFileSync(configFile, "utf8"))
+  console.log(`Desired state covers ${Object.keys(state.mailboxes).length} mailboxes.`)
+
+  // Load the service account key file
+  const key = JSON.parse(readFileSync(serviceAccountFile, "utf8"))
+  const requestCredential = { credential: key, actor: key.client_email }
+
+  console.log("Listing current delegates...")
+  const plan = await planDesiredState(state, requestCredential)
+  console.log("")
+  console.log(formatPlan(plan))
+
+  if (command === "plan") {
+    return plan.totals.errors > 0 ? 1 : 0
+  }
+
+  if (plan.totals.add === 0 && plan.totals.remove === 0) {
+    return plan.totals.errors > 0 ? 1 : 0
+  }
+
+  console.log("")
+  console.log("Applying changes...")
+  const results = await applyPlan(plan, requestCredential, (result) => {
+    const symbol = result.operation === "add" ? "+" : "-"
+    const status = result.success ? "ok" : `FAILED: ${result.message}`
+    console.log(`  ${symbol} ${result.userEmail} ${result.delegateEmail} ... ${status}`)
+  })
+
+  const failed = results.filter((result) => !result.success).length
+  console.log("")
+  console.log(`Apply complete: ${results.length - failed} succeeded, ${failed} failed.`)
+  return failed > 0 || plan.totals.errors > 0 ? 1 : 0
+}
+
+// Handle command line arguments
+if (require.main === module) {
+  const args = process.argv.slice(2)
+  const command = args[0]
+  const configIndex = args.indexOf("--config")
+  const keyIndex = args.indexOf("--serviceAccountFile")
+
+  if ((command !== "plan" && command !== "apply") || configIndex === -1 || keyIndex === -1) {
+    console.error("Usage: delegateState <plan|apply> --config <file> --serviceAccountFile <key.json>")
+    process.exit(1)
+  }
+
+  runDesiredState(command, args[configIndex + 1], args[keyIndex + 1])
+    .then((exitCode) => process.exit(exitCode))
+    .catch((error) => {
+      console.error("Script execution failed:", error.message || error)
+      process.exit(1)
+    })
+}
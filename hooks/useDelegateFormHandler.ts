@@ -3,17 +3,21 @@ import { toast } from "@/components/ui/use-toast"
 
 export interface UseDelegateFormHandlerOptions {
   onSubmit: (formData: FormData, endpoint?: string) => Promise<void>
-  serviceAccountFile: File | null | undefined
+  credentialId?: string | null
+  serviceAccountFile?: File | null
   authMethod?: string
   endpoint?: string
+  batchEndpoint?: string
   debugMode?: boolean
 }
 
 export function useDelegateFormHandler({
   onSubmit,
+  credentialId,
   serviceAccountFile,
   authMethod,
   endpoint = "/api/delegates",
+  batchEndpoint = "/api/jobs",
   debugMode = false,
 }: UseDelegateFormHandlerOptions) {
   const [operation, setOperation] = useState<string>("list")
@@ -30,11 +34,12 @@ export function useDelegateFormHandler({
       .split("\n")
       .filter((line) => line.trim())
       .map((line) => {
-        const [op, user, delegate] = line.split(",").map((item) => item.trim())
+        const [op, user, delegate, expiresAt] = line.split(",").map((item) => item.trim())
         return {
           operation: op,
           userEmail: user,
           delegateEmail: delegate,
+          expiresAt: expiresAt || undefined,
         }
       })
   }
@@ -90,12 +95,15 @@ export function useDelegateFormHandler({
       setIsSubmitting(true)
       const formData = new FormData()
 
-      if (safeAuthMethod === "service-account" && serviceAccountFile) {
+      // OAuth requests are authorized by the session cookie, so no file is attached
+      if (safeAuthMethod === "service-account" && credentialId) {
+        formData.append("credentialId", credentialId)
+      } else if (safeAuthMethod === "service-account" && serviceAccountFile) {
         formData.append("serviceAccount", serviceAccountFile)
-      } else {
+      } else if (safeAuthMethod !== "oauth") {
         toast({
           title: "Missing service account",
-          description: "Service account file is required",
+          description: "A stored service account credential is required",
           variant: "destructive",
         })
         setIsSubmitting(false)
@@ -132,7 +140,7 @@ export function useDelegateFormHandler({
         })
       }
 
-      await onSubmit(formData, endpoint)
+      await onSubmit(formData, batchMode ? batchEndpoint : endpoint)
 
       // Reset form if successful
       if (!batchMode) {
@@ -0,0 +1,592 @@
+/**
+ * Request and response schemas of the /api/v2 REST API.
+ * Routes validate their input against these schemas, and lib/openapi.ts builds the OpenAPI document from them,
+ * so the document cannot drift from what the API accepts.
+ */
+
+import { z } from "zod"
+import type { DelegationErrorCode } from "@/types"
+import { ERROR_STATUS } from "./delegation-errors"
+
+export const emailSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .email()
+  .describe("An email address, matched case-insensitively")
+
+const errorCodeSchema = z.enum(Object.keys(ERROR_STATUS) as [DelegationErrorCode, ...DelegationErrorCode[]])
+
+const timestampSchema = z.string().datetime({ offset: true }).describe("An ISO 8601 timestamp")
+
+const credentialIdSchema = z
+  .string()
+  .min(1)
+  .describe("A stored credential to act with; defaults to the API key's credential, then the OAuth session")
+
+// Query strings carry booleans as text
+const queryBooleanSchema = z
+  .enum(["true", "false"])
+  .transform((value) => value === "true")
+  .describe("true or false")
+
+export const mailboxParamsSchema = z.object({
+  email: emailSchema.describe("The mailbox whose delegates are managed"),
+})
+
+export const delegateParamsSchema = mailboxParamsSchema.extend({
+  delegate: emailSchema.describe("The delegate's email address"),
+})
+
+export const sendAsParamsSchema = mailboxParamsSchema.extend({
+  address: emailSchema.describe("The send-as address"),
+})
+
+export const forwardingParamsSchema = mailboxParamsSchema.extend({
+  address: emailSchema.describe("The forwarding address"),
+})
+
+export const filterParamsSchema = mailboxParamsSchema.extend({
+  id: z.string().min(1).describe("The filter's ID, as listed"),
+})
+
+export const jobParamsSchema = z.object({
+  id: z.string().uuid().describe("The job ID returned when the batch was submitted"),
+})
+
+export const credentialQuerySchema = z.object({
+  credentialId: credentialIdSchema.optional(),
+})
+
+export const removeDelegateQuerySchema = credentialQuerySchema.extend({
+  reason: z.string().max(500).optional().describe("Why the delegate is removed; shown to approvers"),
+  dryRun: queryBooleanSchema.optional(),
+})
+
+export const addDelegateBodySchema = z
+  .object({
+    delegateEmail: emailSchema,
+    expiresAt: timestampSchema.optional().describe("When the delegate is removed again"),
+    reason: z.string().max(500).optional().describe("Why the delegate is added; shown to approvers"),
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Report what would happen without changing anything"),
+  })
+  .strict()
+
+const sendAsSettingsSchema = z.object({
+  displayName: z.string().max(200).optional().describe("The name shown on mail sent from the address"),
+  replyToAddress: emailSchema.optional().describe("Where replies go instead of the send-as address"),
+  signature: z.string().max(10000).optional().describe("HTML signature for mail sent from the address"),
+  isDefault: z.boolean().optional().describe("Send new mail from this address by default"),
+  treatAsAlias: z.boolean().optional().describe("Whether Gmail treats the address as an alias of the mailbox"),
+})
+
+export const createSendAsBodySchema = sendAsSettingsSchema
+  .extend({
+    sendAsEmail: emailSchema.describe("The address to send as, e.g. a shared mailbox the user is a delegate of"),
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Report what would happen without changing anything"),
+  })
+  .strict()
+
+export const updateSendAsBodySchema = sendAsSettingsSchema
+  .extend({
+    credentialId: credentialIdSchema.optional(),
+  })
+  .strict()
+
+export const dryRunQuerySchema = credentialQuerySchema.extend({
+  dryRun: queryBooleanSchema.optional(),
+})
+
+export const addForwardingAddressBodySchema = z
+  .object({
+    forwardingEmail: emailSchema.describe("The address mail may be forwarded to; Gmail emails it a verification link"),
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Report what would happen without changing anything"),
+  })
+  .strict()
+
+export const updateAutoForwardingBodySchema = z
+  .object({
+    enabled: z.boolean(),
+    emailAddress: emailSchema.optional().describe("Required to turn auto-forwarding on; a verified forwarding address"),
+    disposition: z
+      .enum(["leaveInInbox", "archive", "trash", "markRead"])
+      .optional()
+      .describe("What happens to the mailbox's copy of forwarded mail"),
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Report what would happen without changing anything"),
+  })
+  .strict()
+  .refine((body) => !body.enabled || !!body.emailAddress, {
+    message: "emailAddress is required to turn auto-forwarding on",
+    path: ["emailAddress"],
+  })
+
+export const forwardingScanBodySchema = z
+  .object({
+    mailboxes: z
+      .array(emailSchema)
+      .min(1)
+      .max(5000)
+      .optional()
+      .describe("The mailboxes to scan; omit to scan every active user of the domain, which needs the admin role"),
+    credentialId: credentialIdSchema.optional(),
+  })
+  .strict()
+
+const vacationResponderSchema = z.object({
+  responseSubject: z.string().max(1000).optional().describe("The subject of the automatic reply"),
+  responseBodyPlainText: z.string().max(100000).optional().describe("The reply as plain text"),
+  responseBodyHtml: z.string().max(100000).optional().describe("The reply as HTML; used instead of the plain text"),
+  startTime: timestampSchema.optional().describe("When the responder starts answering; omit to start now"),
+  endTime: timestampSchema.optional().describe("When the responder stops answering; omit to answer until turned off"),
+  restrictToContacts: z.boolean().optional().describe("Only answer senders in the mailbox's contacts"),
+  restrictToDomain: z.boolean().optional().describe("Only answer senders in the mailbox's domain"),
+})
+
+// A responder that is turned on must say something, and must not end before it starts
+const hasResponse = (vacation: z.infer<typeof vacationResponderSchema>) =>
+  !!(vacation.responseSubject || vacation.responseBodyPlainText || vacation.responseBodyHtml)
+const inOrder = (vacation: z.infer<typeof vacationResponderSchema>) =>
+  !vacation.endTime || Date.parse(vacation.endTime) > (vacation.startTime ? Date.parse(vacation.startTime) : Date.now())
+
+export const updateVacationBodySchema = vacationResponderSchema
+  .extend({
+    enableAutoReply: z.boolean().describe("false turns the responder off and keeps its text"),
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Report what would happen without changing anything"),
+  })
+  .strict()
+  .refine((body) => !body.enableAutoReply || hasResponse(body), {
+    message: "responseSubject or a response body is required to turn the responder on",
+    path: ["responseSubject"],
+  })
+  .refine((body) => !body.enableAutoReply || inOrder(body), {
+    message: "endTime must be in the future and after startTime",
+    path: ["endTime"],
+  })
+
+const filterCriteriaSchema = z
+  .object({
+    from: z.string().max(1000).optional().describe("The sender, or Gmail search terms for it"),
+    to: z.string().max(1000).optional().describe("The recipient, or Gmail search terms for it"),
+    subject: z.string().max(1000).optional().describe("Words the subject contains"),
+    query: z.string().max(1500).optional().describe("Gmail search terms the message must match"),
+    negatedQuery: z.string().max(1500).optional().describe("Gmail search terms the message must not match"),
+    hasAttachment: z.boolean().optional(),
+    excludeChats: z.boolean().optional(),
+    size: z.number().int().positive().optional().describe("Message size in bytes, compared with sizeComparison"),
+    sizeComparison: z.enum(["larger", "smaller"]).optional(),
+  })
+  .strict()
+
+const labelNamesSchema = z.array(z.string().trim().min(1).max(225)).max(20)
+
+const filterActionSchema = z
+  .object({
+    addLabels: labelNamesSchema
+      .optional()
+      .describe("Label names; system labels such as STARRED or TRASH are kept, missing user labels are created"),
+    removeLabels: labelNamesSchema.optional().describe("Label names, e.g. INBOX to skip the inbox or UNREAD"),
+    forward: emailSchema.optional().describe("A verified forwarding address of the mailbox"),
+  })
+  .strict()
+
+// A filter must match something and do something
+type FilterInput = { criteria: z.infer<typeof filterCriteriaSchema>; action: z.infer<typeof filterActionSchema> }
+const hasCriterion = ({ criteria: c }: FilterInput) =>
+  !!(c.from || c.to || c.subject || c.query || c.negatedQuery || c.hasAttachment || c.size)
+const hasAction = ({ action }: FilterInput) =>
+  !!(action.addLabels?.length || action.removeLabels?.length || action.forward)
+const CRITERION_REQUIRED = { message: "A filter needs at least one criterion", path: ["criteria"] }
+const ACTION_REQUIRED = { message: "A filter needs at least one action", path: ["action"] }
+
+const filterDefinitionSchema = z
+  .object({ criteria: filterCriteriaSchema, action: filterActionSchema })
+  .strict()
+  .refine(hasCriterion, CRITERION_REQUIRED)
+  .refine(hasAction, ACTION_REQUIRED)
+
+export const createFilterBodySchema = z
+  .object({
+    criteria: filterCriteriaSchema,
+    action: filterActionSchema,
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Report what would happen without changing anything"),
+  })
+  .strict()
+  .refine(hasCriterion, CRITERION_REQUIRED)
+  .refine(hasAction, ACTION_REQUIRED)
+
+export const importFiltersBodySchema = z
+  .object({
+    version: z.literal(1).optional().describe("As written by the export; an exported set can be sent unchanged"),
+    exportedFrom: z.string().optional(),
+    exportedAt: z.string().optional(),
+    filters: z.array(filterDefinitionSchema).min(1).max(1000),
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Report what would happen without changing anything"),
+  })
+  .strict()
+
+export const filterScanBodySchema = forwardingScanBodySchema
+
+const expungeBehaviorSchema = z.enum(["archive", "trash", "deleteForever"])
+const popAccessWindowSchema = z.enum(["disabled", "fromNowOn", "allMail"])
+const popDispositionSchema = z.enum(["leaveInInbox", "archive", "trash", "markRead"])
+
+export const updateImapBodySchema = z
+  .object({
+    enabled: z.boolean().describe("false stops mail clients from reading the mailbox over IMAP"),
+    autoExpunge: z.boolean().optional().describe("Expunge a message as soon as the client marks it deleted"),
+    expungeBehavior: expungeBehaviorSchema.optional().describe("What happens to a message the client expunges"),
+    maxFolderSize: z.number().int().min(0).optional().describe("Messages per IMAP folder; 0 for no limit"),
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Report what would happen without changing anything"),
+  })
+  .strict()
+
+export const updatePopBodySchema = z
+  .object({
+    accessWindow: popAccessWindowSchema.describe("disabled stops mail clients from downloading the mailbox over POP"),
+    disposition: popDispositionSchema.optional().describe("What happens to a message once a client downloads it"),
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Report what would happen without changing anything"),
+  })
+  .strict()
+
+export const accessScanBodySchema = forwardingScanBodySchema.extend({
+  format: z.enum(["json", "csv"]).default("json").describe("csv returns the table as a download"),
+})
+
+export const batchOperationSchema = z
+  .object({
+    operation: z.enum([
+      "add",
+      "remove",
+      "list",
+      "sendas-add",
+      "sendas-remove",
+      "vacation-on",
+      "vacation-off",
+      "imap-disable",
+      "pop-disable",
+    ]),
+    mailbox: emailSchema,
+    delegateEmail: emailSchema.optional().describe("Required for add and remove"),
+    expiresAt: timestampSchema.optional().describe("For add: when the delegate is removed again"),
+    sendAsEmail: emailSchema.optional().describe("Required for sendas-add and sendas-remove"),
+    displayName: z.string().max(200).optional().describe("For sendas-add: the name shown on its mail"),
+    vacation: vacationResponderSchema.strict().optional().describe("Required for vacation-on: the responder to set"),
+  })
+  .strict()
+  .refine((operation) => !["add", "remove"].includes(operation.operation) || !!operation.delegateEmail, {
+    message: "delegateEmail is required for add and remove",
+    path: ["delegateEmail"],
+  })
+  .refine((operation) => !operation.operation.startsWith("sendas-") || !!operation.sendAsEmail, {
+    message: "sendAsEmail is required for sendas-add and sendas-remove",
+    path: ["sendAsEmail"],
+  })
+  .refine(
+    (operation) => operation.operation !== "vacation-on" || (!!operation.vacation && hasResponse(operation.vacation)),
+    {
+      message: "vacation with a responseSubject or a response body is required for vacation-on",
+      path: ["vacation"],
+    },
+  )
+
+export const createBatchBodySchema = z
+  .object({
+    operations: z.array(batchOperationSchema).min(1).max(5000),
+    reason: z.string().max(500).optional().describe("Why the batch is run; shown to approvers"),
+    credentialId: credentialIdSchema.optional(),
+    dryRun: z.boolean().default(false).describe("Check every operation and submit nothing"),
+  })
+  .strict()
+
+export const delegateSchema = z.object({
+  delegateEmail: z.string(),
+  verificationStatus: z.string().optional().describe("accepted, pending, rejected or expired, as reported by Gmail"),
+  expiresAt: timestampSchema.optional().describe("Set for time-bound delegations"),
+  grantId: z.string().optional().describe("The time-bound grant that removes the delegate"),
+})
+
+export const delegateListSchema = z.object({
+  mailbox: z.string(),
+  delegates: z.array(delegateSchema),
+})
+
+export const delegationResultSchema = z.object({
+  operation: z.enum(["add", "remove"]),
+  mailbox: z.string(),
+  delegateEmail: z.string(),
+  status: z
+    .enum(["applied", "pending_approval", "dry_run"])
+    .describe("pending_approval means a change request was opened; dry_run means nothing was changed"),
+  message: z.string(),
+  expiresAt: timestampSchema.optional(),
+  changeRequestId: z.string().optional(),
+  requiresApproval: z.boolean().optional().describe("For dry runs: whether the change would need approval"),
+})
+
+export const sendAsSchema = z.object({
+  sendAsEmail: z.string(),
+  displayName: z.string().optional(),
+  replyToAddress: z.string().optional(),
+  signature: z.string().optional(),
+  isPrimary: z.boolean().optional().describe("The mailbox's own address, which cannot be removed"),
+  isDefault: z.boolean().optional(),
+  treatAsAlias: z.boolean().optional(),
+  verificationStatus: z.string().optional().describe("accepted, or pending until the verification link is followed"),
+})
+
+export const sendAsListSchema = z.object({
+  mailbox: z.string(),
+  sendAs: z.array(sendAsSchema),
+})
+
+export const sendAsResultSchema = z.object({
+  operation: z.enum(["sendas-add", "sendas-update", "sendas-remove"]),
+  mailbox: z.string(),
+  sendAsEmail: z.string(),
+  status: z.enum(["applied", "dry_run"]),
+  message: z.string(),
+  sendAs: sendAsSchema.optional().describe("The alias after the change"),
+})
+
+export const sendAsVerificationSchema = z.object({
+  mailbox: z.string(),
+  sendAsEmail: z.string(),
+  message: z.string(),
+})
+
+export const forwardingSchema = z.object({
+  mailbox: z.string(),
+  forwardingAddresses: z.array(
+    z.object({
+      forwardingEmail: z.string(),
+      verificationStatus: z.string().optional().describe("accepted, or pending until the link Gmail sent is followed"),
+      external: z.boolean().describe("Outside the mailbox's domain and the configured internal domains"),
+    }),
+  ),
+  autoForwarding: z.object({
+    enabled: z.boolean(),
+    emailAddress: z.string().optional(),
+    disposition: z.string().optional(),
+  }),
+  forwardsExternally: z.boolean().describe("Auto-forwarding is on and sends mail outside the organisation"),
+})
+
+export const forwardingResultSchema = z.object({
+  operation: z.enum(["forwarding-add", "forwarding-remove", "forwarding-update"]),
+  mailbox: z.string(),
+  forwardingEmail: z.string().optional().describe("The address added, removed or auto-forwarded to"),
+  status: z.enum(["applied", "dry_run"]),
+  message: z.string(),
+  forwarding: forwardingSchema.optional().describe("The mailbox's forwarding after the change"),
+})
+
+export const forwardingScanSchema = z.object({
+  source: z.enum(["directory", "list"]).describe("directory when every active user of the domain was scanned"),
+  scanned: z.number().int(),
+  flagged: z.number().int().describe("Mailboxes auto-forwarding outside the organisation"),
+  errors: z.number().int(),
+  mailboxes: z.array(
+    z.object({
+      mailbox: z.string(),
+      success: z.boolean(),
+      message: z.string(),
+      errorCode: errorCodeSchema.optional(),
+      forwarding: forwardingSchema.optional(),
+    }),
+  ),
+})
+
+export const vacationSchema = vacationResponderSchema.extend({
+  mailbox: z.string(),
+  enableAutoReply: z.boolean().describe("Whether the responder is on; it only answers between startTime and endTime"),
+})
+
+export const vacationResultSchema = z.object({
+  operation: z.enum(["vacation-on", "vacation-off"]),
+  mailbox: z.string(),
+  status: z.enum(["applied", "dry_run"]),
+  message: z.string(),
+  vacation: vacationSchema.optional().describe("The responder after the change, or before it for a dry run"),
+})
+
+export const filterSchema = z.object({
+  id: z.string().optional().describe("Unset for filters a dry run would create"),
+  criteria: filterCriteriaSchema,
+  action: filterActionSchema,
+  description: z.string().describe("The criteria and actions in words"),
+  forwardsExternally: z.boolean().describe("The filter forwards mail outside the organisation"),
+})
+
+export const filterListSchema = z.object({
+  mailbox: z.string(),
+  filters: z.array(filterSchema),
+})
+
+export const filterResultSchema = z.object({
+  operation: z.enum(["filter-create", "filter-delete"]),
+  mailbox: z.string(),
+  status: z.enum(["applied", "dry_run"]),
+  message: z.string(),
+  filter: filterSchema.optional().describe("The filter created or deleted"),
+})
+
+export const filterImportResultSchema = z.object({
+  mailbox: z.string(),
+  status: z.enum(["applied", "dry_run"]),
+  message: z.string(),
+  created: z.number().int().describe("Filters created, or that a dry run would create"),
+  skipped: z.number().int().describe("Filters the mailbox already had, or that the set repeats"),
+  filters: z.array(filterSchema).describe("The filters created"),
+})
+
+export const filterSetSchema = z.object({
+  version: z.literal(1),
+  exportedFrom: z.string().optional(),
+  exportedAt: timestampSchema,
+  filters: z.array(z.object({ criteria: filterCriteriaSchema, action: filterActionSchema })),
+})
+
+export const filterScanSchema = z.object({
+  source: z.enum(["directory", "list"]).describe("directory when every active user of the domain was scanned"),
+  scanned: z.number().int(),
+  flagged: z.number().int().describe("Mailboxes with a filter forwarding outside the organisation"),
+  errors: z.number().int(),
+  mailboxes: z.array(
+    z.object({
+      mailbox: z.string(),
+      success: z.boolean(),
+      message: z.string(),
+      errorCode: errorCodeSchema.optional(),
+      filters: z.array(filterSchema).optional().describe("The mailbox's forwarding filters"),
+    }),
+  ),
+})
+
+export const mailAccessSchema = z.object({
+  mailbox: z.string(),
+  imap: z.object({
+    enabled: z.boolean(),
+    autoExpunge: z.boolean().optional(),
+    expungeBehavior: expungeBehaviorSchema.optional(),
+    maxFolderSize: z.number().int().optional(),
+  }),
+  pop: z.object({
+    accessWindow: popAccessWindowSchema,
+    disposition: popDispositionSchema.optional(),
+  }),
+  displayLanguage: z.string().optional().describe("The language Gmail shows the mailbox in, e.g. en or de"),
+  legacyAccess: z.boolean().describe("IMAP or POP is on, so mail clients can read the mailbox"),
+})
+
+export const mailAccessResultSchema = z.object({
+  operation: z.enum(["imap-update", "pop-update"]),
+  mailbox: z.string(),
+  status: z.enum(["applied", "dry_run"]),
+  message: z.string(),
+  access: mailAccessSchema.optional().describe("The mailbox's settings after the change, or before it for a dry run"),
+})
+
+export const accessScanSchema = z.object({
+  source: z.enum(["directory", "list"]).describe("directory when every active user of the domain was scanned"),
+  scanned: z.number().int(),
+  flagged: z.number().int().describe("Mailboxes with IMAP or POP on"),
+  errors: z.number().int(),
+  mailboxes: z.array(
+    z.object({
+      mailbox: z.string(),
+      success: z.boolean(),
+      message: z.string(),
+      errorCode: errorCodeSchema.optional(),
+      access: mailAccessSchema.optional(),
+    }),
+  ),
+})
+
+export const batchPreviewSchema = z.object({
+  dryRun: z.literal(true),
+  applicable: z.number().int().describe("How many operations would be applied"),
+  results: z.array(
+    z.object({
+      index: z.number().int(),
+      operation: z.string(),
+      mailbox: z.string(),
+      delegateEmail: z.string().optional(),
+      sendAsEmail: z.string().optional(),
+      success: z.boolean(),
+      message: z.string(),
+      errorCode: errorCodeSchema.optional(),
+      requiresApproval: z.boolean().optional(),
+    }),
+  ),
+})
+
+export const jobSchema = z.object({
+  id: z.string(),
+  status: z.enum(["queued", "running", "completed", "cancelled", "failed"]),
+  actor: z.string(),
+  reason: z.string().optional(),
+  rollbackOf: z.string().optional().describe("The job this job rolls back"),
+  createdAt: timestampSchema,
+  startedAt: timestampSchema.optional(),
+  finishedAt: timestampSchema.optional(),
+  total: z.number().int(),
+  processed: z.number().int(),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  message: z.string().optional(),
+  rows: z.array(
+    z.object({
+      index: z.number().int(),
+      operation: z.string(),
+      mailbox: z.string(),
+      delegateEmail: z.string().optional(),
+      sendAsEmail: z.string().optional(),
+      expiresAt: timestampSchema.optional(),
+      status: z.enum(["pending", "running", "success", "error", "cancelled"]),
+      message: z.string().optional(),
+      errorCode: errorCodeSchema.optional(),
+    }),
+  ),
+})
+
+export const errorEnvelopeSchema = z.object({
+  error: z.object({
+    code: errorCodeSchema,
+    message: z.string(),
+    hint: z.string(),
+    details: z.any().optional().describe("Validation issues, refused mailboxes or the raw Gmail error"),
+  }),
+})
+
+export type ApiDelegate = z.infer<typeof delegateSchema>
+export type ApiDelegateList = z.infer<typeof delegateListSchema>
+export type ApiDelegationResult = z.infer<typeof delegationResultSchema>
+export type ApiBatchPreview = z.infer<typeof batchPreviewSchema>
+export type ApiJob = z.infer<typeof jobSchema>
+export type ApiBatchOperation = z.infer<typeof batchOperationSchema>
+export type ApiSendAs = z.infer<typeof sendAsSchema>
+export type ApiSendAsList = z.infer<typeof sendAsListSchema>
+export type ApiSendAsResult = z.infer<typeof sendAsResultSchema>
+export type ApiForwarding = z.infer<typeof forwardingSchema>
+export type ApiForwardingResult = z.infer<typeof forwardingResultSchema>
+export type ApiForwardingScan = z.infer<typeof forwardingScanSchema>
+export type ApiVacation = z.infer<typeof vacationSchema>
+export type ApiVacationResult = z.infer<typeof vacationResultSchema>
+export type ApiFilter = z.infer<typeof filterSchema>
+export type ApiFilterList = z.infer<typeof filterListSchema>
+export type ApiFilterResult = z.infer<typeof filterResultSchema>
+export type ApiFilterImportResult = z.infer<typeof filterImportResultSchema>
+export type ApiFilterSet = z.infer<typeof filterSetSchema>
+export type ApiFilterScan = z.infer<typeof filterScanSchema>
+export type ApiMailAccess = z.infer<typeof mailAccessSchema>
+export type ApiMailAccessResult = z.infer<typeof mailAccessResultSchema>
+export type ApiAccessScan = z.infer<typeof accessScanSchema>
@@ -0,0 +1,15 @@
+/**
+ * CSV helpers shared by the exports. Fields are made safe to open in a spreadsheet.
+ */
+
+/**
+ * Render one value as a CSV field.
+ * Values a spreadsheet would run as a formula are prefixed with an apostrophe, and fields with a separator,
+ * quote or line break are quoted.
+ * @param value The value
+ * @returns string The field
+ */
+export function toCsvField(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
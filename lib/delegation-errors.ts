@@ -0,0 +1,125 @@
+import type { DelegationErrorCode } from "@/types"
+
+/**
+ * HTTP status returned by the API for each failure cause
+ */
+export const ERROR_STATUS: Record<DelegationErrorCode, number> = {
+  invalid_request: 400,
+  invalid_credentials: 401,
+  unauthorized_client: 403,
+  mailbox_not_found: 404,
+  not_found: 404,
+  already_exists: 409,
+  delegate_limit_reached: 409,
+  delegate_not_in_domain: 422,
+  rate_limited: 429,
+  pending_approval: 202,
+  policy_violation: 422,
+  forbidden: 403,
+  unauthenticated: 401,
+  unknown: 500,
+}
+
+/**
+ * Remediation hint shown to the operator for each failure cause
+ */
+export const ERROR_HINTS: Record<DelegationErrorCode, string> = {
+  invalid_request: "Check the mailbox and delegate addresses and the operation name.",
+  invalid_credentials:
+    "The service account key was rejected. Rotate the stored credential or upload a fresh key from the Cloud Console.",
+  unauthorized_client:
+    "Domain-wide delegation is missing or incomplete for this service account. Run the preflight check and grant the missing scopes in the Admin Console.",
+  mailbox_not_found: "The mailbox does not exist or has Gmail disabled. Check the address and the user's Gmail license.",
+  not_found: "The delegate is not currently assigned to this mailbox, so there is nothing to remove.",
+  already_exists: "The delegate already has access to this mailbox; no change is needed.",
+  delegate_limit_reached: "The mailbox has reached Gmail's delegate limit. Remove an existing delegate first.",
+  delegate_not_in_domain:
+    "Delegates must be users in the same Google Workspace organization as the mailbox. External or group addresses cannot be delegates.",
+  rate_limited: "Gmail API quota was exceeded. Wait a minute and retry, or split the batch into smaller runs.",
+  pending_approval:
+    "This mailbox requires approval. A change request was created and runs once a second user approves it on the Dashboard.",
+  policy_violation:
+    "A delegation policy blocks this change. The details list each rule that was violated; an admin can change the policy on the Dashboard.",
+  forbidden: "Your role does not allow this action. An admin can change your role or assigned mailboxes.",
+  unauthenticated: "Sign in to DelegateEase to continue.",
+  unknown: "An unexpected error occurred. Expand the details for the raw Gmail response.",
+}
+
+/**
+ * A delegation failure with a known cause
+ */
+export class DelegationError extends Error {
+  readonly code: DelegationErrorCode
+  readonly details?: any
+
+  constructor(code: DelegationErrorCode, message: string, details?: any) {
+    super(message)
+    this.name = "DelegationError"
+    this.code = code
+    this.details = details
+    Object.setPrototypeOf(this, DelegationError.prototype)
+  }
+
+  get status(): number {
+    return ERROR_STATUS[this.code]
+  }
+}
+
+/**
+ * Map an error thrown by the Google auth or Gmail client to a failure cause
+ * @param error The error thrown by googleapis or google-auth-library
+ * @returns DelegationErrorCode The failure cause
+ */
+export function classifyGmailError(error: any): DelegationErrorCode {
+  if (error instanceof DelegationError) {
+    return error.code
+  }
+
+  const data = error?.response?.data
+  const status: number | undefined = error?.response?.status ?? (typeof error?.code === "number" ? error.code : undefined)
+  const tokenError: string | undefined = typeof data?.error === "string" ? data.error : undefined
+  const reason: string | undefined = data?.error?.errors?.[0]?.reason || error?.errors?.[0]?.reason
+  const message = [data?.error?.message, data?.error_description, error?.message].filter(Boolean).join(" ")
+
+  // OAuth token endpoint errors
+  if (tokenError === "unauthorized_client" || tokenError === "access_denied") {
+    return "unauthorized_client"
+  }
+  if (tokenError === "invalid_grant") {
+    return /invalid email|user id|not found/i.test(message) ? "mailbox_not_found" : "invalid_credentials"
+  }
+  if (tokenError === "invalid_client") {
+    return "invalid_credentials"
+  }
+
+  // Gmail API errors
+  if (status === 429 || reason === "rateLimitExceeded" || reason === "userRateLimitExceeded") {
+    return "rate_limited"
+  }
+  if (status === 409 || reason === "alreadyExists" || /already exists/i.test(message)) {
+    return "already_exists"
+  }
+  if (/maximum|limit reached|too many delegates/i.test(message)) {
+    return "delegate_limit_reached"
+  }
+  if (/domain|invalid delegate/i.test(message)) {
+    return "delegate_not_in_domain"
+  }
+  if (/mail service not enabled|invalid email|user not found/i.test(message)) {
+    return "mailbox_not_found"
+  }
+  if (status === 404) {
+    return "not_found"
+  }
+  if (status === 401) {
+    return "invalid_credentials"
+  }
+  if (status === 403) {
+    return "unauthorized_client"
+  }
+  if (status === 400) {
+    return "invalid_request"
+  }
+
+  return "unknown"
+}
@@ -0,0 +1,31 @@
+/**
+ * Decides whether an address belongs to the organisation. A mailbox's own domain is always internal;
+ * organisations with several domains list the others, comma-separated, in DELEGATEEASE_INTERNAL_DOMAINS.
+ */
+
+function domainOf(email: string): string {
+  return email.trim().toLowerCase().split("@")[1] || ""
+}
+
+/**
+ * The domains counted as inside the organisation for a mailbox
+ * @param mailbox The mailbox
+ * @returns string[] The mailbox's domain followed by the configured internal domains
+ */
+export function internalDomains(mailbox: string): string[] {
+  const configured = (process.env.DELEGATEEASE_INTERNAL_DOMAINS || "")
+    .split(",")
+    .map((domain) => domain.trim().toLowerCase().replace(/^@/, ""))
+    .filter(Boolean)
+  return [domainOf(mailbox), ...configured]
+}
+
+/**
+ * Whether an address is outside the organisation of a mailbox
+ * @param mailbox The mailbox
+ * @param address The address mail would go to
+ * @returns boolean True if the address is in none of the mailbox's internal domains
+ */
+export function isExternalAddress(mailbox: string, address: string): boolean {
+  return !internalDomains(mailbox).includes(domainOf(address))
+}
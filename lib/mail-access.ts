@@ -0,0 +1,38 @@
+/**
+ * Renders IMAP and POP scan results as CSV. The scan route and the web interface's download share it,
+ * so a downloaded table matches what the API returns.
+ */
+
+import type { MailAccessSettings } from "@/types"
+import { toCsvField } from "./csv"
+
+export interface MailAccessRow {
+  mailbox: string
+  success: boolean
+  message: string
+  access?: MailAccessSettings
+}
+
+/**
+ * Render scanned mailboxes as CSV
+ * @param rows One row per mailbox
+ * @returns string CSV with a header row
+ */
+export function mailAccessCsv(rows: MailAccessRow[]): string {
+  const lines = rows.map(({ mailbox, success, message, access }) =>
+    [
+      mailbox,
+      access ? String(access.imap.enabled) : "",
+      access?.imap.expungeBehavior || "",
+      access?.pop.accessWindow || "",
+      access?.pop.disposition || "",
+      access?.displayLanguage || "",
+      access ? String(access.legacyAccess) : "",
+      success ? "" : message,
+    ]
+      .map(toCsvField)
+      .join(","),
+  )
+  const header = "mailbox,imap_enabled,imap_expunge_behavior,pop_access_window,pop_disposition,display_language"
+  return [`${header},legacy_access,error`, ...lines].join("\n") + "\n"
+}
@@ -0,0 +1,22 @@
+/**
+ * Whether a mailbox matches a pattern such as hr-*, *@legal.example.com or ceo@example.com.
+ * Matching is case-insensitive and * stands for any run of characters.
+ * Patterns without an @ are matched against the local part only, so hr-* covers hr-payroll@ in every domain.
+ * @param pattern The mailbox pattern
+ * @param email The mailbox address
+ * @returns boolean True if the mailbox matches
+ */
+export function matchesMailboxPattern(pattern: string, email: string): boolean {
+  const normalized = pattern.trim().toLowerCase()
+  if (!normalized) {
+    return false
+  }
+
+  const address = email.trim().toLowerCase()
+  const subject = normalized.includes("@") ? address : address.split("@")[0]
+  const source = normalized
+    .split("*")
+    .map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*")
+  return new RegExp(`^${source}$`).test(subject)
+}
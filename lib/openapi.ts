@@ -0,0 +1,530 @@
+/**
+ * Builds the OpenAPI 3.0 document for the /api/v2 REST API from the zod schemas in lib/api-schemas.
+ * Only the zod types those schemas use are converted; anything else becomes an unconstrained schema.
+ */
+
+import { z } from "zod"
+import {
+  accessScanBodySchema,
+  accessScanSchema,
+  addDelegateBodySchema,
+  addForwardingAddressBodySchema,
+  batchPreviewSchema,
+  createBatchBodySchema,
+  createFilterBodySchema,
+  createSendAsBodySchema,
+  credentialQuerySchema,
+  delegateListSchema,
+  delegateParamsSchema,
+  delegateSchema,
+  delegationResultSchema,
+  dryRunQuerySchema,
+  errorEnvelopeSchema,
+  filterImportResultSchema,
+  filterListSchema,
+  filterParamsSchema,
+  filterResultSchema,
+  filterScanBodySchema,
+  filterScanSchema,
+  filterSetSchema,
+  forwardingParamsSchema,
+  forwardingResultSchema,
+  forwardingScanBodySchema,
+  forwardingScanSchema,
+  forwardingSchema,
+  importFiltersBodySchema,
+  jobParamsSchema,
+  jobSchema,
+  mailAccessResultSchema,
+  mailAccessSchema,
+  mailboxParamsSchema,
+  removeDelegateQuerySchema,
+  sendAsListSchema,
+  sendAsParamsSchema,
+  sendAsResultSchema,
+  sendAsSchema,
+  sendAsVerificationSchema,
+  updateAutoForwardingBodySchema,
+  updateImapBodySchema,
+  updatePopBodySchema,
+  updateSendAsBodySchema,
+  updateVacationBodySchema,
+  vacationResultSchema,
+  vacationSchema,
+} from "./api-schemas"
+
+type JsonSchema = Record<string, any>
+
+interface Operation {
+  summary: string
+  permission: string
+  params: z.AnyZodObject
+  query?: z.AnyZodObject
+  body?: z.ZodTypeAny
+  responses: Record<number, { description: string; schema?: z.ZodTypeAny }>
+}
+
+const ERROR_RESPONSES: Record<number, { description: string }> = {
+  400: { description: "The request failed validation; details lists each issue" },
+  401: { description: "No valid session or API key" },
+  403: { description: "The role or mailbox scopes do not allow the action" },
+}
+
+const PENDING_APPROVAL = "An approval rule covers the mailbox; a change request was opened"
+
+// Every route of the API, keyed by OpenAPI path and method
+const ROUTES: Record<string, Record<string, Operation>> = {
+  "/mailboxes/{email}/delegates": {
+    get: {
+      summary: "List a mailbox's delegates, with the expiry of time-bound ones",
+      permission: "delegates:read",
+      params: mailboxParamsSchema,
+      query: credentialQuerySchema,
+      responses: { 200: { description: "The delegates", schema: delegateListSchema } },
+    },
+    post: {
+      summary: "Add a delegate",
+      permission: "delegates:write",
+      params: mailboxParamsSchema,
+      body: addDelegateBodySchema,
+      responses: {
+        200: { description: "Dry run: the delegate would be added", schema: delegationResultSchema },
+        201: { description: "The delegate was added", schema: delegationResultSchema },
+        202: { description: PENDING_APPROVAL, schema: delegationResultSchema },
+        409: { description: "The delegate is already assigned, or the mailbox has too many delegates" },
+        422: { description: "The delegation policy blocks the change" },
+      },
+    },
+  },
+  "/mailboxes/{email}/delegates/{delegate}": {
+    get: {
+      summary: "Get one delegate of a mailbox",
+      permission: "delegates:read",
+      params: delegateParamsSchema,
+      query: credentialQuerySchema,
+      responses: {
+        200: { description: "The delegate", schema: delegateSchema },
+        404: { description: "The delegate is not assigned to the mailbox" },
+      },
+    },
+    delete: {
+      summary: "Remove a delegate",
+      permission: "delegates:write",
+      params: delegateParamsSchema,
+      query: removeDelegateQuerySchema,
+      responses: {
+        200: { description: "The delegate was removed, or would be in a dry run", schema: delegationResultSchema },
+        202: { description: PENDING_APPROVAL, schema: delegationResultSchema },
+        404: { description: "The delegate is not assigned to the mailbox" },
+        422: { description: "The delegation policy blocks the change" },
+      },
+    },
+  },
+  "/mailboxes/{email}/send-as": {
+    get: {
+      summary: "List a mailbox's send-as aliases, including its primary address",
+      permission: "delegates:read",
+      params: mailboxParamsSchema,
+      query: credentialQuerySchema,
+      responses: { 200: { description: "The aliases", schema: sendAsListSchema } },
+    },
+    post: {
+      summary: "Add a send-as alias; Gmail emails a verification link to addresses it cannot verify itself",
+      permission: "delegates:write",
+      params: mailboxParamsSchema,
+      body: createSendAsBodySchema,
+      responses: {
+        200: { description: "Dry run: the alias would be added", schema: sendAsResultSchema },
+        201: { description: "The alias was added", schema: sendAsResultSchema },
+        409: { description: "The mailbox already has the alias" },
+      },
+    },
+  },
+  "/mailboxes/{email}/send-as/{address}": {
+    get: {
+      summary: "Get one send-as alias",
+      permission: "delegates:read",
+      params: sendAsParamsSchema,
+      query: credentialQuerySchema,
+      responses: {
+        200: { description: "The alias", schema: sendAsSchema },
+        404: { description: "The mailbox has no such alias" },
+      },
+    },
+    patch: {
+      summary: "Change a send-as alias's display name, reply-to address, signature or default flag",
+      permission: "delegates:write",
+      params: sendAsParamsSchema,
+      body: updateSendAsBodySchema,
+      responses: {
+        200: { description: "The alias was updated", schema: sendAsResultSchema },
+        404: { description: "The mailbox has no such alias" },
+      },
+    },
+    delete: {
+      summary: "Remove a send-as alias",
+      permission: "delegates:write",
+      params: sendAsParamsSchema,
+      query: dryRunQuerySchema,
+      responses: {
+        200: { description: "The alias was removed, or would be in a dry run", schema: sendAsResultSchema },
+        404: { description: "The mailbox has no such alias" },
+      },
+    },
+  },
+  "/mailboxes/{email}/send-as/{address}/verify": {
+    post: {
+      summary: "Send the verification email for a pending send-as alias again",
+      permission: "delegates:write",
+      params: sendAsParamsSchema,
+      query: credentialQuerySchema,
+      responses: {
+        202: { description: "The verification email was sent", schema: sendAsVerificationSchema },
+        404: { description: "The mailbox has no such alias" },
+      },
+    },
+  },
+  "/mailboxes/{email}/forwarding": {
+    get: {
+      summary: "Get a mailbox's forwarding addresses and auto-forwarding, flagged when mail leaves the organisation",
+      permission: "delegates:read",
+      params: mailboxParamsSchema,
+      query: credentialQuerySchema,
+      responses: { 200: { description: "The forwarding settings", schema: forwardingSchema } },
+    },
+    put: {
+      summary: "Turn auto-forwarding on or off",
+      permission: "delegates:write",
+      params: mailboxParamsSchema,
+      body: updateAutoForwardingBodySchema,
+      responses: {
+        200: { description: "Auto-forwarding was changed, or would be in a dry run", schema: forwardingResultSchema },
+      },
+    },
+  },
+  "/mailboxes/{email}/forwarding/addresses": {
+    post: {
+      summary: "Add a forwarding address; Gmail emails it a verification link",
+      permission: "delegates:write",
+      params: mailboxParamsSchema,
+      body: addForwardingAddressBodySchema,
+      responses: {
+        200: { description: "Dry run: the address would be added", schema: forwardingResultSchema },
+        201: { description: "The address was added", schema: forwardingResultSchema },
+        409: { description: "The mailbox already has the forwarding address" },
+      },
+    },
+  },
+  "/mailboxes/{email}/forwarding/addresses/{address}": {
+    delete: {
+      summary: "Remove a forwarding address that auto-forwarding does not use",
+      permission: "delegates:write",
+      params: forwardingParamsSchema,
+      query: dryRunQuerySchema,
+      responses: {
+        200: { description: "The address was removed, or would be in a dry run", schema: forwardingResultSchema },
+        404: { description: "The mailbox has no such forwarding address" },
+      },
+    },
+  },
+  "/mailboxes/{email}/vacation": {
+    get: {
+      summary: "Get a mailbox's vacation responder",
+      permission: "delegates:read",
+      params: mailboxParamsSchema,
+      query: credentialQuerySchema,
+      responses: { 200: { description: "The vacation responder", schema: vacationSchema } },
+    },
+    put: {
+      summary: "Turn the vacation responder on with the given text, or off",
+      permission: "delegates:write",
+      params: mailboxParamsSchema,
+      body: updateVacationBodySchema,
+      responses: {
+        200: { description: "The responder was changed, or would be in a dry run", schema: vacationResultSchema },
+      },
+    },
+  },
+  "/mailboxes/{email}/access": {
+    get: {
+      summary: "Get a mailbox's IMAP, POP and display language settings",
+      permission: "delegates:read",
+      params: mailboxParamsSchema,
+      query: credentialQuerySchema,
+      responses: { 200: { description: "The settings", schema: mailAccessSchema } },
+    },
+  },
+  "/mailboxes/{email}/access/imap": {
+    put: {
+      summary: "Turn IMAP on or off, or change how it expunges",
+      permission: "delegates:write",
+      params: mailboxParamsSchema,
+      body: updateImapBodySchema,
+      responses: {
+        200: { description: "IMAP was changed, or would be in a dry run", schema: mailAccessResultSchema },
+      },
+    },
+  },
+  "/mailboxes/{email}/access/pop": {
+    put: {
+      summary: "Turn POP off, or choose which mail it downloads and what happens to it",
+      permission: "delegates:write",
+      params: mailboxParamsSchema,
+      body: updatePopBodySchema,
+      responses: {
+        200: { description: "POP was changed, or would be in a dry run", schema: mailAccessResultSchema },
+      },
+    },
+  },
+  "/mailboxes/{email}/filters": {
+    get: {
+      summary: "List a mailbox's filters, each described in words",
+      permission: "delegates:read",
+      params: mailboxParamsSchema,
+      query: credentialQuerySchema,
+      responses: { 200: { description: "The filters", schema: filterListSchema } },
+    },
+    post: {
+      summary: "Create a filter; labels are named, and missing user labels are created",
+      permission: "delegates:write",
+      params: mailboxParamsSchema,
+      body: createFilterBodySchema,
+      responses: {
+        200: { description: "Dry run: the filter would be created", schema: filterResultSchema },
+        201: { description: "The filter was created", schema: filterResultSchema },
+        409: { description: "The mailbox already has an identical filter" },
+      },
+    },
+  },
+  "/mailboxes/{email}/filters/{id}": {
+    delete: {
+      summary: "Delete a filter",
+      permission: "delegates:write",
+      params: filterParamsSchema,
+      query: dryRunQuerySchema,
+      responses: {
+        200: { description: "The filter was deleted, or would be in a dry run", schema: filterResultSchema },
+        404: { description: "The mailbox has no such filter" },
+      },
+    },
+  },
+  "/mailboxes/{email}/filters/export": {
+    get: {
+      summary: "Export a mailbox's filters as a set that can be imported into other mailboxes",
+      permission: "delegates:read",
+      params: mailboxParamsSchema,
+      query: credentialQuerySchema,
+      responses: { 200: { description: "The filter set", schema: filterSetSchema } },
+    },
+  },
+  "/mailboxes/{email}/filters/import": {
+    post: {
+      summary: "Create the filters of a set that the mailbox does not already have",
+      permission: "delegates:write",
+      params: mailboxParamsSchema,
+      body: importFiltersBodySchema,
+      responses: {
+        200: { description: "The filters were created, or would be in a dry run", schema: filterImportResultSchema },
+      },
+    },
+  },
+  "/filters/scan": {
+    post: {
+      summary: "Scan mailboxes, or every active user of the domain, for filters forwarding outside the organisation",
+      permission: "delegates:read",
+      params: z.object({}),
+      body: filterScanBodySchema,
+      responses: { 200: { description: "One entry per mailbox, flagged ones first", schema: filterScanSchema } },
+    },
+  },
+  "/access/scan": {
+    post: {
+      summary: "Scan mailboxes, or every active user of the domain, for IMAP and POP access",
+      permission: "delegates:read",
+      params: z.object({}),
+      body: accessScanBodySchema,
+      responses: {
+        200: {
+          description: "One entry per mailbox, flagged ones first; with format csv, the table as a CSV download",
+          schema: accessScanSchema,
+        },
+      },
+    },
+  },
+  "/forwarding/scan": {
+    post: {
+      summary: "Scan mailboxes, or every active user of the domain, for auto-forwarding outside the organisation",
+      permission: "delegates:read",
+      params: z.object({}),
+      body: forwardingScanBodySchema,
+      responses: { 200: { description: "One entry per mailbox, flagged ones first", schema: forwardingScanSchema } },
+    },
+  },
+  "/batches": {
+    post: {
+      summary: "Submit a batch of operations to run as a background job",
+      permission: "delegates:write",
+      params: z.object({}),
+      body: createBatchBodySchema,
+      responses: {
+        200: { description: "Dry run: the outcome of every operation", schema: batchPreviewSchema },
+        202: { description: "The job was queued; Location points at it", schema: jobSchema },
+      },
+    },
+  },
+  "/jobs/{id}": {
+    get: {
+      summary: "Get a batch job with the status of every operation",
+      permission: "delegates:read",
+      params: jobParamsSchema,
+      responses: {
+        200: { description: "The job", schema: jobSchema },
+        404: { description: "No job has this ID" },
+      },
+    },
+    delete: {
+      summary: "Cancel a batch job; operations already in flight finish",
+      permission: "delegates:write",
+      params: jobParamsSchema,
+      responses: {
+        200: { description: "The job, cancelled or cancelling", schema: jobSchema },
+        404: { description: "No job has this ID" },
+      },
+    },
+  },
+}
+
+/**
+ * Convert a zod schema to the JSON Schema dialect of OpenAPI 3.0
+ * @param schema The zod schema
+ * @returns JsonSchema The equivalent schema, describing the input the API accepts
+ */
+export function toJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  const converted = convert(schema)
+  return schema.description ? { ...converted, description: schema.description } : converted
+}
+
+function convert(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional || schema instanceof z.ZodNullable) {
+    const inner = toJsonSchema(schema.unwrap())
+    return schema instanceof z.ZodNullable ? { ...inner, nullable: true } : inner
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...toJsonSchema(schema._def.innerType), default: schema._def.defaultValue() }
+  }
+  if (schema instanceof z.ZodEffects) {
+    return toJsonSchema(schema.innerType())
+  }
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: "string" }
+    schema._def.checks.forEach((check) => {
+      if (check.kind === "email") result.format = "email"
+      if (check.kind === "uuid") result.format = "uuid"
+      if (check.kind === "datetime") result.format = "date-time"
+      if (check.kind === "min") result.minLength = check.value
+      if (check.kind === "max") result.maxLength = check.value
+    })
+    return result
+  }
+  if (schema instanceof z.ZodNumber) {
+    return { type: schema.isInt ? "integer" : "number" }
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" }
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { type: typeof schema.value, enum: [schema.value] }
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: schema.options }
+  }
+  if (schema instanceof z.ZodArray) {
+    const result: JsonSchema = { type: "array", items: toJsonSchema(schema.element) }
+    if (schema._def.minLength) result.minItems = schema._def.minLength.value
+    if (schema._def.maxLength) result.maxItems = schema._def.maxLength.value
+    return result
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape
+    const properties: Record<string, JsonSchema> = {}
+    const required: string[] = []
+    Object.keys(shape).forEach((key) => {
+      properties[key] = toJsonSchema(shape[key])
+      if (!shape[key].isOptional()) required.push(key)
+    })
+    const result: JsonSchema = { type: "object", properties }
+    if (required.length > 0) result.required = required
+    if (schema._def.unknownKeys === "strict") result.additionalProperties = false
+    return result
+  }
+  return {}
+}
+
+function toParameters(location: "path" | "query", schema?: z.AnyZodObject): JsonSchema[] {
+  if (!schema) {
+    return []
+  }
+  return Object.keys(schema.shape).map((name) => {
+    const { description, ...property } = toJsonSchema(schema.shape[name])
+    const required = location === "path" || !schema.shape[name].isOptional()
+    return { name, in: location, required, description, schema: property }
+  })
+}
+
+function toOperation(operation: Operation): JsonSchema {
+  const responses: Record<string, JsonSchema> = {}
+  const statuses: Record<number, { description: string; schema?: z.ZodTypeAny }> = {
+    ...ERROR_RESPONSES,
+    ...operation.responses,
+  }
+  Object.keys(statuses).forEach((status) => {
+    const { description, schema } = statuses[Number(status)]
+    const envelope = schema ? z.object({ data: schema }) : errorEnvelopeSchema
+    responses[status] = { description, content: { "application/json": { schema: toJsonSchema(envelope) } } }
+  })
+
+  return {
+    summary: operation.summary,
+    description: `Requires the ${operation.permission} permission.`,
+    parameters: [...toParameters("path", operation.params), ...toParameters("query", operation.query)],
+    requestBody: operation.body
+      ? { required: true, content: { "application/json": { schema: toJsonSchema(operation.body) } } }
+      : undefined,
+    responses,
+  }
+}
+
+/**
+ * Build the OpenAPI document for the v2 API
+ * @param serverUrl The base URL the API is served from, e.g. https://delegateease.example.com/api/v2
+ * @returns JsonSchema The OpenAPI 3.0 document
+ */
+export function buildOpenApiDocument(serverUrl: string): JsonSchema {
+  const paths: Record<string, JsonSchema> = {}
+  Object.keys(ROUTES).forEach((path) => {
+    paths[path] = {}
+    Object.keys(ROUTES[path]).forEach((method) => {
+      paths[path][method] = toOperation(ROUTES[path][method])
+    })
+  })
+
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "DelegateEase API",
+      version: "2.0.0",
+      description:
+        "Manage Gmail delegates. Successful responses wrap their payload in data; failures return an error " +
+        "object with a code, message, remediation hint and details.",
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ bearerAuth: [] }, { sessionCookie: [] }],
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: "An API key created by an admin" },
+        sessionCookie: { type: "apiKey", in: "cookie", name: "delegateease_user" },
+      },
+    },
+    paths,
+  }
+}
@@ -0,0 +1,115 @@
+import type { MailboxScope, Permission, UserAccount, UserRole } from "@/types"
+import { matchesMailboxPattern } from "./mailbox-pattern"
+
+export const USER_ROLES: UserRole[] = ["viewer", "operator", "approver", "admin"]
+
+/**
+ * What each role may do. Admins may do everything; operators' changes are limited to their mailbox scopes.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  viewer: ["delegates:read"],
+  operator: ["delegates:read", "delegates:write"],
+  approver: ["delegates:read", "changes:approve"],
+  admin: ["delegates:read", "delegates:write", "changes:approve", "admin"],
+}
+
+/**
+ * Whether a user's role grants a permission
+ * @param user The signed-in user
+ * @param permission The permission to check
+ * @returns boolean True if the user has the permission
+ */
+export function hasPermission(user: Pick<UserAccount, "role"> | null, permission: Permission): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission)
+}
+
+/**
+ * Read a stored mailbox scope
+ * @param scope The scope string, e.g. hr-*, group:helpdesk@example.com or ou:/Regional/EMEA
+ * @returns MailboxScope The parsed scope
+ */
+export function parseMailboxScope(scope: string): MailboxScope {
+  const value = scope.trim()
+  const lower = value.toLowerCase()
+  if (lower.startsWith("group:")) {
+    return { type: "group", groupEmail: lower.slice("group:".length).trim() }
+  }
+  if (lower.startsWith("ou:")) {
+    // Org unit paths are case-insensitive in Google Workspace; keep them rooted and without a trailing slash
+    const path = value.slice("ou:".length).trim().replace(/\/+$/, "")
+    return { type: "ou", orgUnitPath: path.startsWith("/") ? path : `/${path}` }
+  }
+  return { type: "pattern", pattern: lower }
+}
+
+/**
+ * Check a scope string and return it in its stored form
+ * @param scope The scope as entered
+ * @returns string | null The normalized scope, or null if it is not a valid scope
+ */
+export function normalizeMailboxScope(scope: string): string | null {
+  const parsed = parseMailboxScope(scope)
+  switch (parsed.type) {
+    case "group":
+      return parsed.groupEmail.includes("@") ? `group:${parsed.groupEmail}` : null
+    case "ou":
+      return `ou:${parsed.orgUnitPath || "/"}`
+    default:
+      return parsed.pattern || null
+  }
+}
+
+/**
+ * Check and normalize a list of mailbox scopes, e.g. from a user account or API key form
+ * @param input The scopes as entered
+ * @returns { scopes: string[]; problems: string[] } The normalized scopes, and a problem for each invalid one
+ */
+export function validateMailboxScopes(input: unknown): { scopes: string[]; problems: string[] } {
+  if (!Array.isArray(input)) {
+    return { scopes: [], problems: ["mailboxScopes must be an array of mailbox scopes"] }
+  }
+
+  const scopes: string[] = []
+  const problems: string[] = []
+  input
+    .map((scope) => String(scope).trim())
+    .filter(Boolean)
+    .forEach((scope) => {
+      const normalized = normalizeMailboxScope(scope)
+      if (normalized) {
+        scopes.push(normalized)
+      } else {
+        problems.push(`${scope} is not a mailbox pattern, group:<email> or ou:<path>`)
+      }
+    })
+  return { scopes, problems }
+}
+
+/**
+ * Whether a user has group or OU scopes, which can only be resolved on the server
+ * @param user The signed-in user
+ * @returns boolean True if any scope needs a directory lookup
+ */
+export function hasDirectoryScopes(user: Pick<UserAccount, "mailboxScopes"> | null): boolean {
+  return !!user && user.mailboxScopes.some((scope) => parseMailboxScope(scope).type !== "pattern")
+}
+
+/**
+ * Whether a user may add or remove delegates on a mailbox, judged by role and mailbox patterns only.
+ * Group and OU scopes are not considered; the server resolves them with MailboxAccess.
+ * @param user The signed-in user
+ * @param mailbox The mailbox being changed
+ * @returns boolean True for admins, and for operators when one of their patterns covers the mailbox
+ */
+export function canChangeMailbox(user: Pick<UserAccount, "role" | "mailboxScopes"> | null, mailbox: string): boolean {
+  if (!user || !hasPermission(user, "delegates:write")) {
+    return false
+  }
+  if (user.role === "admin") {
+    return true
+  }
+  return user.mailboxScopes.some((scope) => {
+    const parsed = parseMailboxScope(scope)
+    return parsed.type === "pattern" && matchesMailboxPattern(parsed.pattern, mailbox)
+  })
+}
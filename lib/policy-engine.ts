@@ -0,0 +1,167 @@
+import type {
+  DelegationPolicy,
+  PolicyCheck,
+  PolicyEvaluation,
+  PolicyRule,
+  PolicyRuleType,
+  PolicyViolation,
+} from "@/types"
+import { matchesMailboxPattern } from "./mailbox-pattern"
+
+export const POLICY_RULE_TYPES: PolicyRuleType[] = [
+  "allowed_domains",
+  "block_external",
+  "max_delegates",
+  "require_approval",
+  "never_delegate",
+]
+
+function domainOf(email: string): string {
+  return email.trim().toLowerCase().split("@")[1] || ""
+}
+
+function appliesTo(rule: PolicyRule, userEmail: string): boolean {
+  return !rule.mailboxPattern || matchesMailboxPattern(rule.mailboxPattern, userEmail)
+}
+
+function describe(rule: PolicyRule, message: string): string {
+  return rule.description ? `${rule.description}: ${message}` : message
+}
+
+/**
+ * Check a policy rule for mistakes before it is saved
+ * @param rule The rule
+ * @returns string[] Problems with the rule; empty if it is valid
+ */
+export function validatePolicyRule(rule: Partial<PolicyRule>): string[] {
+  const problems: string[] = []
+  if (!rule.type || !POLICY_RULE_TYPES.includes(rule.type)) {
+    problems.push(`type must be one of ${POLICY_RULE_TYPES.join(", ")}`)
+    return problems
+  }
+
+  if (rule.type === "allowed_domains" && (!rule.domains || rule.domains.length === 0)) {
+    problems.push("allowed_domains needs at least one domain")
+  }
+  if (
+    rule.type === "max_delegates" &&
+    (typeof rule.maxDelegates !== "number" || !Number.isInteger(rule.maxDelegates) || rule.maxDelegates < 0)
+  ) {
+    problems.push("max_delegates needs maxDelegates as a whole number of 0 or more")
+  }
+  if (rule.type === "require_approval" && !rule.mailboxPattern?.trim()) {
+    problems.push("require_approval needs a mailboxPattern")
+  }
+  if (rule.type === "never_delegate" && (!rule.mailboxes || rule.mailboxes.length === 0) && !rule.mailboxPattern) {
+    problems.push("never_delegate needs mailboxes or a mailboxPattern")
+  }
+  return problems
+}
+
+/**
+ * Evaluate a change against a policy.
+ * Only adds can violate a rule, so removing a delegate that breaks the policy is always possible.
+ * The delegate limit needs the mailbox's current delegates; without them it is returned as maxDelegates to check later.
+ * @param policy The policy
+ * @param check The change
+ * @param currentDelegates The mailbox's delegates, if already known
+ * @returns PolicyEvaluation Whether the change is allowed, and whether it needs approval
+ */
+export function evaluatePolicy(
+  policy: DelegationPolicy,
+  check: PolicyCheck,
+  currentDelegates?: string[],
+): PolicyEvaluation {
+  const evaluation: PolicyEvaluation = { allowed: true, policyVersion: policy.version, violations: [] }
+  const delegateDomain = domainOf(check.delegateEmail)
+  const violate = (rule: PolicyRule, message: string) => {
+    const violation: PolicyViolation = { ruleId: rule.id, type: rule.type, message: describe(rule, message) }
+    evaluation.violations.push(violation)
+  }
+
+  policy.rules.forEach((rule) => {
+    if (rule.type === "never_delegate") {
+      const protectedMailbox = rule.mailboxes?.length
+        ? rule.mailboxes.some((mailbox) => matchesMailboxPattern(mailbox, check.userEmail))
+        : appliesTo(rule, check.userEmail)
+      if (check.operation === "add" && protectedMailbox) {
+        violate(rule, `${check.userEmail} may not have delegates`)
+      }
+      return
+    }
+
+    if (!appliesTo(rule, check.userEmail)) {
+      return
+    }
+
+    if (rule.type === "require_approval") {
+      const operations = rule.operations && rule.operations.length > 0 ? rule.operations : ["add", "remove"]
+      if (!evaluation.approvalRuleId && operations.includes(check.operation)) {
+        evaluation.approvalRuleId = rule.id
+      }
+      return
+    }
+
+    if (check.operation !== "add") {
+      return
+    }
+
+    if (rule.type === "allowed_domains") {
+      const domains = (rule.domains || []).map((domain) => domain.trim().toLowerCase().replace(/^@/, ""))
+      if (!domains.includes(delegateDomain)) {
+        violate(rule, `Delegates must be in ${domains.join(" or ")}; ${check.delegateEmail} is not`)
+      }
+    } else if (rule.type === "block_external") {
+      if (delegateDomain !== domainOf(check.userEmail)) {
+        violate(rule, `${check.delegateEmail} is outside the domain of ${check.userEmail}`)
+      }
+    } else if (rule.type === "max_delegates" && typeof rule.maxDelegates === "number") {
+      // The strictest applicable limit wins
+      if (evaluation.maxDelegates === undefined || rule.maxDelegates < evaluation.maxDelegates) {
+        evaluation.maxDelegates = rule.maxDelegates
+      }
+    }
+  })
+
+  if (currentDelegates && evaluation.maxDelegates !== undefined) {
+    const violation = checkDelegateLimit(policy, check, currentDelegates, evaluation.maxDelegates)
+    if (violation) {
+      evaluation.violations.push(violation)
+    }
+  }
+
+  evaluation.allowed = evaluation.violations.length === 0
+  return evaluation
+}
+
+/**
+ * Check the delegate limit once the mailbox's delegates are known
+ * @param policy The policy the limit came from
+ * @param check The change
+ * @param currentDelegates The mailbox's delegates before the change
+ * @param maxDelegates The limit from evaluatePolicy
+ * @returns PolicyViolation | null The violation, or null if there is room for another delegate
+ */
+export function checkDelegateLimit(
+  policy: DelegationPolicy,
+  check: PolicyCheck,
+  currentDelegates: string[],
+  maxDelegates: number,
+): PolicyViolation | null {
+  if (check.operation !== "add" || currentDelegates.length < maxDelegates) {
+    return null
+  }
+
+  const rule = policy.rules.find(
+    (candidate) =>
+      candidate.type === "max_delegates" &&
+      candidate.maxDelegates === maxDelegates &&
+      appliesTo(candidate, check.userEmail),
+  )
+  const message = `${check.userEmail} already has ${currentDelegates.length} delegates; the policy allows ${maxDelegates}`
+  return {
+    ruleId: rule?.id || "max_delegates",
+    type: "max_delegates",
+    message: rule ? describe(rule, message) : message,
+  }
+}
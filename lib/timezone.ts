@@ -0,0 +1,77 @@
+// Matches timestamps that already carry a UTC offset, e.g. 2025-06-02T08:00:00Z or 2025-06-02T08:00+02:00
+const ABSOLUTE_TIME = /(Z|[+-]\d{2}:?\d{2})$/i
+const LOCAL_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/
+
+/**
+ * Whether the runtime knows an IANA time zone
+ * @param timeZone The time zone, e.g. Europe/London
+ * @returns boolean True if the zone can be used for conversions
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Offset of a time zone from UTC at a given instant
+ */
+function getOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant))
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+  const wallClock = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"))
+  return wallClock - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * Convert a wall-clock time in a time zone to an absolute time.
+ * Timestamps that already carry an offset are taken as-is.
+ * @param value A local time like 2025-06-02T08:00, or an absolute timestamp
+ * @param timeZone The IANA time zone the local time is in
+ * @returns Date | null The instant, or null if the value cannot be parsed
+ */
+export function zonedTimeToUtc(value: string, timeZone: string): Date | null {
+  if (ABSOLUTE_TIME.test(value)) {
+    const absolute = Date.parse(value)
+    return Number.isNaN(absolute) ? null : new Date(absolute)
+  }
+
+  const match = LOCAL_TIME.exec(value)
+  if (!match || !isValidTimeZone(timeZone)) {
+    return null
+  }
+
+  const [, year, month, day, hour, minute, second] = match
+  const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second || 0))
+
+  // Correct once more in case the first guess landed on the other side of a DST change
+  let instant = wallClock - getOffset(wallClock, timeZone)
+  const corrected = wallClock - getOffset(instant, timeZone)
+  if (corrected !== instant) {
+    instant = corrected
+  }
+  return new Date(instant)
+}
+
+/**
+ * Express an absolute time as wall-clock time in a time zone, in the format of a datetime-local input
+ * @param value An ISO timestamp
+ * @param timeZone The IANA time zone
+ * @returns string The local time, e.g. 2025-06-02T08:00
+ */
+export function utcToZonedTime(value: string, timeZone: string): string {
+  const instant = Date.parse(value)
+  return new Date(instant + getOffset(instant, timeZone)).toISOString().slice(0, 16)
+}
@@ -23,6 +23,10 @@ async function buildDelegateScripts() {
     console.log("Compiling deleteDelegate.ts...")
     await execAsync(`npx tsc deleteDelegate.ts --outDir dist --esModuleInterop true --target es2018 --module commonjs`)
 
+    // Compile delegateState.ts to JavaScript
+    console.log("Compiling delegateState.ts...")
+    await execAsync(`npx tsc delegateState.ts --outDir dist --esModuleInterop true --target es2018 --module commonjs`)
+
     console.log("Delegate scripts compiled successfully!")
   } catch (error) {
     console.error("Error building delegate scripts:", error)
@@ -0,0 +1,229 @@
+/**
+ * Checks the Gmail retry wrapper against a local fake Gmail server that injects throttling and server errors.
+ * Run with `npm test`. Backoff sleeps and jitter are injected, so the checks do not wait.
+ */
+
+import assert from "assert"
+import http from "http"
+import type { AddressInfo } from "net"
+import { google } from "googleapis"
+import { type RetryOptions, type RetryStats, withRetry, wrapGmailClient } from "../utils/gmail-retry"
+
+interface FakeResponse {
+  status: number
+  headers?: Record<string, string>
+  body?: any
+}
+
+/**
+ * A local stand-in for the Gmail API. Each request takes the next scripted response, then 200 once they run out.
+ */
+class FakeGmailServer {
+  readonly requests: string[] = []
+  private responses: FakeResponse[] = []
+  private readonly server = http.createServer((request, response) => {
+    this.requests.push(`${request.method} ${(request.url || "").split("?")[0]}`)
+    request.resume()
+    request.on("end", () => {
+      const next = this.responses.shift() || { status: 200, body: { delegates: [] } }
+      response.writeHead(next.status, { "Content-Type": "application/json", ...next.headers })
+      response.end(JSON.stringify(next.body || {}))
+    })
+  })
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve))
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/`
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()))
+  }
+
+  script(...responses: FakeResponse[]): void {
+    this.requests.length = 0
+    this.responses = responses
+  }
+}
+
+// Gmail's error body, whose reason tells rate limiting apart from other 403s
+const gmailError = (status: number, reason: string): FakeResponse => ({
+  status,
+  body: { error: { code: status, message: reason, errors: [{ reason, message: reason }] } },
+})
+
+const context = { userEmail: "user@example.com", project: "test-project" }
+
+async function main() {
+  const fake = new FakeGmailServer()
+  const rootUrl = await fake.start()
+  let sleeps: number[] = []
+  const options: RetryOptions = {
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 32000,
+    sleep: async (ms) => {
+      sleeps.push(ms)
+    },
+    random: () => 0.5,
+  }
+
+  // A fresh wrapped client per check, like connectGmailClient creates per operation
+  const connect = () => {
+    const stats: RetryStats = { requests: 0, retries: 0, throttled: 0 }
+    const client = google.gmail({ version: "v1", auth: "fake-api-key", rootUrl, retry: false })
+    return { gmail: wrapGmailClient(client, context, stats, options), stats }
+  }
+
+  const checks: [string, () => Promise<void>][] = [
+    [
+      "429 with Retry-After waits the given time and retries",
+      async () => {
+        const { gmail, stats } = connect()
+        fake.script({ ...gmailError(429, "rateLimitExceeded"), headers: { "Retry-After": "2" } })
+        const response = await gmail.users.settings.delegates.list({ userId: "me" })
+        assert.deepStrictEqual(response.data, { delegates: [] })
+        assert.deepStrictEqual(sleeps, [2000])
+        assert.deepStrictEqual(stats, { requests: 2, retries: 1, throttled: 1 })
+      },
+    ],
+    [
+      "5xx backs off exponentially with jitter",
+      async () => {
+        const { gmail, stats } = connect()
+        fake.script(gmailError(503, "backendError"), gmailError(500, "backendError"), gmailError(502, "backendError"))
+        await gmail.users.settings.delegates.list({ userId: "me" })
+        assert.deepStrictEqual(sleeps, [250, 500, 1000])
+        assert.deepStrictEqual(stats, { requests: 4, retries: 3, throttled: 0 })
+      },
+    ],
+    [
+      "403 rateLimitExceeded counts as throttling and is retried",
+      async () => {
+        const { gmail, stats } = connect()
+        fake.script(gmailError(403, "userRateLimitExceeded"))
+        await gmail.users.settings.delegates.list({ userId: "me" })
+        assert.deepStrictEqual(stats, { requests: 2, retries: 1, throttled: 1 })
+      },
+    ],
+    [
+      "other 4xx errors are not retried",
+      async () => {
+        const { gmail, stats } = connect()
+        fake.script(gmailError(404, "notFound"))
+        await assert.rejects(gmail.users.settings.delegates.get({ userId: "me", delegateEmail: "d@example.com" }))
+        assert.deepStrictEqual(sleeps, [])
+        assert.strictEqual(stats.requests, 1)
+      },
+    ],
+    [
+      "the last error is thrown once retries are exhausted",
+      async () => {
+        const { gmail, stats } = connect()
+        fake.script(...[0, 1, 2, 3].map(() => gmailError(503, "backendError")))
+        await assert.rejects(gmail.users.settings.delegates.list({ userId: "me" }), (error: any) => {
+          return error.response?.status === 503
+        })
+        assert.strictEqual(fake.requests.length, 4)
+        assert.strictEqual(stats.retries, 3)
+      },
+    ],
+    [
+      "a create is not repeated after a 5xx",
+      async () => {
+        const { gmail, stats } = connect()
+        fake.script(gmailError(503, "backendError"))
+        const request = { userId: "me", requestBody: { delegateEmail: "d@example.com" } }
+        await assert.rejects(gmail.users.settings.delegates.create(request))
+        assert.deepStrictEqual(fake.requests, ["POST /gmail/v1/users/me/settings/delegates"])
+        assert.strictEqual(stats.retries, 0)
+      },
+    ],
+    [
+      "a delete is not repeated after a 5xx",
+      async () => {
+        const { gmail, stats } = connect()
+        fake.script(gmailError(503, "backendError"))
+        await assert.rejects(gmail.users.settings.delegates.delete({ userId: "me", delegateEmail: "d@example.com" }))
+        assert.deepStrictEqual(fake.requests, ["DELETE /gmail/v1/users/me/settings/delegates/d%40example.com"])
+        assert.strictEqual(stats.retries, 0)
+      },
+    ],
+    [
+      "a throttled delete is retried",
+      async () => {
+        const { gmail, stats } = connect()
+        fake.script(gmailError(403, "userRateLimitExceeded"))
+        await gmail.users.settings.delegates.delete({ userId: "me", delegateEmail: "d@example.com" })
+        assert.strictEqual(fake.requests.length, 2)
+        assert.deepStrictEqual(stats, { requests: 2, retries: 1, throttled: 1 })
+      },
+    ],
+    [
+      "a throttled create is retried",
+      async () => {
+        const { gmail, stats } = connect()
+        fake.script({ ...gmailError(429, "rateLimitExceeded"), headers: { "Retry-After": "1" } })
+        await gmail.users.settings.filters.create({ userId: "me", requestBody: { criteria: { from: "a@example.com" } } })
+        assert.strictEqual(fake.requests.length, 2)
+        assert.deepStrictEqual(stats, { requests: 2, retries: 1, throttled: 1 })
+      },
+    ],
+    [
+      "withRetry honours an HTTP-date Retry-After capped at maxDelayMs",
+      async () => {
+        let attempts = 0
+        const retryAt = new Date(Date.now() + 60 * 60 * 1000).toUTCString()
+        const result = await withRetry(
+          async () => {
+            attempts++
+            if (attempts === 1) throw { response: { status: 429, headers: { "retry-after": retryAt } } }
+            return "ok"
+          },
+          context,
+          undefined,
+          options,
+        )
+        assert.strictEqual(result, "ok")
+        assert.deepStrictEqual(sleeps, [32000])
+      },
+    ],
+    [
+      "dropped connections are retried unless the call is not idempotent",
+      async () => {
+        const dropped = { code: "ECONNRESET" }
+        let attempts = 0
+        const call = async () => {
+          attempts++
+          if (attempts === 1) throw dropped
+          return "ok"
+        }
+        assert.strictEqual(await withRetry(call, context, undefined, options), "ok")
+        attempts = 0
+        await assert.rejects(withRetry(call, context, undefined, options, false))
+        assert.strictEqual(attempts, 1)
+      },
+    ],
+  ]
+
+  let failed = 0
+  for (const [name, check] of checks) {
+    sleeps = []
+    try {
+      await check()
+      console.log(`ok - ${name}`)
+    } catch (error: any) {
+      failed++
+      console.error(`not ok - ${name}\n${error?.stack || error}`)
+    }
+  }
+
+  await fake.stop()
+  console.log(`${checks.length - failed} of ${checks.length} checks passed`)
+  process.exitCode = failed > 0 ? 1 : 0
+}
+
+main().catch((error) => {
+  console.error(error)
+  process.exitCode = 1
+})
@@ -3,6 +3,7 @@ const { parse } = require("url")
 const next = require("next")
 const fs = require("fs")
 const path = require("path")
+const crypto = require("crypto")
 
 const dev = process.env.NODE_ENV !== "production"
 const app = next({ dev })
@@ -17,6 +18,51 @@ if (!fs.existsSync(tmpDir)) {
 
 const PORT = process.env.PORT || 3000
 
+// Routes use this token to tell scheduled calls apart from user requests
+if (!process.env.DELEGATEEASE_SCHEDULER_TOKEN) {
+  process.env.DELEGATEEASE_SCHEDULER_TOKEN = crypto.randomBytes(32).toString("hex")
+}
+
+// Read an interval in minutes from the environment; 0 disables the task
+function intervalFromEnv(name, defaultMinutes) {
+  const minutes = Number.parseFloat(process.env[name] || "")
+  return (Number.isNaN(minutes) || minutes < 0 ? defaultMinutes : minutes) * 60 * 1000
+}
+
+// Periodically POST to an API route on this server, skipping a tick while the previous call is still running
+function schedule(name, route, intervalMs) {
+  if (!intervalMs) {
+    console.log(`> Scheduler: ${name} disabled`)
+    return
+  }
+
+  let running = false
+  const run = async () => {
+    if (running) return
+    running = true
+    try {
+      const response = await fetch(`http://127.0.0.1:${PORT}${route}`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-delegateease-scheduler": process.env.DELEGATEEASE_SCHEDULER_TOKEN },
+        body: "{}",
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        console.error(`Scheduler: ${name} failed with ${response.status}: ${data.message || response.statusText}`)
+      } else if (data.message) {
+        console.log(`Scheduler: ${name}: ${data.message}`)
+      }
+    } catch (error) {
+      console.error(`Scheduler: ${name} failed:`, error.message || error)
+    } finally {
+      running = false
+    }
+  }
+
+  setInterval(run, intervalMs).unref()
+  console.log(`> Scheduler: ${name} every ${intervalMs / 60000} minutes`)
+}
+
 app.prepare().then(() => {
   createServer((req, res) => {
     const parsedUrl = parse(req.url, true)
@@ -25,5 +71,13 @@ app.prepare().then(() => {
     if (err) throw err
     console.log(`> Ready on http://localhost:${PORT}`)
     console.log(`> Self-hosted DelegateEase is now running`)
+
+    schedule("drift check", "/api/drift/check", intervalFromEnv("DELEGATEEASE_DRIFT_INTERVAL_MINUTES", 60))
+    schedule("grant expiry", "/api/grants/expire", intervalFromEnv("DELEGATEEASE_GRANT_EXPIRY_INTERVAL_MINUTES", 5))
+    schedule(
+      "scheduled operations",
+      "/api/scheduled-operations/run",
+      intervalFromEnv("DELEGATEEASE_SCHEDULE_INTERVAL_MINUTES", 1),
+    )
   })
 })
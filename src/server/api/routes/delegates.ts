@@ -1,11 +1,31 @@
+/**
+ * @deprecated The standalone Express API predates the Next.js routes and is no longer extended.
+ * New integrations use /api/v2 (app/api/v2), which has the same operations with validated JSON bodies.
+ */
+
 import express from "express"
 import multer from "multer"
 import fs from "fs"
-import { createGmailClient, listDelegates, addDelegate, removeDelegate } from "../../utils/gmail"
+import { connectGmailClient, listDelegates, addDelegate, removeDelegate } from "../../utils/gmail"
+import { DelegationError, ERROR_STATUS } from "../../../../lib/delegation-errors"
 
 const router = express.Router()
 const upload = multer({ dest: "uploads/" })
 
+// Convert a Gmail client failure into a response body carrying its cause
+function clientFailure(error: any) {
+  const code = error instanceof DelegationError ? error.code : "unknown"
+  return {
+    status: ERROR_STATUS[code],
+    body: {
+      success: false,
+      errorCode: code,
+      message: error.message || "Failed to create Gmail client",
+      details: error instanceof DelegationError ? error.details : undefined,
+    },
+  }
+}
+
 // Endpoint to list delegates
 router.post("/list", upload.single("serviceAccount"), async (req, res) => {
   try {
@@ -22,13 +42,13 @@ router.post("/list", upload.single("serviceAccount"), async (req, res) => {
     const serviceAccountJson = fs.readFileSync(req.file.path, "utf8")
 
     // Create Gmail client
-    const gmail = await createGmailClient(serviceAccountJson, userEmail)
-
-    if (!gmail) {
-      return res.status(500).json({
-        success: false,
-        message: "Failed to create Gmail client",
-      })
+    let gmail
+    try {
+      gmail = await connectGmailClient(serviceAccountJson, userEmail)
+    } catch (clientError: any) {
+      fs.unlinkSync(req.file.path)
+      const failure = clientFailure(clientError)
+      return res.status(failure.status).json(failure.body)
     }
 
     // List delegates
@@ -73,13 +93,13 @@ router.post("/add", upload.single("serviceAccount"), async (req, res) => {
     const serviceAccountJson = fs.readFileSync(req.file.path, "utf8")
 
     // Create Gmail client
-    const gmail = await createGmailClient(serviceAccountJson, userEmail)
-
-    if (!gmail) {
-      return res.status(500).json({
-        success: false,
-        message: "Failed to create Gmail client",
-      })
+    let gmail
+    try {
+      gmail = await connectGmailClient(serviceAccountJson, userEmail)
+    } catch (clientError: any) {
+      fs.unlinkSync(req.file.path)
+      const failure = clientFailure(clientError)
+      return res.status(failure.status).json(failure.body)
     }
 
     // Add delegate
@@ -88,7 +108,7 @@ router.post("/add", upload.single("serviceAccount"), async (req, res) => {
     // Clean up the uploaded file
     fs.unlinkSync(req.file.path)
 
-    return res.status(result.success ? 200 : 400).json(result)
+    return res.status(result.success ? 200 : ERROR_STATUS[result.errorCode || "unknown"]).json(result)
   } catch (error: any) {
     // Clean up the uploaded file if it exists
     if (req.file && fs.existsSync(req.file.path)) {
@@ -118,13 +138,13 @@ router.post("/remove", upload.single("serviceAccount"), async (req, res) => {
     const serviceAccountJson = fs.readFileSync(req.file.path, "utf8")
 
     // Create Gmail client
-    const gmail = await createGmailClient(serviceAccountJson, userEmail)
-
-    if (!gmail) {
-      return res.status(500).json({
-        success: false,
-        message: "Failed to create Gmail client",
-      })
+    let gmail
+    try {
+      gmail = await connectGmailClient(serviceAccountJson, userEmail)
+    } catch (clientError: any) {
+      fs.unlinkSync(req.file.path)
+      const failure = clientFailure(clientError)
+      return res.status(failure.status).json(failure.body)
     }
 
     // Remove delegate
@@ -133,7 +153,7 @@ router.post("/remove", upload.single("serviceAccount"), async (req, res) => {
     // Clean up the uploaded file
     fs.unlinkSync(req.file.path)
 
-    return res.status(result.success ? 200 : 400).json(result)
+    return res.status(result.success ? 200 : ERROR_STATUS[result.errorCode || "unknown"]).json(result)
   } catch (error: any) {
     // Clean up the uploaded file if it exists
     if (req.file && fs.existsSync(req.file.path)) {
@@ -184,20 +204,17 @@ router.post("/batch", upload.single("serviceAccount"), async (req, res) => {
           userEmail: userEmail || "unknown",
           operation: operation || "unknown",
           message: "Invalid operation parameters",
+          errorCode: "invalid_request",
         })
         continue
       }
 
       // Create Gmail client for this user
-      const gmail = await createGmailClient(serviceAccountJson, userEmail)
-
-      if (!gmail) {
-        results.push({
-          success: false,
-          userEmail,
-          operation,
-          message: "Failed to create Gmail client",
-        })
+      let gmail
+      try {
+        gmail = await connectGmailClient(serviceAccountJson, userEmail)
+      } catch (clientError: any) {
+        results.push({ ...clientFailure(clientError).body, userEmail, operation })
         continue
       }
 
@@ -223,6 +240,7 @@ router.post("/batch", upload.single("serviceAccount"), async (req, res) => {
           userEmail,
           operation,
           message: "Invalid operation type",
+          errorCode: "invalid_request",
         }
       }
 
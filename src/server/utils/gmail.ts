@@ -2,6 +2,8 @@ import { google, type gmail_v1 } from "googleapis"
 import fs from "fs"
 import path from "path"
 import os from "os"
+import { DelegationError, classifyGmailError } from "../../../lib/delegation-errors"
+import type { DelegationErrorCode } from "../../../types"
 
 // Interface for delegate operations
 export interface DelegateOperation {
@@ -17,47 +19,66 @@ export interface OperationResult {
   delegateEmail?: string
   operation: string
   message: string
+  errorCode?: DelegationErrorCode
   details?: any
 }
 
-// Function to create Gmail API client
-export async function createGmailClient(serviceAccountJson: string, userEmail: string): Promise<gmail_v1.Gmail | null> {
+// Function to create Gmail API client, throwing a DelegationError with the cause on failure
+export async function connectGmailClient(serviceAccountJson: string, userEmail: string): Promise<gmail_v1.Gmail> {
+  // Parse the service account JSON
+  let key: any
+  try {
+    key = JSON.parse(serviceAccountJson)
+  } catch {
+    throw new DelegationError("invalid_credentials", "Service account file is not valid JSON")
+  }
+
+  // Configure Google Auth
+  const auth = new google.auth.JWT(
+    key.client_email,
+    undefined,
+    key.private_key,
+    [
+      "https://www.googleapis.com/auth/gmail.settings.sharing",
+      "https://www.googleapis.com/auth/gmail.settings.basic",
+      "https://www.googleapis.com/auth/gmail.modify",
+    ],
+    userEmail,
+  )
+
+  // Verify token acquisition
   try {
-    // Parse the service account JSON
-    const key = JSON.parse(serviceAccountJson)
-
-    // Configure Google Auth
-    const auth = new google.auth.JWT(
-      key.client_email,
-      undefined,
-      key.private_key,
-      [
-        "https://www.googleapis.com/auth/gmail.settings.sharing",
-        "https://www.googleapis.com/auth/gmail.settings.basic",
-        "https://www.googleapis.com/auth/gmail.modify",
-      ],
-      userEmail,
+    await auth.getAccessToken()
+  } catch (tokenError: any) {
+    console.error("Error obtaining access token:", tokenError)
+    throw new DelegationError(
+      classifyGmailError(tokenError),
+      `Failed to obtain access token for ${userEmail}: ${tokenError.message}`,
+      tokenError.response?.data,
     )
+  }
 
-    // Verify token acquisition
-    try {
-      await auth.getAccessToken()
-    } catch (tokenError: any) {
-      console.error("Error obtaining access token:", tokenError)
-      return null
-    }
+  // Create the Gmail API client
+  const gmail: gmail_v1.Gmail = google.gmail({ version: "v1", auth })
 
-    // Create the Gmail API client
-    const gmail: gmail_v1.Gmail = google.gmail({ version: "v1", auth })
+  // Verify API access
+  try {
+    await gmail.users.getProfile({ userId: "me" })
+    return gmail
+  } catch (profileError: any) {
+    console.error("Error accessing Gmail API:", profileError)
+    throw new DelegationError(
+      classifyGmailError(profileError),
+      `Failed to access Gmail for ${userEmail}: ${profileError.message}`,
+      profileError.response?.data,
+    )
+  }
+}
 
-    // Verify API access
-    try {
-      await gmail.users.getProfile({ userId: "me" })
-      return gmail
-    } catch (profileError: any) {
-      console.error("Error accessing Gmail API:", profileError)
-      return null
-    }
+// Function to create Gmail API client
+export async function createGmailClient(serviceAccountJson: string, userEmail: string): Promise<gmail_v1.Gmail | null> {
+  try {
+    return await connectGmailClient(serviceAccountJson, userEmail)
   } catch (error: any) {
     console.error("Error creating Gmail client:", error)
     return null
@@ -91,6 +112,7 @@ export async function addDelegate(gmail: gmail_v1.Gmail, delegateEmail: string):
         delegateEmail,
         operation: "add",
         message: "Delegate already exists",
+        errorCode: "already_exists",
       }
     }
 
@@ -119,6 +141,7 @@ export async function addDelegate(gmail: gmail_v1.Gmail, delegateEmail: string):
       delegateEmail,
       operation: "add",
       message: error.message || "Error adding delegate",
+      errorCode: classifyGmailError(error),
       details: error.response?.data,
     }
   }
@@ -138,6 +161,7 @@ export async function removeDelegate(gmail: gmail_v1.Gmail, delegateEmail: strin
         delegateEmail,
         operation: "remove",
         message: "Delegate does not exist",
+        errorCode: "not_found",
       }
     }
 
@@ -161,6 +185,7 @@ export async function removeDelegate(gmail: gmail_v1.Gmail, delegateEmail: strin
       delegateEmail,
       operation: "remove",
       message: error.message || "Error removing delegate",
+      errorCode: classifyGmailError(error),
       details: error.response?.data,
     }
   }
@@ -1,4 +1,17 @@
 // Centralized type definitions for the entire application
+import type {
+  DelegationErrorCode,
+  FilterOperation,
+  ForwardingOperation,
+  ForwardingSettings,
+  MailAccessOperation,
+  MailAccessSettings,
+  MailFilter,
+  SendAsAlias,
+  SendAsOperation,
+  VacationOperation,
+  VacationSettings,
+} from "./index"
 
 // Gmail API related types
 export interface Delegate {
@@ -10,8 +23,25 @@ export interface OperationResult {
   success: boolean
   userEmail?: string
   delegateEmail?: string
-  operation: "add" | "remove" | "list"
+  operation:
+    | "add"
+    | "remove"
+    | "list"
+    | SendAsOperation
+    | ForwardingOperation
+    | VacationOperation
+    | FilterOperation
+    | MailAccessOperation
   message: string
+  errorCode?: DelegationErrorCode
   details?: any
   delegates?: Delegate[]
+  sendAs?: SendAsAlias
+  forwarding?: ForwardingSettings
+  vacation?: VacationSettings
+  filters?: MailFilter[]
+  access?: MailAccessSettings
+  expiresAt?: string
+  dryRun?: boolean
+  requiresApproval?: boolean
 }
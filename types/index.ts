@@ -1,5 +1,8 @@
 // Centralized type definitions for the entire application
 
+import type { EventEmitter } from "events"
+import type { Auth, gmail_v1 } from "googleapis"
+
 // Gmail API related types
 export interface Delegate {
   delegateEmail: string
@@ -10,30 +13,711 @@ export interface DelegateOperation {
   userEmail: string
   delegateEmail?: string
   operation: "add" | "remove" | "list"
+  /** ISO timestamp after which an added delegate is removed again */
+  expiresAt?: string
+}
+
+/**
+ * Operations on a mailbox's send-as aliases instead of its delegates; batches can add and remove them
+ */
+export type SendAsOperation = "sendas-add" | "sendas-remove" | "sendas-update"
+
+/**
+ * Operations on a mailbox's vacation responder; batches can turn responders on and off
+ */
+export type VacationOperation = "vacation-get" | "vacation-on" | "vacation-off"
+
+/**
+ * Operations on a mailbox's IMAP and POP access; imap-disable and pop-disable turn a protocol off in batches
+ */
+export type MailAccessOperation = "access-get" | "imap-update" | "pop-update" | "imap-disable" | "pop-disable"
+
+/**
+ * One operation of a batch, changing a delegate, a send-as alias, a vacation responder or IMAP and POP access
+ */
+export interface BatchOperation extends Omit<DelegateOperation, "operation"> {
+  operation:
+    | DelegateOperation["operation"]
+    | Exclude<SendAsOperation, "sendas-update">
+    | Exclude<VacationOperation, "vacation-get">
+    | "imap-disable"
+    | "pop-disable"
+  /** For sendas-add: the name shown on mail sent from the alias */
+  displayName?: string
+  /** For vacation-on: the responder to set */
+  vacation?: VacationInput
+}
+
+export interface SendAsAlias {
+  sendAsEmail: string
+  displayName?: string
+  replyToAddress?: string
+  signature?: string
+  /** The mailbox's own address, which cannot be removed */
+  isPrimary?: boolean
+  /** The address new mail is sent from by default */
+  isDefault?: boolean
+  treatAsAlias?: boolean
+  /** accepted, or pending until the owner of the address clicks the verification link */
+  verificationStatus?: string
+}
+
+export interface SendAsInput {
+  sendAsEmail?: string
+  displayName?: string
+  replyToAddress?: string
+  signature?: string
+  isDefault?: boolean
+  treatAsAlias?: boolean
+}
+
+export interface VacationSettings {
+  enableAutoReply: boolean
+  responseSubject?: string
+  responseBodyPlainText?: string
+  /** Sent instead of the plain text body when set */
+  responseBodyHtml?: string
+  /** ISO timestamp; only mail received from then on is answered */
+  startTime?: string
+  /** ISO timestamp; mail received after it is not answered */
+  endTime?: string
+  /** Only answer senders in the mailbox's contacts */
+  restrictToContacts?: boolean
+  /** Only answer senders in the mailbox's domain */
+  restrictToDomain?: boolean
+}
+
+/**
+ * The responder to set with vacation-on; it is turned on whatever enableAutoReply says
+ */
+export type VacationInput = Omit<VacationSettings, "enableAutoReply">
+
+/**
+ * Operations on where a mailbox forwards its mail; forwarding-update turns auto-forwarding on or off
+ */
+export type ForwardingOperation = "forwarding-list" | "forwarding-add" | "forwarding-remove" | "forwarding-update"
+
+export interface ForwardingAddress {
+  forwardingEmail: string
+  /** accepted, or pending until the owner of the address clicks the verification link */
+  verificationStatus?: string
+  /** Outside the mailbox's domain and DELEGATEEASE_INTERNAL_DOMAINS */
+  external: boolean
+}
+
+export interface AutoForwarding {
+  enabled: boolean
+  /** A verified forwarding address */
+  emailAddress?: string
+  /** What happens to the mailbox's copy: leaveInInbox, archive, trash or markRead */
+  disposition?: string
+}
+
+export interface ForwardingSettings {
+  forwardingAddresses: ForwardingAddress[]
+  autoForwarding: AutoForwarding
+  /** Auto-forwarding is on and sends mail outside the organisation */
+  forwardsExternally: boolean
+}
+
+export interface ImapSettings {
+  enabled: boolean
+  /** Expunge messages as soon as they are marked deleted in IMAP */
+  autoExpunge?: boolean
+  /** What happens to a message deleted and expunged in IMAP */
+  expungeBehavior?: "archive" | "trash" | "deleteForever"
+  /** The most messages an IMAP folder shows; 0 for no limit */
+  maxFolderSize?: number
+}
+
+export interface PopSettings {
+  /** Which messages POP clients can download; disabled turns POP off */
+  accessWindow: "disabled" | "fromNowOn" | "allMail"
+  /** What happens to a message once a POP client has downloaded it */
+  disposition?: "leaveInInbox" | "archive" | "trash" | "markRead"
+}
+
+export interface MailAccessSettings {
+  imap: ImapSettings
+  pop: PopSettings
+  /** The language Gmail is shown in, e.g. en-GB */
+  displayLanguage?: string
+  /** IMAP or POP is on, so mail clients can read the mailbox outside delegation */
+  legacyAccess: boolean
+}
+
+/**
+ * Operations on a mailbox's Gmail filters; filter-import creates a set of filters, skipping those already there
+ */
+export type FilterOperation = "filter-list" | "filter-create" | "filter-delete" | "filter-import"
+
+export interface FilterCriteria {
+  from?: string
+  to?: string
+  /** Words the subject contains */
+  subject?: string
+  /** Gmail search terms the message must match */
+  query?: string
+  /** Gmail search terms the message must not match */
+  negatedQuery?: string
+  hasAttachment?: boolean
+  excludeChats?: boolean
+  /** Message size in bytes, compared with sizeComparison */
+  size?: number
+  sizeComparison?: "larger" | "smaller"
+}
+
+export interface FilterAction {
+  /** Label names, including system labels such as STARRED or TRASH; missing user labels are created */
+  addLabels?: string[]
+  /** Label names to take off, e.g. INBOX to skip the inbox or UNREAD to mark as read */
+  removeLabels?: string[]
+  /** A verified forwarding address of the mailbox */
+  forward?: string
+}
+
+/**
+ * A filter as it is exported from one mailbox and imported into another; labels are referred to by name
+ */
+export interface FilterDefinition {
+  criteria: FilterCriteria
+  action: FilterAction
+}
+
+export interface MailFilter extends FilterDefinition {
+  /** Unset for filters a dry run would create */
+  id?: string
+  /** The criteria and actions in words */
+  description: string
+  /** The filter forwards mail outside the mailbox's domain and DELEGATEEASE_INTERNAL_DOMAINS */
+  forwardsExternally: boolean
+}
+
+/**
+ * The JSON document filters are exported as and imported from
+ */
+export interface FilterSet {
+  version: 1
+  exportedFrom?: string
+  exportedAt: string
+  filters: FilterDefinition[]
 }
 
+/**
+ * The outcome of reading one setting of many mailboxes, as the forwarding and filter scans do
+ */
+export interface MailboxScanSummary {
+  /** directory when every active user of the domain was scanned, list for a given list of mailboxes */
+  source: "directory" | "list"
+  scanned: number
+  /** Mailboxes the scan flagged, e.g. for sending mail outside the organisation */
+  flagged: number
+  errors: number
+  /** One result per mailbox, flagged mailboxes first */
+  results: OperationResult[]
+}
+
+export type DelegationErrorCode =
+  | "invalid_request"
+  | "invalid_credentials"
+  | "unauthorized_client"
+  | "mailbox_not_found"
+  | "not_found"
+  | "already_exists"
+  | "delegate_limit_reached"
+  | "delegate_not_in_domain"
+  | "rate_limited"
+  | "pending_approval"
+  | "policy_violation"
+  | "forbidden"
+  | "unauthenticated"
+  | "unknown"
+
 export interface OperationResult {
   success: boolean
   userEmail: string
   delegateEmail?: string
   operation: string
   message: string
+  errorCode?: DelegationErrorCode
   delegates?: Delegate[]
+  /** For send-as operations: the alias as Gmail left it */
+  sendAs?: SendAsAlias
+  /** For forwarding operations: the mailbox's forwarding addresses and auto-forwarding after the operation */
+  forwarding?: ForwardingSettings
+  /** For vacation operations: the responder after the operation */
+  vacation?: VacationSettings
+  /** For filter operations: the mailbox's filters, or those created or deleted */
+  filters?: MailFilter[]
+  /** For IMAP and POP operations: the mailbox's access settings after the operation */
+  access?: MailAccessSettings
+  expiresAt?: string
   details?: any
   rawOutput?: string
+  /** Set on dry-run results: nothing was changed */
+  dryRun?: boolean
+  /** Dry runs only: the change would be queued for approval */
+  requiresApproval?: boolean
+}
+
+// Audit log related types
+export interface ActivityEntry {
+  id: string
+  timestamp: string
+  actor: string
+  operation:
+    | "add"
+    | "remove"
+    | "list"
+    | SendAsOperation
+    | ForwardingOperation
+    | VacationOperation
+    | FilterOperation
+    | MailAccessOperation
+  userEmail: string
+  /** The delegate, or for send-as and forwarding operations the alias or forwarding address */
+  delegateEmail?: string
+  success: boolean
+  message: string
+  source: "api" | "batch" | "scheduler" | "rollback"
+  expiresAt?: string
+  errorCode?: DelegationErrorCode
+  error?: any
+  /** The stored credential the operation ran with */
+  credentialId?: string
+  /** The batch job the operation ran in */
+  jobId?: string
+  /** For a completed add or remove: the operation that undoes it */
+  inverse?: ActivityInverse
+  /** For a rollback: the entry it undid */
+  rollbackOf?: string
+  /** Filled in when the entry is read: the rollback entry that undid this one */
+  rolledBackBy?: string
+}
+
+export interface ActivityInverse {
+  operation: "add" | "remove"
+  userEmail: string
+  delegateEmail: string
+  /** For a removed time-bound delegate: the expiry to restore it with */
+  expiresAt?: string
+}
+
+export interface ActivityQuery {
+  page?: number
+  pageSize?: number
+  operation?: string
+  userEmail?: string
+  delegateEmail?: string
+  actor?: string
+  status?: "success" | "error"
+  from?: string
+  to?: string
+}
+
+export interface ActivityPage {
+  entries: ActivityEntry[]
+  total: number
+  page: number
+  pageSize: number
+}
+
+// Credential vault related types
+export interface CredentialSummary {
+  id: string
+  label: string
+  clientEmail: string
+  projectId?: string
+  privateKeyId?: string
+  createdAt: string
+  updatedAt: string
+  rotatedAt?: string
+  revokedAt?: string
+}
+
+// Preflight check related types
+export interface ScopeCheck {
+  scope: string
+  granted: boolean
+  error?: string
+}
+
+export interface PreflightResult {
+  valid: boolean
+  problems: string[]
+  clientEmail?: string
+  clientId?: string
+  mailbox?: string
+  scopes: ScopeCheck[]
+  missingScopes: string[]
+  message: string
+}
+
+// Batch job related types
+export type BatchJobStatus = "queued" | "running" | "completed" | "cancelled" | "failed"
+
+export type BatchRowStatus = "pending" | "running" | "success" | "error" | "cancelled"
+
+export interface BatchJobRow {
+  index: number
+  operation: string
+  userEmail: string
+  /** The delegate, or for send-as rows the alias address */
+  delegateEmail?: string
+  expiresAt?: string
+  /** For sendas-add rows: the name shown on mail sent from the alias */
+  displayName?: string
+  /** For vacation-on rows: the responder to set */
+  vacation?: VacationInput
+  /** For a rollback job: the activity entry the row undoes */
+  rollbackOf?: string
+  status: BatchRowStatus
+  result?: OperationResult
+}
+
+export interface BatchJob {
+  id: string
+  status: BatchJobStatus
+  actor: string
+  credentialId?: string
+  createdAt: string
+  startedAt?: string
+  finishedAt?: string
+  concurrency: number
+  total: number
+  processed: number
+  succeeded: number
+  failed: number
+  message?: string
+  /** Why the batch was run; shown to approvers for rows that need approval */
+  reason?: string
+  /** For a rollback job: the job it undoes */
+  rollbackOf?: string
+  rows: BatchJobRow[]
+}
+
+export type BatchJobSummary = Omit<BatchJob, "rows">
+
+export interface JobRollback {
+  job: BatchJob
+  /** Operations of the original job that could not be undone */
+  skipped: Array<{ entryId: string; message: string }>
+}
+
+export type BatchJobEvent =
+  | { type: "snapshot"; job: BatchJob }
+  | { type: "row"; row: BatchJobRow; job: BatchJobSummary }
+  | { type: "status"; job: BatchJobSummary }
+
+// Desired-state related types
+export interface DesiredState {
+  version: 1
+  prune: boolean
+  mailboxes: Record<string, string[]>
+}
+
+export interface MailboxPlan {
+  mailbox: string
+  current: string[]
+  desired: string[]
+  add: string[]
+  remove: string[]
+  error?: string
+  errorCode?: DelegationErrorCode
+}
+
+export interface DelegationPlan {
+  createdAt: string
+  prune: boolean
+  mailboxes: MailboxPlan[]
+  totals: {
+    add: number
+    remove: number
+    unchanged: number
+    errors: number
+  }
+}
+
+// Time-bound delegation related types
+export type DelegationGrantStatus = "active" | "expired" | "revoked"
+
+export interface DelegationGrant {
+  id: string
+  userEmail: string
+  delegateEmail: string
+  expiresAt: string
+  credentialId: string
+  grantedBy: string
+  grantedAt: string
+  status: DelegationGrantStatus
+  endedAt?: string
+  attempts?: number
+  lastError?: string
+}
+
+export interface GrantExpirySummary {
+  due: number
+  expired: number
+  failed: number
+  results: OperationResult[]
+}
+
+// Scheduled operation related types
+export type ScheduledOperationStatus = "pending" | "running" | "completed" | "failed" | "cancelled"
+
+export interface ScheduledOperation {
+  id: string
+  operation: "add" | "remove"
+  userEmail: string
+  delegateEmail: string
+  expiresAt?: string
+  /** When to run, as an absolute UTC timestamp */
+  runAt: string
+  /** IANA time zone the run time was entered in, e.g. Europe/London */
+  timezone: string
+  credentialId: string
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+  status: ScheduledOperationStatus
+  startedAt?: string
+  finishedAt?: string
+  result?: OperationResult
+}
+
+export interface ScheduledOperationInput {
+  operation: "add" | "remove"
+  userEmail: string
+  delegateEmail: string
+  expiresAt?: string
+  /** Wall-clock time in the time zone, e.g. 2025-06-02T08:00, or an absolute timestamp with an offset */
+  runAt: string
+  timezone: string
+}
+
+// Delegation policy related types
+export type PolicyRuleType = "allowed_domains" | "block_external" | "max_delegates" | "require_approval" | "never_delegate"
+
+export interface PolicyRule {
+  id: string
+  type: PolicyRuleType
+  description?: string
+  /** Mailboxes the rule applies to, e.g. hr-*; every mailbox when omitted */
+  mailboxPattern?: string
+  /** allowed_domains: the only domains delegates may come from */
+  domains?: string[]
+  /** max_delegates: the most delegates a mailbox may have */
+  maxDelegates?: number
+  /** never_delegate: mailboxes (or patterns) that may never have delegates */
+  mailboxes?: string[]
+  /** require_approval: the operations that need approval, and who may approve them */
+  operations?: Array<"add" | "remove">
+  approvers?: string[]
+}
+
+export interface DelegationPolicy {
+  version: number
+  updatedAt: string
+  updatedBy: string
+  rules: PolicyRule[]
+}
+
+export interface PolicyCheck {
+  operation: "add" | "remove"
+  userEmail: string
+  delegateEmail: string
+}
+
+export interface PolicyViolation {
+  ruleId: string
+  type: PolicyRuleType
+  message: string
+}
+
+export interface PolicyEvaluation {
+  allowed: boolean
+  policyVersion: number
+  violations: PolicyViolation[]
+  /** The require_approval rule that covers the change, if any */
+  approvalRuleId?: string
+  /** The delegate limit to check against the mailbox's current delegates */
+  maxDelegates?: number
+}
+
+export interface PolicyDryRunResult extends PolicyCheck {
+  evaluation: PolicyEvaluation
+  requiresApproval: boolean
+  /** Why the delegate limit could not be checked, if it applies */
+  limitNotChecked?: string
+}
+
+// Approval workflow related types
+export interface ApprovalRule {
+  id: string
+  /** Mailbox glob, e.g. hr-* or legal@example.com; patterns without @ match the local part */
+  mailboxPattern: string
+  operations: Array<"add" | "remove">
+  /** Who may approve; empty means any user other than the requester */
+  approvers: string[]
+  description?: string
+}
+
+/** approved means the change is being applied; completed and failed record its outcome */
+export type ChangeRequestStatus = "pending" | "approved" | "rejected" | "cancelled" | "completed" | "failed"
+
+export interface ChangeRequestComment {
+  author: string
+  text: string
+  timestamp: string
+}
+
+export interface ChangeRequest {
+  id: string
+  operation: "add" | "remove"
+  userEmail: string
+  delegateEmail: string
+  expiresAt?: string
+  reason: string
+  requestedBy: string
+  credentialId: string
+  ruleId: string
+  status: ChangeRequestStatus
+  createdAt: string
+  updatedAt: string
+  decidedBy?: string
+  decidedAt?: string
+  decisionComment?: string
+  comments: ChangeRequestComment[]
+  result?: OperationResult
+  /** For a rollback: the activity entry the change undoes */
+  rollbackOf?: string
+}
+
+// Drift detection related types
+export type DriftStatus = "in_sync" | "drifted" | "error"
+
+export interface DriftBaseline {
+  mailbox: string
+  delegates: string[]
+  credentialId: string
+  autoRemediate: boolean
+  registeredAt: string
+  updatedAt: string
+  lastCheckedAt?: string
+  lastStatus?: DriftStatus
+  lastError?: string
+}
+
+export interface DriftEvent {
+  id: string
+  timestamp: string
+  mailbox: string
+  status: "drifted" | "error"
+  trigger: "scheduler" | "manual"
+  unexpected: string[]
+  missing: string[]
+  remediated: boolean
+  remediation?: OperationResult[]
+  error?: string
+}
+
+export interface DriftCheckSummary {
+  checked: number
+  inSync: number
+  drifted: number
+  errors: number
+  remediated: number
+  events: DriftEvent[]
+}
+
+// Gmail API quota related types
+export interface QuotaUsage {
+  kind: "user" | "project"
+  key: string
+  requests: number
+  requestsLastMinute: number
+  retries: number
+  throttled: number
+  lastThrottledAt?: string
 }
 
 // Authentication related types
 export type AuthMethod = "service-account" | "oauth" | null
 
+// User account and access control related types
+export type UserRole = "viewer" | "operator" | "approver" | "admin"
+
+export type Permission = "delegates:read" | "delegates:write" | "changes:approve" | "admin"
+
+export interface UserAccount {
+  id: string
+  /** The sign-in name, usually the user's email; approval rules list approvers by it */
+  username: string
+  displayName?: string
+  role: UserRole
+  /** For operators: the mailboxes they may change; see MailboxScope for the forms a scope can take */
+  mailboxScopes: string[]
+  disabled?: boolean
+  createdAt: string
+  updatedAt: string
+  lastSignInAt?: string
+  /** Set when the request was authenticated with an API key rather than a sign-in session */
+  apiKeyId?: string
+}
+
+/**
+ * A parsed mailbox scope. Scopes are stored as strings: a pattern or address (hr-*, *@example.com,
+ * shared@example.com), group:<group email>, or ou:<org unit path>
+ */
+export type MailboxScope =
+  | { type: "pattern"; pattern: string }
+  | { type: "group"; groupEmail: string }
+  | { type: "ou"; orgUnitPath: string }
+
+export interface UserAccountInput {
+  username?: string
+  displayName?: string
+  role?: UserRole
+  mailboxScopes?: string[]
+  password?: string
+  disabled?: boolean
+}
+
+// API key related types
+export interface ApiKey {
+  id: string
+  name: string
+  /** The start of the key, shown so keys can be told apart; the full key is only shown once */
+  prefix: string
+  role: UserRole
+  /** For operator keys: the mailboxes the key may change, as for user accounts */
+  mailboxScopes: string[]
+  /** The stored credential requests made with the key act with, unless they name another */
+  credentialId?: string
+  createdBy: string
+  createdAt: string
+  updatedAt: string
+  expiresAt?: string
+  revokedAt?: string
+  lastUsedAt?: string
+}
+
+export interface ApiKeyInput {
+  name?: string
+  role?: UserRole
+  mailboxScopes?: string[]
+  credentialId?: string | null
+  expiresAt?: string | null
+}
+
 // Component props types
 export interface ServiceAccountUploadProps {
-  onServiceAccountUploaded: (file: File) => void
+  onServiceAccountUploaded: (credential: CredentialSummary) => void
 }
 
 export interface DelegateFormProps {
   authMethod: AuthMethod
-  serviceAccountFile: File | null
+  credentialId: string | null
   onSubmit: (formData: FormData, endpoint: string) => Promise<void>
   isLoading: boolean
   onDirectApiResult: (result: any) => void
@@ -47,7 +731,7 @@ export interface ResultDisplayProps {
 }
 
 export interface SimpleListButtonProps {
-  serviceAccountFile: File | null
+  credentialId: string | null
   userEmail: string
   onResult: (result: any) => void
   onError: (error: string) => void
@@ -55,6 +739,51 @@ export interface SimpleListButtonProps {
 }
 
 export interface AuthOptionsProps {
-  onServiceAccountUploaded: (file: File) => void
-  onOAuthComplete: () => void
+  onServiceAccountUploaded: (credential: CredentialSummary) => void
+  selectedCredentialId?: string | null
+  onCredentialRevoked?: (credential: CredentialSummary) => void
+  onOAuthComplete: (email: string) => void
+  onOAuthSignOut?: () => void
+}
+
+// Process-wide state, kept on globalThis so every route bundle (and dev-mode reloads) share one instance
+export interface BatchJobRuntime {
+  active: Map<string, { job: BatchJob; cancelled: boolean }>
+  events: EventEmitter
+  recovered: boolean
+}
+
+export interface QuotaCounter {
+  requests: number
+  retries: number
+  throttled: number
+  recent: number[]
+  lastThrottledAt?: string
+}
+
+export interface DriftRuntime {
+  /** The checks in progress, keyed by the mailbox they are limited to, or "*" for every mailbox */
+  running: Record<string, Promise<DriftCheckSummary> | undefined>
+}
+
+export interface CachedDirectoryLookup {
+  value: Promise<any>
+  expiresAt: number
+}
+
+/** An authorized Gmail client for one service account impersonating one mailbox */
+export interface PooledGmailClient {
+  auth: Auth.JWT
+  gmail: gmail_v1.Gmail
+  privateKeyId?: string
+}
+
+declare global {
+  var __delegateEaseBatchJobs: BatchJobRuntime | undefined
+  var __delegateEaseQuota: { user: Map<string, QuotaCounter>; project: Map<string, QuotaCounter> } | undefined
+  var __delegateEaseDrift: DriftRuntime | undefined
+  var __delegateEaseDirectoryCache: Map<string, CachedDirectoryLookup> | undefined
+  var __delegateEaseGmailPool: Map<string, PooledGmailClient> | undefined
+  var __delegateEaseGrantExpiry: { running: Promise<GrantExpirySummary> | null } | undefined
+  var __delegateEaseSchedules: { running: Promise<ScheduledOperation[]> | null; recovered: boolean } | undefined
 }
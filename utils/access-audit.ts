@@ -0,0 +1,16 @@
+import { describeMailAccess, getMailAccessSettings } from "./gmail-integration"
+import type { MailboxCheck } from "./mailbox-scan"
+
+/**
+ * Flags mailboxes with IMAP or POP on, which lets mail clients read them outside delegation, and reports each
+ * mailbox's display language alongside; run with MailboxScan.scan
+ */
+export const ACCESS_CHECK: MailboxCheck = {
+  operation: "access-get",
+  setting: "IMAP and POP settings",
+  read: async (gmail, mailbox) => {
+    const access = await getMailAccessSettings(gmail)
+    return { message: describeMailAccess(mailbox, access), access }
+  },
+  isFlagged: (result) => !!result.access?.legacyAccess,
+}
@@ -0,0 +1,105 @@
+import { randomUUID } from "crypto"
+import type { ActivityEntry, ActivityPage, ActivityQuery } from "../types"
+import { appendJsonLine, readJsonLines } from "./data-store"
+
+/**
+ * Persistent, append-only audit log of delegate operations
+ */
+export class ActivityLog {
+  private static readonly FILENAME = "activity.jsonl"
+  private static readonly DEFAULT_PAGE_SIZE = 20
+  private static readonly MAX_PAGE_SIZE = 200
+
+  /**
+   * Record an operation in the audit log.
+   * Failures are logged and swallowed so auditing never breaks the operation itself.
+   * @param entry The entry to record, without id and timestamp
+   * @returns Promise<ActivityEntry | null> The stored entry or null if it could not be written
+   */
+  static async record(entry: Omit<ActivityEntry, "id" | "timestamp">): Promise<ActivityEntry | null> {
+    const stored: ActivityEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    }
+
+    try {
+      await appendJsonLine(this.FILENAME, stored)
+      return stored
+    } catch (error) {
+      console.error("Error writing activity log entry:", error)
+      return null
+    }
+  }
+
+  /**
+   * Query the audit log, newest entries first
+   * @param query Filters and pagination options
+   * @returns Promise<ActivityPage> The matching page of entries
+   */
+  static async query(query: ActivityQuery = {}): Promise<ActivityPage> {
+    const page = Math.max(1, query.page || 1)
+    const pageSize = Math.min(this.MAX_PAGE_SIZE, Math.max(1, query.pageSize || this.DEFAULT_PAGE_SIZE))
+
+    const entries = await this.readAll()
+    const matching = entries
+      .filter((entry) => this.matches(entry, query))
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+
+    return {
+      entries: matching.slice((page - 1) * pageSize, page * pageSize),
+      total: matching.length,
+      page,
+      pageSize,
+    }
+  }
+
+  /**
+   * Get a single entry
+   * @param id The entry ID
+   * @returns Promise<ActivityEntry | null> The entry or null if it does not exist
+   */
+  static async get(id: string): Promise<ActivityEntry | null> {
+    const entries = await this.readAll()
+    return entries.find((entry) => entry.id === id) || null
+  }
+
+  /**
+   * Get every entry recorded by a batch job, in the order they were recorded
+   * @param jobId The job ID
+   * @returns Promise<ActivityEntry[]> The job's entries
+   */
+  static async forJob(jobId: string): Promise<ActivityEntry[]> {
+    const entries = await this.readAll()
+    return entries.filter((entry) => entry.jobId === jobId)
+  }
+
+  /**
+   * Read every entry, marking the ones a later successful rollback undid
+   */
+  private static async readAll(): Promise<ActivityEntry[]> {
+    const entries = await readJsonLines<ActivityEntry>(this.FILENAME)
+    const rolledBack: Record<string, string> = {}
+    entries.forEach((entry) => {
+      if (entry.rollbackOf && entry.success) {
+        rolledBack[entry.rollbackOf] = entry.id
+      }
+    })
+    return entries.map((entry) => (rolledBack[entry.id] ? { ...entry, rolledBackBy: rolledBack[entry.id] } : entry))
+  }
+
+  private static matches(entry: ActivityEntry, query: ActivityQuery): boolean {
+    const contains = (value: string | undefined, search: string) =>
+      (value || "").toLowerCase().includes(search.toLowerCase())
+
+    if (query.operation && entry.operation !== query.operation) return false
+    if (query.userEmail && !contains(entry.userEmail, query.userEmail)) return false
+    if (query.delegateEmail && !contains(entry.delegateEmail, query.delegateEmail)) return false
+    if (query.actor && !contains(entry.actor, query.actor)) return false
+    if (query.status === "success" && !entry.success) return false
+    if (query.status === "error" && entry.success) return false
+    if (query.from && Date.parse(entry.timestamp) < Date.parse(query.from)) return false
+    if (query.to && Date.parse(entry.timestamp) > Date.parse(query.to)) return false
+    return true
+  }
+}
@@ -0,0 +1,209 @@
+import { createHash, randomBytes, randomUUID } from "crypto"
+import type { ApiKey, ApiKeyInput, UserAccount } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { USER_ROLES, validateMailboxScopes } from "../lib/permissions"
+import { CredentialVault } from "./credential-vault"
+import { readJsonFile, updateJsonFile } from "./data-store"
+
+/**
+ * An API key as stored on disk, with the hash of its secret
+ */
+interface StoredApiKey extends ApiKey {
+  keyHash: string
+}
+
+type ApiKeyStore = Record<string, StoredApiKey>
+
+/**
+ * API keys for scripts and provisioning systems, sent as a bearer token.
+ * A key acts like a user account with its own role and mailbox scopes; only its SHA-256 hash is stored.
+ */
+export class ApiKeys {
+  static readonly TOKEN_PREFIX = "dek_"
+
+  private static readonly FILENAME = "api-keys.json"
+  private static readonly PREFIX_LENGTH = 12
+  // Recording every use would write the file on every request
+  private static readonly LAST_USED_RESOLUTION_MS = 60 * 1000
+
+  /**
+   * List every key, including expired and revoked ones
+   * @returns Promise<ApiKey[]> The keys, newest first, without their hashes
+   */
+  static async list(): Promise<ApiKey[]> {
+    const keys = await readJsonFile<ApiKeyStore>(this.FILENAME, {})
+    return Object.keys(keys)
+      .map((id) => this.toApiKey(keys[id]))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /**
+   * Get a key
+   * @param id The key ID
+   * @returns Promise<ApiKey | null> The key, or null if it does not exist
+   */
+  static async get(id: string): Promise<ApiKey | null> {
+    const keys = await readJsonFile<ApiKeyStore>(this.FILENAME, {})
+    return keys[id] ? this.toApiKey(keys[id]) : null
+  }
+
+  /**
+   * Create a key
+   * @param input The name, role, mailbox scopes, default credential and optional expiry
+   * @param createdBy The username of the admin creating the key
+   * @returns Promise<{ apiKey: ApiKey; token: string }> The key, and the token to hand to the script; the token cannot be shown again
+   * @throws DelegationError When a field is invalid
+   */
+  static async create(input: ApiKeyInput, createdBy: string): Promise<{ apiKey: ApiKey; token: string }> {
+    const fields = await this.validate(input, true)
+    const token = `${this.TOKEN_PREFIX}${randomBytes(32).toString("hex")}`
+    const now = new Date().toISOString()
+
+    const stored: StoredApiKey = {
+      id: randomUUID(),
+      name: fields.name as string,
+      prefix: token.slice(0, this.PREFIX_LENGTH),
+      role: fields.role || "viewer",
+      mailboxScopes: fields.mailboxScopes || [],
+      credentialId: fields.credentialId,
+      createdBy,
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: fields.expiresAt,
+      keyHash: this.hashToken(token),
+    }
+
+    await updateJsonFile<ApiKeyStore, void>(this.FILENAME, {}, (keys) => ({
+      data: { ...keys, [stored.id]: stored },
+      result: undefined,
+    }))
+    return { apiKey: this.toApiKey(stored), token }
+  }
+
+  /**
+   * Change a key's name, role, scopes, default credential or expiry
+   * @param id The key ID
+   * @param input The fields to change; null clears the credential or expiry
+   * @returns Promise<ApiKey> The updated key
+   * @throws DelegationError When the key does not exist or has been revoked, or a field is invalid
+   */
+  static async update(id: string, input: ApiKeyInput): Promise<ApiKey> {
+    const fields = await this.validate(input, false)
+    return this.change(id, (key) => ({ ...key, ...fields }))
+  }
+
+  /**
+   * Revoke a key; requests made with it are refused from then on
+   * @param id The key ID
+   * @returns Promise<ApiKey> The revoked key
+   * @throws DelegationError When the key does not exist or was already revoked
+   */
+  static async revoke(id: string): Promise<ApiKey> {
+    return this.change(id, (key) => ({ ...key, revokedAt: new Date().toISOString() }))
+  }
+
+  /**
+   * Look up the identity behind a bearer token and record that the key was used
+   * @param token The bearer token
+   * @returns Promise<UserAccount | null> The key as an account, or null if the token is unknown, expired or revoked
+   */
+  static async authenticate(token: string): Promise<UserAccount | null> {
+    if (!token.startsWith(this.TOKEN_PREFIX)) {
+      return null
+    }
+
+    const keyHash = this.hashToken(token)
+    const keys = await readJsonFile<ApiKeyStore>(this.FILENAME, {})
+    const key = Object.keys(keys)
+      .map((id) => keys[id])
+      .find((candidate) => candidate.keyHash === keyHash)
+    const now = new Date()
+    if (!key || key.revokedAt || (key.expiresAt && key.expiresAt <= now.toISOString())) {
+      return null
+    }
+
+    if (!key.lastUsedAt || now.getTime() - Date.parse(key.lastUsedAt) >= this.LAST_USED_RESOLUTION_MS) {
+      await updateJsonFile<ApiKeyStore, void>(this.FILENAME, {}, (current) => ({
+        data: current[key.id] ? { ...current, [key.id]: { ...current[key.id], lastUsedAt: now.toISOString() } } : current,
+        result: undefined,
+      }))
+    }
+
+    return {
+      id: key.id,
+      username: `api-key:${key.name}`,
+      role: key.role,
+      mailboxScopes: key.mailboxScopes,
+      createdAt: key.createdAt,
+      updatedAt: key.updatedAt,
+      apiKeyId: key.id,
+    }
+  }
+
+  private static async change(id: string, updater: (key: StoredApiKey) => StoredApiKey): Promise<ApiKey> {
+    return updateJsonFile<ApiKeyStore, ApiKey>(this.FILENAME, {}, (keys) => {
+      const existing = keys[id]
+      if (!existing) {
+        throw new DelegationError("not_found", `API key ${id} not found`)
+      }
+      if (existing.revokedAt) {
+        throw new DelegationError("invalid_request", `API key ${existing.name} has been revoked`)
+      }
+      const next = { ...updater(existing), updatedAt: new Date().toISOString() }
+      return { data: { ...keys, [id]: next }, result: this.toApiKey(next) }
+    })
+  }
+
+  /**
+   * Check and normalize the fields of a new or changed key
+   */
+  private static async validate(input: ApiKeyInput, isNew: boolean): Promise<Partial<StoredApiKey>> {
+    const problems: string[] = []
+    const fields: Partial<StoredApiKey> = {}
+
+    if (isNew || input.name !== undefined) {
+      fields.name = (input.name || "").trim()
+      if (!fields.name) problems.push("name is required")
+    }
+    if (input.role !== undefined) {
+      if (!USER_ROLES.includes(input.role)) problems.push(`role must be one of ${USER_ROLES.join(", ")}`)
+      fields.role = input.role
+    }
+    if (input.mailboxScopes !== undefined) {
+      const { scopes, problems: scopeProblems } = validateMailboxScopes(input.mailboxScopes)
+      problems.push(...scopeProblems)
+      fields.mailboxScopes = scopes
+    }
+    if (input.expiresAt !== undefined) {
+      const expiry = input.expiresAt ? Date.parse(input.expiresAt) : null
+      if (expiry !== null && (Number.isNaN(expiry) || expiry <= Date.now())) {
+        problems.push("expiresAt must be a timestamp in the future")
+      }
+      fields.expiresAt = expiry !== null && !Number.isNaN(expiry) ? new Date(expiry).toISOString() : undefined
+    }
+    if (input.credentialId !== undefined) {
+      fields.credentialId = input.credentialId || undefined
+      if (fields.credentialId) {
+        try {
+          await CredentialVault.get(fields.credentialId)
+        } catch (error: any) {
+          problems.push(`credentialId: ${error.message}`)
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new DelegationError("invalid_request", problems.join("; "), problems)
+    }
+    return fields
+  }
+
+  private static hashToken(token: string): string {
+    return createHash("sha256").update(token).digest("hex")
+  }
+
+  private static toApiKey(key: StoredApiKey): ApiKey {
+    const { keyHash, ...apiKey } = key
+    return apiKey
+  }
+}
@@ -0,0 +1,690 @@
+/**
+ * Shared plumbing for the /api/v2 routes. Input is validated against the schemas in lib/api-schemas,
+ * successful responses are wrapped as { data }, and every failure is reported as
+ * { error: { code, message, hint, details } } with the HTTP status of its code.
+ */
+
+import { type NextRequest, NextResponse } from "next/server"
+import type { z } from "zod"
+import type {
+  AutoForwarding,
+  BatchJob,
+  FilterDefinition,
+  ForwardingOperation,
+  ForwardingSettings,
+  ImapSettings,
+  MailAccessSettings,
+  MailboxScanSummary,
+  OperationResult,
+  PopSettings,
+  SendAsInput,
+  SendAsOperation,
+  UserAccount,
+  VacationInput,
+  VacationOperation,
+  VacationSettings,
+} from "../types"
+import type {
+  ApiAccessScan,
+  ApiBatchPreview,
+  ApiDelegateList,
+  ApiDelegationResult,
+  ApiFilterImportResult,
+  ApiFilterList,
+  ApiFilterResult,
+  ApiFilterScan,
+  ApiFilterSet,
+  ApiForwarding,
+  ApiForwardingResult,
+  ApiForwardingScan,
+  ApiJob,
+  ApiMailAccess,
+  ApiMailAccessResult,
+  ApiSendAsList,
+  ApiSendAsResult,
+  ApiVacation,
+  ApiVacationResult,
+} from "../lib/api-schemas"
+import { DelegationError, ERROR_HINTS, ERROR_STATUS } from "../lib/delegation-errors"
+import { DelegationGrants } from "./delegation-grants"
+import {
+  type DelegateOperationOptions,
+  connectGmailClient,
+  listSendAs,
+  processDelegateOperation,
+  processFilterOperation,
+  processForwardingOperation,
+  processMailAccessOperation,
+  processSendAsOperation,
+  processVacationOperation,
+} from "./gmail-integration"
+import { type RequestCredential, resolveRequestCredential } from "./request-credential"
+
+/**
+ * Respond with a payload in the success envelope
+ * @param data The payload
+ * @param status The HTTP status
+ * @param headers Extra response headers, e.g. Location
+ * @returns NextResponse The response
+ */
+export function respond<T>(data: T, status = 200, headers?: Record<string, string>): NextResponse {
+  return NextResponse.json({ data }, { status, headers })
+}
+
+/**
+ * Respond with the error envelope. A DelegationError keeps its code; anything else is logged and reported as unknown.
+ * @param error The thrown error
+ * @param context The route, for the server log
+ * @returns NextResponse The response
+ */
+export function errorResponse(error: unknown, context: string): NextResponse {
+  const delegationError =
+    error instanceof DelegationError
+      ? error
+      : new DelegationError("unknown", (error as any)?.message || "Internal server error")
+  if (!(error instanceof DelegationError)) {
+    console.error(`Error in ${context}:`, error)
+  }
+  return NextResponse.json(
+    {
+      error: {
+        code: delegationError.code,
+        message: delegationError.message,
+        hint: ERROR_HINTS[delegationError.code],
+        details: delegationError.details,
+      },
+    },
+    { status: ERROR_STATUS[delegationError.code] },
+  )
+}
+
+/**
+ * Validate route parameters or a query string
+ * @param schema The schema to validate against
+ * @param input The route parameters, or the request's search parameters
+ * @param where Names the input in the error message
+ * @returns The parsed value
+ * @throws DelegationError invalid_request, listing every issue in its details
+ */
+export function parseInput<S extends z.ZodTypeAny>(
+  schema: S,
+  input: Record<string, string> | URLSearchParams,
+  where: "path" | "query",
+): z.output<S> {
+  const fields: Record<string, string> = {}
+  if (input instanceof URLSearchParams) {
+    input.forEach((value, key) => {
+      fields[key] = value
+    })
+  } else {
+    // Path segments may arrive still percent-encoded, e.g. %40 for @
+    Object.keys(input).forEach((key) => {
+      try {
+        fields[key] = decodeURIComponent(input[key])
+      } catch {
+        fields[key] = input[key]
+      }
+    })
+  }
+  return validate(schema, fields, where)
+}
+
+/**
+ * Read and validate a JSON request body
+ * @param request The incoming request
+ * @param schema The schema to validate against
+ * @returns Promise The parsed body
+ * @throws DelegationError invalid_request when the body is not JSON or fails validation
+ */
+export async function parseJsonBody<S extends z.ZodTypeAny>(request: NextRequest, schema: S): Promise<z.output<S>> {
+  if (!(request.headers.get("content-type") || "").includes("application/json")) {
+    throw new DelegationError("invalid_request", "The request body must be JSON, sent as application/json")
+  }
+  let body: unknown
+  try {
+    body = await request.json()
+  } catch {
+    throw new DelegationError("invalid_request", "The request body must be valid JSON")
+  }
+  return validate(schema, body, "body")
+}
+
+/**
+ * Resolve the credential a v2 request acts with: the credentialId it names, or else the API key's default
+ * credential, or else the OAuth session. v2 takes no uploaded key files.
+ * @param request The incoming request
+ * @param user The signed-in user or API key
+ * @param credentialId The credential named in the body or query string
+ * @returns Promise<RequestCredential> The credential
+ * @throws DelegationError invalid_request when the request carries no credential
+ */
+export async function requireCredential(
+  request: NextRequest,
+  user: UserAccount,
+  credentialId?: string,
+): Promise<RequestCredential> {
+  const fields = new FormData()
+  if (credentialId) {
+    fields.set("credentialId", credentialId)
+  }
+  const requestCredential = await resolveRequestCredential(request, fields, user)
+  if (!requestCredential) {
+    const message = "Name a credentialId, use an API key with a default credential, or sign in with OAuth"
+    throw new DelegationError("invalid_request", message)
+  }
+  return requestCredential
+}
+
+/**
+ * List a mailbox's delegates, with the expiry of those added as time-bound grants
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to read the mailbox with
+ * @returns Promise<ApiDelegateList> The delegates
+ * @throws DelegationError When Gmail cannot be reached or refuses the request
+ */
+export async function listMailboxDelegates(
+  mailbox: string,
+  requestCredential: RequestCredential,
+): Promise<ApiDelegateList> {
+  const result = await processDelegateOperation("list", mailbox, undefined, requestCredential, "api")
+  if (!result.success) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+
+  const grants = await DelegationGrants.list({ userEmail: mailbox, status: "active" })
+  return {
+    mailbox,
+    delegates: (result.delegates || []).map((delegate) => {
+      const delegateEmail = (delegate.delegateEmail || "").toLowerCase()
+      const grant = grants.find((candidate) => candidate.delegateEmail.toLowerCase() === delegateEmail)
+      return {
+        delegateEmail,
+        verificationStatus: delegate.verificationStatus,
+        expiresAt: grant?.expiresAt,
+        grantId: grant?.id,
+      }
+    }),
+  }
+}
+
+/**
+ * Add or remove a delegate, with the same policy, approval and audit handling as the v1 routes
+ * @param operation add or remove
+ * @param mailbox The mailbox
+ * @param delegateEmail The delegate
+ * @param requestCredential The credential to act with
+ * @param options Expiry, reason and dry run
+ * @returns Promise<{ status: number; data: ApiDelegationResult }> The HTTP status and payload:
+ * 201 for an added delegate, 202 when a change request was opened, otherwise 200
+ * @throws DelegationError When the operation failed
+ */
+export async function changeDelegate(
+  operation: "add" | "remove",
+  mailbox: string,
+  delegateEmail: string,
+  requestCredential: RequestCredential,
+  options: Pick<DelegateOperationOptions, "expiresAt" | "reason" | "dryRun">,
+): Promise<{ status: number; data: ApiDelegationResult }> {
+  const result = await processDelegateOperation(operation, mailbox, delegateEmail, requestCredential, "api", options)
+  const pending = result.errorCode === "pending_approval"
+  if (!result.success && !pending) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+
+  const data: ApiDelegationResult = {
+    operation,
+    mailbox,
+    delegateEmail,
+    status: pending ? "pending_approval" : result.dryRun ? "dry_run" : "applied",
+    message: result.message,
+    expiresAt: result.expiresAt,
+    changeRequestId: pending ? result.details?.changeRequestId : undefined,
+    requiresApproval: result.dryRun ? !!result.requiresApproval : undefined,
+  }
+  const status = pending ? 202 : data.status === "applied" && operation === "add" ? 201 : 200
+  return { status, data }
+}
+
+/**
+ * List a mailbox's send-as aliases
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to read the mailbox with
+ * @returns Promise<ApiSendAsList> The aliases, including the mailbox's primary address
+ * @throws DelegationError When Gmail cannot be reached or refuses the request
+ */
+export async function listMailboxSendAs(mailbox: string, requestCredential: RequestCredential): Promise<ApiSendAsList> {
+  const gmail = await connectGmailClient(requestCredential.credential, mailbox)
+  return { mailbox, sendAs: await listSendAs(gmail) }
+}
+
+/**
+ * Add, change or remove a send-as alias
+ * @param operation sendas-add, sendas-update or sendas-remove
+ * @param mailbox The mailbox the alias belongs to
+ * @param sendAsEmail The alias address
+ * @param requestCredential The credential to act with
+ * @param options The alias settings, and whether to only report what would happen
+ * @returns Promise<{ status: number; data: ApiSendAsResult }> The HTTP status and payload: 201 for an added alias,
+ * otherwise 200
+ * @throws DelegationError When the operation failed
+ */
+export async function changeSendAs(
+  operation: SendAsOperation,
+  mailbox: string,
+  sendAsEmail: string,
+  requestCredential: RequestCredential,
+  options: { settings?: SendAsInput; dryRun?: boolean },
+): Promise<{ status: number; data: ApiSendAsResult }> {
+  const result = await processSendAsOperation(operation, mailbox, sendAsEmail, requestCredential, "api", options)
+  if (!result.success) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+
+  const data: ApiSendAsResult = {
+    operation,
+    mailbox,
+    sendAsEmail,
+    status: result.dryRun ? "dry_run" : "applied",
+    message: result.message,
+    sendAs: result.sendAs,
+  }
+  return { status: data.status === "applied" && operation === "sendas-add" ? 201 : 200, data }
+}
+
+/**
+ * Read a mailbox's forwarding addresses and auto-forwarding setting
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to read the mailbox with
+ * @returns Promise<ApiForwarding> The settings, flagged when auto-forwarding leaves the organisation
+ * @throws DelegationError When Gmail cannot be reached or refuses the request
+ */
+export async function readMailboxForwarding(
+  mailbox: string,
+  requestCredential: RequestCredential,
+): Promise<ApiForwarding> {
+  const result = await processForwardingOperation("forwarding-list", mailbox, undefined, requestCredential, "api")
+  if (!result.success || !result.forwarding) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+  return toForwarding(mailbox, result.forwarding)
+}
+
+/**
+ * Add or remove a forwarding address, or turn auto-forwarding on or off
+ * @param operation forwarding-add, forwarding-remove or forwarding-update
+ * @param mailbox The mailbox
+ * @param forwardingEmail The address to add or remove; unused for forwarding-update
+ * @param requestCredential The credential to act with
+ * @param options The new auto-forwarding setting, and whether to only report what would happen
+ * @returns Promise<{ status: number; data: ApiForwardingResult }> The HTTP status and payload: 201 for an added
+ * address, otherwise 200
+ * @throws DelegationError When the operation failed
+ */
+export async function changeForwarding(
+  operation: Exclude<ForwardingOperation, "forwarding-list">,
+  mailbox: string,
+  forwardingEmail: string | undefined,
+  requestCredential: RequestCredential,
+  options: { autoForwarding?: AutoForwarding; dryRun?: boolean },
+): Promise<{ status: number; data: ApiForwardingResult }> {
+  const result = await processForwardingOperation(
+    operation,
+    mailbox,
+    forwardingEmail,
+    requestCredential,
+    "api",
+    options,
+  )
+  if (!result.success) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+
+  const data: ApiForwardingResult = {
+    operation,
+    mailbox,
+    forwardingEmail: result.delegateEmail,
+    status: result.dryRun ? "dry_run" : "applied",
+    message: result.message,
+    forwarding: result.forwarding ? toForwarding(mailbox, result.forwarding) : undefined,
+  }
+  return { status: data.status === "applied" && operation === "forwarding-add" ? 201 : 200, data }
+}
+
+/**
+ * Turn a forwarding scan into the v2 resource
+ * @param summary The scan
+ * @returns ApiForwardingScan The scan, one entry per mailbox
+ */
+export function toForwardingScan(summary: MailboxScanSummary): ApiForwardingScan {
+  return {
+    source: summary.source,
+    scanned: summary.scanned,
+    flagged: summary.flagged,
+    errors: summary.errors,
+    mailboxes: summary.results.map((result) => ({
+      mailbox: result.userEmail,
+      success: result.success,
+      message: result.message,
+      errorCode: result.errorCode,
+      forwarding: result.forwarding ? toForwarding(result.userEmail, result.forwarding) : undefined,
+    })),
+  }
+}
+
+function toForwarding(mailbox: string, forwarding: ForwardingSettings): ApiForwarding {
+  return { mailbox, ...forwarding }
+}
+
+/**
+ * Read a mailbox's vacation responder
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to read the mailbox with
+ * @returns Promise<ApiVacation> The responder
+ * @throws DelegationError When Gmail cannot be reached or refuses the request
+ */
+export async function readMailboxVacation(mailbox: string, requestCredential: RequestCredential): Promise<ApiVacation> {
+  const result = await processVacationOperation("vacation-get", mailbox, requestCredential, "api")
+  if (!result.success || !result.vacation) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+  return toVacation(mailbox, result.vacation)
+}
+
+/**
+ * Turn a mailbox's vacation responder on or off
+ * @param operation vacation-on or vacation-off
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to act with
+ * @param options The responder to turn on, and whether to only report what would happen
+ * @returns Promise<ApiVacationResult> The outcome
+ * @throws DelegationError When the operation failed
+ */
+export async function changeVacation(
+  operation: Exclude<VacationOperation, "vacation-get">,
+  mailbox: string,
+  requestCredential: RequestCredential,
+  options: { vacation?: VacationInput; dryRun?: boolean },
+): Promise<ApiVacationResult> {
+  const result = await processVacationOperation(operation, mailbox, requestCredential, "api", options)
+  if (!result.success) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+
+  return {
+    operation,
+    mailbox,
+    status: result.dryRun ? "dry_run" : "applied",
+    message: result.message,
+    vacation: result.vacation ? toVacation(mailbox, result.vacation) : undefined,
+  }
+}
+
+function toVacation(mailbox: string, vacation: VacationSettings): ApiVacation {
+  return { mailbox, ...vacation }
+}
+
+/**
+ * List a mailbox's filters
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to read the mailbox with
+ * @returns Promise<ApiFilterList> The filters, each described in words
+ * @throws DelegationError When Gmail cannot be reached or refuses the request
+ */
+export async function listMailboxFilters(
+  mailbox: string,
+  requestCredential: RequestCredential,
+): Promise<ApiFilterList> {
+  const result = await processFilterOperation("filter-list", mailbox, requestCredential, "api")
+  if (!result.success || !result.filters) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+  return { mailbox, filters: result.filters }
+}
+
+/**
+ * Export a mailbox's filters as a set that can be imported into other mailboxes
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to read the mailbox with
+ * @returns Promise<ApiFilterSet> The filters' criteria and actions, with labels by name
+ * @throws DelegationError When Gmail cannot be reached or refuses the request
+ */
+export async function exportMailboxFilters(
+  mailbox: string,
+  requestCredential: RequestCredential,
+): Promise<ApiFilterSet> {
+  const { filters } = await listMailboxFilters(mailbox, requestCredential)
+  return {
+    version: 1,
+    exportedFrom: mailbox,
+    exportedAt: new Date().toISOString(),
+    filters: filters.map(({ criteria, action }) => ({ criteria, action })),
+  }
+}
+
+/**
+ * Create or delete one filter
+ * @param operation filter-create or filter-delete
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to act with
+ * @param options The filter to create or the ID of the one to delete, and whether to only report what would happen
+ * @returns Promise<{ status: number; data: ApiFilterResult }> The HTTP status and payload: 201 for a created
+ * filter, otherwise 200
+ * @throws DelegationError When the operation failed
+ */
+export async function changeFilter(
+  operation: "filter-create" | "filter-delete",
+  mailbox: string,
+  requestCredential: RequestCredential,
+  options: { filter?: FilterDefinition; filterId?: string; dryRun?: boolean },
+): Promise<{ status: number; data: ApiFilterResult }> {
+  const result = await processFilterOperation(operation, mailbox, requestCredential, "api", {
+    filters: options.filter ? [options.filter] : undefined,
+    filterId: options.filterId,
+    dryRun: options.dryRun,
+  })
+  if (!result.success) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+
+  const data: ApiFilterResult = {
+    operation,
+    mailbox,
+    status: result.dryRun ? "dry_run" : "applied",
+    message: result.message,
+    filter: result.filters?.[0],
+  }
+  return { status: data.status === "applied" && operation === "filter-create" ? 201 : 200, data }
+}
+
+/**
+ * Create the filters of a set that a mailbox does not already have
+ * @param mailbox The mailbox
+ * @param filters The set's filters
+ * @param requestCredential The credential to act with
+ * @param options Whether to only report what would happen
+ * @returns Promise<ApiFilterImportResult> How many filters were created and skipped
+ * @throws DelegationError When the set is invalid or a filter could not be created; earlier ones stay created
+ */
+export async function importMailboxFilters(
+  mailbox: string,
+  filters: FilterDefinition[],
+  requestCredential: RequestCredential,
+  options: { dryRun?: boolean },
+): Promise<ApiFilterImportResult> {
+  const result = await processFilterOperation("filter-import", mailbox, requestCredential, "api", {
+    filters,
+    dryRun: options.dryRun,
+  })
+  if (!result.success) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+
+  const created = result.filters || []
+  return {
+    mailbox,
+    status: result.dryRun ? "dry_run" : "applied",
+    message: result.message,
+    created: created.length,
+    skipped: filters.length - created.length,
+    filters: created,
+  }
+}
+
+/**
+ * Turn a filter scan into the v2 resource
+ * @param summary The scan
+ * @returns ApiFilterScan The scan, one entry per mailbox
+ */
+export function toFilterScan(summary: MailboxScanSummary): ApiFilterScan {
+  return {
+    source: summary.source,
+    scanned: summary.scanned,
+    flagged: summary.flagged,
+    errors: summary.errors,
+    mailboxes: summary.results.map((result) => ({
+      mailbox: result.userEmail,
+      success: result.success,
+      message: result.message,
+      errorCode: result.errorCode,
+      filters: result.filters,
+    })),
+  }
+}
+
+/**
+ * Read a mailbox's IMAP, POP and display language settings
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to read the mailbox with
+ * @returns Promise<ApiMailAccess> The settings
+ * @throws DelegationError When Gmail cannot be reached or refuses the request
+ */
+export async function readMailboxAccess(mailbox: string, requestCredential: RequestCredential): Promise<ApiMailAccess> {
+  const result = await processMailAccessOperation("access-get", mailbox, requestCredential, "api")
+  if (!result.success || !result.access) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+  return toMailAccess(mailbox, result.access)
+}
+
+/**
+ * Change a mailbox's IMAP or POP settings
+ * @param operation imap-update or pop-update
+ * @param mailbox The mailbox
+ * @param requestCredential The credential to act with
+ * @param options The new settings of the protocol, and whether to only report what would happen
+ * @returns Promise<ApiMailAccessResult> The outcome
+ * @throws DelegationError When the operation failed
+ */
+export async function changeMailAccess(
+  operation: "imap-update" | "pop-update",
+  mailbox: string,
+  requestCredential: RequestCredential,
+  options: { imap?: Partial<ImapSettings>; pop?: Partial<PopSettings>; dryRun?: boolean },
+): Promise<ApiMailAccessResult> {
+  const result = await processMailAccessOperation(operation, mailbox, requestCredential, "api", options)
+  if (!result.success) {
+    throw new DelegationError(result.errorCode || "unknown", result.message, result.details)
+  }
+
+  return {
+    operation,
+    mailbox,
+    status: result.dryRun ? "dry_run" : "applied",
+    message: result.message,
+    access: result.access ? toMailAccess(mailbox, result.access) : undefined,
+  }
+}
+
+/**
+ * Turn an IMAP and POP scan into the v2 resource
+ * @param summary The scan
+ * @returns ApiAccessScan The scan, one entry per mailbox
+ */
+export function toAccessScan(summary: MailboxScanSummary): ApiAccessScan {
+  return {
+    source: summary.source,
+    scanned: summary.scanned,
+    flagged: summary.flagged,
+    errors: summary.errors,
+    mailboxes: summary.results.map((result) => ({
+      mailbox: result.userEmail,
+      success: result.success,
+      message: result.message,
+      errorCode: result.errorCode,
+      access: result.access ? toMailAccess(result.userEmail, result.access) : undefined,
+    })),
+  }
+}
+
+function toMailAccess(mailbox: string, access: MailAccessSettings): ApiMailAccess {
+  return { mailbox, ...access }
+}
+
+/**
+ * Turn the dry-run results of a batch into the v2 preview
+ * @param results One result per submitted operation, in order
+ * @returns ApiBatchPreview The preview
+ */
+export function toBatchPreview(results: OperationResult[]): ApiBatchPreview {
+  return {
+    dryRun: true,
+    applicable: results.filter((result) => result.success).length,
+    results: results.map((result, index) => ({
+      index,
+      operation: result.operation,
+      mailbox: result.userEmail,
+      ...target(result.operation, result.delegateEmail),
+      success: result.success,
+      message: result.message,
+      errorCode: result.errorCode,
+      requiresApproval: result.requiresApproval,
+    })),
+  }
+}
+
+/**
+ * Turn a batch job into the v2 resource
+ * @param job The job with its rows
+ * @returns ApiJob The job
+ */
+export function toJob(job: BatchJob): ApiJob {
+  return {
+    id: job.id,
+    status: job.status,
+    actor: job.actor,
+    reason: job.reason,
+    rollbackOf: job.rollbackOf,
+    createdAt: job.createdAt,
+    startedAt: job.startedAt,
+    finishedAt: job.finishedAt,
+    total: job.total,
+    processed: job.processed,
+    succeeded: job.succeeded,
+    failed: job.failed,
+    message: job.message,
+    rows: job.rows.map((row) => ({
+      index: row.index,
+      operation: row.operation,
+      mailbox: row.userEmail,
+      ...target(row.operation, row.delegateEmail),
+      expiresAt: row.expiresAt,
+      status: row.status,
+      message: row.result?.message,
+      errorCode: row.result?.errorCode,
+    })),
+  }
+}
+
+// Batch rows carry a send-as address in the same field as a delegate
+function target(operation: string, address?: string): { delegateEmail?: string; sendAsEmail?: string } {
+  return operation.startsWith("sendas-") ? { sendAsEmail: address } : { delegateEmail: address }
+}
+
+function validate<S extends z.ZodTypeAny>(schema: S, input: unknown, where: "path" | "query" | "body"): z.output<S> {
+  const parsed = schema.safeParse(input)
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    throw new DelegationError("invalid_request", `Invalid ${where}: ${problems.join("; ")}`, problems)
+  }
+  return parsed.data
+}
@@ -0,0 +1,101 @@
+import { randomUUID } from "crypto"
+import type { ApprovalRule } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { matchesMailboxPattern } from "../lib/mailbox-pattern"
+import { readJsonFile, writeJsonFile } from "./data-store"
+import { DelegationPolicyStore } from "./delegation-policy"
+
+/**
+ * Which mailboxes need a second user to approve delegate changes.
+ * Rules are checked in order and the first match applies; require_approval rules in the
+ * delegation policy are checked after the rules stored here.
+ */
+export class ApprovalRules {
+  private static readonly FILENAME = "approval-rules.json"
+
+  /**
+   * Get the configured rules
+   * @returns Promise<ApprovalRule[]> The rules, in the order they are checked
+   */
+  static async list(): Promise<ApprovalRule[]> {
+    const stored = await readJsonFile<{ rules: ApprovalRule[] }>(this.FILENAME, { rules: [] })
+    return stored.rules
+  }
+
+  /**
+   * Get a single rule
+   * @param id The rule ID
+   * @returns Promise<ApprovalRule | null> The rule or null if it no longer exists
+   */
+  static async get(id: string): Promise<ApprovalRule | null> {
+    const rules = (await this.list()).concat(await this.policyRules())
+    return rules.find((rule) => rule.id === id) || null
+  }
+
+  /**
+   * Replace the configured rules
+   * @param rules The new rules; rules without an ID are given one
+   * @returns Promise<ApprovalRule[]> The stored rules
+   * @throws DelegationError When a rule is invalid
+   */
+  static async save(rules: Array<Partial<ApprovalRule>>): Promise<ApprovalRule[]> {
+    if (!Array.isArray(rules)) {
+      throw new DelegationError("invalid_request", "rules must be an array")
+    }
+
+    const problems: string[] = []
+    const normalized = rules.map((rule, index) => {
+      const operations = (rule.operations || ["add", "remove"]).filter((op) => op === "add" || op === "remove")
+      if (!rule.mailboxPattern?.trim()) {
+        problems.push(`Rule ${index + 1}: mailboxPattern is required`)
+      }
+      if (operations.length === 0) {
+        problems.push(`Rule ${index + 1}: operations must include add or remove`)
+      }
+      return {
+        id: rule.id || randomUUID(),
+        mailboxPattern: (rule.mailboxPattern || "").trim().toLowerCase(),
+        operations,
+        approvers: (rule.approvers || []).map((approver) => approver.trim().toLowerCase()).filter(Boolean),
+        description: rule.description?.trim() || undefined,
+      }
+    })
+
+    if (problems.length > 0) {
+      throw new DelegationError("invalid_request", problems.join("; "), problems)
+    }
+
+    await writeJsonFile(this.FILENAME, { rules: normalized })
+    return normalized
+  }
+
+  /**
+   * Find the rule that covers a change
+   * @param userEmail The mailbox being changed
+   * @param operation The change
+   * @returns Promise<ApprovalRule | null> The first matching rule, or null if the change needs no approval
+   */
+  static async match(userEmail: string, operation: "add" | "remove"): Promise<ApprovalRule | null> {
+    const rules = (await this.list()).concat(await this.policyRules())
+    return (
+      rules.find((rule) => rule.operations.includes(operation) && matchesMailboxPattern(rule.mailboxPattern, userEmail)) ||
+      null
+    )
+  }
+
+  /**
+   * The delegation policy's require_approval rules, in the shape of approval rules
+   */
+  private static async policyRules(): Promise<ApprovalRule[]> {
+    const policy = await DelegationPolicyStore.get()
+    return policy.rules
+      .filter((rule) => rule.type === "require_approval" && rule.mailboxPattern)
+      .map((rule) => ({
+        id: `policy:${rule.id}`,
+        mailboxPattern: rule.mailboxPattern as string,
+        operations: rule.operations && rule.operations.length > 0 ? rule.operations : ["add", "remove"],
+        approvers: rule.approvers || [],
+        description: rule.description,
+      }))
+  }
+}
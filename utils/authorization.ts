@@ -0,0 +1,159 @@
+import { type NextRequest, NextResponse } from "next/server"
+import type { Permission, UserAccount } from "../types"
+import { DelegationError, ERROR_HINTS, ERROR_STATUS } from "../lib/delegation-errors"
+import { hasPermission } from "../lib/permissions"
+import { ApiKeys } from "./api-keys"
+import { MailboxAccess } from "./mailbox-access"
+import { isSchedulerRequest } from "./scheduler"
+import { UserAccounts } from "./user-accounts"
+
+/**
+ * The identity the scheduler in server.js acts as
+ */
+const SCHEDULER_USER: UserAccount = {
+  id: "scheduler",
+  username: "scheduler",
+  role: "admin",
+  mailboxScopes: [],
+  createdAt: "",
+  updatedAt: "",
+}
+
+/**
+ * The outcome of an access check: the signed-in user, or the response to return instead
+ */
+export type Authorization = { user: UserAccount; denied: null } | { user: null; denied: NextResponse }
+
+/**
+ * Get the user a request was made by. A bearer token takes precedence over the session cookie.
+ * @param request The incoming request
+ * @returns Promise<UserAccount | null> The signed-in user, the API key, the scheduler, or null
+ */
+export async function currentUser(request: NextRequest): Promise<UserAccount | null> {
+  if (isSchedulerRequest(request)) {
+    return SCHEDULER_USER
+  }
+  const token = bearerToken(request)
+  if (token) {
+    return ApiKeys.authenticate(token)
+  }
+  return UserAccounts.getSessionUser(request.cookies.get(UserAccounts.SESSION_COOKIE)?.value)
+}
+
+/**
+ * Check that a request comes from a signed-in user whose role grants a permission
+ * @param request The incoming request
+ * @param permission The permission the route needs
+ * @param options sessionOnly refuses API keys, for actions such as managing users and keys
+ * @returns Promise<Authorization> The user, or a 401/403 response
+ */
+export async function authorize(
+  request: NextRequest,
+  permission: Permission,
+  options: { sessionOnly?: boolean } = {},
+): Promise<Authorization> {
+  try {
+    return { user: await requireUser(request, permission, options), denied: null }
+  } catch (error) {
+    if (error instanceof DelegationError) {
+      return { user: null, denied: accessError(error) }
+    }
+    throw error
+  }
+}
+
+/**
+ * Check access like authorize, for routes that report every failure through one error handler
+ * @param request The incoming request
+ * @param permission The permission the route needs
+ * @param options sessionOnly refuses API keys
+ * @returns Promise<UserAccount> The user
+ * @throws DelegationError unauthenticated or forbidden when access is refused
+ */
+export async function requireUser(
+  request: NextRequest,
+  permission: Permission,
+  options: { sessionOnly?: boolean } = {},
+): Promise<UserAccount> {
+  const user = await currentUser(request)
+  if (!user) {
+    const message = bearerToken(request) ? "The API key is invalid, expired or revoked" : "Sign in to continue"
+    throw new DelegationError("unauthenticated", message)
+  }
+  if (options.sessionOnly && user.apiKeyId) {
+    throw new DelegationError("forbidden", "This action needs a signed-in user; API keys cannot perform it")
+  }
+  if (!hasPermission(user, permission)) {
+    throw new DelegationError("forbidden", `The ${user.role} role may not perform this action`)
+  }
+  return user
+}
+
+/**
+ * Check that a user may change every mailbox a request touches
+ * @param user The signed-in user
+ * @param mailboxes The mailboxes being changed
+ * @returns Promise<NextResponse | null> A 403 response naming the mailboxes outside the user's scope, or null if all are allowed
+ */
+export async function mailboxAccessDenied(user: UserAccount, mailboxes: string[]): Promise<NextResponse | null> {
+  try {
+    await requireMailboxAccess(user, mailboxes)
+    return null
+  } catch (error) {
+    if (error instanceof DelegationError) {
+      return accessError(error)
+    }
+    throw error
+  }
+}
+
+/**
+ * Check mailbox scopes like mailboxAccessDenied, throwing instead of building a response
+ * @param user The signed-in user
+ * @param mailboxes The mailboxes being changed
+ * @throws DelegationError forbidden, with the refused mailboxes and the reason for each in its details
+ */
+export async function requireMailboxAccess(user: UserAccount, mailboxes: string[]): Promise<void> {
+  const refused = await MailboxAccess.outOfScope(user, mailboxes)
+  const outside = Object.keys(refused)
+  if (outside.length > 0) {
+    const message = outside.length === 1 ? refused[outside[0]] : `You may not change ${outside.join(", ")}`
+    throw new DelegationError("forbidden", message, { mailboxes: outside, reasons: refused })
+  }
+}
+
+/**
+ * Set the user session cookie on a response
+ * @param request The incoming request
+ * @param response The response to add the cookie to
+ * @param sessionId The new session ID
+ * @returns NextResponse The response
+ */
+export function withSessionCookie(request: NextRequest, response: NextResponse, sessionId: string): NextResponse {
+  response.cookies.set(UserAccounts.SESSION_COOKIE, sessionId, {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: request.nextUrl.protocol === "https:",
+    path: "/",
+    maxAge: UserAccounts.SESSION_MAX_AGE,
+  })
+  return response
+}
+
+function bearerToken(request: NextRequest): string | null {
+  const match = /^Bearer\s+(\S+)$/i.exec(request.headers.get("authorization") || "")
+  return match ? match[1] : null
+}
+
+function accessError(error: DelegationError): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      errorCode: error.code,
+      message: error.message,
+      hint: ERROR_HINTS[error.code],
+      details: error.details,
+    },
+    { status: ERROR_STATUS[error.code] },
+  )
+}
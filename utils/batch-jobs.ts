@@ -0,0 +1,498 @@
+import { randomUUID } from "crypto"
+import { EventEmitter } from "events"
+import fs from "fs"
+import path from "path"
+import type {
+  BatchJob,
+  BatchJobEvent,
+  BatchJobRow,
+  BatchJobRuntime,
+  BatchJobSummary,
+  BatchOperation,
+  OperationResult,
+} from "../types"
+import { CredentialVault } from "./credential-vault"
+import { getDataDir, readJsonFile, updateJsonFile } from "./data-store"
+import { type DelegateListCache, processBatchOperation, processBatchOperations } from "./gmail-integration"
+import type { RequestCredential } from "./request-credential"
+
+// In-memory state of the jobs running in this process, shared by every route bundle so there is one worker pool
+const runtime: BatchJobRuntime = (globalThis.__delegateEaseBatchJobs ||= {
+  active: new Map(),
+  events: new EventEmitter().setMaxListeners(0),
+  recovered: false,
+})
+
+const TERMINAL_STATUSES = ["completed", "cancelled", "failed"]
+
+/**
+ * A submitted batch row
+ */
+export type BatchOperationInput = Partial<BatchOperation> & { operation?: string }
+
+/**
+ * Runs batch delegate operations in the background with bounded concurrency.
+ * Jobs are persisted after every row so progress survives page reloads and server restarts.
+ */
+export class BatchJobManager {
+  private static readonly DIRECTORY = "jobs"
+  private static readonly DEFAULT_CONCURRENCY = 4
+  private static readonly MAX_CONCURRENCY = 10
+  private static readonly LIST_LIMIT = 20
+  private static readonly OPERATIONS = [
+    "add",
+    "remove",
+    "list",
+    "sendas-add",
+    "sendas-remove",
+    "vacation-on",
+    "vacation-off",
+    "imap-disable",
+    "pop-disable",
+  ]
+
+  // Operations that act on the mailbox alone, without a delegate or alias
+  private static readonly MAILBOX_ONLY = ["list", "imap-disable", "pop-disable"]
+
+  /**
+   * Create a job for a list of operations and start processing it
+   * @param operations The operations to run, in order
+   * @param requestCredential The credential the operations act with
+   * @param options Why the batch is run, passed on to any change requests it opens, the job a rollback undoes and
+   * the activity entry each of its operations undoes, in order, and the mailboxes the submitter may not change,
+   * whose add and remove rows are rejected without running
+   * @returns Promise<BatchJob> The queued job
+   */
+  static async submit(
+    operations: BatchOperationInput[],
+    requestCredential: RequestCredential,
+    options: {
+      reason?: string
+      rollbackOf?: string
+      rollbackEntries?: string[]
+      outOfScope?: Record<string, string>
+    } = {},
+  ): Promise<BatchJob> {
+    await this.recover()
+
+    const rows = this.toRows(operations, options.outOfScope, options.rollbackEntries)
+    const invalid = rows.filter((row) => row.status === "error").length
+    const job: BatchJob = {
+      id: randomUUID(),
+      status: "queued",
+      actor: requestCredential.actor,
+      credentialId: requestCredential.credentialId,
+      createdAt: new Date().toISOString(),
+      concurrency: this.getConcurrency(),
+      total: rows.length,
+      processed: invalid,
+      succeeded: 0,
+      failed: invalid,
+      reason: options.reason?.trim() || undefined,
+      rollbackOf: options.rollbackOf,
+      rows,
+    }
+
+    await this.persist(job)
+    this.start(job, requestCredential)
+    return job
+  }
+
+  /**
+   * Check every operation of a batch in order without changing anything
+   * @param operations The operations to preview, in order
+   * @param requestCredential The credential to read the mailboxes with
+   * @param outOfScope Why each mailbox the submitter may not change is refused, keyed by lowercased mailbox
+   * @returns Promise<OperationResult[]> One dry-run result per operation, in the same order
+   */
+  static async preview(
+    operations: BatchOperationInput[],
+    requestCredential: RequestCredential,
+    outOfScope: Record<string, string> = {},
+  ): Promise<OperationResult[]> {
+    const rows = this.toRows(operations, outOfScope)
+    const valid = rows.filter((row) => row.status !== "error")
+    const checked = await processBatchOperations(
+      valid.map((row) => ({
+        operation: row.operation as BatchOperation["operation"],
+        userEmail: row.userEmail,
+        delegateEmail: row.delegateEmail,
+        expiresAt: row.expiresAt,
+        displayName: row.displayName,
+        vacation: row.vacation,
+      })),
+      requestCredential,
+      { dryRun: true },
+    )
+
+    let next = 0
+    return rows.map((row) => {
+      if (row.status === "error") {
+        return { ...(row.result as OperationResult), dryRun: true }
+      }
+      const result = checked[next++]
+      return { ...result, userEmail: result.userEmail || row.userEmail } as OperationResult
+    })
+  }
+
+  /**
+   * Get a job with its rows
+   * @param id The job ID
+   * @returns Promise<BatchJob | null> The job or null if it does not exist
+   */
+  static async get(id: string): Promise<BatchJob | null> {
+    await this.recover()
+
+    const active = runtime.active.get(id)
+    if (active) {
+      return active.job
+    }
+    if (!this.isValidId(id)) {
+      return null
+    }
+    return readJsonFile<BatchJob | null>(this.filename(id), null)
+  }
+
+  /**
+   * List the most recent jobs
+   * @returns Promise<BatchJobSummary[]> Job summaries, newest first
+   */
+  static async list(): Promise<BatchJobSummary[]> {
+    await this.recover()
+
+    const jobs = await this.readAll()
+    return jobs
+      .map((job) => runtime.active.get(job.id)?.job || job)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, this.LIST_LIMIT)
+      .map((job) => this.toSummary(job))
+  }
+
+  /**
+   * Cancel a job. Rows already in flight finish; rows not yet started are marked cancelled.
+   * @param id The job ID
+   * @returns Promise<BatchJob | null> The job or null if it does not exist
+   */
+  static async cancel(id: string): Promise<BatchJob | null> {
+    const job = await this.get(id)
+    if (!job || TERMINAL_STATUSES.includes(job.status)) {
+      return job
+    }
+
+    const active = runtime.active.get(id)
+    if (active) {
+      active.cancelled = true
+    }
+
+    job.rows.forEach((row) => {
+      if (row.status === "pending") {
+        row.status = "cancelled"
+        this.emit(job, { type: "row", row, job: this.toSummary(job) })
+      }
+    })
+
+    // A job that is not running in this process has nothing left to drain
+    if (!active) {
+      this.finish(job, "cancelled")
+    }
+
+    await this.persist(job)
+    return job
+  }
+
+  /**
+   * The mailboxes of the rows a cancellation would stop, i.e. those not yet finished
+   * @param job The job
+   * @returns string[] The mailboxes
+   */
+  static unfinishedMailboxes(job: BatchJob): string[] {
+    return job.rows.filter((row) => row.status === "pending" || row.status === "running").map((row) => row.userEmail)
+  }
+
+  /**
+   * Subscribe to progress events for a job
+   * @param id The job ID
+   * @param listener Called for every row update and status change
+   * @returns () => void Unsubscribes the listener
+   */
+  static subscribe(id: string, listener: (event: BatchJobEvent) => void): () => void {
+    runtime.events.on(id, listener)
+    return () => {
+      runtime.events.off(id, listener)
+    }
+  }
+
+  /**
+   * Whether a job has stopped and will emit no further events
+   * @param job The job to check
+   * @returns boolean True if the job is completed, cancelled or failed
+   */
+  static isFinished(job: BatchJobSummary): boolean {
+    return TERMINAL_STATUSES.includes(job.status)
+  }
+
+  /**
+   * Strip the rows from a job
+   * @param job The job
+   * @returns BatchJobSummary The job without its rows
+   */
+  static toSummary(job: BatchJob): BatchJobSummary {
+    const { rows, ...summary } = job
+    return summary
+  }
+
+  private static start(job: BatchJob, requestCredential: RequestCredential): void {
+    const active = { job, cancelled: false }
+    runtime.active.set(job.id, active)
+
+    this.run(active, requestCredential)
+      .catch(async (error: any) => {
+        console.error(`Batch job ${job.id} failed:`, error)
+        job.message = error.message || "Batch job failed"
+        this.finish(job, "failed")
+        await this.persist(job)
+      })
+      .finally(() => {
+        runtime.active.delete(job.id)
+      })
+  }
+
+  private static async run(active: { job: BatchJob; cancelled: boolean }, requestCredential: RequestCredential) {
+    const { job } = active
+    job.status = "running"
+    job.startedAt = job.startedAt || new Date().toISOString()
+    this.emit(job, { type: "status", job: this.toSummary(job) })
+    await this.persist(job)
+
+    let next = 0
+    const delegateCache: DelegateListCache = new Map()
+    const worker = async () => {
+      while (!active.cancelled) {
+        const row = job.rows[next++]
+        if (!row) return
+        if (row.status !== "pending") continue
+
+        row.status = "running"
+        this.emit(job, { type: "row", row, job: this.toSummary(job) })
+
+        const result = await processBatchOperation(
+          {
+            operation: row.operation as BatchOperation["operation"],
+            userEmail: row.userEmail,
+            delegateEmail: row.delegateEmail,
+            displayName: row.displayName,
+            vacation: row.vacation,
+          },
+          requestCredential,
+          row.rollbackOf ? "rollback" : "batch",
+          {
+            delegateCache,
+            expiresAt: row.expiresAt,
+            reason: job.reason,
+            jobId: job.id,
+            rollbackOf: row.rollbackOf,
+          },
+        )
+
+        row.status = result.success ? "success" : "error"
+        row.result = { ...result, userEmail: result.userEmail || row.userEmail } as OperationResult
+        job.processed++
+        if (result.success) {
+          job.succeeded++
+        } else {
+          job.failed++
+        }
+
+        this.emit(job, { type: "row", row, job: this.toSummary(job) })
+        await this.persist(job)
+      }
+    }
+
+    const workers = []
+    for (let i = 0; i < Math.min(job.concurrency, job.rows.length); i++) {
+      workers.push(worker())
+    }
+    await Promise.all(workers)
+
+    this.finish(job, active.cancelled ? "cancelled" : "completed")
+    await this.persist(job)
+  }
+
+  private static finish(job: BatchJob, status: BatchJob["status"]): void {
+    job.status = status
+    job.finishedAt = new Date().toISOString()
+    this.emit(job, { type: "status", job: this.toSummary(job) })
+  }
+
+  private static emit(job: BatchJob, event: BatchJobEvent): void {
+    runtime.events.emit(job.id, event)
+  }
+
+  /**
+   * Pick up jobs that were queued or running when the server last stopped.
+   * Jobs using a stored credential resume; OAuth sessions cannot be recovered, so those jobs fail.
+   */
+  private static async recover(): Promise<void> {
+    if (runtime.recovered) return
+    runtime.recovered = true
+
+    const jobs = await this.readAll()
+    for (let i = 0; i < jobs.length; i++) {
+      const job = jobs[i]
+      if (TERMINAL_STATUSES.includes(job.status) || runtime.active.has(job.id)) continue
+
+      // Rows interrupted mid-flight are retried; the pre-checks make add and remove safe to repeat
+      job.rows.forEach((row) => {
+        if (row.status === "running") row.status = "pending"
+      })
+
+      if (!job.credentialId) {
+        job.message = "Interrupted by a server restart; the OAuth session that started it is no longer available"
+        job.rows.forEach((row) => {
+          if (row.status === "pending") row.status = "cancelled"
+        })
+        this.finish(job, "failed")
+        await this.persist(job)
+        continue
+      }
+
+      try {
+        const credential = await CredentialVault.get(job.credentialId)
+        console.log(`Resuming batch job ${job.id}`)
+        this.start(job, { credential, actor: job.actor, credentialId: job.credentialId, user: job.actor })
+      } catch (error: any) {
+        job.message = `Could not resume after a server restart: ${error.message}`
+        this.finish(job, "failed")
+        await this.persist(job)
+      }
+    }
+  }
+
+  /**
+   * Turn submitted operations into job rows, marking invalid ones as failed up front.
+   * Which entries a row undoes only comes from a rollback, never from the submitted operations.
+   */
+  private static toRows(
+    operations: BatchOperationInput[],
+    outOfScope: Record<string, string> = {},
+    rollbackEntries: string[] = [],
+  ): BatchJobRow[] {
+    return operations.map((op, index) => {
+      const row: BatchJobRow = {
+        index,
+        operation: op.operation || "unknown",
+        userEmail: op.userEmail || "",
+        delegateEmail: op.delegateEmail || undefined,
+        expiresAt: op.expiresAt || undefined,
+        displayName: op.displayName || undefined,
+        vacation: op.vacation || undefined,
+        rollbackOf: rollbackEntries[index] || undefined,
+        status: "pending",
+      }
+
+      const problem = this.validateRow(row)
+      const refused = row.operation !== "list" ? outOfScope[row.userEmail.trim().toLowerCase()] : undefined
+      if (problem || refused) {
+        row.status = "error"
+        row.result = {
+          success: false,
+          operation: row.operation,
+          userEmail: row.userEmail,
+          delegateEmail: row.delegateEmail,
+          message: (problem || refused) as string,
+          errorCode: problem ? "invalid_request" : "forbidden",
+        }
+      }
+      return row
+    })
+  }
+
+  private static validateRow(row: BatchJobRow): string | null {
+    if (!this.OPERATIONS.includes(row.operation)) {
+      return `Invalid operation: ${row.operation}`
+    }
+    if (!row.userEmail) {
+      return "Mailbox email is required"
+    }
+    if (row.operation.startsWith("vacation-")) {
+      return this.validateVacationRow(row)
+    }
+    if (row.vacation) {
+      return "Only vacation-on operations can have a responder"
+    }
+    if (!this.MAILBOX_ONLY.includes(row.operation) && !row.delegateEmail) {
+      return row.operation.startsWith("sendas-") ? "Send-as address is required" : "Delegate email is required"
+    }
+    if (row.displayName && row.operation !== "sendas-add") {
+      return "Only sendas-add operations can have a display name"
+    }
+    if (row.expiresAt && row.operation !== "add") {
+      return "Only add operations can have an expiry"
+    }
+    if (row.expiresAt && Number.isNaN(Date.parse(row.expiresAt))) {
+      return `Invalid expiry: ${row.expiresAt}`
+    }
+    return null
+  }
+
+  private static validateVacationRow(row: BatchJobRow): string | null {
+    if (row.operation === "vacation-off") {
+      return row.vacation ? "Only vacation-on operations can have a responder" : null
+    }
+    const vacation = row.vacation
+    if (!vacation || (!vacation.responseSubject && !vacation.responseBodyPlainText && !vacation.responseBodyHtml)) {
+      return "The vacation responder needs a subject or a message"
+    }
+    for (const time of [vacation.startTime, vacation.endTime]) {
+      if (time && Number.isNaN(Date.parse(time))) {
+        return `Invalid responder time: ${time}`
+      }
+    }
+    return null
+  }
+
+  private static getConcurrency(): number {
+    const configured = Number.parseInt(process.env.DELEGATEEASE_BATCH_CONCURRENCY || "", 10)
+    if (Number.isNaN(configured) || configured < 1) {
+      return this.DEFAULT_CONCURRENCY
+    }
+    return Math.min(configured, this.MAX_CONCURRENCY)
+  }
+
+  private static async persist(job: BatchJob): Promise<void> {
+    this.ensureDirectory()
+    await updateJsonFile<BatchJob, void>(this.filename(job.id), job, () => ({ data: job, result: undefined }))
+  }
+
+  private static async readAll(): Promise<BatchJob[]> {
+    const directory = this.ensureDirectory()
+    const files = await fs.promises.readdir(directory)
+    const jobs: BatchJob[] = []
+    for (let i = 0; i < files.length; i++) {
+      if (!files[i].endsWith(".json")) continue
+      try {
+        const job = await readJsonFile<BatchJob | null>(path.join(this.DIRECTORY, files[i]), null)
+        if (job) jobs.push(job)
+      } catch (error) {
+        console.error(`Skipping unreadable job file ${files[i]}:`, error)
+      }
+    }
+    return jobs
+  }
+
+  private static ensureDirectory(): string {
+    const directory = path.join(getDataDir(), this.DIRECTORY)
+    if (!fs.existsSync(directory)) {
+      fs.mkdirSync(directory, { recursive: true })
+    }
+    return directory
+  }
+
+  private static filename(id: string): string {
+    return path.join(this.DIRECTORY, `${id}.json`)
+  }
+
+  private static isValidId(id: string): boolean {
+    return /^[0-9a-f-]{36}$/i.test(id)
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Runs approved change requests with the credential they were submitted with.
+ */
+
+import type { ChangeRequest, OperationResult } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { ChangeRequests } from "./change-requests"
+import { CredentialVault } from "./credential-vault"
+import { processDelegateOperation } from "./gmail-integration"
+import type { RequestCredential } from "./request-credential"
+
+/**
+ * Approve a pending change request and apply the change
+ * @param id The request ID
+ * @param approver Who approved it
+ * @param comment The approver's comment
+ * @returns Promise<ChangeRequest> The request with the outcome of the change
+ * @throws DelegationError When the request is not pending or the approver may not decide it
+ */
+export async function approveChangeRequest(id: string, approver: string, comment?: string): Promise<ChangeRequest> {
+  const pending = await ChangeRequests.get(id)
+  if (!pending) {
+    throw new DelegationError("not_found", `Change request ${id} not found`)
+  }
+  await ChangeRequests.checkReviewer(pending, approver)
+
+  const approved = await ChangeRequests.decide(id, "approved", approver, comment)
+  return ChangeRequests.complete(id, await applyChange(approved))
+}
+
+async function applyChange(changeRequest: ChangeRequest): Promise<OperationResult> {
+  const actor = `${changeRequest.requestedBy} (approved by ${changeRequest.decidedBy})`
+
+  let requestCredential: RequestCredential
+  try {
+    const serviceAccount = await CredentialVault.get(changeRequest.credentialId)
+    requestCredential = { credential: serviceAccount, actor, credentialId: changeRequest.credentialId }
+  } catch (error: any) {
+    return {
+      success: false,
+      operation: changeRequest.operation,
+      userEmail: changeRequest.userEmail,
+      delegateEmail: changeRequest.delegateEmail,
+      message: `Stored credential unavailable: ${error.message}`,
+      errorCode: "invalid_credentials",
+    }
+  }
+
+  const result = await processDelegateOperation(
+    changeRequest.operation,
+    changeRequest.userEmail,
+    changeRequest.delegateEmail,
+    requestCredential,
+    changeRequest.rollbackOf ? "rollback" : "api",
+    { expiresAt: changeRequest.expiresAt, rollbackOf: changeRequest.rollbackOf, skipApproval: true },
+  )
+  return { ...result, userEmail: result.userEmail || changeRequest.userEmail } as OperationResult
+}
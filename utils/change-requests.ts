@@ -0,0 +1,245 @@
+import { randomUUID } from "crypto"
+import type { ChangeRequest, ChangeRequestStatus, OperationResult } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { ApprovalRules } from "./approval-rules"
+import { readJsonFile, updateJsonFile } from "./data-store"
+import type { RequestCredential } from "./request-credential"
+
+type ChangeRequestStore = Record<string, ChangeRequest>
+
+export interface ChangeRequestInput {
+  operation: "add" | "remove"
+  userEmail: string
+  delegateEmail: string
+  expiresAt?: string
+  reason?: string
+  rollbackOf?: string
+}
+
+/**
+ * Delegate changes waiting for, or decided by, a second user.
+ * Requests are kept after they are decided so the approval history is preserved.
+ */
+export class ChangeRequests {
+  private static readonly FILENAME = "change-requests.json"
+  private static readonly HISTORY_LIMIT = 100
+
+  /**
+   * Open a change request if an approval rule covers the change
+   * @param input The change
+   * @param requestCredential The credential the change will run with once approved; must be a stored credential
+   * @returns Promise<ChangeRequest | null> The pending request, or null if the change can run straight away
+   * @throws DelegationError When the change needs approval but cannot be queued
+   */
+  static async submitIfRequired(
+    input: ChangeRequestInput,
+    requestCredential: RequestCredential,
+  ): Promise<ChangeRequest | null> {
+    const rule = await ApprovalRules.match(input.userEmail, input.operation)
+    if (!rule) {
+      return null
+    }
+
+    // The requester is a person, so the second-person rule compares people rather than credentials
+    if (!requestCredential.user) {
+      throw new DelegationError(
+        "unauthenticated",
+        `Changes to ${input.userEmail} require approval and must be requested by a signed-in user`,
+      )
+    }
+    // The change runs when it is approved, long after this request
+    if (!requestCredential.credentialId) {
+      throw new DelegationError(
+        "invalid_request",
+        `Changes to ${input.userEmail} require approval and must be submitted with a stored credential`,
+      )
+    }
+
+    const now = new Date().toISOString()
+    const changeRequest: ChangeRequest = {
+      id: randomUUID(),
+      operation: input.operation,
+      userEmail: input.userEmail.trim().toLowerCase(),
+      delegateEmail: input.delegateEmail.trim().toLowerCase(),
+      expiresAt: input.expiresAt ? new Date(input.expiresAt).toISOString() : undefined,
+      reason: input.reason?.trim() || "",
+      requestedBy: requestCredential.user.toLowerCase(),
+      credentialId: requestCredential.credentialId,
+      ruleId: rule.id,
+      rollbackOf: input.rollbackOf,
+      status: "pending",
+      createdAt: now,
+      updatedAt: now,
+      comments: [],
+    }
+
+    return updateJsonFile<ChangeRequestStore, ChangeRequest>(this.FILENAME, {}, (store) => ({
+      data: { ...store, [changeRequest.id]: changeRequest },
+      result: changeRequest,
+    }))
+  }
+
+  /**
+   * List change requests: pending ones oldest first, then the most recently decided
+   * @param status Only return requests with this status
+   * @returns Promise<ChangeRequest[]> The requests
+   */
+  static async list(status?: ChangeRequestStatus): Promise<ChangeRequest[]> {
+    const store = await readJsonFile<ChangeRequestStore>(this.FILENAME, {})
+    const all = Object.keys(store).map((id) => store[id])
+
+    const open = all
+      .filter((changeRequest) => changeRequest.status === "pending" || changeRequest.status === "approved")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+    const decided = all
+      .filter((changeRequest) => changeRequest.status !== "pending" && changeRequest.status !== "approved")
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, status ? undefined : this.HISTORY_LIMIT)
+
+    return open.concat(decided).filter((changeRequest) => !status || changeRequest.status === status)
+  }
+
+  /**
+   * Get a single change request
+   * @param id The request ID
+   * @returns Promise<ChangeRequest | null> The request or null if it does not exist
+   */
+  static async get(id: string): Promise<ChangeRequest | null> {
+    const store = await readJsonFile<ChangeRequestStore>(this.FILENAME, {})
+    return store[id] || null
+  }
+
+  /**
+   * Add a comment to a change request
+   * @param id The request ID
+   * @param author Who wrote the comment
+   * @param text The comment
+   * @returns Promise<ChangeRequest> The updated request
+   */
+  static async comment(id: string, author: string, text: string): Promise<ChangeRequest> {
+    if (!author?.trim() || !text?.trim()) {
+      throw new DelegationError("invalid_request", "author and text are required")
+    }
+
+    return this.update(id, (changeRequest) => {
+      const timestamp = new Date().toISOString()
+      return {
+        ...changeRequest,
+        comments: [...changeRequest.comments, { author: author.trim().toLowerCase(), text: text.trim(), timestamp }],
+        updatedAt: timestamp,
+      }
+    })
+  }
+
+  /**
+   * Reject a pending change request
+   * @param id The request ID
+   * @param reviewer Who rejected it
+   * @param comment Why it was rejected
+   * @returns Promise<ChangeRequest> The rejected request
+   * @throws DelegationError When the request is no longer pending or the reviewer may not decide it
+   */
+  static async reject(id: string, reviewer: string, comment?: string): Promise<ChangeRequest> {
+    const changeRequest = await this.get(id)
+    if (!changeRequest) {
+      throw new DelegationError("not_found", `Change request ${id} not found`)
+    }
+    await this.checkReviewer(changeRequest, reviewer)
+    return this.decide(id, "rejected", reviewer, comment)
+  }
+
+  /**
+   * Withdraw a pending change request
+   * @param id The request ID
+   * @returns Promise<ChangeRequest> The cancelled request
+   */
+  static async cancel(id: string): Promise<ChangeRequest> {
+    return this.update(id, (changeRequest) => {
+      if (changeRequest.status !== "pending") {
+        throw new DelegationError("invalid_request", `Change request is already ${changeRequest.status}`)
+      }
+      return { ...changeRequest, status: "cancelled", updatedAt: new Date().toISOString() }
+    })
+  }
+
+  /**
+   * Check that a reviewer may decide a change request: not the requester, and listed on the rule if it names approvers
+   * @param changeRequest The request
+   * @param reviewer Who wants to decide it
+   * @throws DelegationError When the reviewer may not decide the request
+   */
+  static async checkReviewer(changeRequest: ChangeRequest, reviewer: string): Promise<void> {
+    const normalized = reviewer?.trim().toLowerCase()
+    if (!normalized) {
+      throw new DelegationError("invalid_request", "A reviewer is required")
+    }
+    if (normalized === changeRequest.requestedBy) {
+      throw new DelegationError("forbidden", "Change requests must be decided by someone other than the requester")
+    }
+
+    const rule = await ApprovalRules.get(changeRequest.ruleId)
+    if (rule && rule.approvers.length > 0 && !rule.approvers.includes(normalized)) {
+      throw new DelegationError("forbidden", `${reviewer} is not an approver for ${changeRequest.userEmail}`)
+    }
+  }
+
+  /**
+   * Move a pending change request to a decided status; only one reviewer can win
+   * @param id The request ID
+   * @param status The decision
+   * @param reviewer Who decided
+   * @param comment The reviewer's comment
+   * @returns Promise<ChangeRequest> The updated request
+   * @throws DelegationError When the request is no longer pending
+   */
+  static async decide(
+    id: string,
+    status: "approved" | "rejected",
+    reviewer: string,
+    comment?: string,
+  ): Promise<ChangeRequest> {
+    return this.update(id, (changeRequest) => {
+      if (changeRequest.status !== "pending") {
+        throw new DelegationError("invalid_request", `Change request is already ${changeRequest.status}`)
+      }
+      const now = new Date().toISOString()
+      return {
+        ...changeRequest,
+        status,
+        decidedBy: reviewer.trim().toLowerCase(),
+        decidedAt: now,
+        decisionComment: comment?.trim() || undefined,
+        updatedAt: now,
+      }
+    })
+  }
+
+  /**
+   * Record the outcome of an approved change
+   * @param id The request ID
+   * @param result The result of running the change
+   * @returns Promise<ChangeRequest> The updated request
+   */
+  static async complete(id: string, result: OperationResult): Promise<ChangeRequest> {
+    return this.update(id, (changeRequest) => ({
+      ...changeRequest,
+      status: result.success ? "completed" : "failed",
+      result,
+      updatedAt: new Date().toISOString(),
+    }))
+  }
+
+  private static async update(
+    id: string,
+    updater: (changeRequest: ChangeRequest) => ChangeRequest,
+  ): Promise<ChangeRequest> {
+    return updateJsonFile<ChangeRequestStore, ChangeRequest>(this.FILENAME, {}, (store) => {
+      const changeRequest = store[id]
+      if (!changeRequest) {
+        throw new DelegationError("not_found", `Change request ${id} not found`)
+      }
+      const updated = updater(changeRequest)
+      return { data: { ...store, [id]: updated }, result: updated }
+    })
+  }
+}
@@ -0,0 +1,165 @@
+import { randomUUID } from "crypto"
+import { DelegationError } from "../lib/delegation-errors"
+import type { CredentialSummary } from "../types"
+import { decrypt, encrypt } from "./encryption"
+import { readJsonFile, updateJsonFile } from "./data-store"
+
+/**
+ * A stored service account credential. The key JSON is encrypted at rest and discarded on revocation.
+ */
+interface StoredCredential extends CredentialSummary {
+  key?: string
+}
+
+type CredentialStore = Record<string, StoredCredential>
+
+/**
+ * Stores service account keys encrypted at rest and hands out opaque credential IDs
+ */
+export class CredentialVault {
+  private static readonly FILENAME = "credentials.json"
+
+  /**
+   * Store a service account key
+   * @param serviceAccount The parsed service account JSON
+   * @param label A human-readable label for the credential
+   * @returns Promise<CredentialSummary> The stored credential, without key material
+   */
+  static async store(serviceAccount: any, label?: string): Promise<CredentialSummary> {
+    this.assertServiceAccount(serviceAccount)
+
+    const now = new Date().toISOString()
+    const credential: StoredCredential = {
+      id: randomUUID(),
+      label: label || serviceAccount.client_email,
+      clientEmail: serviceAccount.client_email,
+      projectId: serviceAccount.project_id,
+      privateKeyId: serviceAccount.private_key_id,
+      createdAt: now,
+      updatedAt: now,
+      key: encrypt(JSON.stringify(serviceAccount)),
+    }
+
+    await updateJsonFile<CredentialStore, void>(this.FILENAME, {}, (credentials) => ({
+      data: { ...credentials, [credential.id]: credential },
+      result: undefined,
+    }))
+
+    return this.toSummary(credential)
+  }
+
+  /**
+   * List stored credentials, including revoked ones
+   * @returns Promise<CredentialSummary[]> The credentials, newest first, without key material
+   */
+  static async list(): Promise<CredentialSummary[]> {
+    const credentials = await readJsonFile<CredentialStore>(this.FILENAME, {})
+    return Object.keys(credentials)
+      .map((id) => this.toSummary(credentials[id]))
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  }
+
+  /**
+   * Decrypt a stored service account key
+   * @param id The credential ID
+   * @returns Promise<any> The service account JSON
+   * @throws DelegationError not_found for an unknown ID; invalid_credentials when revoked or undecryptable
+   */
+  static async get(id: string): Promise<any> {
+    const credentials = await readJsonFile<CredentialStore>(this.FILENAME, {})
+    const credential = credentials[id]
+    if (!credential) {
+      throw new DelegationError("not_found", `Credential ${id} not found`)
+    }
+    if (credential.revokedAt || !credential.key) {
+      throw new DelegationError("invalid_credentials", `Credential ${id} has been revoked`)
+    }
+    try {
+      return JSON.parse(decrypt(credential.key))
+    } catch (error: any) {
+      // A changed encryption key or a damaged store leaves the key unreadable
+      throw new DelegationError("invalid_credentials", `Credential ${id} could not be decrypted`, error?.message)
+    }
+  }
+
+  /**
+   * Change a credential's label
+   * @param id The credential ID
+   * @param label The new label
+   * @returns Promise<CredentialSummary> The updated credential
+   */
+  static async setLabel(id: string, label: string): Promise<CredentialSummary> {
+    return this.update(id, (credential) => ({ ...credential, label }))
+  }
+
+  /**
+   * Replace a credential's key with a new key for the same service account, keeping its ID
+   * @param id The credential ID
+   * @param serviceAccount The parsed replacement service account JSON
+   * @returns Promise<CredentialSummary> The updated credential
+   * @throws DelegationError When the credential is unknown or revoked, or the key is for another service account
+   */
+  static async rotate(id: string, serviceAccount: any): Promise<CredentialSummary> {
+    this.assertServiceAccount(serviceAccount)
+
+    return this.update(id, (credential) => {
+      if (credential.revokedAt) {
+        throw new DelegationError("invalid_credentials", `Credential ${id} has been revoked`)
+      }
+      if (credential.clientEmail !== serviceAccount.client_email) {
+        throw new DelegationError(
+          "invalid_request",
+          `Replacement key belongs to ${serviceAccount.client_email}, expected ${credential.clientEmail}`,
+        )
+      }
+
+      const now = new Date().toISOString()
+      return {
+        ...credential,
+        projectId: serviceAccount.project_id,
+        privateKeyId: serviceAccount.private_key_id,
+        rotatedAt: now,
+        key: encrypt(JSON.stringify(serviceAccount)),
+      }
+    })
+  }
+
+  /**
+   * Revoke a credential, destroying its stored key but keeping its metadata for auditing
+   * @param id The credential ID
+   * @returns Promise<CredentialSummary> The revoked credential
+   */
+  static async revoke(id: string): Promise<CredentialSummary> {
+    return this.update(id, (credential) => ({
+      ...credential,
+      revokedAt: credential.revokedAt || new Date().toISOString(),
+      key: undefined,
+    }))
+  }
+
+  private static async update(
+    id: string,
+    updater: (credential: StoredCredential) => StoredCredential,
+  ): Promise<CredentialSummary> {
+    return updateJsonFile<CredentialStore, CredentialSummary>(this.FILENAME, {}, (credentials) => {
+      const credential = credentials[id]
+      if (!credential) {
+        throw new DelegationError("not_found", `Credential ${id} not found`)
+      }
+
+      const updated = { ...updater(credential), updatedAt: new Date().toISOString() }
+      return { data: { ...credentials, [id]: updated }, result: this.toSummary(updated) }
+    })
+  }
+
+  private static assertServiceAccount(serviceAccount: any): void {
+    if (!serviceAccount?.client_email || !serviceAccount?.private_key) {
+      throw new Error("Service account JSON must contain client_email and private_key")
+    }
+  }
+
+  private static toSummary(credential: StoredCredential): CredentialSummary {
+    const { key: _key, ...summary } = credential
+    return summary
+  }
+}
@@ -0,0 +1,114 @@
+import fs from "fs"
+import path from "path"
+
+/**
+ * Resolve the directory DelegateEase keeps its persistent state in.
+ * Defaults to ./data under the working directory; override with DELEGATEEASE_DATA_DIR.
+ * @returns string The absolute path to the data directory
+ */
+export function getDataDir(): string {
+  const dataDir = process.env.DELEGATEEASE_DATA_DIR || path.join(process.cwd(), "data")
+  if (!fs.existsSync(dataDir)) {
+    fs.mkdirSync(dataDir, { recursive: true })
+  }
+  return dataDir
+}
+
+/**
+ * Append a record to a JSON Lines file in the data directory
+ * @param filename The name of the file inside the data directory
+ * @param record The record to append
+ */
+export async function appendJsonLine(filename: string, record: unknown): Promise<void> {
+  const filepath = path.join(getDataDir(), filename)
+  await fs.promises.appendFile(filepath, JSON.stringify(record) + "\n", "utf-8")
+}
+
+/**
+ * Read every record from a JSON Lines file in the data directory.
+ * Lines that fail to parse (e.g. a partially written tail) are skipped.
+ * @param filename The name of the file inside the data directory
+ * @returns Promise<T[]> The records in file order
+ */
+export async function readJsonLines<T>(filename: string): Promise<T[]> {
+  const filepath = path.join(getDataDir(), filename)
+  if (!fs.existsSync(filepath)) {
+    return []
+  }
+
+  const content = await fs.promises.readFile(filepath, "utf-8")
+  const records: T[] = []
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue
+    try {
+      records.push(JSON.parse(line))
+    } catch (error) {
+      console.error(`Skipping malformed line in ${filename}:`, error)
+    }
+  }
+  return records
+}
+
+/**
+ * Read a JSON document from the data directory
+ * @param filename The name of the file inside the data directory
+ * @param fallback The value to return when the file does not exist yet
+ * @returns Promise<T> The parsed document
+ */
+export async function readJsonFile<T>(filename: string, fallback: T): Promise<T> {
+  const filepath = path.join(getDataDir(), filename)
+  if (!fs.existsSync(filepath)) {
+    return fallback
+  }
+
+  const content = await fs.promises.readFile(filepath, "utf-8")
+  return JSON.parse(content)
+}
+
+/**
+ * Write a JSON document to the data directory.
+ * The document is written to a temporary file first and renamed into place so readers never see a partial write.
+ * @param filename The name of the file inside the data directory
+ * @param data The document to write
+ */
+export async function writeJsonFile(filename: string, data: unknown): Promise<void> {
+  const filepath = path.join(getDataDir(), filename)
+  const tempPath = `${filepath}.${process.pid}.tmp`
+  await fs.promises.writeFile(tempPath, JSON.stringify(data, null, 2), { encoding: "utf-8", mode: 0o600 })
+  await fs.promises.rename(tempPath, filepath)
+}
+
+const pendingUpdates = new Map<string, Promise<unknown>>()
+
+/**
+ * Read, modify and write a JSON document in the data directory.
+ * Updates to the same file are serialized within the process so concurrent requests do not lose writes.
+ * @param filename The name of the file inside the data directory
+ * @param fallback The value to start from when the file does not exist yet
+ * @param updater Receives the current document and returns the document to write along with a result
+ * @returns Promise<R> The result returned by the updater
+ */
+export async function updateJsonFile<T, R>(
+  filename: string,
+  fallback: T,
+  updater: (data: T) => { data: T; result: R } | Promise<{ data: T; result: R }>,
+): Promise<R> {
+  const previous = pendingUpdates.get(filename) || Promise.resolve()
+  const next = previous
+    .catch(() => undefined)
+    .then(async () => {
+      const current = await readJsonFile<T>(filename, fallback)
+      const { data, result } = await updater(current)
+      await writeJsonFile(filename, data)
+      return result
+    })
+
+  pendingUpdates.set(filename, next)
+  try {
+    return await next
+  } finally {
+    if (pendingUpdates.get(filename) === next) {
+      pendingUpdates.delete(filename)
+    }
+  }
+}
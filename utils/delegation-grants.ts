@@ -0,0 +1,187 @@
+import { randomUUID } from "crypto"
+import type { DelegationGrant, DelegationGrantStatus } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { readJsonFile, updateJsonFile } from "./data-store"
+import type { RequestCredential } from "./request-credential"
+
+type GrantStore = Record<string, DelegationGrant>
+
+/**
+ * Persistent record of delegations that were added with an expiry.
+ * Grants are kept after they end so the history of who had access until when is preserved.
+ */
+export class DelegationGrants {
+  private static readonly FILENAME = "delegation-grants.json"
+
+  /**
+   * Check that an expiry can be honoured before the delegate is added
+   * @param expiresAt The requested expiry
+   * @param requestCredential The credential the delegate is added with
+   * @returns string | null A problem description, or null if the expiry is valid
+   */
+  static validateExpiry(expiresAt: string, requestCredential: RequestCredential): string | null {
+    const expiry = Date.parse(expiresAt)
+    if (Number.isNaN(expiry)) {
+      return `Invalid expiry: ${expiresAt}`
+    }
+    if (expiry <= Date.now()) {
+      return "Expiry must be in the future"
+    }
+    // The scheduler needs a key it can load later; OAuth sessions and one-off uploads do not outlive the request
+    if (!requestCredential.credentialId) {
+      return "Time-bound delegations require a stored credential so the delegate can be removed when it expires"
+    }
+    return null
+  }
+
+  /**
+   * Record a delegate that was just added with an expiry, ending any older grant for the same pair
+   * @param userEmail The mailbox
+   * @param delegateEmail The delegate
+   * @param expiresAt When the delegate should be removed
+   * @param requestCredential The stored credential the delegate was added with
+   * @returns Promise<DelegationGrant> The stored grant
+   */
+  static async record(
+    userEmail: string,
+    delegateEmail: string,
+    expiresAt: string,
+    requestCredential: RequestCredential,
+  ): Promise<DelegationGrant> {
+    if (!requestCredential.credentialId) {
+      throw new DelegationError("invalid_request", "Time-bound delegations require a stored credential")
+    }
+
+    const now = new Date().toISOString()
+    const grant: DelegationGrant = {
+      id: randomUUID(),
+      userEmail: userEmail.toLowerCase(),
+      delegateEmail: delegateEmail.toLowerCase(),
+      expiresAt: new Date(expiresAt).toISOString(),
+      credentialId: requestCredential.credentialId,
+      grantedBy: requestCredential.actor,
+      grantedAt: now,
+      status: "active",
+    }
+
+    return updateJsonFile<GrantStore, DelegationGrant>(this.FILENAME, {}, (grants) => {
+      const updated: GrantStore = {}
+      Object.keys(grants).forEach((id) => {
+        const existing = grants[id]
+        updated[id] = this.matches(existing, grant.userEmail, grant.delegateEmail)
+          ? { ...existing, status: "revoked", endedAt: now }
+          : existing
+      })
+      updated[grant.id] = grant
+      return { data: updated, result: grant }
+    })
+  }
+
+  /**
+   * List grants, soonest expiry first
+   * @param filter Optional mailbox and status filters
+   * @returns Promise<DelegationGrant[]> The grants
+   */
+  static async list(filter: { userEmail?: string; status?: DelegationGrantStatus } = {}): Promise<DelegationGrant[]> {
+    const grants = await readJsonFile<GrantStore>(this.FILENAME, {})
+    const userEmail = filter.userEmail?.toLowerCase()
+    return Object.keys(grants)
+      .map((id) => grants[id])
+      .filter((grant) => (!userEmail || grant.userEmail === userEmail) && (!filter.status || grant.status === filter.status))
+      .sort((a, b) => a.expiresAt.localeCompare(b.expiresAt))
+  }
+
+  /**
+   * Get a single grant
+   * @param id The grant ID
+   * @returns Promise<DelegationGrant | null> The grant or null if it does not exist
+   */
+  static async get(id: string): Promise<DelegationGrant | null> {
+    const grants = await readJsonFile<GrantStore>(this.FILENAME, {})
+    return grants[id] || null
+  }
+
+  /**
+   * Active grants whose expiry has passed
+   * @returns Promise<DelegationGrant[]> The grants to remove
+   */
+  static async due(): Promise<DelegationGrant[]> {
+    const now = new Date().toISOString()
+    return (await this.list({ status: "active" })).filter((grant) => grant.expiresAt <= now)
+  }
+
+  /**
+   * Move an active grant's expiry
+   * @param id The grant ID
+   * @param expiresAt The new expiry
+   * @returns Promise<DelegationGrant> The updated grant
+   */
+  static async extend(id: string, expiresAt: string): Promise<DelegationGrant> {
+    const expiry = Date.parse(expiresAt)
+    if (Number.isNaN(expiry) || expiry <= Date.now()) {
+      throw new DelegationError("invalid_request", "Expiry must be a valid time in the future")
+    }
+
+    return this.update(id, (grant) => {
+      if (grant.status !== "active") {
+        throw new DelegationError("invalid_request", `Grant is already ${grant.status}`)
+      }
+      return { ...grant, expiresAt: new Date(expiry).toISOString(), attempts: undefined, lastError: undefined }
+    })
+  }
+
+  /**
+   * Mark a grant as ended
+   * @param id The grant ID
+   * @param status Whether it expired or was revoked
+   * @returns Promise<DelegationGrant> The updated grant
+   */
+  static async end(id: string, status: Exclude<DelegationGrantStatus, "active">): Promise<DelegationGrant> {
+    return this.update(id, (grant) => ({ ...grant, status, endedAt: new Date().toISOString(), lastError: undefined }))
+  }
+
+  /**
+   * Record a failed attempt to remove an expired delegate; the grant stays active and is retried
+   * @param id The grant ID
+   * @param message Why the removal failed
+   * @returns Promise<DelegationGrant> The updated grant
+   */
+  static async recordFailure(id: string, message: string): Promise<DelegationGrant> {
+    return this.update(id, (grant) => ({ ...grant, attempts: (grant.attempts || 0) + 1, lastError: message }))
+  }
+
+  /**
+   * End the active grant for a delegate that was removed by some other operation
+   * @param userEmail The mailbox
+   * @param delegateEmail The removed delegate
+   * @returns Promise<DelegationGrant[]> The grants that were ended
+   */
+  static async release(userEmail: string, delegateEmail: string): Promise<DelegationGrant[]> {
+    const grants = await readJsonFile<GrantStore>(this.FILENAME, {})
+    const active = Object.keys(grants).filter((id) => this.matches(grants[id], userEmail, delegateEmail))
+    const ended: DelegationGrant[] = []
+    for (let i = 0; i < active.length; i++) {
+      ended.push(await this.end(active[i], "revoked"))
+    }
+    return ended
+  }
+
+  private static async update(id: string, updater: (grant: DelegationGrant) => DelegationGrant): Promise<DelegationGrant> {
+    return updateJsonFile<GrantStore, DelegationGrant>(this.FILENAME, {}, (grants) => {
+      const grant = grants[id]
+      if (!grant) {
+        throw new DelegationError("not_found", `Grant ${id} not found`)
+      }
+      const updated = updater(grant)
+      return { data: { ...grants, [id]: updated }, result: updated }
+    })
+  }
+
+  private static matches(grant: DelegationGrant, userEmail: string, delegateEmail: string): boolean {
+    return (
+      grant.status === "active" &&
+      grant.userEmail === userEmail.toLowerCase() &&
+      grant.delegateEmail === delegateEmail.toLowerCase()
+    )
+  }
+}
@@ -0,0 +1,124 @@
+import { randomUUID } from "crypto"
+import type { DelegationPolicy, PolicyCheck, PolicyEvaluation, PolicyRule } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { evaluatePolicy, validatePolicyRule } from "../lib/policy-engine"
+import { appendJsonLine, readJsonFile, readJsonLines, updateJsonFile } from "./data-store"
+
+const EMPTY_POLICY: DelegationPolicy = { version: 0, updatedAt: "", updatedBy: "", rules: [] }
+
+/**
+ * The delegation policy every add and remove is checked against.
+ * Each save creates a new version; earlier versions are kept so a change can be reviewed or rolled back.
+ */
+export class DelegationPolicyStore {
+  private static readonly FILENAME = "delegation-policy.json"
+  private static readonly HISTORY_FILE = "delegation-policy-history.jsonl"
+
+  /**
+   * Get the current policy
+   * @returns Promise<DelegationPolicy> The policy; version 0 with no rules until one is saved
+   */
+  static async get(): Promise<DelegationPolicy> {
+    return readJsonFile<DelegationPolicy>(this.FILENAME, EMPTY_POLICY)
+  }
+
+  /**
+   * Save a new version of the policy
+   * @param rules The complete set of rules; rules without an ID are given one
+   * @param updatedBy Who made the change
+   * @param baseVersion The version the change was based on; the save fails if the policy has moved on since
+   * @returns Promise<DelegationPolicy> The new version
+   * @throws DelegationError When a rule is invalid or the policy was changed concurrently
+   */
+  static async save(rules: Array<Partial<PolicyRule>>, updatedBy: string, baseVersion?: number): Promise<DelegationPolicy> {
+    const normalized = this.validate(rules)
+    const saved = await updateJsonFile<DelegationPolicy, DelegationPolicy>(this.FILENAME, EMPTY_POLICY, (current) => {
+      if (baseVersion !== undefined && baseVersion !== current.version) {
+        throw new DelegationError(
+          "invalid_request",
+          `The policy was changed to version ${current.version} since version ${baseVersion} was loaded; reload and try again`,
+        )
+      }
+      const next: DelegationPolicy = {
+        version: current.version + 1,
+        updatedAt: new Date().toISOString(),
+        updatedBy,
+        rules: normalized,
+      }
+      return { data: next, result: next }
+    })
+
+    await appendJsonLine(this.HISTORY_FILE, saved)
+    return saved
+  }
+
+  /**
+   * List earlier versions of the policy, newest first
+   * @returns Promise<DelegationPolicy[]> Every saved version
+   */
+  static async versions(): Promise<DelegationPolicy[]> {
+    const history = await readJsonLines<DelegationPolicy>(this.HISTORY_FILE)
+    return history.sort((a, b) => b.version - a.version)
+  }
+
+  /**
+   * Get a saved version of the policy
+   * @param version The version number
+   * @returns Promise<DelegationPolicy | null> The version or null if it was never saved
+   */
+  static async getVersion(version: number): Promise<DelegationPolicy | null> {
+    const history = await this.versions()
+    return history.find((policy) => policy.version === version) || null
+  }
+
+  /**
+   * Build an unsaved policy from draft rules so it can be tried out with a dry run
+   * @param rules The draft rules
+   * @returns Promise<DelegationPolicy> The draft, numbered as the next version
+   * @throws DelegationError When a rule is invalid
+   */
+  static async draft(rules: Array<Partial<PolicyRule>>): Promise<DelegationPolicy> {
+    const current = await this.get()
+    return { version: current.version + 1, updatedAt: new Date().toISOString(), updatedBy: "draft", rules: this.validate(rules) }
+  }
+
+  /**
+   * Evaluate a change against the current policy
+   * @param check The change
+   * @param currentDelegates The mailbox's delegates, if already known
+   * @returns Promise<PolicyEvaluation> Whether the change is allowed
+   */
+  static async evaluate(check: PolicyCheck, currentDelegates?: string[]): Promise<PolicyEvaluation> {
+    return evaluatePolicy(await this.get(), check, currentDelegates)
+  }
+
+  private static validate(rules: Array<Partial<PolicyRule>>): PolicyRule[] {
+    if (!Array.isArray(rules)) {
+      throw new DelegationError("invalid_request", "rules must be an array")
+    }
+
+    const problems: string[] = []
+    rules.forEach((rule, index) => {
+      validatePolicyRule(rule).forEach((problem) => problems.push(`Rule ${index + 1}: ${problem}`))
+    })
+    if (problems.length > 0) {
+      throw new DelegationError("invalid_request", problems.join("; "), problems)
+    }
+    return rules.map((rule) => this.normalize(rule))
+  }
+
+  private static normalize(rule: Partial<PolicyRule>): PolicyRule {
+    const list = (values?: string[]) => values?.map((value) => value.trim().toLowerCase()).filter(Boolean)
+    return {
+      id: rule.id || randomUUID(),
+      type: rule.type as PolicyRule["type"],
+      description: rule.description?.trim() || undefined,
+      mailboxPattern: rule.mailboxPattern?.trim().toLowerCase() || undefined,
+      domains: list(rule.domains),
+      maxDelegates: rule.maxDelegates,
+      mailboxes: list(rule.mailboxes),
+      operations: rule.operations,
+      approvers: list(rule.approvers),
+    }
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Declarative delegation: a YAML or JSON file maps each mailbox to the exact set of delegates it should have.
+ * planDesiredState diffs that file against Gmail and applyPlan makes the changes.
+ */
+
+import { parse } from "yaml"
+import { z } from "zod"
+import type { DelegateOperation, DelegationPlan, DesiredState, MailboxPlan, OperationResult } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { type DelegateListCache, connectGmailClient, listDelegates, processDelegateOperation } from "./gmail-integration"
+import type { RequestCredential } from "./request-credential"
+
+const PLAN_CONCURRENCY = 4
+
+const emailSchema = z.string().trim().toLowerCase().email()
+
+// A mailbox maps either directly to a list of delegates or to { delegates: [...] }
+const mailboxSchema = z.union([
+  z.array(emailSchema),
+  z.object({ delegates: z.array(emailSchema).default([]) }).transform((mailbox) => mailbox.delegates),
+  z.null().transform(() => [] as string[]),
+])
+
+const desiredStateSchema = z.object({
+  version: z.literal(1).default(1),
+  prune: z.boolean().default(true),
+  mailboxes: z.record(z.string(), mailboxSchema),
+})
+
+/**
+ * Parse and validate a desired-state document. JSON is accepted as a subset of YAML.
+ * @param content The YAML or JSON text
+ * @returns DesiredState The normalized state, with addresses lowercased and de-duplicated
+ * @throws DelegationError When the document is malformed
+ */
+export function parseDesiredState(content: string): DesiredState {
+  let document: unknown
+  try {
+    document = parse(content)
+  } catch (error: any) {
+    throw new DelegationError("invalid_request", `Desired state is not valid YAML or JSON: ${error.message}`)
+  }
+
+  const parsed = desiredStateSchema.safeParse(document)
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    throw new DelegationError("invalid_request", `Invalid desired state: ${problems.join("; ")}`, problems)
+  }
+
+  const mailboxes: Record<string, string[]> = {}
+  const problems: string[] = []
+  Object.keys(parsed.data.mailboxes).forEach((mailbox) => {
+    const key = mailbox.trim().toLowerCase()
+    if (!emailSchema.safeParse(key).success) {
+      problems.push(`mailboxes.${mailbox}: Invalid email`)
+      return
+    }
+    const delegates = parsed.data.mailboxes[mailbox].filter((delegate, index, all) => all.indexOf(delegate) === index)
+    if (delegates.indexOf(key) !== -1) {
+      problems.push(`mailboxes.${mailbox}: a mailbox cannot be its own delegate`)
+    }
+    mailboxes[key] = delegates
+  })
+
+  if (problems.length > 0) {
+    throw new DelegationError("invalid_request", `Invalid desired state: ${problems.join("; ")}`, problems)
+  }
+
+  return { version: 1, prune: parsed.data.prune, mailboxes }
+}
+
+/**
+ * Compare the desired state with the delegates currently set in Gmail
+ * @param state The desired state
+ * @param requestCredential The credential to list delegates with
+ * @returns Promise<DelegationPlan> The changes needed per mailbox
+ */
+export async function planDesiredState(state: DesiredState, requestCredential: RequestCredential): Promise<DelegationPlan> {
+  const mailboxes = Object.keys(state.mailboxes)
+  const plans: MailboxPlan[] = new Array(mailboxes.length)
+
+  let next = 0
+  const worker = async () => {
+    while (next < mailboxes.length) {
+      const index = next++
+      plans[index] = await planMailbox(mailboxes[index], state.mailboxes[mailboxes[index]], state.prune, requestCredential)
+    }
+  }
+
+  const workers = []
+  for (let i = 0; i < Math.min(PLAN_CONCURRENCY, mailboxes.length); i++) {
+    workers.push(worker())
+  }
+  await Promise.all(workers)
+
+  return {
+    createdAt: new Date().toISOString(),
+    prune: state.prune,
+    mailboxes: plans,
+    totals: {
+      add: plans.reduce((sum, plan) => sum + plan.add.length, 0),
+      remove: plans.reduce((sum, plan) => sum + plan.remove.length, 0),
+      unchanged: plans.filter((plan) => !plan.error && plan.add.length === 0 && plan.remove.length === 0).length,
+      errors: plans.filter((plan) => plan.error).length,
+    },
+  }
+}
+
+/**
+ * Plan a single mailbox
+ */
+async function planMailbox(
+  mailbox: string,
+  desired: string[],
+  prune: boolean,
+  requestCredential: RequestCredential,
+): Promise<MailboxPlan> {
+  try {
+    const gmail = await connectGmailClient(requestCredential.credential, mailbox)
+    const listResult = await listDelegates(gmail)
+    if (!listResult.success) {
+      return { mailbox, current: [], desired, add: [], remove: [], error: listResult.message, errorCode: listResult.errorCode }
+    }
+
+    const current = (listResult.delegates || [])
+      .map((delegate) => (delegate.delegateEmail || "").toLowerCase())
+      .filter(Boolean)
+
+    return {
+      mailbox,
+      current,
+      desired,
+      add: desired.filter((delegate) => current.indexOf(delegate) === -1),
+      remove: prune ? current.filter((delegate) => desired.indexOf(delegate) === -1) : [],
+    }
+  } catch (error: any) {
+    return {
+      mailbox,
+      current: [],
+      desired,
+      add: [],
+      remove: [],
+      error: error.message || "Could not list delegates",
+      errorCode: error instanceof DelegationError ? error.code : "unknown",
+    }
+  }
+}
+
+/**
+ * Flatten a plan into delegate operations, removals first so delegate limits are not hit mid-apply
+ * @param plan The plan
+ * @returns DelegateOperation[] The operations to run
+ */
+export function planToOperations(plan: DelegationPlan): DelegateOperation[] {
+  const operations: DelegateOperation[] = []
+  plan.mailboxes.forEach((mailbox) => {
+    mailbox.remove.forEach((delegateEmail) => {
+      operations.push({ operation: "remove", userEmail: mailbox.mailbox, delegateEmail })
+    })
+    mailbox.add.forEach((delegateEmail) => {
+      operations.push({ operation: "add", userEmail: mailbox.mailbox, delegateEmail })
+    })
+  })
+  return operations
+}
+
+/**
+ * Execute a plan one operation at a time
+ * @param plan The plan to execute
+ * @param requestCredential The credential to act with
+ * @param onResult Called after each operation, e.g. to print progress
+ * @returns Promise<OperationResult[]> The result of every operation
+ */
+export async function applyPlan(
+  plan: DelegationPlan,
+  requestCredential: RequestCredential,
+  onResult?: (result: OperationResult) => void,
+): Promise<OperationResult[]> {
+  const results: OperationResult[] = []
+  const delegateCache: DelegateListCache = new Map()
+
+  const operations = planToOperations(plan)
+  for (let i = 0; i < operations.length; i++) {
+    const op = operations[i]
+    const result = (await processDelegateOperation(
+      op.operation,
+      op.userEmail,
+      op.delegateEmail,
+      requestCredential,
+      "batch",
+      { delegateCache, reason: "Desired-state apply" },
+    )) as OperationResult
+    results.push(result)
+    onResult?.(result)
+  }
+
+  return results
+}
+
+/**
+ * Render a plan as a human-readable diff, suitable for a pull request comment
+ * @param plan The plan
+ * @returns string The rendered plan
+ */
+export function formatPlan(plan: DelegationPlan): string {
+  const lines: string[] = []
+
+  plan.mailboxes.forEach((mailbox) => {
+    if (mailbox.error) {
+      lines.push(`! ${mailbox.mailbox}: ${mailbox.error}`)
+      return
+    }
+    if (mailbox.add.length === 0 && mailbox.remove.length === 0) {
+      return
+    }
+    lines.push(mailbox.mailbox)
+    mailbox.add.forEach((delegate) => lines.push(`  + ${delegate}`))
+    mailbox.remove.forEach((delegate) => lines.push(`  - ${delegate}`))
+  })
+
+  const { totals } = plan
+  if (totals.add === 0 && totals.remove === 0) {
+    lines.push("No changes. Delegation matches the desired state.")
+  } else {
+    lines.push(`Plan: ${totals.add} to add, ${totals.remove} to remove, ${totals.unchanged} mailboxes unchanged.`)
+  }
+  if (totals.errors > 0) {
+    lines.push(`${totals.errors} mailboxes could not be read.`)
+  }
+
+  return lines.join("\n")
+}
@@ -0,0 +1,158 @@
+import { google, type admin_directory_v1 } from "googleapis"
+import type { CachedDirectoryLookup } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { CredentialVault } from "./credential-vault"
+import { toDelegationError } from "./gmail-integration"
+
+/**
+ * Scopes the directory credential must be granted in the Workspace domain-wide delegation settings
+ */
+export const DIRECTORY_SCOPES = [
+  "https://www.googleapis.com/auth/admin.directory.group.member.readonly",
+  "https://www.googleapis.com/auth/admin.directory.user.readonly",
+]
+
+// Shared across route bundles so a batch resolves each group and user once
+const cache: Map<string, CachedDirectoryLookup> = (globalThis.__delegateEaseDirectoryCache ||= new Map())
+
+/**
+ * Looks up Google group membership, org units and the domain's users with the Admin SDK Directory API.
+ * Lookups run as DELEGATEEASE_DIRECTORY_ADMIN using the stored credential DELEGATEEASE_DIRECTORY_CREDENTIAL_ID,
+ * and results are cached for a few minutes.
+ */
+export class DirectoryLookup {
+  private static readonly CACHE_TTL_MS = 5 * 60 * 1000
+  private static readonly MAX_ENTRIES = 5000
+
+  /**
+   * Whether a directory credential and admin have been configured
+   * @returns boolean True if lookups can be made
+   */
+  static isConfigured(): boolean {
+    return !!process.env.DELEGATEEASE_DIRECTORY_CREDENTIAL_ID && !!process.env.DELEGATEEASE_DIRECTORY_ADMIN
+  }
+
+  /**
+   * Whether a mailbox is a member of a group, directly or through a nested group
+   * @param groupEmail The group's email address
+   * @param mailbox The mailbox
+   * @returns Promise<boolean> True if the mailbox is a member
+   * @throws DelegationError When the directory is not configured or cannot be read
+   */
+  static async isGroupMember(groupEmail: string, mailbox: string): Promise<boolean> {
+    return this.cached(`group:${groupEmail}:${mailbox}`, async () => {
+      const admin = await this.client()
+      try {
+        const response = await admin.members.hasMember({ groupKey: groupEmail, memberKey: mailbox })
+        return !!response.data.isMember
+      } catch (error: any) {
+        // The Directory API answers 404 for a member outside the domain, and 400 for an address it does not know
+        if (error?.code === 404 || error?.code === 400) {
+          return false
+        }
+        throw toDelegationError(error, `Could not check whether ${mailbox} is in ${groupEmail}`)
+      }
+    })
+  }
+
+  /**
+   * Get the org unit a mailbox's user belongs to
+   * @param mailbox The mailbox
+   * @returns Promise<string> The org unit path, e.g. /Regional/EMEA
+   * @throws DelegationError When the directory is not configured or the user cannot be read
+   */
+  static async orgUnitPath(mailbox: string): Promise<string> {
+    return this.cached(`ou:${mailbox}`, async () => {
+      const admin = await this.client()
+      try {
+        const response = await admin.users.get({ userKey: mailbox, projection: "basic" })
+        return response.data.orgUnitPath || "/"
+      } catch (error: any) {
+        throw toDelegationError(error, `Could not look up the org unit of ${mailbox}`)
+      }
+    })
+  }
+
+  /**
+   * List the primary addresses of every active user in the domain
+   * @param limit The most addresses to return
+   * @returns Promise<string[]> The addresses, in directory order
+   * @throws DelegationError When the directory is not configured or cannot be read
+   */
+  static async listMailboxes(limit: number): Promise<string[]> {
+    return this.cached(`users:${limit}`, async () => {
+      const admin = await this.client()
+      const mailboxes: string[] = []
+      let pageToken: string | undefined
+      try {
+        do {
+          const response = await admin.users.list({
+            customer: "my_customer",
+            projection: "basic",
+            maxResults: 500,
+            pageToken,
+          })
+          ;(response.data.users || []).forEach((user) => {
+            if (user.primaryEmail && !user.suspended && !user.archived) {
+              mailboxes.push(user.primaryEmail.toLowerCase())
+            }
+          })
+          pageToken = response.data.nextPageToken || undefined
+        } while (pageToken && mailboxes.length < limit)
+      } catch (error: any) {
+        throw toDelegationError(error, "Could not list the users of the domain")
+      }
+      return mailboxes.slice(0, limit)
+    })
+  }
+
+  /**
+   * Forget every cached lookup, e.g. after group membership changed
+   */
+  static clear(): void {
+    cache.clear()
+  }
+
+  private static async client(): Promise<admin_directory_v1.Admin> {
+    const credentialId = process.env.DELEGATEEASE_DIRECTORY_CREDENTIAL_ID
+    const subject = process.env.DELEGATEEASE_DIRECTORY_ADMIN
+    if (!credentialId || !subject) {
+      throw new DelegationError(
+        "invalid_request",
+        "Group and OU scopes need DELEGATEEASE_DIRECTORY_CREDENTIAL_ID and DELEGATEEASE_DIRECTORY_ADMIN to be set",
+      )
+    }
+
+    const serviceAccount = await CredentialVault.get(credentialId)
+    const auth = new google.auth.JWT(
+      serviceAccount.client_email,
+      undefined,
+      serviceAccount.private_key,
+      DIRECTORY_SCOPES,
+      subject,
+    )
+    return google.admin({ version: "directory_v1", auth })
+  }
+
+  private static cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const now = Date.now()
+    const entry = cache.get(key)
+    if (entry && entry.expiresAt > now) {
+      return entry.value
+    }
+
+    const value = load()
+    cache.set(key, { value, expiresAt: now + this.CACHE_TTL_MS })
+    // Failed lookups are not cached so the next check tries again
+    value.catch(() => {
+      if (cache.get(key)?.value === value) cache.delete(key)
+    })
+
+    while (cache.size > this.MAX_ENTRIES) {
+      const oldest = cache.keys().next().value
+      if (oldest === undefined) break
+      cache.delete(oldest)
+    }
+    return value
+  }
+}
@@ -0,0 +1,402 @@
+import { randomUUID } from "crypto"
+import type { DriftBaseline, DriftCheckSummary, DriftEvent, DriftRuntime, OperationResult } from "../types"
+import { toCsvField } from "../lib/csv"
+import { DelegationError } from "../lib/delegation-errors"
+import { CredentialVault } from "./credential-vault"
+import { appendJsonLine, readJsonFile, readJsonLines, updateJsonFile } from "./data-store"
+import { connectGmailClient, listDelegates, processDelegateOperation } from "./gmail-integration"
+import type { RequestCredential } from "./request-credential"
+
+type BaselineStore = Record<string, DriftBaseline>
+
+// Prevents a slow scheduled run and a manual "check now" of the same mailboxes from overlapping
+const runtime: DriftRuntime = (globalThis.__delegateEaseDrift ||= { running: {} })
+
+/**
+ * Compares the delegates of registered mailboxes with a stored baseline, records drift events and
+ * optionally puts the mailbox back to its baseline
+ */
+export class DriftMonitor {
+  private static readonly BASELINES_FILE = "drift-baselines.json"
+  private static readonly EVENTS_FILE = "drift-events.jsonl"
+  private static readonly DEFAULT_EVENT_LIMIT = 100
+
+  /**
+   * List registered mailboxes and their baselines
+   * @returns Promise<DriftBaseline[]> The baselines, sorted by mailbox
+   */
+  static async listBaselines(): Promise<DriftBaseline[]> {
+    const baselines = await readJsonFile<BaselineStore>(this.BASELINES_FILE, {})
+    return Object.keys(baselines)
+      .sort()
+      .map((mailbox) => baselines[mailbox])
+  }
+
+  /**
+   * Register a mailbox for drift detection. Without explicit delegates, the current delegates become the baseline.
+   * @param mailbox The mailbox to watch
+   * @param credentialId The stored credential the scheduler checks the mailbox with
+   * @param options Whether to auto-remediate, and an explicit baseline
+   * @returns Promise<DriftBaseline> The stored baseline
+   */
+  static async register(
+    mailbox: string,
+    credentialId: string,
+    options: { autoRemediate?: boolean; delegates?: string[] } = {},
+  ): Promise<DriftBaseline> {
+    const key = mailbox.trim().toLowerCase()
+    const delegates = options.delegates
+      ? this.normalize(options.delegates)
+      : await this.readDelegates(key, await this.credentialFor(credentialId))
+
+    const now = new Date().toISOString()
+    return updateJsonFile<BaselineStore, DriftBaseline>(this.BASELINES_FILE, {}, (baselines) => {
+      const baseline: DriftBaseline = {
+        mailbox: key,
+        delegates,
+        credentialId,
+        autoRemediate: options.autoRemediate ?? false,
+        registeredAt: baselines[key]?.registeredAt || now,
+        updatedAt: now,
+      }
+      return { data: { ...baselines, [key]: baseline }, result: baseline }
+    })
+  }
+
+  /**
+   * Change a mailbox's settings, or accept its current delegates as the new baseline
+   * @param mailbox The registered mailbox
+   * @param changes The settings to change
+   * @returns Promise<DriftBaseline> The updated baseline
+   */
+  static async update(
+    mailbox: string,
+    changes: { autoRemediate?: boolean; rebaseline?: boolean },
+  ): Promise<DriftBaseline> {
+    const key = mailbox.trim().toLowerCase()
+    const existing = await this.getBaseline(key)
+
+    const delegates = changes.rebaseline
+      ? await this.readDelegates(key, await this.credentialFor(existing.credentialId))
+      : existing.delegates
+
+    return this.updateBaseline(key, (baseline) => ({
+      ...baseline,
+      delegates,
+      autoRemediate: changes.autoRemediate ?? baseline.autoRemediate,
+      updatedAt: new Date().toISOString(),
+      ...(changes.rebaseline ? { lastStatus: "in_sync" as const, lastError: undefined } : {}),
+    }))
+  }
+
+  /**
+   * Stop watching a mailbox
+   * @param mailbox The registered mailbox
+   */
+  static async unregister(mailbox: string): Promise<void> {
+    const key = mailbox.trim().toLowerCase()
+    await this.getBaseline(key)
+    await updateJsonFile<BaselineStore, void>(this.BASELINES_FILE, {}, (baselines) => {
+      const { [key]: _removed, ...rest } = baselines
+      return { data: rest, result: undefined }
+    })
+  }
+
+  /**
+   * Keep a registered mailbox's baseline in step with a change DelegateEase made, so it is not reported as drift
+   * or reverted by remediation. Mailboxes that are not registered are left alone.
+   * @param mailbox The mailbox that changed
+   * @param operation Whether the delegate was added or removed
+   * @param delegate The delegate
+   */
+  static async recordChange(mailbox: string, operation: "add" | "remove", delegate: string): Promise<void> {
+    const key = mailbox.trim().toLowerCase()
+    const baselines = await readJsonFile<BaselineStore>(this.BASELINES_FILE, {})
+    if (!baselines[key]) {
+      return
+    }
+
+    const normalized = delegate.trim().toLowerCase()
+    await updateJsonFile<BaselineStore, void>(this.BASELINES_FILE, {}, (stored) => {
+      const baseline = stored[key]
+      if (!baseline) {
+        return { data: stored, result: undefined }
+      }
+      const others = baseline.delegates.filter((existing) => existing !== normalized)
+      const delegates = operation === "add" ? this.normalize(others.concat(normalized)) : others
+      const updated = { ...baseline, delegates, updatedAt: new Date().toISOString() }
+      return { data: { ...stored, [key]: updated }, result: undefined }
+    })
+  }
+
+  /**
+   * Check registered mailboxes for drift. Concurrent calls for the same mailboxes share the run already in progress.
+   * @param trigger Whether the scheduler or a user started the check
+   * @param mailbox Limit the check to one mailbox
+   * @returns Promise<DriftCheckSummary> What was found and fixed
+   */
+  static async check(trigger: DriftEvent["trigger"], mailbox?: string): Promise<DriftCheckSummary> {
+    const key = mailbox?.trim().toLowerCase() || ""
+    const scope = key || "*"
+    const inFlight = runtime.running[scope]
+    if (inFlight) {
+      return inFlight
+    }
+
+    const running = this.runCheck(trigger, key || undefined)
+    runtime.running[scope] = running
+    try {
+      return await running
+    } finally {
+      delete runtime.running[scope]
+    }
+  }
+
+  /**
+   * Read recorded drift events, newest first
+   * @param query Optional mailbox filter and limit
+   * @returns Promise<DriftEvent[]> The events
+   */
+  static async events(query: { mailbox?: string; limit?: number } = {}): Promise<DriftEvent[]> {
+    const events = await readJsonLines<DriftEvent>(this.EVENTS_FILE)
+    const mailbox = query.mailbox?.trim().toLowerCase()
+    return events
+      .filter((event) => !mailbox || event.mailbox === mailbox)
+      .reverse()
+      .slice(0, query.limit || this.DEFAULT_EVENT_LIMIT)
+  }
+
+  /**
+   * Render drift events as CSV for export
+   * @param events The events
+   * @returns string CSV with a header row
+   */
+  static toCsv(events: DriftEvent[]): string {
+    const rows = events.map((event) =>
+      [
+        event.timestamp,
+        event.mailbox,
+        event.status,
+        event.trigger,
+        event.unexpected.join(";"),
+        event.missing.join(";"),
+        String(event.remediated),
+        event.error || "",
+      ]
+        .map(toCsvField)
+        .join(","),
+    )
+    return ["timestamp,mailbox,status,trigger,unexpected,missing,remediated,error", ...rows].join("\n") + "\n"
+  }
+
+  private static async runCheck(trigger: DriftEvent["trigger"], mailbox?: string): Promise<DriftCheckSummary> {
+    const baselines = (await this.listBaselines()).filter((baseline) => !mailbox || baseline.mailbox === mailbox)
+    const summary: DriftCheckSummary = { checked: 0, inSync: 0, drifted: 0, errors: 0, remediated: 0, events: [] }
+
+    for (let i = 0; i < baselines.length; i++) {
+      const event = await this.checkMailbox(baselines[i], trigger)
+      if (event === "unregistered") {
+        continue
+      }
+      summary.checked++
+      if (event === "in_sync") {
+        summary.inSync++
+        continue
+      }
+
+      summary.events.push(event)
+      if (event.status === "error") {
+        summary.errors++
+      } else {
+        summary.drifted++
+        if (event.remediated) summary.remediated++
+      }
+    }
+
+    return summary
+  }
+
+  /**
+   * Check one mailbox, returning the recorded event, "in_sync" if it matches its baseline, or "unregistered" if it
+   * stopped being watched during the run
+   */
+  private static async checkMailbox(
+    registered: DriftBaseline,
+    trigger: DriftEvent["trigger"],
+  ): Promise<DriftEvent | "in_sync" | "unregistered"> {
+    const checkedAt = new Date().toISOString()
+
+    let requestCredential: RequestCredential
+    let current: string[]
+    try {
+      requestCredential = await this.credentialFor(registered.credentialId)
+      current = await this.readDelegates(registered.mailbox, requestCredential)
+    } catch (error: any) {
+      if (!(await this.findBaseline(registered.mailbox))) {
+        return "unregistered"
+      }
+      const event = await this.recordEvent({
+        mailbox: registered.mailbox,
+        status: "error",
+        trigger,
+        unexpected: [],
+        missing: [],
+        remediated: false,
+        error: error.message || "Could not list delegates",
+      })
+      await this.recordStatus(registered.mailbox, {
+        lastCheckedAt: checkedAt,
+        lastStatus: "error",
+        lastError: event.error,
+      })
+      return event
+    }
+
+    // Compare with the baseline as it is now: changes made through DelegateEase during the run update it
+    const baseline = await this.findBaseline(registered.mailbox)
+    if (!baseline) {
+      return "unregistered"
+    }
+
+    const unexpected = current.filter((delegate) => baseline.delegates.indexOf(delegate) === -1)
+    const missing = baseline.delegates.filter((delegate) => current.indexOf(delegate) === -1)
+
+    if (unexpected.length === 0 && missing.length === 0) {
+      await this.recordStatus(baseline.mailbox, {
+        lastCheckedAt: checkedAt,
+        lastStatus: "in_sync",
+        lastError: undefined,
+      })
+      return "in_sync"
+    }
+
+    let remediation: OperationResult[] | undefined
+    if (baseline.autoRemediate) {
+      remediation = await this.remediate(baseline.mailbox, unexpected, missing, requestCredential)
+    }
+    const remediated = !!remediation && remediation.every((result) => result.success)
+
+    const event = await this.recordEvent({
+      mailbox: baseline.mailbox,
+      status: "drifted",
+      trigger,
+      unexpected,
+      missing,
+      remediated,
+      remediation,
+    })
+    await this.recordStatus(baseline.mailbox, {
+      lastCheckedAt: checkedAt,
+      lastStatus: remediated ? "in_sync" : "drifted",
+      lastError: undefined,
+    })
+    return event
+  }
+
+  /**
+   * Remove delegates not in the baseline and restore the ones that disappeared.
+   * Approval rules still apply; the drift monitor is not a person who can request changes, so on a mailbox that
+   * requires approval the remediation fails and the drift is left for someone to resolve.
+   */
+  private static async remediate(
+    mailbox: string,
+    unexpected: string[],
+    missing: string[],
+    requestCredential: RequestCredential,
+  ): Promise<OperationResult[]> {
+    const results: OperationResult[] = []
+    for (let i = 0; i < unexpected.length; i++) {
+      results.push(
+        (await processDelegateOperation("remove", mailbox, unexpected[i], requestCredential, "scheduler", {
+          reason: "Drift remediation",
+        })) as OperationResult,
+      )
+    }
+    for (let i = 0; i < missing.length; i++) {
+      results.push(
+        (await processDelegateOperation("add", mailbox, missing[i], requestCredential, "scheduler", {
+          reason: "Drift remediation",
+        })) as OperationResult,
+      )
+    }
+    return results
+  }
+
+  private static async recordEvent(event: Omit<DriftEvent, "id" | "timestamp">): Promise<DriftEvent> {
+    const stored: DriftEvent = { id: randomUUID(), timestamp: new Date().toISOString(), ...event }
+    try {
+      await appendJsonLine(this.EVENTS_FILE, stored)
+    } catch (error) {
+      console.error("Error writing drift event:", error)
+    }
+    return stored
+  }
+
+  private static async readDelegates(mailbox: string, requestCredential: RequestCredential): Promise<string[]> {
+    const gmail = await connectGmailClient(requestCredential.credential, mailbox)
+    const listResult = await listDelegates(gmail)
+    if (!listResult.success) {
+      throw new DelegationError(listResult.errorCode || "unknown", listResult.message, listResult.details)
+    }
+    return this.normalize((listResult.delegates || []).map((delegate) => delegate.delegateEmail || ""))
+  }
+
+  private static async credentialFor(credentialId: string): Promise<RequestCredential> {
+    const serviceAccount = await CredentialVault.get(credentialId)
+    return {
+      credential: serviceAccount,
+      actor: `drift-monitor (${serviceAccount.client_email})`,
+      credentialId,
+    }
+  }
+
+  private static async findBaseline(mailbox: string): Promise<DriftBaseline | null> {
+    const baselines = await readJsonFile<BaselineStore>(this.BASELINES_FILE, {})
+    return baselines[mailbox] || null
+  }
+
+  private static async getBaseline(mailbox: string): Promise<DriftBaseline> {
+    const baseline = await this.findBaseline(mailbox)
+    if (!baseline) {
+      throw new DelegationError("not_found", `Mailbox ${mailbox} is not registered for drift detection`)
+    }
+    return baseline
+  }
+
+  private static async updateBaseline(
+    mailbox: string,
+    updater: (baseline: DriftBaseline) => DriftBaseline,
+  ): Promise<DriftBaseline> {
+    return updateJsonFile<BaselineStore, DriftBaseline>(this.BASELINES_FILE, {}, (baselines) => {
+      const baseline = baselines[mailbox]
+      if (!baseline) {
+        throw new DelegationError("not_found", `Mailbox ${mailbox} is not registered for drift detection`)
+      }
+      const updated = updater(baseline)
+      return { data: { ...baselines, [mailbox]: updated }, result: updated }
+    })
+  }
+
+  /**
+   * Store the outcome of a check; a mailbox unregistered while it was being checked stays unregistered
+   */
+  private static async recordStatus(
+    mailbox: string,
+    status: Pick<DriftBaseline, "lastCheckedAt" | "lastStatus" | "lastError">,
+  ): Promise<void> {
+    await updateJsonFile<BaselineStore, void>(this.BASELINES_FILE, {}, (baselines) => {
+      const baseline = baselines[mailbox]
+      if (!baseline) {
+        return { data: baselines, result: undefined }
+      }
+      return { data: { ...baselines, [mailbox]: { ...baseline, ...status } }, result: undefined }
+    })
+  }
+
+  private static normalize(delegates: string[]): string[] {
+    return delegates
+      .map((delegate) => delegate.trim().toLowerCase())
+      .filter((delegate, index, all) => delegate && all.indexOf(delegate) === index)
+      .sort()
+  }
+}
@@ -0,0 +1,46 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto"
+
+const ALGORITHM = "aes-256-gcm"
+const IV_LENGTH = 12
+
+/**
+ * Derive the 256-bit encryption key from DELEGATEEASE_MASTER_KEY
+ * @returns Buffer The key used for encrypting data at rest
+ */
+function getMasterKey(): Buffer {
+  const secret = process.env.DELEGATEEASE_MASTER_KEY
+  if (!secret) {
+    throw new Error("DELEGATEEASE_MASTER_KEY must be set to store credentials and tokens")
+  }
+  return createHash("sha256").update(secret).digest()
+}
+
+/**
+ * Encrypt a string with the master key
+ * @param plaintext The value to encrypt
+ * @returns string The encrypted value as iv.authTag.ciphertext in base64
+ */
+export function encrypt(plaintext: string): string {
+  const iv = randomBytes(IV_LENGTH)
+  const cipher = createCipheriv(ALGORITHM, getMasterKey(), iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, "utf-8"), cipher.final()])
+  const authTag = cipher.getAuthTag()
+
+  return [iv, authTag, ciphertext].map((part) => part.toString("base64")).join(".")
+}
+
+/**
+ * Decrypt a value produced by encrypt()
+ * @param payload The encrypted value
+ * @returns string The original plaintext
+ */
+export function decrypt(payload: string): string {
+  const [iv, authTag, ciphertext] = payload.split(".").map((part) => Buffer.from(part, "base64"))
+  if (!iv || !authTag || !ciphertext) {
+    throw new Error("Encrypted value is malformed")
+  }
+
+  const decipher = createDecipheriv(ALGORITHM, getMasterKey(), iv)
+  decipher.setAuthTag(authTag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf-8")
+}
@@ -0,0 +1,25 @@
+import { listFilters } from "./gmail-integration"
+import type { MailboxCheck } from "./mailbox-scan"
+
+/**
+ * Flags mailboxes with a filter that forwards outside the organisation; run with MailboxScan.scan.
+ * Such filters keep working after auto-forwarding is turned off, so the forwarding check does not find them.
+ */
+export const FILTER_CHECK: MailboxCheck = {
+  operation: "filter-list",
+  setting: "filters",
+  read: async (gmail, mailbox) => {
+    const filters = await listFilters(gmail, mailbox)
+    // Only forwarding filters are reported, to keep domain-wide scans small
+    const forwarding = filters.filter((filter) => filter.action.forward)
+    const external = forwarding.filter((filter) => filter.forwardsExternally).length
+    return {
+      message:
+        external > 0
+          ? `${mailbox} has ${external} filter${external === 1 ? "" : "s"} forwarding outside the organisation`
+          : `${mailbox} has ${filters.length} filters and none forward outside the organisation`,
+      filters: forwarding,
+    }
+  },
+  isFlagged: (result) => !!result.filters?.some((filter) => filter.forwardsExternally),
+}
@@ -0,0 +1,19 @@
+import { describeForwarding, getForwardingSettings } from "./gmail-integration"
+import type { MailboxCheck } from "./mailbox-scan"
+
+/**
+ * Flags mailboxes that auto-forward outside the organisation; run with MailboxScan.scan
+ */
+export const FORWARDING_CHECK: MailboxCheck = {
+  operation: "forwarding-list",
+  setting: "forwarding settings",
+  read: async (gmail, mailbox) => {
+    const forwarding = await getForwardingSettings(gmail, mailbox)
+    return {
+      delegateEmail: forwarding.autoForwarding.enabled ? forwarding.autoForwarding.emailAddress : undefined,
+      message: describeForwarding(mailbox, forwarding),
+      forwarding,
+    }
+  },
+  isFlagged: (result) => !!result.forwarding?.forwardsExternally,
+}
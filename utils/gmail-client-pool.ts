@@ -0,0 +1,81 @@
+import type { gmail_v1, Auth } from "googleapis"
+import type { PooledGmailClient } from "../types"
+
+// Shared across route bundles so batch jobs and API requests reuse the same tokens
+const pool: Map<string, PooledGmailClient> = (globalThis.__delegateEaseGmailPool ||= new Map())
+
+/**
+ * Caches authorized Gmail clients per (service account, impersonated mailbox) until their access token expires.
+ * A warm entry skips token minting and the getProfile probe entirely.
+ * OAuth clients are not pooled because each request carries its own session.
+ */
+export class GmailClientPool {
+  private static readonly MAX_ENTRIES = 1000
+  // Treat tokens this close to expiry as cold so they are not used mid-request after expiring
+  private static readonly EXPIRY_MARGIN_MS = 60 * 1000
+
+  /**
+   * Get a cached client whose access token is still valid
+   * @param serviceAccount The service account JSON object
+   * @param subject The impersonated mailbox
+   * @returns gmail_v1.Gmail | null The client, or null if none is cached or its token has expired
+   */
+  static get(serviceAccount: any, subject: string): gmail_v1.Gmail | null {
+    const key = this.key(serviceAccount, subject)
+    const entry = pool.get(key)
+    if (!entry) {
+      return null
+    }
+
+    // A rotated key invalidates clients minted with the previous one
+    const expiry = entry.auth.credentials.expiry_date
+    if (entry.privateKeyId !== serviceAccount.private_key_id || !expiry || expiry - this.EXPIRY_MARGIN_MS < Date.now()) {
+      pool.delete(key)
+      return null
+    }
+
+    // Re-insert so the most recently used entries are evicted last
+    pool.delete(key)
+    pool.set(key, entry)
+    return entry.gmail
+  }
+
+  /**
+   * Cache a client after its token was obtained and the mailbox was verified
+   * @param serviceAccount The service account JSON object
+   * @param subject The impersonated mailbox
+   * @param auth The JWT client holding the access token
+   * @param gmail The Gmail client built on that JWT client
+   */
+  static put(serviceAccount: any, subject: string, auth: Auth.JWT, gmail: gmail_v1.Gmail): void {
+    const key = this.key(serviceAccount, subject)
+    pool.delete(key)
+    pool.set(key, { auth, gmail, privateKeyId: serviceAccount.private_key_id })
+
+    while (pool.size > this.MAX_ENTRIES) {
+      const oldest = pool.keys().next().value
+      if (oldest === undefined) break
+      pool.delete(oldest)
+    }
+  }
+
+  /**
+   * Drop a cached client, e.g. after the mailbox rejected it
+   * @param serviceAccount The service account JSON object
+   * @param subject The impersonated mailbox
+   */
+  static evict(serviceAccount: any, subject: string): void {
+    pool.delete(this.key(serviceAccount, subject))
+  }
+
+  /**
+   * Drop every cached client
+   */
+  static clear(): void {
+    pool.clear()
+  }
+
+  private static key(serviceAccount: any, subject: string): string {
+    return `${serviceAccount.client_email}|${subject.toLowerCase()}`
+  }
+}
@@ -4,68 +4,193 @@
  */
 
 import type { OperationResult } from "../types/delegates"
-import { google, type gmail_v1 } from "googleapis"
-import fs from "fs"
-import path from "path"
-import os from "os"
+import type {
+  ActivityEntry,
+  ActivityInverse,
+  AutoForwarding,
+  BatchOperation,
+  DelegationErrorCode,
+  FilterCriteria,
+  FilterDefinition,
+  FilterOperation,
+  ForwardingAddress,
+  ForwardingOperation,
+  ForwardingSettings,
+  ImapSettings,
+  MailAccessOperation,
+  MailAccessSettings,
+  MailFilter,
+  PolicyViolation,
+  PopSettings,
+  SendAsAlias,
+  SendAsInput,
+  SendAsOperation,
+  VacationInput,
+  VacationOperation,
+  VacationSettings,
+} from "../types"
+import { google, type gmail_v1, type Auth } from "googleapis"
 import { exec } from "child_process"
 import { promisify } from "util"
-import { ServiceAccountManager } from "./service-account"
+import { ActivityLog } from "./activity-log"
+import { ApprovalRules } from "./approval-rules"
+import { ChangeRequests } from "./change-requests"
+import { DelegationGrants } from "./delegation-grants"
+import { DelegationPolicyStore } from "./delegation-policy"
+import { DriftMonitor } from "./drift"
+import { checkDelegateLimit } from "../lib/policy-engine"
+import { isExternalAddress } from "../lib/internal-domains"
+import type { RequestCredential } from "./request-credential"
+import { DelegationError, classifyGmailError } from "../lib/delegation-errors"
+import { type RetryContext, type RetryStats, wrapGmailClient } from "./gmail-retry"
+import { GmailClientPool } from "./gmail-client-pool"
 
 const execPromise = promisify(exec)
 
 /**
- * Create a Gmail API client
- * @param serviceAccount The service account JSON object
- * @param userEmail The email of the user to impersonate
- * @returns Promise<gmail_v1.Gmail | null> The Gmail API client or null if creation fails
+ * Scopes the service account must be granted in the Workspace domain-wide delegation settings
  */
-export async function createGmailClient(serviceAccount: any, userEmail: string): Promise<gmail_v1.Gmail | null> {
-  try {
-    // Configure Google Auth
-    const auth = new google.auth.JWT(
-      serviceAccount.client_email,
-      undefined,
-      serviceAccount.private_key,
-      [
-        "https://www.googleapis.com/auth/gmail.settings.sharing",
-        "https://www.googleapis.com/auth/gmail.settings.basic",
-        "https://www.googleapis.com/auth/gmail.modify",
-      ],
-      userEmail,
-    )
+export const GMAIL_SCOPES = [
+  "https://www.googleapis.com/auth/gmail.settings.sharing",
+  "https://www.googleapis.com/auth/gmail.settings.basic",
+  "https://www.googleapis.com/auth/gmail.modify",
+]
 
-    // Verify token acquisition
-    try {
-      await auth.getAccessToken()
-    } catch (tokenError: any) {
-      console.error("Error obtaining access token:", tokenError)
-      if (tokenError.response) {
-        console.error("Token error response:", tokenError.response.data)
-      }
-      return null
+/**
+ * Delegate lists fetched during one batch, keyed by lowercased mailbox, so rows for the same mailbox
+ * share a single pre-check
+ */
+export type DelegateListCache = Map<string, Promise<OperationResult>>
+
+/**
+ * Create an authorized Gmail API client, throwing a classified error when it cannot be created.
+ * Service account clients are reused from GmailClientPool while their token is warm.
+ * API calls made through the client retry throttled and transient failures.
+ * @param credential The service account JSON object, or an OAuth2 client for a signed-in admin
+ * @param userEmail The email of the user to impersonate (for OAuth, the signed-in admin's own mailbox)
+ * @param stats Counters for the calls and retries made through the client
+ * @returns Promise<gmail_v1.Gmail> The Gmail API client
+ * @throws DelegationError When the token cannot be obtained or the mailbox cannot be accessed
+ */
+export async function connectGmailClient(
+  credential: any | Auth.OAuth2Client,
+  userEmail: string,
+  stats?: RetryStats,
+): Promise<gmail_v1.Gmail> {
+  const isOAuth = credential instanceof google.auth.OAuth2
+  const context: RetryContext = {
+    userEmail,
+    project: isOAuth
+      ? `oauth:${(credential as Auth.OAuth2Client)._clientId || "unknown"}`
+      : credential.project_id || credential.client_email,
+  }
+
+  // A warm pooled client already has a valid token and a verified mailbox
+  if (!isOAuth) {
+    const pooled = GmailClientPool.get(credential, userEmail)
+    if (pooled) {
+      return wrapGmailClient(pooled, context, stats)
     }
+  }
 
-    // Create the Gmail API client
-    const gmail: gmail_v1.Gmail = google.gmail({ version: "v1", auth })
+  // Configure Google Auth
+  const auth = isOAuth
+    ? (credential as Auth.OAuth2Client)
+    : new google.auth.JWT(
+        credential.client_email,
+        undefined,
+        credential.private_key,
+        GMAIL_SCOPES,
+        userEmail,
+      )
 
-    // Verify API access
-    try {
-      await gmail.users.getProfile({ userId: "me" })
-      return gmail
-    } catch (profileError: any) {
-      console.error("Error accessing Gmail API:", profileError)
-      if (profileError.response) {
-        console.error("Profile error response:", profileError.response.data)
-      }
-      return null
+  // Verify token acquisition
+  try {
+    await auth.getAccessToken()
+  } catch (tokenError: any) {
+    console.error("Error obtaining access token:", tokenError)
+    if (tokenError.response) {
+      console.error("Token error response:", tokenError.response.data)
+    }
+    throw toDelegationError(tokenError, `Could not obtain an access token for ${userEmail}`)
+  }
+
+  // Create the Gmail API client. The built-in gaxios retry is disabled because it ignores Retry-After,
+  // skips POST requests and is invisible to quota tracking; wrapGmailClient retries instead.
+  // GMAIL_API_ROOT_URL points the client at a local fake Gmail server for testing throttling.
+  const client: gmail_v1.Gmail = google.gmail({
+    version: "v1",
+    auth,
+    retry: false,
+    ...(process.env.GMAIL_API_ROOT_URL ? { rootUrl: process.env.GMAIL_API_ROOT_URL } : {}),
+  })
+  const gmail = wrapGmailClient(client, context, stats)
+
+  // Verify API access
+  let profile
+  try {
+    profile = await gmail.users.getProfile({ userId: "me" })
+  } catch (profileError: any) {
+    console.error("Error accessing Gmail API:", profileError)
+    if (profileError.response) {
+      console.error("Profile error response:", profileError.response.data)
     }
+    throw toDelegationError(profileError, `Could not access the Gmail mailbox ${userEmail}`)
+  }
+
+  // An OAuth admin can only manage the delegates of their own mailbox
+  if (isOAuth && profile.data.emailAddress?.toLowerCase() !== userEmail.toLowerCase()) {
+    throw new DelegationError(
+      "unauthorized_client",
+      `OAuth session for ${profile.data.emailAddress} cannot manage mailbox ${userEmail}`,
+    )
+  }
+
+  if (!isOAuth) {
+    GmailClientPool.put(credential, userEmail, auth as Auth.JWT, client)
+  }
+
+  return gmail
+}
+
+/**
+ * Create a Gmail API client
+ * @param credential The service account JSON object, or an OAuth2 client for a signed-in admin
+ * @param userEmail The email of the user to impersonate (for OAuth, the signed-in admin's own mailbox)
+ * @returns Promise<gmail_v1.Gmail | null> The Gmail API client or null if creation fails
+ */
+export async function createGmailClient(
+  credential: any | Auth.OAuth2Client,
+  userEmail: string,
+): Promise<gmail_v1.Gmail | null> {
+  try {
+    return await connectGmailClient(credential, userEmail)
   } catch (error: any) {
     console.error("Error creating Gmail client:", error)
     return null
   }
 }
 
+/**
+ * Wrap a Google error in a DelegationError with its classified cause
+ * @param error The error thrown by googleapis or google-auth-library
+ * @param fallbackMessage The message to use when the error has none
+ * @returns DelegationError The classified error
+ */
+export function toDelegationError(error: any, fallbackMessage: string): DelegationError {
+  if (error instanceof DelegationError) {
+    return error
+  }
+
+  const data = error?.response?.data
+  const description = data?.error_description || data?.error?.message || error?.message
+  return new DelegationError(
+    classifyGmailError(error),
+    description ? `${fallbackMessage}: ${description}` : fallbackMessage,
+    data,
+  )
+}
+
 /**
  * List delegates for a given Gmail client
  * @param gmail The Gmail API client
@@ -95,189 +220,1643 @@ export async function listDelegates(gmail: gmail_v1.Gmail): Promise<OperationRes
       success: false,
       operation: "list",
       message: error.message || "Error listing delegates",
+      errorCode: classifyGmailError(error),
       details: error.response?.data || error.stack,
     }
   }
 }
 
 /**
- * Process a single delegation operation
+ * List delegates for a mailbox, reusing a list already fetched in the same batch
+ * @param gmail The Gmail API client
+ * @param userEmail The mailbox the client impersonates
+ * @param delegateCache The batch's delegate lists, if any
+ * @returns Promise<OperationResult> The result of the operation
+ */
+async function listDelegatesCached(
+  gmail: gmail_v1.Gmail,
+  userEmail: string,
+  delegateCache?: DelegateListCache,
+): Promise<OperationResult> {
+  if (!delegateCache) {
+    return listDelegates(gmail)
+  }
+
+  const key = userEmail.toLowerCase()
+  let pending = delegateCache.get(key)
+  if (!pending) {
+    pending = listDelegates(gmail)
+    delegateCache.set(key, pending)
+  }
+
+  const result = await pending
+  // Failed lists are not cached so the next row for this mailbox tries again
+  if (!result.success && delegateCache.get(key) === pending) {
+    delegateCache.delete(key)
+  }
+  return result
+}
+
+/**
+ * Optional behaviour of a single delegation operation
+ */
+export interface DelegateOperationOptions {
+  /** The batch's delegate lists, shared between rows for the same mailbox */
+  delegateCache?: DelegateListCache
+  /** For adds: when the delegate should be removed again */
+  expiresAt?: string
+  /** Why the change is made; shown to approvers when the mailbox requires approval */
+  reason?: string
+  /** Run the change even if an approval rule covers the mailbox, e.g. once it has been approved */
+  skipApproval?: boolean
+  /** Report what would happen without changing the mailbox, logging, or opening change requests */
+  dryRun?: boolean
+  /** The batch job the operation runs in, recorded so the whole job can be rolled back */
+  jobId?: string
+  /** The activity entry this operation undoes */
+  rollbackOf?: string
+}
+
+/**
+ * Process a single delegation operation and record it in the audit log.
+ * An add with expiresAt is recorded as a time-bound grant that the scheduler removes when it lapses.
+ * Changes to mailboxes covered by an approval rule are queued as change requests instead of running.
+ * A dry run makes the same checks against the mailbox's current delegates and reports the outcome without acting on it.
  */
 export async function processDelegateOperation(
   operation: "add" | "remove" | "list",
   userEmail: string,
-  delegateEmail?: string,
-  serviceAccountFile?: File,
+  delegateEmail: string | undefined,
+  requestCredential: RequestCredential,
+  source: ActivityEntry["source"] = "api",
+  options: DelegateOperationOptions = {},
 ): Promise<OperationResult> {
-  try {
-    if (!serviceAccountFile) {
-      throw new Error("Service account file is required")
+  const { delegateCache, expiresAt } = options
+  const expiryProblem =
+    expiresAt && operation === "add" ? DelegationGrants.validateExpiry(expiresAt, requestCredential) : null
+
+  // The policy is checked before approval so a change that can never run is not queued
+  const evaluation =
+    !expiryProblem && operation !== "list" && delegateEmail
+      ? await DelegationPolicyStore.evaluate({ operation, userEmail, delegateEmail })
+      : null
+
+  if (evaluation?.allowed && operation !== "list" && delegateEmail && !options.skipApproval && !options.dryRun) {
+    const pending = await requestApprovalIfRequired(operation, userEmail, delegateEmail, requestCredential, options)
+    if (pending) {
+      return pending
     }
+  }
+
+  const stats: RetryStats = { requests: 0, retries: 0, throttled: 0 }
+  let result: OperationResult
+  if (expiryProblem) {
+    result = { success: false, userEmail, delegateEmail, operation, message: expiryProblem, errorCode: "invalid_request" }
+  } else if (evaluation && !evaluation.allowed) {
+    result = policyViolationResult(operation, userEmail, delegateEmail, evaluation.policyVersion, evaluation.violations)
+  } else {
+    result = withRetryDetails(
+      await runDelegateOperation(
+        operation,
+        userEmail,
+        delegateEmail,
+        requestCredential.credential,
+        stats,
+        delegateCache,
+        evaluation?.maxDelegates,
+        options.dryRun,
+      ),
+      stats,
+    )
+  }
 
-    // Save the service account file to a temporary location
-    const tempFilePath = await saveServiceAccountToTemp(serviceAccountFile)
+  if (options.dryRun) {
+    const requiresApproval =
+      result.success && operation !== "list" && !options.skipApproval && !!(await ApprovalRules.match(userEmail, operation))
+    return { ...result, dryRun: true, requiresApproval: requiresApproval || undefined }
+  }
 
+  // Enough of the previous state to undo the change: a removed time-bound delegate is restored with its expiry
+  let inverse: ActivityInverse | undefined
+  if (result.success && delegateEmail && operation !== "list") {
+    inverse = { operation: operation === "add" ? "remove" : "add", userEmail, delegateEmail }
+    try {
+      if (operation === "add" && expiresAt) {
+        const grant = await DelegationGrants.record(userEmail, delegateEmail, expiresAt, requestCredential)
+        result.expiresAt = grant.expiresAt
+        result.message = `${result.message} until ${grant.expiresAt}`
+      } else if (operation === "remove") {
+        const released = await DelegationGrants.release(userEmail, delegateEmail)
+        inverse.expiresAt = released.length > 0 ? released[0].expiresAt : undefined
+      }
+    } catch (error) {
+      console.error("Error updating delegation grant:", error)
+    }
     try {
-      // Read service account file
-      const serviceAccount = await ServiceAccountManager.readFile(tempFilePath)
+      await DriftMonitor.recordChange(userEmail, operation, delegateEmail)
+    } catch (error) {
+      console.error("Error updating drift baseline:", error)
+    }
+  }
+
+  await ActivityLog.record({
+    actor: requestCredential.actor,
+    operation,
+    userEmail,
+    delegateEmail,
+    success: result.success,
+    message: result.message,
+    source,
+    expiresAt: result.expiresAt,
+    errorCode: result.errorCode,
+    error: result.success ? undefined : result.details,
+    credentialId: requestCredential.credentialId,
+    jobId: options.jobId,
+    inverse,
+    rollbackOf: options.rollbackOf,
+  })
+
+  return result
+}
+
+/**
+ * Build the failure returned when the delegation policy blocks a change
+ * @param operation The blocked operation
+ * @param userEmail The mailbox
+ * @param delegateEmail The delegate
+ * @param policyVersion The version of the policy that was applied
+ * @param violations The rules the change breaks
+ * @returns OperationResult A policy_violation result listing every violation
+ */
+export function policyViolationResult(
+  operation: "add" | "remove" | "list",
+  userEmail: string,
+  delegateEmail: string | undefined,
+  policyVersion: number,
+  violations: PolicyViolation[],
+): OperationResult {
+  return {
+    success: false,
+    userEmail,
+    delegateEmail,
+    operation,
+    message: `Blocked by delegation policy: ${violations.map((violation) => violation.message).join("; ")}`,
+    errorCode: "policy_violation",
+    details: { policyVersion, violations },
+  }
+}
+
+/**
+ * Queue a change as a change request when an approval rule covers the mailbox
+ * @returns Promise<OperationResult | null> A pending_approval result, or null if the change can run now
+ */
+async function requestApprovalIfRequired(
+  operation: "add" | "remove",
+  userEmail: string,
+  delegateEmail: string,
+  requestCredential: RequestCredential,
+  options: DelegateOperationOptions,
+): Promise<OperationResult | null> {
+  try {
+    const changeRequest = await ChangeRequests.submitIfRequired(
+      {
+        operation,
+        userEmail,
+        delegateEmail,
+        expiresAt: options.expiresAt,
+        reason: options.reason,
+        rollbackOf: options.rollbackOf,
+      },
+      requestCredential,
+    )
+    if (!changeRequest) {
+      return null
+    }
+    return {
+      success: false,
+      userEmail,
+      delegateEmail,
+      operation,
+      message: `Approval required: change request ${changeRequest.id} is waiting for an approver`,
+      errorCode: "pending_approval",
+      expiresAt: changeRequest.expiresAt,
+      details: { changeRequestId: changeRequest.id },
+    }
+  } catch (error: any) {
+    const delegationError = toDelegationError(error, "Failed to create change request")
+    return {
+      success: false,
+      userEmail,
+      delegateEmail,
+      operation,
+      message: delegationError.message,
+      errorCode: delegationError.code,
+      details: delegationError.details,
+    }
+  }
+}
+
+/**
+ * Add retry counters to a result's details when any call had to be retried
+ */
+function withRetryDetails(result: OperationResult, stats: RetryStats): OperationResult {
+  if (stats.retries === 0 && stats.throttled === 0) {
+    return result
+  }
+
+  const details = result.details && typeof result.details === "object" ? result.details : { error: result.details }
+  return {
+    ...result,
+    details: { ...details, requests: stats.requests, retries: stats.retries, throttled: stats.throttled },
+  }
+}
 
-      // Create Gmail client
-      const gmail = await createGmailClient(serviceAccount, userEmail)
-      if (!gmail) {
+/**
+ * Run a single delegation operation against the Gmail API
+ */
+async function runDelegateOperation(
+  operation: "add" | "remove" | "list",
+  userEmail: string,
+  delegateEmail: string | undefined,
+  credential: any,
+  stats: RetryStats,
+  delegateCache?: DelegateListCache,
+  maxDelegates?: number,
+  dryRun?: boolean,
+): Promise<OperationResult> {
+  try {
+    // Create Gmail client
+    const gmail = await connectGmailClient(credential, userEmail, stats)
+
+    if (operation === "list") {
+      return { ...(await listDelegates(gmail)), userEmail }
+    }
+
+    // For add/remove operations, check if delegate exists
+    const listResult = await listDelegatesCached(gmail, userEmail, delegateCache)
+    if (!listResult.success) {
+      return { ...listResult, userEmail, delegateEmail, operation }
+    }
+
+    const delegateExists = listResult.delegates?.some(
+      (d) => d.delegateEmail === delegateEmail
+    )
+
+    if (operation === "add") {
+      if (delegateExists) {
         return {
           success: false,
           userEmail,
           delegateEmail,
           operation,
-          message: "Failed to create Gmail client",
+          message: `Delegate ${delegateEmail} already exists`,
+          errorCode: "already_exists",
         }
       }
 
-      if (operation === "list") {
-        return await listDelegates(gmail)
-      }
-
-      // For add/remove operations, check if delegate exists
-      const listResult = await listDelegates(gmail)
-      if (!listResult.success) {
-        return listResult
-      }
-
-      const delegateExists = listResult.delegates?.some(
-        (d) => d.delegateEmail === delegateEmail
-      )
-
-      if (operation === "add") {
-        if (delegateExists) {
-          return {
-            success: false,
-            userEmail,
-            delegateEmail,
-            operation,
-            message: `Delegate ${delegateEmail} already exists`,
-          }
+      // The policy's delegate limit can only be checked against the mailbox's current delegates
+      if (maxDelegates !== undefined && delegateEmail) {
+        const policy = await DelegationPolicyStore.get()
+        const current = (listResult.delegates || []).map((d) => d.delegateEmail || "")
+        const violation = checkDelegateLimit(policy, { operation, userEmail, delegateEmail }, current, maxDelegates)
+        if (violation) {
+          return policyViolationResult(operation, userEmail, delegateEmail, policy.version, [violation])
         }
+      }
 
+      if (!dryRun) {
         await gmail.users.settings.delegates.create({
           userId: "me",
           requestBody: {
             delegateEmail,
           },
         })
+      }
+
+      // Keep the batch's cached list in step with the change, so later dry-run rows see it too
+      listResult.delegates = [...(listResult.delegates || []), { delegateEmail, verificationStatus: "pending" }]
 
+      return {
+        success: true,
+        userEmail,
+        delegateEmail,
+        operation,
+        message: dryRun ? `Would add delegate ${delegateEmail}` : `Delegate ${delegateEmail} added successfully`,
+      }
+    } else if (operation === "remove") {
+      if (!delegateExists) {
         return {
-          success: true,
+          success: false,
           userEmail,
           delegateEmail,
           operation,
-          message: `Delegate ${delegateEmail} added successfully`,
-        }
-      } else if (operation === "remove") {
-        if (!delegateExists) {
-          return {
-            success: false,
-            userEmail,
-            delegateEmail,
-            operation,
-            message: `Delegate ${delegateEmail} does not exist`,
-          }
+          message: `Delegate ${delegateEmail} does not exist`,
+          errorCode: "not_found",
         }
+      }
 
+      if (!dryRun) {
         await gmail.users.settings.delegates.delete({
           userId: "me",
           delegateEmail,
         })
-
-        return {
-          success: true,
-          userEmail,
-          delegateEmail,
-          operation,
-          message: `Delegate ${delegateEmail} removed successfully`,
-        }
       }
 
+      // Keep the batch's cached list in step with the change, so later dry-run rows see it too
+      listResult.delegates = listResult.delegates?.filter((d) => d.delegateEmail !== delegateEmail)
+
       return {
-        success: false,
+        success: true,
         userEmail,
         delegateEmail,
         operation,
-        message: `Invalid operation: ${operation}`,
-      }
-    } finally {
-      // Clean up the temporary service account file
-      if (fs.existsSync(tempFilePath)) {
-        fs.unlinkSync(tempFilePath)
+        message: dryRun ? `Would remove delegate ${delegateEmail}` : `Delegate ${delegateEmail} removed successfully`,
       }
     }
+
+    return {
+      success: false,
+      userEmail,
+      delegateEmail,
+      operation,
+      message: `Invalid operation: ${operation}`,
+      errorCode: "invalid_request",
+    }
   } catch (error: any) {
     console.error("Operation error:", error)
+    const errorCode = classifyGmailError(error)
+    if (errorCode === "unauthorized_client" || errorCode === "invalid_credentials") {
+      GmailClientPool.evict(credential, userEmail)
+    }
     return {
       success: false,
       userEmail,
       delegateEmail,
       operation,
       message: error.message || "An error occurred during the operation",
-      details: error.stack,
+      errorCode,
+      details: error instanceof DelegationError ? error.details : error.response?.data || error.stack,
     }
   }
 }
 
 /**
- * Process batch delegation operations
+ * List a mailbox's send-as aliases, including its own primary address
+ * @param gmail The Gmail API client
+ * @returns Promise<SendAsAlias[]> The aliases
+ * @throws DelegationError When Gmail refuses the request
  */
-export async function processBatchOperations(
-  operations: Array<{
-    operation: "add" | "remove" | "list"
-    userEmail: string
-    delegateEmail?: string
-  }>,
-  serviceAccountFile?: File,
-): Promise<OperationResult[]> {
-  if (!serviceAccountFile) {
-    return operations.map((op) => ({
-      success: false,
-      userEmail: op.userEmail,
-      delegateEmail: op.delegateEmail,
-      operation: op.operation,
-      message: "Service account file is required",
-    }))
+export async function listSendAs(gmail: gmail_v1.Gmail): Promise<SendAsAlias[]> {
+  try {
+    const response = await gmail.users.settings.sendAs.list({ userId: "me" })
+    return (response.data.sendAs || []).map(toSendAsAlias)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error listing send-as aliases")
+  }
+}
+
+/**
+ * Create a send-as alias. Gmail sends a verification email to addresses it cannot verify itself,
+ * and the alias stays pending until the link in it is followed.
+ * Only service account credentials with domain-wide delegation may create aliases.
+ * @param gmail The Gmail API client
+ * @param input The alias address and its settings
+ * @returns Promise<SendAsAlias> The created alias
+ * @throws DelegationError When Gmail refuses the alias
+ */
+export async function createSendAs(gmail: gmail_v1.Gmail, input: SendAsInput): Promise<SendAsAlias> {
+  try {
+    const response = await gmail.users.settings.sendAs.create({
+      userId: "me",
+      requestBody: { treatAsAlias: true, ...input },
+    })
+    return toSendAsAlias(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, `Error adding send-as address ${input.sendAsEmail}`)
   }
+}
 
-  const results: OperationResult[] = []
+/**
+ * Change the display name, reply-to address, signature or default flag of a send-as alias
+ * @param gmail The Gmail API client
+ * @param sendAsEmail The alias address
+ * @param input The settings to change
+ * @returns Promise<SendAsAlias> The updated alias
+ * @throws DelegationError When the alias does not exist or Gmail refuses the change
+ */
+export async function updateSendAs(
+  gmail: gmail_v1.Gmail,
+  sendAsEmail: string,
+  input: SendAsInput,
+): Promise<SendAsAlias> {
+  try {
+    const { sendAsEmail: _ignored, ...changes } = input
+    const response = await gmail.users.settings.sendAs.patch({ userId: "me", sendAsEmail, requestBody: changes })
+    return toSendAsAlias(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, `Error updating send-as address ${sendAsEmail}`)
+  }
+}
 
-  for (const op of operations) {
-    const result = await processDelegateOperation(
-      op.operation,
-      op.userEmail,
-      op.delegateEmail,
-      serviceAccountFile,
-    )
-    results.push(result)
+/**
+ * Delete a send-as alias
+ * @param gmail The Gmail API client
+ * @param sendAsEmail The alias address
+ * @throws DelegationError When the alias does not exist or Gmail refuses the change
+ */
+export async function deleteSendAs(gmail: gmail_v1.Gmail, sendAsEmail: string): Promise<void> {
+  try {
+    await gmail.users.settings.sendAs.delete({ userId: "me", sendAsEmail })
+  } catch (error: any) {
+    throw toDelegationError(error, `Error removing send-as address ${sendAsEmail}`)
   }
+}
 
-  return results
+/**
+ * Send the verification email for a pending send-as alias again
+ * @param gmail The Gmail API client
+ * @param sendAsEmail The alias address
+ * @throws DelegationError When the alias does not exist or needs no verification
+ */
+export async function verifySendAs(gmail: gmail_v1.Gmail, sendAsEmail: string): Promise<void> {
+  try {
+    await gmail.users.settings.sendAs.verify({ userId: "me", sendAsEmail })
+  } catch (error: any) {
+    throw toDelegationError(error, `Error sending the verification email to ${sendAsEmail}`)
+  }
 }
 
 /**
- * Save a File object to a temporary file
+ * Add, change or remove a send-as alias and record it in the audit log.
+ * Aliases are not delegates, so the delegation policy and approval rules do not apply and the change cannot be
+ * rolled back. A dry run checks the mailbox's current aliases and reports the outcome without acting on it.
  */
-async function saveServiceAccountToTemp(file: File): Promise<string> {
-  // Create a temporary directory if it doesn't exist
-  const tempDir = path.join(os.tmpdir(), "delegateease")
-  if (!fs.existsSync(tempDir)) {
-    fs.mkdirSync(tempDir, { recursive: true })
+export async function processSendAsOperation(
+  operation: SendAsOperation,
+  userEmail: string,
+  sendAsEmail: string,
+  requestCredential: RequestCredential,
+  source: ActivityEntry["source"] = "api",
+  options: { settings?: SendAsInput; dryRun?: boolean; jobId?: string } = {},
+): Promise<OperationResult> {
+  const stats: RetryStats = { requests: 0, retries: 0, throttled: 0 }
+  const base = { userEmail, delegateEmail: sendAsEmail, operation }
+  const settings = { ...options.settings, sendAsEmail }
+  let result: OperationResult
+  try {
+    const gmail = await connectGmailClient(requestCredential.credential, userEmail, stats)
+    const existing = (await listSendAs(gmail)).find(
+      (alias) => alias.sendAsEmail.toLowerCase() === sendAsEmail.toLowerCase(),
+    )
+
+    if (operation === "sendas-add" && existing) {
+      result = {
+        ...base,
+        success: false,
+        message: `Send-as address ${sendAsEmail} already exists`,
+        errorCode: "already_exists",
+      }
+    } else if (operation !== "sendas-add" && !existing) {
+      result = {
+        ...base,
+        success: false,
+        message: `Send-as address ${sendAsEmail} does not exist`,
+        errorCode: "not_found",
+      }
+    } else if (operation === "sendas-remove" && existing?.isPrimary) {
+      result = {
+        ...base,
+        success: false,
+        message: `${sendAsEmail} is the mailbox's primary address and cannot be removed`,
+        errorCode: "invalid_request",
+      }
+    } else if (options.dryRun) {
+      const verb = operation === "sendas-add" ? "add" : operation === "sendas-remove" ? "remove" : "update"
+      result = { ...base, success: true, message: `Would ${verb} send-as address ${sendAsEmail}`, sendAs: existing }
+    } else if (operation === "sendas-add") {
+      const alias = await createSendAs(gmail, settings)
+      result = {
+        ...base,
+        success: true,
+        message:
+          alias.verificationStatus === "pending"
+            ? `Send-as address ${sendAsEmail} added; it can be used once the verification email sent to it is confirmed`
+            : `Send-as address ${sendAsEmail} added successfully`,
+        sendAs: alias,
+      }
+    } else if (operation === "sendas-update") {
+      const alias = await updateSendAs(gmail, sendAsEmail, settings)
+      result = { ...base, success: true, message: `Send-as address ${sendAsEmail} updated successfully`, sendAs: alias }
+    } else {
+      await deleteSendAs(gmail, sendAsEmail)
+      result = { ...base, success: true, message: `Send-as address ${sendAsEmail} removed successfully` }
+    }
+  } catch (error: any) {
+    const delegationError = toDelegationError(error, "An error occurred during the operation")
+    result = {
+      ...base,
+      success: false,
+      message: delegationError.message,
+      errorCode: delegationError.code,
+      details: delegationError.details,
+    }
+  }
+  result = withRetryDetails(result, stats)
+
+  if (options.dryRun) {
+    return { ...result, dryRun: true }
   }
 
-  // Generate a unique filename
-  const tempFilePath = path.join(tempDir, `sa_${Date.now()}_${Math.random().toString(36).substring(7)}.json`)
+  await ActivityLog.record({
+    actor: requestCredential.actor,
+    operation,
+    userEmail,
+    delegateEmail: sendAsEmail,
+    success: result.success,
+    message: result.message,
+    source,
+    errorCode: result.errorCode,
+    error: result.success ? undefined : result.details,
+    credentialId: requestCredential.credentialId,
+    jobId: options.jobId,
+  })
+
+  return result
+}
 
-  // Convert File to Buffer and write to disk
-  const arrayBuffer = await file.arrayBuffer()
-  const buffer = Buffer.from(arrayBuffer)
-  fs.writeFileSync(tempFilePath, buffer)
+/**
+ * List the addresses a mailbox may forward mail to
+ * @param gmail The Gmail API client
+ * @param userEmail The mailbox, to tell which addresses are outside its organisation
+ * @returns Promise<ForwardingAddress[]> The forwarding addresses, verified or pending
+ * @throws DelegationError When Gmail refuses the request
+ */
+export async function listForwardingAddresses(gmail: gmail_v1.Gmail, userEmail: string): Promise<ForwardingAddress[]> {
+  try {
+    const response = await gmail.users.settings.forwardingAddresses.list({ userId: "me" })
+    return (response.data.forwardingAddresses || []).map((address) => ({
+      forwardingEmail: (address.forwardingEmail || "").toLowerCase(),
+      verificationStatus: address.verificationStatus || undefined,
+      external: isExternalAddress(userEmail, address.forwardingEmail || ""),
+    }))
+  } catch (error: any) {
+    throw toDelegationError(error, "Error listing forwarding addresses")
+  }
+}
 
-  return tempFilePath
+/**
+ * Add a forwarding address. Gmail emails a verification link to the address, and it cannot be used for
+ * auto-forwarding until the link is followed. Only service account credentials with domain-wide delegation
+ * may add forwarding addresses.
+ * @param gmail The Gmail API client
+ * @param forwardingEmail The address to forward to
+ * @returns Promise<string | undefined> The verification status of the new address
+ * @throws DelegationError When Gmail refuses the address
+ */
+export async function createForwardingAddress(
+  gmail: gmail_v1.Gmail,
+  forwardingEmail: string,
+): Promise<string | undefined> {
+  try {
+    const response = await gmail.users.settings.forwardingAddresses.create({
+      userId: "me",
+      requestBody: { forwardingEmail },
+    })
+    return response.data.verificationStatus || undefined
+  } catch (error: any) {
+    throw toDelegationError(error, `Error adding forwarding address ${forwardingEmail}`)
+  }
+}
+
+/**
+ * Delete a forwarding address
+ * @param gmail The Gmail API client
+ * @param forwardingEmail The address
+ * @throws DelegationError When the address does not exist or Gmail refuses the change
+ */
+export async function deleteForwardingAddress(gmail: gmail_v1.Gmail, forwardingEmail: string): Promise<void> {
+  try {
+    await gmail.users.settings.forwardingAddresses.delete({ userId: "me", forwardingEmail })
+  } catch (error: any) {
+    throw toDelegationError(error, `Error removing forwarding address ${forwardingEmail}`)
+  }
+}
+
+/**
+ * Get a mailbox's auto-forwarding setting
+ * @param gmail The Gmail API client
+ * @returns Promise<AutoForwarding> Whether auto-forwarding is on, where to, and what happens to the mailbox's copy
+ * @throws DelegationError When Gmail refuses the request
+ */
+export async function getAutoForwarding(gmail: gmail_v1.Gmail): Promise<AutoForwarding> {
+  try {
+    const response = await gmail.users.settings.getAutoForwarding({ userId: "me" })
+    return toAutoForwarding(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error reading the auto-forwarding setting")
+  }
+}
+
+/**
+ * Turn auto-forwarding on or off
+ * @param gmail The Gmail API client
+ * @param autoForwarding The new setting; turning it on needs a verified forwarding address
+ * @returns Promise<AutoForwarding> The setting as Gmail saved it
+ * @throws DelegationError When Gmail refuses the change
+ */
+export async function updateAutoForwarding(
+  gmail: gmail_v1.Gmail,
+  autoForwarding: AutoForwarding,
+): Promise<AutoForwarding> {
+  try {
+    const response = await gmail.users.settings.updateAutoForwarding({ userId: "me", requestBody: autoForwarding })
+    return toAutoForwarding(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error changing the auto-forwarding setting")
+  }
+}
+
+/**
+ * Read a mailbox's forwarding addresses and auto-forwarding setting
+ * @param gmail The Gmail API client
+ * @param userEmail The mailbox
+ * @returns Promise<ForwardingSettings> The settings, flagged when auto-forwarding leaves the organisation
+ * @throws DelegationError When Gmail refuses the request
+ */
+export async function getForwardingSettings(gmail: gmail_v1.Gmail, userEmail: string): Promise<ForwardingSettings> {
+  const [forwardingAddresses, autoForwarding] = await Promise.all([
+    listForwardingAddresses(gmail, userEmail),
+    getAutoForwarding(gmail),
+  ])
+  const target = autoForwarding.enabled ? autoForwarding.emailAddress : undefined
+  return { forwardingAddresses, autoForwarding, forwardsExternally: !!target && isExternalAddress(userEmail, target) }
+}
+
+/**
+ * Describe a mailbox's forwarding in one sentence
+ * @param userEmail The mailbox
+ * @param forwarding Its forwarding settings
+ * @returns string The description
+ */
+export function describeForwarding(userEmail: string, forwarding: ForwardingSettings): string {
+  const { autoForwarding, forwardingAddresses } = forwarding
+  const count = `${forwardingAddresses.length} forwarding address${forwardingAddresses.length === 1 ? "" : "es"}`
+  if (!autoForwarding.enabled) {
+    return `${userEmail} does not auto-forward; it has ${count}`
+  }
+  const where = forwarding.forwardsExternally ? " outside the organisation" : ""
+  return `${userEmail} auto-forwards to ${autoForwarding.emailAddress}${where}; it has ${count}`
+}
+
+/**
+ * List, add or remove a forwarding address, or change auto-forwarding, and record it in the audit log.
+ * Forwarding is not delegation, so the delegation policy and approval rules do not apply and changes cannot be
+ * rolled back. A dry run checks the mailbox's current settings and reports the outcome without acting on it.
+ */
+export async function processForwardingOperation(
+  operation: ForwardingOperation,
+  userEmail: string,
+  forwardingEmail: string | undefined,
+  requestCredential: RequestCredential,
+  source: ActivityEntry["source"] = "api",
+  options: { autoForwarding?: AutoForwarding; dryRun?: boolean; jobId?: string } = {},
+): Promise<OperationResult> {
+  const stats: RetryStats = { requests: 0, retries: 0, throttled: 0 }
+  // Turning auto-forwarding off names no address
+  const target =
+    operation !== "forwarding-update"
+      ? forwardingEmail
+      : options.autoForwarding?.enabled
+        ? options.autoForwarding.emailAddress
+        : undefined
+  const base = { userEmail, delegateEmail: target, operation }
+  let result: OperationResult
+  try {
+    const gmail = await connectGmailClient(requestCredential.credential, userEmail, stats)
+    const current = await getForwardingSettings(gmail, userEmail)
+    const address = (target || "").toLowerCase()
+    const existing = current.forwardingAddresses.find((candidate) => candidate.forwardingEmail === address)
+    const problem = forwardingProblem(operation, userEmail, address, existing, current, options.autoForwarding)
+
+    if (problem) {
+      result = { ...base, success: false, message: problem.message, errorCode: problem.code, forwarding: current }
+    } else if (operation === "forwarding-list") {
+      result = { ...base, success: true, message: describeForwarding(userEmail, current), forwarding: current }
+    } else if (options.dryRun) {
+      const change =
+        operation === "forwarding-add"
+          ? `add forwarding address ${address}`
+          : operation === "forwarding-remove"
+            ? `remove forwarding address ${address}`
+            : `turn auto-forwarding ${options.autoForwarding?.enabled ? `on to ${address}` : "off"}`
+      result = { ...base, success: true, message: `Would ${change}`, forwarding: current }
+    } else {
+      let message: string
+      if (operation === "forwarding-add") {
+        const verificationStatus = await createForwardingAddress(gmail, address)
+        message =
+          verificationStatus === "pending"
+            ? `Forwarding address ${address} added; it can be used once the verification email sent to it is confirmed`
+            : `Forwarding address ${address} added successfully`
+      } else if (operation === "forwarding-remove") {
+        await deleteForwardingAddress(gmail, address)
+        message = `Forwarding address ${address} removed successfully`
+      } else {
+        const saved = await updateAutoForwarding(gmail, { ...current.autoForwarding, ...options.autoForwarding })
+        message = saved.enabled ? `Auto-forwarding to ${saved.emailAddress} turned on` : "Auto-forwarding turned off"
+      }
+      const forwarding = await getForwardingSettings(gmail, userEmail)
+      if (operation === "forwarding-update" && forwarding.forwardsExternally) {
+        message += "; mail now leaves the organisation"
+      }
+      result = { ...base, success: true, message, forwarding }
+    }
+  } catch (error: any) {
+    const delegationError = toDelegationError(error, "An error occurred during the operation")
+    result = {
+      ...base,
+      success: false,
+      message: delegationError.message,
+      errorCode: delegationError.code,
+      details: delegationError.details,
+    }
+  }
+  result = withRetryDetails(result, stats)
+
+  if (options.dryRun) {
+    return { ...result, dryRun: true }
+  }
+
+  await ActivityLog.record({
+    actor: requestCredential.actor,
+    operation,
+    userEmail,
+    delegateEmail: target,
+    success: result.success,
+    message: result.message,
+    source,
+    errorCode: result.errorCode,
+    error: result.success ? undefined : result.details,
+    credentialId: requestCredential.credentialId,
+    jobId: options.jobId,
+  })
+
+  return result
+}
+
+/**
+ * Get a mailbox's vacation responder
+ * @param gmail The Gmail API client
+ * @returns Promise<VacationSettings> The responder, with its start and end as ISO timestamps
+ * @throws DelegationError When Gmail refuses the request
+ */
+export async function getVacation(gmail: gmail_v1.Gmail): Promise<VacationSettings> {
+  try {
+    const response = await gmail.users.settings.getVacation({ userId: "me" })
+    return toVacationSettings(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error reading the vacation responder")
+  }
+}
+
+/**
+ * Replace a mailbox's vacation responder. Fields left out are cleared.
+ * @param gmail The Gmail API client
+ * @param vacation The new responder
+ * @returns Promise<VacationSettings> The responder as Gmail saved it
+ * @throws DelegationError When Gmail refuses the change
+ */
+export async function updateVacation(gmail: gmail_v1.Gmail, vacation: VacationSettings): Promise<VacationSettings> {
+  try {
+    const response = await gmail.users.settings.updateVacation({
+      userId: "me",
+      requestBody: {
+        ...vacation,
+        startTime: vacation.startTime ? String(Date.parse(vacation.startTime)) : undefined,
+        endTime: vacation.endTime ? String(Date.parse(vacation.endTime)) : undefined,
+      },
+    })
+    return toVacationSettings(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error changing the vacation responder")
+  }
+}
+
+/**
+ * Describe a mailbox's vacation responder in one sentence
+ * @param userEmail The mailbox
+ * @param vacation Its responder
+ * @returns string The description
+ */
+export function describeVacation(userEmail: string, vacation: VacationSettings): string {
+  if (!vacation.enableAutoReply) {
+    return `${userEmail} has no vacation responder on`
+  }
+  const window = [
+    vacation.startTime ? ` from ${vacation.startTime}` : "",
+    vacation.endTime ? ` until ${vacation.endTime}` : "",
+  ].join("")
+  const audience = vacation.restrictToContacts
+    ? " to its contacts"
+    : vacation.restrictToDomain
+      ? " to senders in its domain"
+      : ""
+  return `${userEmail} answers${audience} with "${vacation.responseSubject || "(no subject)"}"${window}`
+}
+
+/**
+ * Read, turn on or turn off a mailbox's vacation responder and record it in the audit log.
+ * vacation-on replaces the whole responder; vacation-off keeps its text so it can be turned on again.
+ * The delegation policy and approval rules do not apply, and changes cannot be rolled back.
+ */
+export async function processVacationOperation(
+  operation: VacationOperation,
+  userEmail: string,
+  requestCredential: RequestCredential,
+  source: ActivityEntry["source"] = "api",
+  options: { vacation?: VacationInput; dryRun?: boolean; jobId?: string } = {},
+): Promise<OperationResult> {
+  const stats: RetryStats = { requests: 0, retries: 0, throttled: 0 }
+  const base = { userEmail, operation }
+  const problem = operation === "vacation-on" ? vacationProblem(options.vacation) : null
+  let result: OperationResult
+  try {
+    if (problem) {
+      throw new DelegationError("invalid_request", problem)
+    }
+    const gmail = await connectGmailClient(requestCredential.credential, userEmail, stats)
+    const current = await getVacation(gmail)
+
+    if (operation === "vacation-get") {
+      result = { ...base, success: true, message: describeVacation(userEmail, current), vacation: current }
+    } else {
+      const next: VacationSettings =
+        operation === "vacation-on"
+          ? { ...options.vacation, enableAutoReply: true }
+          : { ...current, enableAutoReply: false }
+      if (options.dryRun) {
+        const change = operation === "vacation-on" ? "turn on" : current.enableAutoReply ? "turn off" : "leave off"
+        result = { ...base, success: true, message: `Would ${change} the vacation responder`, vacation: current }
+      } else {
+        const vacation = await updateVacation(gmail, next)
+        result = { ...base, success: true, message: describeVacation(userEmail, vacation), vacation }
+      }
+    }
+  } catch (error: any) {
+    const delegationError = toDelegationError(error, "An error occurred during the operation")
+    result = {
+      ...base,
+      success: false,
+      message: delegationError.message,
+      errorCode: delegationError.code,
+      details: delegationError.details,
+    }
+  }
+  result = withRetryDetails(result, stats)
+
+  if (options.dryRun) {
+    return { ...result, dryRun: true }
+  }
+
+  await ActivityLog.record({
+    actor: requestCredential.actor,
+    operation,
+    userEmail,
+    success: result.success,
+    message: result.message,
+    source,
+    errorCode: result.errorCode,
+    error: result.success ? undefined : result.details,
+    credentialId: requestCredential.credentialId,
+    jobId: options.jobId,
+  })
+
+  return result
+}
+
+// What filter actions on system labels do, in words
+const FILTER_ADD_ACTIONS: Record<string, string> = {
+  STARRED: "star it",
+  TRASH: "delete it",
+  IMPORTANT: "always mark it as important",
+  CATEGORY_PERSONAL: "categorise it as Primary",
+  CATEGORY_SOCIAL: "categorise it as Social",
+  CATEGORY_PROMOTIONS: "categorise it as Promotions",
+  CATEGORY_UPDATES: "categorise it as Updates",
+  CATEGORY_FORUMS: "categorise it as Forums",
+}
+
+const FILTER_REMOVE_ACTIONS: Record<string, string> = {
+  INBOX: "skip the inbox",
+  UNREAD: "mark it as read",
+  IMPORTANT: "never mark it as important",
+  SPAM: "never send it to spam",
+}
+
+/**
+ * List a mailbox's filters with their labels by name
+ * @param gmail The Gmail API client
+ * @param userEmail The mailbox, to tell which forwarding filters send mail outside its organisation
+ * @returns Promise<MailFilter[]> The filters, each described in words
+ * @throws DelegationError When Gmail refuses the request
+ */
+export async function listFilters(gmail: gmail_v1.Gmail, userEmail: string): Promise<MailFilter[]> {
+  try {
+    const [labels, response] = await Promise.all([
+      listLabels(gmail),
+      gmail.users.settings.filters.list({ userId: "me" }),
+    ])
+    const names: Record<string, string> = {}
+    labels.forEach((label) => {
+      names[label.id] = label.name
+    })
+    return (response.data.filter || []).map((filter) =>
+      toMailFilter(userEmail, filter.id || undefined, {
+        criteria: toFilterCriteria(filter.criteria || {}),
+        action: {
+          addLabels: filter.action?.addLabelIds?.map((id) => names[id] || id),
+          removeLabels: filter.action?.removeLabelIds?.map((id) => names[id] || id),
+          forward: filter.action?.forward?.toLowerCase() || undefined,
+        },
+      }),
+    )
+  } catch (error: any) {
+    throw toDelegationError(error, "Error listing filters")
+  }
+}
+
+/**
+ * Create a filter. Labels are looked up by name and user labels that do not exist yet are created, so a filter
+ * exported from one mailbox can be created in another.
+ * @param gmail The Gmail API client
+ * @param userEmail The mailbox
+ * @param definition The criteria and actions
+ * @returns Promise<MailFilter> The new filter
+ * @throws DelegationError When Gmail refuses the filter, e.g. because it forwards to an unverified address
+ */
+export async function createFilter(
+  gmail: gmail_v1.Gmail,
+  userEmail: string,
+  definition: FilterDefinition,
+): Promise<MailFilter> {
+  try {
+    const labels = await listLabels(gmail)
+    const labelId = async (name: string) => {
+      const existing = labels.find((label) => label.name.toLowerCase() === name.toLowerCase())
+      if (existing) return existing.id
+      const created = await gmail.users.labels.create({ userId: "me", requestBody: { name } })
+      const label = { id: created.data.id as string, name }
+      labels.push(label)
+      return label.id
+    }
+
+    const addLabelIds: string[] = []
+    for (const name of definition.action.addLabels || []) {
+      addLabelIds.push(await labelId(name))
+    }
+    const removeLabelIds: string[] = []
+    for (const name of definition.action.removeLabels || []) {
+      removeLabelIds.push(await labelId(name))
+    }
+
+    const response = await gmail.users.settings.filters.create({
+      userId: "me",
+      requestBody: {
+        criteria: definition.criteria,
+        action: {
+          addLabelIds: addLabelIds.length > 0 ? addLabelIds : undefined,
+          removeLabelIds: removeLabelIds.length > 0 ? removeLabelIds : undefined,
+          forward: definition.action.forward,
+        },
+      },
+    })
+    return toMailFilter(userEmail, response.data.id || undefined, definition)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error creating the filter")
+  }
+}
+
+/**
+ * Delete a filter
+ * @param gmail The Gmail API client
+ * @param filterId The filter's ID
+ * @throws DelegationError When the filter does not exist or Gmail refuses the change
+ */
+export async function deleteFilter(gmail: gmail_v1.Gmail, filterId: string): Promise<void> {
+  try {
+    await gmail.users.settings.filters.delete({ userId: "me", id: filterId })
+  } catch (error: any) {
+    throw toDelegationError(error, `Error deleting filter ${filterId}`)
+  }
+}
+
+/**
+ * Describe a filter's criteria and actions in one sentence, e.g.
+ * `Mail from billing@example.com with an attachment: label "Invoices", skip the inbox`
+ * @param definition The filter
+ * @returns string The description
+ */
+export function describeFilter(definition: FilterDefinition): string {
+  const { criteria, action } = definition
+  const conditions = [
+    criteria.from && `from ${criteria.from}`,
+    criteria.to && `to ${criteria.to}`,
+    criteria.subject && `with "${criteria.subject}" in the subject`,
+    criteria.query && `matching "${criteria.query}"`,
+    criteria.negatedQuery && `not matching "${criteria.negatedQuery}"`,
+    criteria.hasAttachment && "with an attachment",
+    criteria.size &&
+      `${criteria.sizeComparison === "smaller" ? "smaller" : "larger"} than ${formatSize(criteria.size)}`,
+    criteria.excludeChats && "excluding chats",
+  ].filter(Boolean)
+
+  const actions = [
+    ...(action.addLabels || []).map((name) => FILTER_ADD_ACTIONS[name] || `apply label "${name}"`),
+    ...(action.removeLabels || []).map((name) => FILTER_REMOVE_ACTIONS[name] || `remove label "${name}"`),
+    action.forward && `forward to ${action.forward}`,
+  ].filter(Boolean)
+
+  return `Mail ${conditions.length > 0 ? conditions.join(" ") : "of any kind"}: ${actions.join(", ") || "no action"}`
+}
+
+/**
+ * List, create, delete or import a mailbox's filters and record it in the audit log.
+ * filter-import creates each filter of a set that the mailbox does not already have. Filters are not delegation,
+ * so the delegation policy and approval rules do not apply and changes cannot be rolled back.
+ */
+export async function processFilterOperation(
+  operation: FilterOperation,
+  userEmail: string,
+  requestCredential: RequestCredential,
+  source: ActivityEntry["source"] = "api",
+  options: { filters?: FilterDefinition[]; filterId?: string; dryRun?: boolean; jobId?: string } = {},
+): Promise<OperationResult> {
+  const stats: RetryStats = { requests: 0, retries: 0, throttled: 0 }
+  const base = { userEmail, operation }
+  const definitions = options.filters || []
+  let result: OperationResult
+  try {
+    const problem = filterProblem(operation, definitions, options.filterId)
+    if (problem) {
+      throw new DelegationError("invalid_request", problem)
+    }
+    const gmail = await connectGmailClient(requestCredential.credential, userEmail, stats)
+    const current = await listFilters(gmail, userEmail)
+
+    if (operation === "filter-list") {
+      const external = current.filter((filter) => filter.forwardsExternally).length
+      const note = external > 0 ? `; ${external} forward mail outside the organisation` : ""
+      const message = `${userEmail} has ${current.length} filters${note}`
+      result = { ...base, success: true, message, filters: current }
+    } else if (operation === "filter-delete") {
+      const filter = current.find((candidate) => candidate.id === options.filterId)
+      if (!filter) {
+        const message = `Filter ${options.filterId} does not exist`
+        result = { ...base, success: false, message, errorCode: "not_found" }
+      } else if (options.dryRun) {
+        result = { ...base, success: true, message: `Would delete filter: ${filter.description}`, filters: [filter] }
+      } else {
+        await deleteFilter(gmail, filter.id as string)
+        result = { ...base, success: true, message: `Deleted filter: ${filter.description}`, filters: [filter] }
+      }
+    } else {
+      // Filters the mailbox already has, or that appear twice in the set, are skipped
+      const seen = current.map(filterKey)
+      const missing = definitions.filter((definition) => {
+        const key = filterKey(definition)
+        if (seen.includes(key)) return false
+        seen.push(key)
+        return true
+      })
+
+      if (operation === "filter-create" && missing.length === 0) {
+        result = { ...base, success: false, message: "An identical filter already exists", errorCode: "already_exists" }
+      } else if (options.dryRun) {
+        const filters = missing.map((definition) => toMailFilter(userEmail, undefined, definition))
+        const message = filterChangeMessage(operation, filters, definitions.length, true)
+        result = { ...base, success: true, message, filters }
+      } else {
+        const filters: MailFilter[] = []
+        for (const definition of missing) {
+          try {
+            filters.push(await createFilter(gmail, userEmail, definition))
+          } catch (error: any) {
+            const delegationError = toDelegationError(error, "Error creating the filter")
+            const created = filters.length > 0 ? `; ${filters.length} filters were created before it` : ""
+            throw new DelegationError(
+              delegationError.code,
+              `${delegationError.message} (${describeFilter(definition)})${created}`,
+              delegationError.details,
+            )
+          }
+        }
+        const message = filterChangeMessage(operation, filters, definitions.length)
+        result = { ...base, success: true, message, filters }
+      }
+    }
+  } catch (error: any) {
+    const delegationError = toDelegationError(error, "An error occurred during the operation")
+    result = {
+      ...base,
+      success: false,
+      message: delegationError.message,
+      errorCode: delegationError.code,
+      details: delegationError.details,
+    }
+  }
+  result = withRetryDetails(result, stats)
+
+  if (options.dryRun) {
+    return { ...result, dryRun: true }
+  }
+
+  await ActivityLog.record({
+    actor: requestCredential.actor,
+    operation,
+    userEmail,
+    success: result.success,
+    message: result.message,
+    source,
+    errorCode: result.errorCode,
+    error: result.success ? undefined : result.details,
+    credentialId: requestCredential.credentialId,
+    jobId: options.jobId,
+  })
+
+  return result
+}
+
+/**
+ * Get a mailbox's IMAP settings
+ * @param gmail The Gmail API client
+ * @returns Promise<ImapSettings> Whether IMAP is on and how it expunges mail
+ * @throws DelegationError When Gmail refuses the request
+ */
+export async function getImap(gmail: gmail_v1.Gmail): Promise<ImapSettings> {
+  try {
+    const response = await gmail.users.settings.getImap({ userId: "me" })
+    return toImapSettings(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error reading the IMAP settings")
+  }
+}
+
+/**
+ * Change a mailbox's IMAP settings
+ * @param gmail The Gmail API client
+ * @param imap The new settings
+ * @returns Promise<ImapSettings> The settings as Gmail saved them
+ * @throws DelegationError When Gmail refuses the change
+ */
+export async function updateImap(gmail: gmail_v1.Gmail, imap: ImapSettings): Promise<ImapSettings> {
+  try {
+    const response = await gmail.users.settings.updateImap({ userId: "me", requestBody: imap })
+    return toImapSettings(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error changing the IMAP settings")
+  }
+}
+
+/**
+ * Get a mailbox's POP settings
+ * @param gmail The Gmail API client
+ * @returns Promise<PopSettings> Which mail POP clients can download, and what happens to it
+ * @throws DelegationError When Gmail refuses the request
+ */
+export async function getPop(gmail: gmail_v1.Gmail): Promise<PopSettings> {
+  try {
+    const response = await gmail.users.settings.getPop({ userId: "me" })
+    return toPopSettings(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error reading the POP settings")
+  }
+}
+
+/**
+ * Change a mailbox's POP settings
+ * @param gmail The Gmail API client
+ * @param pop The new settings
+ * @returns Promise<PopSettings> The settings as Gmail saved them
+ * @throws DelegationError When Gmail refuses the change
+ */
+export async function updatePop(gmail: gmail_v1.Gmail, pop: PopSettings): Promise<PopSettings> {
+  try {
+    const response = await gmail.users.settings.updatePop({ userId: "me", requestBody: pop })
+    return toPopSettings(response.data)
+  } catch (error: any) {
+    throw toDelegationError(error, "Error changing the POP settings")
+  }
+}
+
+/**
+ * Read a mailbox's IMAP, POP and display language settings
+ * @param gmail The Gmail API client
+ * @returns Promise<MailAccessSettings> The settings, flagged when IMAP or POP is on
+ * @throws DelegationError When Gmail refuses the request
+ */
+export async function getMailAccessSettings(gmail: gmail_v1.Gmail): Promise<MailAccessSettings> {
+  const [imap, pop, language] = await Promise.all([
+    getImap(gmail),
+    getPop(gmail),
+    gmail.users.settings.getLanguage({ userId: "me" }).catch((error: any) => {
+      throw toDelegationError(error, "Error reading the language settings")
+    }),
+  ])
+  return toMailAccessSettings(imap, pop, language.data.displayLanguage || undefined)
+}
+
+/**
+ * Describe a mailbox's IMAP and POP access in one sentence
+ * @param userEmail The mailbox
+ * @param access Its access settings
+ * @returns string The description
+ */
+export function describeMailAccess(userEmail: string, access: MailAccessSettings): string {
+  const pop =
+    access.pop.accessWindow === "disabled"
+      ? "off"
+      : access.pop.accessWindow === "allMail"
+        ? "on for all mail"
+        : "on for mail from now on"
+  const language = access.displayLanguage ? `; shown in ${access.displayLanguage}` : ""
+  return `${userEmail} has IMAP ${access.imap.enabled ? "on" : "off"} and POP ${pop}${language}`
+}
+
+/**
+ * Read a mailbox's IMAP and POP access, or change either protocol, and record it in the audit log.
+ * imap-disable and pop-disable turn the protocol off and succeed without a change when it already is.
+ * The delegation policy and approval rules do not apply, and changes cannot be rolled back.
+ */
+export async function processMailAccessOperation(
+  operation: MailAccessOperation,
+  userEmail: string,
+  requestCredential: RequestCredential,
+  source: ActivityEntry["source"] = "api",
+  options: { imap?: Partial<ImapSettings>; pop?: Partial<PopSettings>; dryRun?: boolean; jobId?: string } = {},
+): Promise<OperationResult> {
+  const stats: RetryStats = { requests: 0, retries: 0, throttled: 0 }
+  const base = { userEmail, operation }
+  const protocol = operation.startsWith("imap-") ? "IMAP" : "POP"
+  let result: OperationResult
+  try {
+    if ((operation === "imap-update" && !options.imap) || (operation === "pop-update" && !options.pop)) {
+      throw new DelegationError("invalid_request", `The new ${protocol} settings are required`)
+    }
+    const gmail = await connectGmailClient(requestCredential.credential, userEmail, stats)
+    const current = await getMailAccessSettings(gmail)
+
+    if (operation === "access-get") {
+      result = { ...base, success: true, message: describeMailAccess(userEmail, current), access: current }
+    } else {
+      const change =
+        operation === "imap-disable"
+          ? { enabled: false }
+          : operation === "pop-disable"
+            ? { accessWindow: "disabled" }
+            : protocol === "IMAP"
+              ? options.imap
+              : options.pop
+      const before: Record<string, any> = protocol === "IMAP" ? current.imap : current.pop
+      const next: Record<string, any> = { ...before, ...change }
+      const wasOn = protocol === "IMAP" ? current.imap.enabled : current.pop.accessWindow !== "disabled"
+      const isOn = protocol === "IMAP" ? !!next.enabled : next.accessWindow !== "disabled"
+      const turned = wasOn === isOn ? null : isOn ? "on" : "off"
+
+      if (Object.keys(next).every((key) => next[key] === before[key])) {
+        const message = `${protocol} is already ${wasOn ? "on" : "off"} for ${userEmail}; nothing to change`
+        result = { ...base, success: true, message, access: current }
+      } else if (options.dryRun) {
+        const message = turned ? `Would turn ${protocol} ${turned}` : `Would change the ${protocol} settings`
+        result = { ...base, success: true, message, access: current }
+      } else {
+        const access =
+          protocol === "IMAP"
+            ? toMailAccessSettings(await updateImap(gmail, next as ImapSettings), current.pop, current.displayLanguage)
+            : toMailAccessSettings(current.imap, await updatePop(gmail, next as PopSettings), current.displayLanguage)
+        const message = turned
+          ? `Turned ${protocol} ${turned} for ${userEmail}`
+          : `Changed the ${protocol} settings of ${userEmail}`
+        result = { ...base, success: true, message, access }
+      }
+    }
+  } catch (error: any) {
+    const delegationError = toDelegationError(error, "An error occurred during the operation")
+    result = {
+      ...base,
+      success: false,
+      message: delegationError.message,
+      errorCode: delegationError.code,
+      details: delegationError.details,
+    }
+  }
+  result = withRetryDetails(result, stats)
+
+  if (options.dryRun) {
+    return { ...result, dryRun: true }
+  }
+
+  await ActivityLog.record({
+    actor: requestCredential.actor,
+    operation,
+    userEmail,
+    success: result.success,
+    message: result.message,
+    source,
+    errorCode: result.errorCode,
+    error: result.success ? undefined : result.details,
+    credentialId: requestCredential.credentialId,
+    jobId: options.jobId,
+  })
+
+  return result
+}
+
+/**
+ * Run one batch operation, whichever mailbox setting it changes
+ * @param op The operation
+ * @param requestCredential The credential to act with
+ * @param source Where the operation came from, for the audit log
+ * @param options Passed on to the delegate or send-as operation
+ * @returns Promise<OperationResult> The result of the operation
+ */
+export async function processBatchOperation(
+  op: BatchOperation,
+  requestCredential: RequestCredential,
+  source: ActivityEntry["source"],
+  options: DelegateOperationOptions = {},
+): Promise<OperationResult> {
+  if (op.operation === "imap-disable" || op.operation === "pop-disable") {
+    return processMailAccessOperation(op.operation, op.userEmail, requestCredential, source, {
+      dryRun: options.dryRun,
+      jobId: options.jobId,
+    })
+  }
+  if (op.operation === "vacation-on" || op.operation === "vacation-off") {
+    return processVacationOperation(op.operation, op.userEmail, requestCredential, source, {
+      vacation: op.vacation,
+      dryRun: options.dryRun,
+      jobId: options.jobId,
+    })
+  }
+  if (op.operation === "sendas-add" || op.operation === "sendas-remove") {
+    return processSendAsOperation(op.operation, op.userEmail, op.delegateEmail || "", requestCredential, source, {
+      settings: op.displayName ? { displayName: op.displayName } : undefined,
+      dryRun: options.dryRun,
+      jobId: options.jobId,
+    })
+  }
+  return processDelegateOperation(op.operation, op.userEmail, op.delegateEmail, requestCredential, source, options)
+}
+
+function toSendAsAlias(sendAs: gmail_v1.Schema$SendAs): SendAsAlias {
+  return {
+    sendAsEmail: sendAs.sendAsEmail || "",
+    displayName: sendAs.displayName || undefined,
+    replyToAddress: sendAs.replyToAddress || undefined,
+    signature: sendAs.signature || undefined,
+    isPrimary: sendAs.isPrimary || undefined,
+    isDefault: sendAs.isDefault || undefined,
+    treatAsAlias: sendAs.treatAsAlias ?? undefined,
+    verificationStatus: sendAs.verificationStatus || undefined,
+  }
+}
+
+// Why a forwarding operation cannot go ahead, checked against the mailbox's current settings
+function forwardingProblem(
+  operation: ForwardingOperation,
+  userEmail: string,
+  address: string,
+  existing: ForwardingAddress | undefined,
+  current: ForwardingSettings,
+  autoForwarding?: AutoForwarding,
+): { code: DelegationErrorCode; message: string } | null {
+  const forwardsHere = current.autoForwarding.enabled && current.autoForwarding.emailAddress === address
+  if (operation === "forwarding-add" && existing) {
+    return { code: "already_exists", message: `Forwarding address ${address} already exists` }
+  }
+  if (operation === "forwarding-remove" && !existing) {
+    return { code: "not_found", message: `Forwarding address ${address} does not exist` }
+  }
+  if (operation === "forwarding-remove" && forwardsHere) {
+    return {
+      code: "invalid_request",
+      message: `${userEmail} auto-forwards to ${address}; turn auto-forwarding off before removing the address`,
+    }
+  }
+  if (operation === "forwarding-update" && !autoForwarding) {
+    return { code: "invalid_request", message: "The new auto-forwarding setting is required" }
+  }
+  if (operation === "forwarding-update" && autoForwarding?.enabled && existing?.verificationStatus !== "accepted") {
+    return {
+      code: "invalid_request",
+      message: address
+        ? `${address} is not a verified forwarding address of ${userEmail}`
+        : "Turning auto-forwarding on needs a forwarding address",
+    }
+  }
+  return null
+}
+
+// Why a vacation responder cannot be turned on as given
+function vacationProblem(vacation?: VacationInput): string | null {
+  if (!vacation || (!vacation.responseSubject && !vacation.responseBodyPlainText && !vacation.responseBodyHtml)) {
+    return "The vacation responder needs a subject or a message"
+  }
+  const start = vacation.startTime ? Date.parse(vacation.startTime) : undefined
+  const end = vacation.endTime ? Date.parse(vacation.endTime) : undefined
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return "The responder's start and end must be ISO timestamps"
+  }
+  if (end !== undefined && end <= (start ?? Date.now())) {
+    return "The vacation responder would end before it starts"
+  }
+  return null
+}
+
+function toVacationSettings(settings: gmail_v1.Schema$VacationSettings): VacationSettings {
+  return {
+    enableAutoReply: !!settings.enableAutoReply,
+    responseSubject: settings.responseSubject || undefined,
+    responseBodyPlainText: settings.responseBodyPlainText || undefined,
+    responseBodyHtml: settings.responseBodyHtml || undefined,
+    startTime: settings.startTime ? new Date(Number(settings.startTime)).toISOString() : undefined,
+    endTime: settings.endTime ? new Date(Number(settings.endTime)).toISOString() : undefined,
+    restrictToContacts: settings.restrictToContacts || undefined,
+    restrictToDomain: settings.restrictToDomain || undefined,
+  }
+}
+
+// Why a filter operation cannot go ahead as given
+function filterProblem(operation: FilterOperation, definitions: FilterDefinition[], filterId?: string): string | null {
+  if (operation === "filter-delete") {
+    return filterId ? null : "The ID of the filter to delete is required"
+  }
+  if (operation === "filter-list") {
+    return null
+  }
+  if (definitions.length === 0 || (operation === "filter-create" && definitions.length > 1)) {
+    return operation === "filter-create" ? "Exactly one filter is required" : "The filter set has no filters"
+  }
+  for (let i = 0; i < definitions.length; i++) {
+    const { criteria, action } = definitions[i]
+    const where = operation === "filter-import" ? `Filter ${i + 1}: ` : ""
+    const c = criteria || {}
+    if (!(c.from || c.to || c.subject || c.query || c.negatedQuery || c.hasAttachment || c.size)) {
+      return `${where}a filter needs at least one criterion`
+    }
+    if (!action || !(action.addLabels?.length || action.removeLabels?.length || action.forward)) {
+      return `${where}a filter needs at least one action`
+    }
+  }
+  return null
+}
+
+// Summarise a filter-create or filter-import, e.g. "Created 3 of 5 filters; 2 were already there"
+function filterChangeMessage(operation: FilterOperation, filters: MailFilter[], total: number, dryRun?: boolean) {
+  const verb = dryRun ? "Would create" : "Created"
+  if (operation === "filter-create") {
+    return `${verb} filter: ${filters[0].description}`
+  }
+  const skipped = total - filters.length
+  const note = skipped > 0 ? `; ${skipped} ${dryRun ? "are" : "were"} already there` : ""
+  return `${verb} ${filters.length} of ${total} filters${note}`
+}
+
+// Identifies filters with the same criteria and actions, whatever order their labels are listed in
+function filterKey(definition: FilterDefinition): string {
+  const { criteria, action } = definition
+  const sorted = (names?: string[]) => (names || []).map((name) => name.toLowerCase()).sort()
+  return JSON.stringify([
+    criteria.from || "",
+    criteria.to || "",
+    criteria.subject || "",
+    criteria.query || "",
+    criteria.negatedQuery || "",
+    !!criteria.hasAttachment,
+    !!criteria.excludeChats,
+    criteria.size || 0,
+    criteria.size ? criteria.sizeComparison || "larger" : "",
+    sorted(action.addLabels),
+    sorted(action.removeLabels),
+    (action.forward || "").toLowerCase(),
+  ])
+}
+
+async function listLabels(gmail: gmail_v1.Gmail): Promise<{ id: string; name: string }[]> {
+  const response = await gmail.users.labels.list({ userId: "me" })
+  return (response.data.labels || []).map((label) => ({ id: label.id || "", name: label.name || label.id || "" }))
+}
+
+function toFilterCriteria(criteria: gmail_v1.Schema$FilterCriteria): FilterCriteria {
+  return {
+    from: criteria.from || undefined,
+    to: criteria.to || undefined,
+    subject: criteria.subject || undefined,
+    query: criteria.query || undefined,
+    negatedQuery: criteria.negatedQuery || undefined,
+    hasAttachment: criteria.hasAttachment || undefined,
+    excludeChats: criteria.excludeChats || undefined,
+    size: criteria.size || undefined,
+    sizeComparison:
+      criteria.size && (criteria.sizeComparison === "larger" || criteria.sizeComparison === "smaller")
+        ? criteria.sizeComparison
+        : undefined,
+  }
+}
+
+function toMailFilter(userEmail: string, id: string | undefined, definition: FilterDefinition): MailFilter {
+  const { criteria, action } = definition
+  const filter: FilterDefinition = {
+    criteria,
+    action: {
+      addLabels: action.addLabels?.length ? action.addLabels : undefined,
+      removeLabels: action.removeLabels?.length ? action.removeLabels : undefined,
+      forward: action.forward || undefined,
+    },
+  }
+  return {
+    id,
+    ...filter,
+    description: describeFilter(filter),
+    forwardsExternally: !!action.forward && isExternalAddress(userEmail, action.forward),
+  }
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${Math.round((bytes / (1024 * 1024)) * 10) / 10} MB`
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)} KB`
+  return `${bytes} bytes`
+}
+
+function toImapSettings(settings: gmail_v1.Schema$ImapSettings): ImapSettings {
+  const expungeBehavior = settings.expungeBehavior
+  return {
+    enabled: !!settings.enabled,
+    autoExpunge: settings.autoExpunge ?? undefined,
+    expungeBehavior:
+      expungeBehavior === "archive" || expungeBehavior === "trash" || expungeBehavior === "deleteForever"
+        ? expungeBehavior
+        : undefined,
+    maxFolderSize: settings.maxFolderSize ?? undefined,
+  }
+}
+
+function toPopSettings(settings: gmail_v1.Schema$PopSettings): PopSettings {
+  const { accessWindow, disposition } = settings
+  return {
+    accessWindow: accessWindow === "fromNowOn" || accessWindow === "allMail" ? accessWindow : "disabled",
+    disposition: ["leaveInInbox", "archive", "trash", "markRead"].includes(disposition || "")
+      ? (disposition as PopSettings["disposition"])
+      : undefined,
+  }
+}
+
+function toMailAccessSettings(imap: ImapSettings, pop: PopSettings, displayLanguage?: string): MailAccessSettings {
+  return { imap, pop, displayLanguage, legacyAccess: imap.enabled || pop.accessWindow !== "disabled" }
+}
+
+function toAutoForwarding(settings: gmail_v1.Schema$AutoForwarding): AutoForwarding {
+  return {
+    enabled: !!settings.enabled,
+    emailAddress: settings.emailAddress?.toLowerCase() || undefined,
+    disposition: settings.disposition || undefined,
+  }
+}
+
+/**
+ * Process batch delegation operations.
+ * With dryRun, every row is checked in order against the mailbox's delegates as earlier rows would leave them.
+ */
+export async function processBatchOperations(
+  operations: BatchOperation[],
+  requestCredential: RequestCredential | null,
+  options: { dryRun?: boolean; reason?: string } = {},
+): Promise<OperationResult[]> {
+  if (!requestCredential) {
+    return operations.map((op) => ({
+      success: false,
+      userEmail: op.userEmail,
+      delegateEmail: op.delegateEmail,
+      operation: op.operation,
+      message: "A service account credential or OAuth session is required",
+      errorCode: "invalid_credentials",
+    }))
+  }
+
+  const results: OperationResult[] = []
+  const delegateCache: DelegateListCache = new Map()
+
+  for (const op of operations) {
+    const result = await processBatchOperation(op, requestCredential, "batch", {
+      delegateCache,
+      expiresAt: op.expiresAt,
+      dryRun: options.dryRun,
+      reason: options.reason,
+    })
+    results.push(result)
+  }
+
+  return results
 }
 
 /**
@@ -0,0 +1,320 @@
+import type { gmail_v1 } from "googleapis"
+import type { QuotaCounter, QuotaUsage } from "../types"
+
+/**
+ * Tunables for retrying throttled or failed Gmail API calls
+ */
+export interface RetryOptions {
+  maxRetries: number
+  baseDelayMs: number
+  maxDelayMs: number
+  /** Waits between attempts; replaced in tests so backoff does not actually sleep */
+  sleep: (ms: number) => Promise<void>
+  /** Source of jitter in [0, 1) */
+  random: () => number
+}
+
+/**
+ * Who a Gmail call is made for, used to attribute quota usage
+ */
+export interface RetryContext {
+  userEmail: string
+  project: string
+}
+
+/**
+ * Counters for the calls made through one wrapped client
+ */
+export interface RetryStats {
+  requests: number
+  retries: number
+  throttled: number
+}
+
+const QUOTA_WINDOW_MS = 60 * 1000
+const RETRIABLE_STATUSES = [429, 500, 502, 503, 504]
+const RETRIABLE_REASONS = ["rateLimitExceeded", "userRateLimitExceeded", "backendError"]
+const RETRIABLE_NETWORK_CODES = ["ECONNRESET", "ETIMEDOUT", "ECONNREFUSED", "EAI_AGAIN", "EPIPE"]
+// Methods that create, delete or send something; a transient failure may still have applied them, and repeating a
+// delete that went through fails with a 404
+const NON_IDEMPOTENT_METHODS = ["create", "insert", "send", "import", "verify", "delete"]
+
+// Shared across route bundles so usage reflects every request served by this process
+const quotaCounters = (globalThis.__delegateEaseQuota ||= { user: new Map(), project: new Map() })
+
+const retryStats = new WeakMap<object, RetryStats>()
+
+/**
+ * Default retry options, overridable with DELEGATEEASE_GMAIL_MAX_RETRIES and DELEGATEEASE_GMAIL_MAX_DELAY_MS
+ * @returns RetryOptions The options
+ */
+export function getRetryOptions(): RetryOptions {
+  const maxRetries = Number.parseInt(process.env.DELEGATEEASE_GMAIL_MAX_RETRIES || "", 10)
+  const maxDelayMs = Number.parseInt(process.env.DELEGATEEASE_GMAIL_MAX_DELAY_MS || "", 10)
+  return {
+    maxRetries: Number.isNaN(maxRetries) || maxRetries < 0 ? 5 : maxRetries,
+    baseDelayMs: 500,
+    maxDelayMs: Number.isNaN(maxDelayMs) || maxDelayMs < 0 ? 32000 : maxDelayMs,
+    sleep: (ms) => new Promise((resolve) => setTimeout(resolve, ms)),
+    random: Math.random,
+  }
+}
+
+/**
+ * Tracks Gmail API usage per impersonated user and per Cloud project over a rolling one-minute window
+ */
+export class QuotaTracker {
+  /**
+   * Record an API call, a throttling response or a retry
+   * @param context The user and project the call was made for
+   * @param event What happened
+   */
+  static record(context: RetryContext, event: "request" | "retry" | "throttled"): void {
+    const counters = [
+      this.counter(quotaCounters.user, context.userEmail.toLowerCase()),
+      this.counter(quotaCounters.project, context.project),
+    ]
+    const now = Date.now()
+
+    counters.forEach((counter) => {
+      if (event === "request") {
+        counter.requests++
+        counter.recent.push(now)
+        this.prune(counter, now)
+      } else if (event === "retry") {
+        counter.retries++
+      } else {
+        counter.throttled++
+        counter.lastThrottledAt = new Date(now).toISOString()
+      }
+    })
+  }
+
+  /**
+   * Current usage for every user and project seen by this process
+   * @returns QuotaUsage[] Usage, busiest first
+   */
+  static usage(): QuotaUsage[] {
+    const now = Date.now()
+    const usage: QuotaUsage[] = []
+
+    const collect = (kind: QuotaUsage["kind"], counters: Map<string, QuotaCounter>) => {
+      counters.forEach((counter, key) => {
+        this.prune(counter, now)
+        usage.push({
+          kind,
+          key,
+          requests: counter.requests,
+          requestsLastMinute: counter.recent.length,
+          retries: counter.retries,
+          throttled: counter.throttled,
+          lastThrottledAt: counter.lastThrottledAt,
+        })
+      })
+    }
+    collect("project", quotaCounters.project)
+    collect("user", quotaCounters.user)
+
+    return usage.sort((a, b) => b.requestsLastMinute - a.requestsLastMinute)
+  }
+
+  /**
+   * Forget all recorded usage
+   */
+  static reset(): void {
+    quotaCounters.user.clear()
+    quotaCounters.project.clear()
+  }
+
+  private static counter(counters: Map<string, QuotaCounter>, key: string): QuotaCounter {
+    let counter = counters.get(key)
+    if (!counter) {
+      counter = { requests: 0, retries: 0, throttled: 0, recent: [] }
+      counters.set(key, counter)
+    }
+    return counter
+  }
+
+  private static prune(counter: QuotaCounter, now: number): void {
+    while (counter.recent.length > 0 && now - counter.recent[0] > QUOTA_WINDOW_MS) {
+      counter.recent.shift()
+    }
+  }
+}
+
+/**
+ * Whether a failed Gmail call is worth retrying
+ * @param error The error thrown by googleapis
+ * @returns boolean True for throttling, transient server errors and dropped connections
+ */
+export function isRetriableError(error: any): boolean {
+  const status: number | undefined = error?.response?.status
+  const reason: string | undefined = error?.response?.data?.error?.errors?.[0]?.reason || error?.errors?.[0]?.reason
+
+  if (status !== undefined && RETRIABLE_STATUSES.includes(status)) {
+    return true
+  }
+  if (status === 403 && reason !== undefined && RETRIABLE_REASONS.includes(reason)) {
+    return true
+  }
+  return typeof error?.code === "string" && RETRIABLE_NETWORK_CODES.includes(error.code)
+}
+
+/**
+ * Whether an error means the caller is being rate limited, as opposed to a transient server failure
+ * @param error The error thrown by googleapis
+ * @returns boolean True for 429s and rate limit reasons
+ */
+export function isThrottlingError(error: any): boolean {
+  const reason: string | undefined = error?.response?.data?.error?.errors?.[0]?.reason || error?.errors?.[0]?.reason
+  return error?.response?.status === 429 || reason === "rateLimitExceeded" || reason === "userRateLimitExceeded"
+}
+
+/**
+ * How long to wait before the next attempt.
+ * A Retry-After header wins; otherwise exponential backoff with full jitter.
+ * @param error The error from the failed attempt
+ * @param attempt The number of retries already made (0 for the first retry)
+ * @param options The retry options
+ * @returns number The delay in milliseconds
+ */
+export function getRetryDelay(error: any, attempt: number, options: RetryOptions): number {
+  const retryAfter = parseRetryAfter(error?.response?.headers?.["retry-after"])
+  if (retryAfter !== null) {
+    return Math.min(retryAfter, options.maxDelayMs)
+  }
+
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, attempt))
+  return Math.floor(options.random() * ceiling)
+}
+
+/**
+ * Parse a Retry-After header given in seconds or as an HTTP date
+ * @param value The header value
+ * @returns number | null The delay in milliseconds, or null if absent or unparseable
+ */
+export function parseRetryAfter(value: unknown): number | null {
+  if (typeof value !== "string" && typeof value !== "number") {
+    return null
+  }
+
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+
+  const date = Date.parse(String(value))
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Call the Gmail API, retrying retriable failures.
+ * A call that is not idempotent is only retried when throttled: Gmail refuses throttled requests before running them,
+ * but a 5xx or dropped connection may follow a create or delete that succeeded, and repeating it would fail or
+ * duplicate it.
+ * @param call Makes one attempt
+ * @param context The user and project the call is made for
+ * @param stats Counters to update, usually those of the wrapped client
+ * @param options The retry options
+ * @param idempotent Whether repeating the call after a transient failure is safe
+ * @returns Promise<T> The result of the first successful attempt
+ * @throws The last error once it is not retriable or retries are exhausted
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  context: RetryContext,
+  stats: RetryStats = { requests: 0, retries: 0, throttled: 0 },
+  options: RetryOptions = getRetryOptions(),
+  idempotent = true,
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    stats.requests++
+    QuotaTracker.record(context, "request")
+
+    try {
+      return await call()
+    } catch (error: any) {
+      const throttled = isThrottlingError(error)
+      if (throttled) {
+        stats.throttled++
+        QuotaTracker.record(context, "throttled")
+      }
+      if (attempt >= options.maxRetries || !isRetriableError(error) || (!idempotent && !throttled)) {
+        throw error
+      }
+
+      const delay = getRetryDelay(error, attempt, options)
+      console.warn(
+        `Gmail API call for ${context.userEmail} failed with ${error?.response?.status || error?.code}; retrying in ${delay}ms`,
+      )
+      stats.retries++
+      QuotaTracker.record(context, "retry")
+      await options.sleep(delay)
+    }
+  }
+}
+
+/**
+ * Wrap a Gmail client so every API method retries throttled and transient failures.
+ * Methods that create, delete or send something only retry when throttled.
+ * Calls that pass a callback are left untouched.
+ * @param gmail The Gmail API client
+ * @param context The user and project the client acts for
+ * @param stats Counters to update, e.g. shared by every client used for one operation
+ * @param options The retry options
+ * @returns gmail_v1.Gmail A client with the same interface
+ */
+export function wrapGmailClient(
+  gmail: gmail_v1.Gmail,
+  context: RetryContext,
+  stats: RetryStats = { requests: 0, retries: 0, throttled: 0 },
+  options: RetryOptions = getRetryOptions(),
+): gmail_v1.Gmail {
+  const proxies = new WeakMap<object, any>()
+
+  const wrap = (resource: any): any => {
+    if (proxies.has(resource)) {
+      return proxies.get(resource)
+    }
+
+    // googleapis defines resources as read-only properties, which a Proxy over the resource itself may not
+    // replace, so the proxy wraps an empty object and reads through to the real resource
+    const proxy = new Proxy(Object.create(null), {
+      get(_, property) {
+        const value = Reflect.get(resource, property)
+        if (property === "context" || value === null) {
+          return value
+        }
+        if (typeof value === "function") {
+          return (...args: any[]) => {
+            if (typeof args[args.length - 1] === "function") {
+              return value.apply(resource, args)
+            }
+            const idempotent = !NON_IDEMPOTENT_METHODS.includes(String(property))
+            return withRetry(() => value.apply(resource, args), context, stats, options, idempotent)
+          }
+        }
+        if (typeof value === "object") {
+          return wrap(value)
+        }
+        return value
+      },
+    })
+
+    proxies.set(resource, proxy)
+    return proxy
+  }
+
+  const client = wrap(gmail)
+  retryStats.set(client, stats)
+  return client
+}
+
+/**
+ * Get the call counters of a client created by wrapGmailClient
+ * @param gmail The wrapped client
+ * @returns RetryStats | null The counters, or null if the client is not wrapped
+ */
+export function getRetryStats(gmail: gmail_v1.Gmail): RetryStats | null {
+  return retryStats.get(gmail) || null
+}
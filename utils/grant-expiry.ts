@@ -0,0 +1,123 @@
+/**
+ * Ends time-bound delegations: the scheduler removes delegates whose grant has lapsed,
+ * and admins can end a grant early.
+ */
+
+import type { DelegationGrant, GrantExpirySummary, OperationResult } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { CredentialVault } from "./credential-vault"
+import { DelegationGrants } from "./delegation-grants"
+import { processDelegateOperation } from "./gmail-integration"
+import type { RequestCredential } from "./request-credential"
+
+// Prevents a slow run from overlapping with the next scheduler tick
+const runtime = (globalThis.__delegateEaseGrantExpiry ||= { running: null })
+
+/**
+ * Remove every delegate whose grant has expired and log the outcome.
+ * Failed removals stay active and are retried on the next run.
+ * @returns Promise<GrantExpirySummary> What was removed
+ */
+export async function expireDueGrants(): Promise<GrantExpirySummary> {
+  if (runtime.running) {
+    return runtime.running
+  }
+
+  runtime.running = runExpiry()
+  try {
+    return await runtime.running
+  } finally {
+    runtime.running = null
+  }
+}
+
+async function runExpiry(): Promise<GrantExpirySummary> {
+  const due = await DelegationGrants.due()
+  const summary: GrantExpirySummary = { due: due.length, expired: 0, failed: 0, results: [] }
+
+  for (let i = 0; i < due.length; i++) {
+    const result = await endGrant(due[i], "expired", "scheduler")
+    summary.results.push(result)
+    if (result.success) {
+      summary.expired++
+    } else {
+      summary.failed++
+    }
+  }
+
+  return summary
+}
+
+/**
+ * Remove a time-bound delegate before its grant expires
+ * @param id The grant ID
+ * @param actor The user revoking the grant, recorded in the activity log
+ * @returns Promise<OperationResult> The result of the removal
+ * @throws DelegationError When the grant does not exist or has already ended
+ */
+export async function revokeGrant(id: string, actor: string): Promise<OperationResult> {
+  const grant = await DelegationGrants.get(id)
+  if (!grant) {
+    throw new DelegationError("not_found", `Grant ${id} not found`)
+  }
+  if (grant.status !== "active") {
+    throw new DelegationError("invalid_request", `Grant is already ${grant.status}`)
+  }
+  return endGrant(grant, "revoked", "api", actor)
+}
+
+/**
+ * Remove the grant's delegate with the credential it was granted with.
+ * A delegate that is already gone still ends the grant. Without an actor the removal is logged as the scheduler's.
+ */
+async function endGrant(
+  grant: DelegationGrant,
+  status: "expired" | "revoked",
+  source: "api" | "scheduler",
+  actor?: string,
+): Promise<OperationResult> {
+  let requestCredential: RequestCredential
+  try {
+    const serviceAccount = await CredentialVault.get(grant.credentialId)
+    requestCredential = {
+      credential: serviceAccount,
+      actor: actor || `grant-expiry (${serviceAccount.client_email})`,
+      credentialId: grant.credentialId,
+    }
+  } catch (error: any) {
+    await DelegationGrants.recordFailure(grant.id, error.message)
+    return {
+      success: false,
+      operation: "remove",
+      userEmail: grant.userEmail,
+      delegateEmail: grant.delegateEmail,
+      message: error.message,
+      errorCode: "invalid_credentials",
+    }
+  }
+
+  const result = (await processDelegateOperation(
+    "remove",
+    grant.userEmail,
+    grant.delegateEmail,
+    requestCredential,
+    source,
+    // The removal was agreed when the time-bound grant was approved
+    { skipApproval: true },
+  )) as OperationResult
+
+  if (result.success || result.errorCode === "not_found") {
+    await DelegationGrants.end(grant.id, status)
+    return {
+      ...result,
+      success: true,
+      message:
+        status === "expired"
+          ? `Delegate ${grant.delegateEmail} removed from ${grant.userEmail}: access expired at ${grant.expiresAt}`
+          : `Delegate ${grant.delegateEmail} removed from ${grant.userEmail} before its expiry`,
+    }
+  }
+
+  await DelegationGrants.recordFailure(grant.id, result.message)
+  return result
+}
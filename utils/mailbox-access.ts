@@ -0,0 +1,81 @@
+import type { MailboxScope, UserAccount } from "../types"
+import { matchesMailboxPattern } from "../lib/mailbox-pattern"
+import { hasPermission, parseMailboxScope } from "../lib/permissions"
+import { DirectoryLookup } from "./directory"
+
+/**
+ * Decides which mailboxes a user may change, resolving group and OU scopes against the directory.
+ * Checks run before any Gmail call is made for the mailbox.
+ */
+export class MailboxAccess {
+  /**
+   * Find the mailboxes a user may not change
+   * @param user The signed-in user
+   * @param mailboxes The mailboxes being changed
+   * @returns Promise<Record<string, string>> Why each out-of-scope mailbox was refused, keyed by lowercased mailbox
+   */
+  static async outOfScope(user: UserAccount, mailboxes: string[]): Promise<Record<string, string>> {
+    const refused: Record<string, string> = {}
+    if (user.role === "admin") {
+      return refused
+    }
+
+    const unique = mailboxes
+      .map((mailbox) => mailbox.trim().toLowerCase())
+      .filter((mailbox, index, all) => mailbox && all.indexOf(mailbox) === index)
+    if (!hasPermission(user, "delegates:write")) {
+      unique.forEach((mailbox) => {
+        refused[mailbox] = `The ${user.role} role may not change delegates`
+      })
+      return refused
+    }
+
+    const scopes = user.mailboxScopes.map(parseMailboxScope)
+    await Promise.all(
+      unique.map(async (mailbox) => {
+        const reason = await this.check(scopes, mailbox)
+        if (reason) {
+          refused[mailbox] = reason
+        }
+      }),
+    )
+    return refused
+  }
+
+  /**
+   * Check one mailbox against a user's scopes; pattern scopes are tried before any directory lookup
+   * @returns Promise<string | null> Why the mailbox is out of scope, or null if a scope covers it
+   */
+  private static async check(scopes: MailboxScope[], mailbox: string): Promise<string | null> {
+    if (scopes.some((scope) => scope.type === "pattern" && matchesMailboxPattern(scope.pattern, mailbox))) {
+      return null
+    }
+
+    const lookupErrors: string[] = []
+    for (let i = 0; i < scopes.length; i++) {
+      const scope = scopes[i]
+      try {
+        if (scope.type === "group" && (await DirectoryLookup.isGroupMember(scope.groupEmail, mailbox))) {
+          return null
+        }
+        if (scope.type === "ou" && this.inOrgUnit(await DirectoryLookup.orgUnitPath(mailbox), scope.orgUnitPath)) {
+          return null
+        }
+      } catch (error: any) {
+        lookupErrors.push(error.message)
+      }
+    }
+
+    // A scope that could not be checked does not grant access, but the reason is worth showing
+    if (lookupErrors.length > 0) {
+      return `${mailbox} could not be checked against your group and OU scopes: ${lookupErrors[0]}`
+    }
+    return `${mailbox} is outside the mailboxes you may change`
+  }
+
+  private static inOrgUnit(path: string, scopePath: string): boolean {
+    const actual = path.toLowerCase()
+    const scope = scopePath.toLowerCase()
+    return scope === "/" || actual === scope || actual.startsWith(`${scope}/`)
+  }
+}
@@ -0,0 +1,106 @@
+import type { gmail_v1 } from "googleapis"
+import type { MailboxScanSummary, OperationResult } from "../types"
+import { DirectoryLookup } from "./directory"
+import { connectGmailClient, toDelegationError } from "./gmail-integration"
+import type { RequestCredential } from "./request-credential"
+
+/**
+ * What a check found in one mailbox; the scan adds the mailbox, the operation and success
+ */
+export type MailboxFinding = Omit<OperationResult, "success" | "operation" | "userEmail">
+
+/**
+ * What one audit reads from each mailbox and what it flags
+ */
+export interface MailboxCheck {
+  /** Recorded as the operation of every result */
+  operation: OperationResult["operation"]
+  /** Names what is read in the message of a mailbox that cannot be read, e.g. "filters" */
+  setting: string
+  /** Reads one mailbox and describes what was found */
+  read: (gmail: gmail_v1.Gmail, mailbox: string) => Promise<MailboxFinding>
+  /** Whether a successful result needs attention */
+  isFlagged: (result: OperationResult) => boolean
+}
+
+/**
+ * Reads a setting of many mailboxes with a small pool of workers, for the audits that scan a list of mailboxes or
+ * the whole domain. Without a list every active user of the domain is scanned, which needs the directory
+ * credential that group and OU scopes use. Scans only read settings and are not written to the activity log.
+ */
+export class MailboxScan {
+  private static readonly CONCURRENCY = 4
+  static readonly MAX_MAILBOXES = 5000
+
+  /**
+   * Run an audit's check on each mailbox; a mailbox that cannot be read becomes an unsuccessful result
+   * @param requestCredential The credential to read the mailboxes with; a service account can read any of them
+   * @param mailboxes The mailboxes to scan, or undefined for the whole domain
+   * @param check What to read from each mailbox and what to flag
+   * @returns Promise<MailboxScanSummary> One result per mailbox: flagged ones, then failures, then the rest
+   * @throws DelegationError When the domain's users cannot be listed
+   */
+  static async scan(
+    requestCredential: RequestCredential,
+    mailboxes: string[] | undefined,
+    check: MailboxCheck,
+  ): Promise<MailboxScanSummary> {
+    return this.run(mailboxes, (mailbox) => this.checkMailbox(mailbox, requestCredential, check), check.isFlagged)
+  }
+
+  private static async run(
+    mailboxes: string[] | undefined,
+    scanMailbox: (mailbox: string) => Promise<OperationResult>,
+    isFlagged: (result: OperationResult) => boolean,
+  ): Promise<MailboxScanSummary> {
+    const targets = mailboxes
+      ? mailboxes.slice(0, this.MAX_MAILBOXES)
+      : await DirectoryLookup.listMailboxes(this.MAX_MAILBOXES)
+
+    const results: OperationResult[] = new Array(targets.length)
+    let next = 0
+    const worker = async () => {
+      while (next < targets.length) {
+        const index = next++
+        results[index] = await scanMailbox(targets[index])
+      }
+    }
+
+    const workers = []
+    for (let i = 0; i < Math.min(this.CONCURRENCY, targets.length); i++) {
+      workers.push(worker())
+    }
+    await Promise.all(workers)
+
+    const flagged = results.filter((result) => result.success && isFlagged(result))
+    const errors = results.filter((result) => !result.success)
+    return {
+      source: mailboxes ? "list" : "directory",
+      scanned: results.length,
+      flagged: flagged.length,
+      errors: errors.length,
+      results: [...flagged, ...errors, ...results.filter((result) => result.success && !flagged.includes(result))],
+    }
+  }
+
+  private static async checkMailbox(
+    mailbox: string,
+    requestCredential: RequestCredential,
+    check: MailboxCheck,
+  ): Promise<OperationResult> {
+    try {
+      const gmail = await connectGmailClient(requestCredential.credential, mailbox)
+      return { ...(await check.read(gmail, mailbox)), success: true, operation: check.operation, userEmail: mailbox }
+    } catch (error: any) {
+      const delegationError = toDelegationError(error, `Could not read the ${check.setting} of ${mailbox}`)
+      return {
+        success: false,
+        operation: check.operation,
+        userEmail: mailbox,
+        message: delegationError.message,
+        errorCode: delegationError.code,
+        details: delegationError.details,
+      }
+    }
+  }
+}
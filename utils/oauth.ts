@@ -0,0 +1,234 @@
+import { createHash, randomBytes, randomUUID } from "crypto"
+import { google, Auth } from "googleapis"
+import { decrypt, encrypt } from "./encryption"
+import { readJsonFile, updateJsonFile } from "./data-store"
+
+/**
+ * A signed-in OAuth admin session as stored on disk. Tokens are encrypted at rest.
+ */
+interface StoredOAuthSession {
+  email: string
+  tokens: string
+  createdAt: string
+  updatedAt: string
+  expiresAt: string
+}
+
+type OAuthSessionStore = Record<string, StoredOAuthSession>
+
+/**
+ * An authorized OAuth session ready to be used with the Gmail API
+ */
+export interface OAuthSession {
+  email: string
+  client: Auth.OAuth2Client
+}
+
+/**
+ * Manages the OAuth 2.0 authorization-code + PKCE sign-in flow and the resulting sessions
+ */
+export class OAuthManager {
+  static readonly SESSION_COOKIE = "delegateease_session"
+  static readonly PENDING_COOKIE = "delegateease_oauth_pending"
+  static readonly PENDING_MAX_AGE = 10 * 60
+  static readonly SESSION_MAX_AGE = 12 * 60 * 60
+
+  private static readonly SESSIONS_FILE = "oauth-sessions.json"
+  private static readonly SCOPES = [
+    "openid",
+    "email",
+    "https://www.googleapis.com/auth/gmail.settings.sharing",
+    "https://www.googleapis.com/auth/gmail.settings.basic",
+  ]
+
+  /**
+   * Create an OAuth2 client from the configured client ID and secret
+   * @param redirectUri The callback URL registered with Google
+   * @returns Auth.OAuth2Client The OAuth2 client
+   */
+  static createClient(redirectUri?: string): Auth.OAuth2Client {
+    const clientId = process.env.GOOGLE_CLIENT_ID || process.env.NEXT_PUBLIC_GOOGLE_CLIENT_ID
+    // The secret is only read server-side; NEXT_PUBLIC_ variables are inlined into the browser bundle
+    const clientSecret = process.env.GOOGLE_CLIENT_SECRET
+    if (!clientId || !clientSecret) {
+      throw new Error("GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET must be set to use OAuth sign-in")
+    }
+
+    return new google.auth.OAuth2(clientId, clientSecret, redirectUri)
+  }
+
+  /**
+   * Resolve the callback URL, preferring GOOGLE_OAUTH_REDIRECT_URI when set
+   * @param origin The origin of the incoming request
+   * @returns string The redirect URI
+   */
+  static getRedirectUri(origin: string): string {
+    return process.env.GOOGLE_OAUTH_REDIRECT_URI || `${origin}/api/auth/oauth/callback`
+  }
+
+  /**
+   * Start an authorization request
+   * @param redirectUri The callback URL registered with Google
+   * @returns Promise<{ url: string; pending: string }> The Google consent URL and the encrypted state to keep in a cookie
+   */
+  static async beginAuthorization(redirectUri: string): Promise<{ url: string; pending: string }> {
+    const client = this.createClient(redirectUri)
+    const { codeVerifier, codeChallenge } = await client.generateCodeVerifierAsync()
+    const state = randomBytes(16).toString("hex")
+
+    const url = client.generateAuthUrl({
+      access_type: "offline",
+      prompt: "consent",
+      scope: this.SCOPES,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: Auth.CodeChallengeMethod.S256,
+    })
+
+    return { url, pending: encrypt(JSON.stringify({ state, codeVerifier })) }
+  }
+
+  /**
+   * Exchange an authorization code for tokens and create a session
+   * @param code The authorization code returned by Google
+   * @param state The state returned by Google
+   * @param pending The encrypted state stored when the flow started
+   * @param redirectUri The callback URL used when the flow started
+   * @returns Promise<{ sessionId: string; email: string }> The new session ID and the signed-in admin's email
+   */
+  static async completeAuthorization(
+    code: string,
+    state: string,
+    pending: string,
+    redirectUri: string,
+  ): Promise<{ sessionId: string; email: string }> {
+    const { state: expectedState, codeVerifier } = JSON.parse(decrypt(pending))
+    if (!state || state !== expectedState) {
+      throw new Error("OAuth state mismatch, please try signing in again")
+    }
+
+    const client = this.createClient(redirectUri)
+    const { tokens } = await client.getToken({ code, codeVerifier, redirect_uri: redirectUri })
+    if (!tokens.id_token) {
+      throw new Error("Google did not return an ID token")
+    }
+
+    const ticket = await client.verifyIdToken({ idToken: tokens.id_token, audience: client._clientId })
+    const email = ticket.getPayload()?.email
+    if (!email) {
+      throw new Error("Google did not return the account email")
+    }
+
+    const sessionId = randomUUID()
+    const now = new Date().toISOString()
+    const session: StoredOAuthSession = {
+      email,
+      tokens: encrypt(JSON.stringify(tokens)),
+      createdAt: now,
+      updatedAt: now,
+      expiresAt: new Date(Date.now() + this.SESSION_MAX_AGE * 1000).toISOString(),
+    }
+    await updateJsonFile<OAuthSessionStore, void>(this.SESSIONS_FILE, {}, (sessions) => ({
+      data: { ...sessions, [this.hashSessionId(sessionId)]: session },
+      result: undefined,
+    }))
+
+    return { sessionId, email }
+  }
+
+  /**
+   * Load an authorized client for a session, refreshing the access token if it has expired
+   * @param sessionId The session ID from the session cookie
+   * @returns Promise<OAuthSession | null> The session or null if it is unknown, expired or can no longer be refreshed
+   */
+  static async getSession(sessionId?: string): Promise<OAuthSession | null> {
+    if (!sessionId) {
+      return null
+    }
+
+    const key = this.hashSessionId(sessionId)
+    const sessions = await readJsonFile<OAuthSessionStore>(this.SESSIONS_FILE, {})
+    const stored = sessions[key]
+    if (!stored) {
+      return null
+    }
+    // Sessions stored before they had an expiry are treated as expired
+    if (!stored.expiresAt || stored.expiresAt <= new Date().toISOString()) {
+      await this.deleteSession(key)
+      return null
+    }
+
+    const client = this.createClient()
+    const credentials: Auth.Credentials = JSON.parse(decrypt(stored.tokens))
+    client.setCredentials(credentials)
+
+    // Persist refreshed tokens, keeping the refresh token Google only sends once
+    client.on("tokens", (tokens) => {
+      this.saveTokens(key, { ...credentials, ...tokens, refresh_token: tokens.refresh_token || credentials.refresh_token })
+        .catch((error) => console.error("Error saving refreshed OAuth tokens:", error))
+    })
+
+    try {
+      await client.getAccessToken()
+    } catch (error) {
+      console.error("Error refreshing OAuth access token:", error)
+      await this.deleteSession(key)
+      return null
+    }
+
+    return { email: stored.email, client }
+  }
+
+  /**
+   * Revoke a session's tokens with Google and delete it
+   * @param sessionId The session ID from the session cookie
+   */
+  static async signOut(sessionId?: string): Promise<void> {
+    if (!sessionId) {
+      return
+    }
+
+    const key = this.hashSessionId(sessionId)
+    const sessions = await readJsonFile<OAuthSessionStore>(this.SESSIONS_FILE, {})
+    const stored = sessions[key]
+    if (stored) {
+      try {
+        const credentials: Auth.Credentials = JSON.parse(decrypt(stored.tokens))
+        const token = credentials.refresh_token || credentials.access_token
+        if (token) {
+          await this.createClient().revokeToken(token)
+        }
+      } catch (error) {
+        console.error("Error revoking OAuth token:", error)
+      }
+    }
+
+    await this.deleteSession(key)
+  }
+
+  private static async saveTokens(key: string, tokens: Auth.Credentials): Promise<void> {
+    await updateJsonFile<OAuthSessionStore, void>(this.SESSIONS_FILE, {}, (sessions) => {
+      if (!sessions[key]) {
+        return { data: sessions, result: undefined }
+      }
+      return {
+        data: {
+          ...sessions,
+          [key]: { ...sessions[key], tokens: encrypt(JSON.stringify(tokens)), updatedAt: new Date().toISOString() },
+        },
+        result: undefined,
+      }
+    })
+  }
+
+  private static async deleteSession(key: string): Promise<void> {
+    await updateJsonFile<OAuthSessionStore, void>(this.SESSIONS_FILE, {}, (sessions) => {
+      const { [key]: _removed, ...remaining } = sessions
+      return { data: remaining, result: undefined }
+    })
+  }
+
+  private static hashSessionId(sessionId: string): string {
+    return createHash("sha256").update(sessionId).digest("hex")
+  }
+}
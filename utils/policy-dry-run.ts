@@ -0,0 +1,86 @@
+/**
+ * Evaluates delegate changes against the current or a draft delegation policy without applying them.
+ */
+
+import type { DelegationPolicy, PolicyCheck, PolicyDryRunResult } from "../types"
+import { matchesMailboxPattern } from "../lib/mailbox-pattern"
+import { evaluatePolicy } from "../lib/policy-engine"
+import { ApprovalRules } from "./approval-rules"
+import { connectGmailClient, listDelegates } from "./gmail-integration"
+import type { RequestCredential } from "./request-credential"
+
+/**
+ * Evaluate a list of changes in order, as a batch would apply them.
+ * With a credential the mailboxes' current delegates are read so delegate limits are checked too;
+ * earlier allowed changes in the list count towards later ones.
+ * @param policy The policy to evaluate against
+ * @param checks The changes
+ * @param requestCredential A credential to read current delegates with, if available
+ * @returns Promise<PolicyDryRunResult[]> One result per change
+ */
+export async function dryRunPolicy(
+  policy: DelegationPolicy,
+  checks: PolicyCheck[],
+  requestCredential?: RequestCredential | null,
+): Promise<PolicyDryRunResult[]> {
+  const approvalRules = await ApprovalRules.list()
+  const delegatesByMailbox: Record<string, string[] | string> = {}
+  const results: PolicyDryRunResult[] = []
+
+  for (let i = 0; i < checks.length; i++) {
+    const check = checks[i]
+    const mailbox = check.userEmail.toLowerCase()
+    let evaluation = evaluatePolicy(policy, check)
+    let limitNotChecked: string | undefined
+
+    if (evaluation.maxDelegates !== undefined && check.operation === "add") {
+      if (!requestCredential) {
+        limitNotChecked = "No credential was given to read the mailbox's delegates"
+      } else {
+        if (delegatesByMailbox[mailbox] === undefined) {
+          delegatesByMailbox[mailbox] = await readDelegates(mailbox, requestCredential)
+        }
+        const current = delegatesByMailbox[mailbox]
+        if (typeof current === "string") {
+          limitNotChecked = current
+        } else {
+          evaluation = evaluatePolicy(policy, check, current)
+        }
+      }
+    }
+
+    // Later changes in the list see the effect of the earlier ones
+    const current = delegatesByMailbox[mailbox]
+    if (evaluation.allowed && Array.isArray(current)) {
+      const delegate = check.delegateEmail.toLowerCase()
+      delegatesByMailbox[mailbox] =
+        check.operation === "add" ? current.concat(delegate) : current.filter((existing) => existing !== delegate)
+    }
+
+    const requiresApproval =
+      !!evaluation.approvalRuleId ||
+      approvalRules.some(
+        (rule) => rule.operations.includes(check.operation) && matchesMailboxPattern(rule.mailboxPattern, check.userEmail),
+      )
+    results.push({ ...check, evaluation, requiresApproval, limitNotChecked })
+  }
+
+  return results
+}
+
+/**
+ * Read a mailbox's delegates
+ * @returns Promise<string[] | string> The delegate addresses, or why they could not be read
+ */
+async function readDelegates(mailbox: string, requestCredential: RequestCredential): Promise<string[] | string> {
+  try {
+    const gmail = await connectGmailClient(requestCredential.credential, mailbox)
+    const result = await listDelegates(gmail)
+    if (!result.success) {
+      return result.message
+    }
+    return (result.delegates || []).map((delegate) => (delegate.delegateEmail || "").toLowerCase())
+  } catch (error: any) {
+    return error.message || "Could not read the mailbox's delegates"
+  }
+}
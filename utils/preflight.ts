@@ -0,0 +1,81 @@
+import { google } from "googleapis"
+import type { PreflightResult, ScopeCheck } from "../types"
+import { GMAIL_SCOPES } from "./gmail-integration"
+import { ServiceAccountManager } from "./service-account"
+
+/**
+ * Try to impersonate a mailbox with a single scope to see whether domain-wide delegation grants it
+ * @param serviceAccount The parsed service account JSON
+ * @param mailbox The mailbox to impersonate
+ * @param scope The scope to request
+ * @returns Promise<ScopeCheck> Whether the scope was granted
+ */
+async function checkScope(serviceAccount: any, mailbox: string, scope: string): Promise<ScopeCheck> {
+  const auth = new google.auth.JWT(serviceAccount.client_email, undefined, serviceAccount.private_key, [scope], mailbox)
+
+  try {
+    await auth.getAccessToken()
+    return { scope, granted: true }
+  } catch (error: any) {
+    const data = error.response?.data
+    const description = data?.error_description || error.message
+    return { scope, granted: false, error: data?.error ? `${data.error}: ${description}` : description }
+  }
+}
+
+/**
+ * Validate a service account key and check which Gmail scopes domain-wide delegation grants it for a mailbox
+ * @param serviceAccount The parsed service account JSON
+ * @param mailbox The mailbox to test impersonation against
+ * @returns Promise<PreflightResult> The validation problems and per-scope results
+ */
+export async function runPreflight(serviceAccount: any, mailbox: string): Promise<PreflightResult> {
+  const problems = ServiceAccountManager.validate(serviceAccount)
+  const base = {
+    clientEmail: serviceAccount?.client_email,
+    clientId: serviceAccount?.client_id,
+    mailbox,
+  }
+
+  if (problems.length > 0) {
+    return {
+      ...base,
+      valid: false,
+      problems,
+      scopes: [],
+      missingScopes: [],
+      message: "The service account key is invalid",
+    }
+  }
+
+  const scopes: ScopeCheck[] = []
+  for (const scope of GMAIL_SCOPES) {
+    scopes.push(await checkScope(serviceAccount, mailbox, scope))
+  }
+
+  // invalid_grant on every scope means the mailbox itself could not be impersonated
+  if (scopes.every((check) => !check.granted && check.error?.startsWith("invalid_grant"))) {
+    return {
+      ...base,
+      valid: false,
+      problems: [`Could not impersonate ${mailbox}: ${scopes[0].error}`],
+      scopes,
+      missingScopes: [],
+      message: `Check that ${mailbox} is an existing user in your Workspace domain`,
+    }
+  }
+
+  const missingScopes = scopes.filter((check) => !check.granted).map((check) => check.scope)
+
+  return {
+    ...base,
+    valid: missingScopes.length === 0,
+    problems: [],
+    scopes,
+    missingScopes,
+    message:
+      missingScopes.length === 0
+        ? "Domain-wide delegation is configured correctly"
+        : `Domain-wide delegation for client ID ${serviceAccount.client_id} is missing ${missingScopes.length} scope(s)`,
+  }
+}
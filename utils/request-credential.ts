@@ -0,0 +1,94 @@
+import type { NextRequest } from "next/server"
+import type { Auth } from "googleapis"
+import type { UserAccount } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { ApiKeys } from "./api-keys"
+import { CredentialVault } from "./credential-vault"
+import { OAuthManager } from "./oauth"
+import { ServiceAccountManager } from "./service-account"
+
+/**
+ * The credential a request acts with, and who to attribute its operations to
+ */
+export interface RequestCredential {
+  credential: any | Auth.OAuth2Client
+  actor: string
+  credentialId?: string
+  /** The signed-in user the request acts for; change requests record them as the requester */
+  user?: string
+}
+
+/**
+ * Read a request body as form fields. JSON bodies are accepted as an alternative to multipart or urlencoded forms:
+ * strings, numbers and booleans become fields as they are, and arrays and objects become JSON strings.
+ * @param request The incoming request
+ * @returns Promise<FormData> The fields, empty if the request has no body
+ * @throws DelegationError When a JSON body cannot be parsed
+ */
+export async function readRequestForm(request: NextRequest): Promise<FormData> {
+  const contentType = request.headers.get("content-type") || ""
+  if (!contentType.includes("application/json")) {
+    return request.formData().catch(() => new FormData())
+  }
+
+  let body: any
+  try {
+    body = await request.json()
+  } catch {
+    throw new DelegationError("invalid_request", "The request body must be valid JSON")
+  }
+  const formData = new FormData()
+  if (body && typeof body === "object" && !Array.isArray(body)) {
+    Object.keys(body).forEach((key) => {
+      const value = body[key]
+      if (value === null || value === undefined) return
+      formData.set(key, typeof value === "object" ? JSON.stringify(value) : String(value))
+    })
+  }
+  return formData
+}
+
+/**
+ * Resolve the credential for an API request.
+ * A stored credential ID takes precedence, then an uploaded service account file, then the default credential
+ * of the API key the request was made with, then the OAuth session cookie.
+ * @param request The incoming request
+ * @param formData The parsed request body
+ * @param user The signed-in user, who operations are attributed to instead of the credential's account
+ * @returns Promise<RequestCredential | null> The credential or null if the request carries none
+ */
+export async function resolveRequestCredential(
+  request: NextRequest,
+  formData: FormData,
+  user?: UserAccount | null,
+): Promise<RequestCredential | null> {
+  const requestedId = formData.get("credentialId") as string | null
+  const serviceAccountFile = (formData.get("serviceAccountFile") || formData.get("serviceAccount")) as File | null
+  if (!requestedId && serviceAccountFile && typeof serviceAccountFile !== "string") {
+    const serviceAccount = await ServiceAccountManager.parseFile(serviceAccountFile)
+    return {
+      credential: serviceAccount,
+      actor: user?.username || serviceAccount.client_email || "unknown",
+      user: user?.username,
+    }
+  }
+
+  const apiKey = user?.apiKeyId ? await ApiKeys.get(user.apiKeyId) : null
+  const credentialId = requestedId || apiKey?.credentialId
+  if (credentialId) {
+    const serviceAccount = await CredentialVault.get(credentialId)
+    return {
+      credential: serviceAccount,
+      actor: user?.username || serviceAccount.client_email,
+      credentialId,
+      user: user?.username,
+    }
+  }
+
+  const oauthSession = await OAuthManager.getSession(request.cookies.get(OAuthManager.SESSION_COOKIE)?.value)
+  if (oauthSession) {
+    return { credential: oauthSession.client, actor: user?.username || oauthSession.email, user: user?.username }
+  }
+
+  return null
+}
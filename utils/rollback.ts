@@ -0,0 +1,150 @@
+/**
+ * Undoes completed delegate operations from the state recorded in the activity log:
+ * added delegates are removed and removed delegates are added back.
+ */
+
+import type { ActivityEntry, ActivityInverse, JobRollback, OperationResult } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { ActivityLog } from "./activity-log"
+import { BatchJobManager } from "./batch-jobs"
+import { CredentialVault } from "./credential-vault"
+import { processDelegateOperation } from "./gmail-integration"
+import type { RequestCredential } from "./request-credential"
+
+/**
+ * Undo a single operation.
+ * Rollbacks are changes like any other: the delegation policy applies, and on a mailbox that requires approval the
+ * undo waits for a second person, whether or not the operation was itself a rollback.
+ * @param entryId The activity entry of the operation
+ * @param actor The signed-in user undoing the operation, recorded as the actor whichever credential is used
+ * @param requestCredential The credential to act with; defaults to the stored credential the operation ran with
+ * @returns Promise<OperationResult> The result of the inverse operation
+ * @throws DelegationError When the entry does not exist or cannot be undone
+ */
+export async function rollbackOperation(
+  entryId: string,
+  actor: string,
+  requestCredential: RequestCredential | null,
+): Promise<OperationResult> {
+  const entry = await ActivityLog.get(entryId)
+  if (!entry) {
+    throw new DelegationError("not_found", `Activity entry ${entryId} not found`)
+  }
+
+  const inverse = inverseOf(entry)
+  if (typeof inverse === "string") {
+    throw new DelegationError("invalid_request", inverse)
+  }
+
+  const result = await processDelegateOperation(
+    inverse.operation,
+    inverse.userEmail,
+    inverse.delegateEmail,
+    await rollbackCredential(actor, requestCredential, entry.credentialId),
+    "rollback",
+    { expiresAt: inverse.expiresAt, reason: `Rollback of activity entry ${entry.id}`, rollbackOf: entry.id },
+  )
+  return { ...result, userEmail: result.userEmail || inverse.userEmail } as OperationResult
+}
+
+/**
+ * Undo every completed operation of a batch job, newest first, as a new background job.
+ * Operations that were already undone are left out; ones that can no longer be undone are reported as skipped.
+ * @param jobId The job to roll back
+ * @param actor The signed-in user undoing the job, recorded as the actor whichever credential is used
+ * @param requestCredential The credential to act with; defaults to the stored credential the job ran with
+ * @returns Promise<JobRollback> The rollback job and the operations it skipped
+ * @throws DelegationError When the job does not exist, is still running, or has nothing to undo
+ */
+export async function rollbackJob(
+  jobId: string,
+  actor: string,
+  requestCredential: RequestCredential | null,
+): Promise<JobRollback> {
+  const job = await BatchJobManager.get(jobId)
+  if (!job) {
+    throw new DelegationError("not_found", `Job ${jobId} not found`)
+  }
+  if (!BatchJobManager.isFinished(job)) {
+    throw new DelegationError("invalid_request", "A job can only be rolled back once it has finished")
+  }
+
+  const entries = (await ActivityLog.forJob(jobId)).filter((entry) => entry.inverse && entry.success && !entry.rolledBackBy)
+  const operations: ActivityInverse[] = []
+  const rollbackEntries: string[] = []
+  const skipped: JobRollback["skipped"] = []
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const inverse = inverseOf(entries[i])
+    if (typeof inverse === "string") {
+      skipped.push({ entryId: entries[i].id, message: inverse })
+    } else {
+      operations.push(inverse)
+      rollbackEntries.push(entries[i].id)
+    }
+  }
+
+  if (operations.length === 0) {
+    throw new DelegationError(
+      "invalid_request",
+      skipped.length > 0 ? skipped[0].message : `Job ${jobId} has no completed changes left to roll back`,
+    )
+  }
+
+  const credential = await rollbackCredential(actor, requestCredential, job.credentialId)
+  const rollback = await BatchJobManager.submit(operations, credential, {
+    reason: `Rollback of batch job ${jobId}`,
+    rollbackOf: jobId,
+    rollbackEntries,
+  })
+  return { job: rollback, skipped }
+}
+
+/**
+ * The operation that undoes an entry
+ * @returns ActivityInverse | string The inverse operation, or why the entry cannot be undone
+ */
+function inverseOf(entry: ActivityEntry): ActivityInverse | string {
+  if (!entry.success || !entry.inverse) {
+    return "Only successful adds and removes can be rolled back"
+  }
+  if (entry.rolledBackBy) {
+    return `This operation was already rolled back by ${entry.rolledBackBy}`
+  }
+  // The removed delegate's access would have ended by now, so there is nothing to restore
+  if (entry.inverse.expiresAt && Date.parse(entry.inverse.expiresAt) <= Date.now()) {
+    return `${entry.inverse.delegateEmail} would have expired from ${entry.inverse.userEmail} at ${entry.inverse.expiresAt}`
+  }
+  return entry.inverse
+}
+
+/**
+ * The credential to undo with, acting as the user who asked for the rollback rather than as the credential
+ * @param credentialId The stored credential the original change ran with, used when none was given
+ */
+async function rollbackCredential(
+  actor: string,
+  requestCredential: RequestCredential | null,
+  credentialId?: string,
+): Promise<RequestCredential> {
+  const base = requestCredential || (await storedCredential(credentialId))
+  return { ...base, actor, user: actor }
+}
+
+/**
+ * Load the stored credential an operation originally ran with
+ * @throws DelegationError When it ran with a credential that was not stored, or the credential is gone
+ */
+async function storedCredential(credentialId?: string): Promise<RequestCredential> {
+  if (!credentialId) {
+    throw new DelegationError(
+      "invalid_request",
+      "The original change was not made with a stored credential; sign in or choose a credential to roll it back",
+    )
+  }
+  try {
+    const serviceAccount = await CredentialVault.get(credentialId)
+    return { credential: serviceAccount, actor: serviceAccount.client_email, credentialId }
+  } catch (error: any) {
+    throw new DelegationError("invalid_credentials", `Stored credential unavailable: ${error.message}`)
+  }
+}
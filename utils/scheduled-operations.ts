@@ -0,0 +1,319 @@
+import { randomUUID } from "crypto"
+import type { OperationResult, ScheduledOperation, ScheduledOperationInput, ScheduledOperationStatus } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { isValidTimeZone, zonedTimeToUtc } from "../lib/timezone"
+import { ActivityLog } from "./activity-log"
+import { CredentialVault } from "./credential-vault"
+import { readJsonFile, updateJsonFile } from "./data-store"
+import { processDelegateOperation } from "./gmail-integration"
+import type { RequestCredential } from "./request-credential"
+
+type ScheduleStore = Record<string, ScheduledOperation>
+
+// Prevents overlapping runs and remembers whether operations interrupted by a restart were requeued
+const runtime = (globalThis.__delegateEaseSchedules ||= { running: null, recovered: false })
+
+/**
+ * Delegate operations queued to run at a later time.
+ * The scheduler in server.js runs due operations through the same logic and audit log as interactive ones.
+ */
+export class ScheduledOperations {
+  private static readonly FILENAME = "scheduled-operations.json"
+  private static readonly HISTORY_LIMIT = 50
+
+  /**
+   * Queue an operation
+   * @param input What to run and when
+   * @param requestCredential The credential to run it with; must be a stored credential
+   * @returns Promise<ScheduledOperation> The queued operation
+   * @throws DelegationError When the input is invalid
+   */
+  static async create(input: ScheduledOperationInput, requestCredential: RequestCredential): Promise<ScheduledOperation> {
+    // The runner loads the key when the operation is due, long after this request
+    if (!requestCredential.credentialId) {
+      throw new DelegationError("invalid_request", "Scheduled operations require a stored credential")
+    }
+
+    const { runAt, expiresAt } = this.validate(input)
+    const now = new Date().toISOString()
+    const scheduled: ScheduledOperation = {
+      id: randomUUID(),
+      operation: input.operation,
+      userEmail: input.userEmail.trim().toLowerCase(),
+      delegateEmail: input.delegateEmail.trim().toLowerCase(),
+      expiresAt,
+      runAt,
+      timezone: input.timezone,
+      credentialId: requestCredential.credentialId,
+      createdBy: requestCredential.actor,
+      createdAt: now,
+      updatedAt: now,
+      status: "pending",
+    }
+
+    return updateJsonFile<ScheduleStore, ScheduledOperation>(this.FILENAME, {}, (store) => ({
+      data: { ...store, [scheduled.id]: scheduled },
+      result: scheduled,
+    }))
+  }
+
+  /**
+   * List scheduled operations: pending ones soonest first, then the most recently finished
+   * @param status Only return operations with this status
+   * @returns Promise<ScheduledOperation[]> The operations
+   */
+  static async list(status?: ScheduledOperationStatus): Promise<ScheduledOperation[]> {
+    const store = await readJsonFile<ScheduleStore>(this.FILENAME, {})
+    const all = Object.keys(store).map((id) => store[id])
+
+    const open = all
+      .filter((scheduled) => scheduled.status === "pending" || scheduled.status === "running")
+      .sort((a, b) => a.runAt.localeCompare(b.runAt))
+    const finished = all
+      .filter((scheduled) => scheduled.status !== "pending" && scheduled.status !== "running")
+      .sort((a, b) => (b.finishedAt || b.updatedAt).localeCompare(a.finishedAt || a.updatedAt))
+      .slice(0, status ? undefined : this.HISTORY_LIMIT)
+
+    return open.concat(finished).filter((scheduled) => !status || scheduled.status === status)
+  }
+
+  /**
+   * Get a single scheduled operation
+   * @param id The operation ID
+   * @returns Promise<ScheduledOperation | null> The operation or null if it does not exist
+   */
+  static async get(id: string): Promise<ScheduledOperation | null> {
+    const store = await readJsonFile<ScheduleStore>(this.FILENAME, {})
+    return store[id] || null
+  }
+
+  /**
+   * Change a pending operation
+   * @param id The operation ID
+   * @param changes The fields to change
+   * @returns Promise<ScheduledOperation> The updated operation
+   * @throws DelegationError When the operation is no longer pending or the changes are invalid
+   */
+  static async update(id: string, changes: Partial<ScheduledOperationInput>): Promise<ScheduledOperation> {
+    return this.updatePending(id, (scheduled) => {
+      const merged: ScheduledOperationInput = {
+        operation: changes.operation || scheduled.operation,
+        userEmail: changes.userEmail ?? scheduled.userEmail,
+        delegateEmail: changes.delegateEmail ?? scheduled.delegateEmail,
+        expiresAt: changes.expiresAt !== undefined ? changes.expiresAt : scheduled.expiresAt,
+        // The stored run time is absolute, so only a new runAt is read in the (possibly new) time zone
+        runAt: changes.runAt ?? scheduled.runAt,
+        timezone: changes.timezone || scheduled.timezone,
+      }
+      const { runAt, expiresAt } = this.validate(merged)
+      return {
+        ...scheduled,
+        operation: merged.operation,
+        userEmail: merged.userEmail.trim().toLowerCase(),
+        delegateEmail: merged.delegateEmail.trim().toLowerCase(),
+        expiresAt,
+        runAt,
+        timezone: merged.timezone,
+        updatedAt: new Date().toISOString(),
+      }
+    })
+  }
+
+  /**
+   * Cancel a pending operation
+   * @param id The operation ID
+   * @returns Promise<ScheduledOperation> The cancelled operation
+   * @throws DelegationError When the operation is no longer pending
+   */
+  static async cancel(id: string): Promise<ScheduledOperation> {
+    const now = new Date().toISOString()
+    return this.updatePending(id, (scheduled) => ({ ...scheduled, status: "cancelled", updatedAt: now, finishedAt: now }))
+  }
+
+  /**
+   * Run every pending operation whose time has come. Concurrent calls share the run in progress.
+   * @returns Promise<ScheduledOperation[]> The operations that ran
+   */
+  static async runDue(): Promise<ScheduledOperation[]> {
+    if (runtime.running) {
+      return runtime.running
+    }
+
+    runtime.running = this.run()
+    try {
+      return await runtime.running
+    } finally {
+      runtime.running = null
+    }
+  }
+
+  private static async run(): Promise<ScheduledOperation[]> {
+    await this.recover()
+
+    const now = new Date().toISOString()
+    const due = (await this.list("pending")).filter((scheduled) => scheduled.runAt <= now)
+    const finished: ScheduledOperation[] = []
+
+    for (let i = 0; i < due.length; i++) {
+      const claimed = await this.transition(due[i].id, "pending", (scheduled) => ({
+        ...scheduled,
+        status: "running",
+        startedAt: new Date().toISOString(),
+      }))
+      // Cancelled or edited to a later time since the list was read
+      if (!claimed || claimed.runAt > now) {
+        if (claimed) await this.transition(claimed.id, "running", (scheduled) => ({ ...scheduled, status: "pending" }))
+        continue
+      }
+
+      const result = await this.execute(claimed)
+      const done = await this.transition(claimed.id, "running", (scheduled) => ({
+        ...scheduled,
+        status: result.success ? "completed" : "failed",
+        finishedAt: new Date().toISOString(),
+        result,
+      }))
+      if (done) finished.push(done)
+    }
+
+    return finished
+  }
+
+  private static async execute(scheduled: ScheduledOperation): Promise<OperationResult> {
+    let requestCredential: RequestCredential
+    try {
+      const serviceAccount = await CredentialVault.get(scheduled.credentialId)
+      requestCredential = {
+        credential: serviceAccount,
+        actor: `${scheduled.createdBy} (scheduled)`,
+        credentialId: scheduled.credentialId,
+        user: scheduled.createdBy,
+      }
+    } catch (error: any) {
+      const message = `Stored credential unavailable: ${error.message}`
+      await ActivityLog.record({
+        actor: `${scheduled.createdBy} (scheduled)`,
+        operation: scheduled.operation,
+        userEmail: scheduled.userEmail,
+        delegateEmail: scheduled.delegateEmail,
+        success: false,
+        message,
+        source: "scheduler",
+        errorCode: "invalid_credentials",
+      })
+      return {
+        success: false,
+        operation: scheduled.operation,
+        userEmail: scheduled.userEmail,
+        delegateEmail: scheduled.delegateEmail,
+        message,
+        errorCode: "invalid_credentials",
+      }
+    }
+
+    const result = await processDelegateOperation(
+      scheduled.operation,
+      scheduled.userEmail,
+      scheduled.delegateEmail,
+      requestCredential,
+      "scheduler",
+      { expiresAt: scheduled.expiresAt, reason: `Scheduled by ${scheduled.createdBy} for ${scheduled.runAt}` },
+    )
+    return { ...result, userEmail: result.userEmail || scheduled.userEmail } as OperationResult
+  }
+
+  /**
+   * Operations left running by a crash or restart are put back in the queue once per process
+   */
+  private static async recover(): Promise<void> {
+    if (runtime.recovered) {
+      return
+    }
+    runtime.recovered = true
+
+    await updateJsonFile<ScheduleStore, void>(this.FILENAME, {}, (store) => {
+      const data: ScheduleStore = {}
+      Object.keys(store).forEach((id) => {
+        data[id] = store[id].status === "running" ? { ...store[id], status: "pending", startedAt: undefined } : store[id]
+      })
+      return { data, result: undefined }
+    })
+  }
+
+  /**
+   * Check an operation and resolve its run time and expiry, both read in the operation's time zone
+   * @returns The run time and expiry as UTC timestamps
+   */
+  private static validate(input: ScheduledOperationInput): { runAt: string; expiresAt?: string } {
+    const problems: string[] = []
+
+    if (input.operation !== "add" && input.operation !== "remove") {
+      problems.push("operation must be add or remove")
+    }
+    if (!input.userEmail?.trim() || !input.delegateEmail?.trim()) {
+      problems.push("userEmail and delegateEmail are required")
+    }
+    if (!input.timezone || !isValidTimeZone(input.timezone)) {
+      problems.push(`Unknown time zone: ${input.timezone}`)
+    }
+
+    const runAt = input.runAt ? zonedTimeToUtc(input.runAt, input.timezone) : null
+    if (!runAt) {
+      problems.push(`Invalid run time: ${input.runAt}`)
+    } else if (runAt.getTime() <= Date.now()) {
+      problems.push("Run time must be in the future")
+    }
+
+    const expiresAt = input.expiresAt ? zonedTimeToUtc(input.expiresAt, input.timezone) : null
+    if (input.expiresAt) {
+      if (input.operation !== "add") {
+        problems.push("Only add operations can have an expiry")
+      } else if (!expiresAt) {
+        problems.push(`Invalid expiry: ${input.expiresAt}`)
+      } else if (runAt && expiresAt.getTime() <= runAt.getTime()) {
+        problems.push("Expiry must be after the run time")
+      }
+    }
+
+    if (problems.length > 0 || !runAt) {
+      throw new DelegationError("invalid_request", problems.join("; "), problems)
+    }
+    return { runAt: runAt.toISOString(), expiresAt: expiresAt ? expiresAt.toISOString() : undefined }
+  }
+
+  private static async updatePending(
+    id: string,
+    updater: (scheduled: ScheduledOperation) => ScheduledOperation,
+  ): Promise<ScheduledOperation> {
+    return updateJsonFile<ScheduleStore, ScheduledOperation>(this.FILENAME, {}, (store) => {
+      const scheduled = store[id]
+      if (!scheduled) {
+        throw new DelegationError("not_found", `Scheduled operation ${id} not found`)
+      }
+      if (scheduled.status !== "pending") {
+        throw new DelegationError("invalid_request", `Scheduled operation is already ${scheduled.status}`)
+      }
+      const updated = updater(scheduled)
+      return { data: { ...store, [id]: updated }, result: updated }
+    })
+  }
+
+  /**
+   * Apply an update only if the operation is still in the expected status
+   * @returns The updated operation, or null if its status had changed
+   */
+  private static async transition(
+    id: string,
+    from: ScheduledOperationStatus,
+    updater: (scheduled: ScheduledOperation) => ScheduledOperation,
+  ): Promise<ScheduledOperation | null> {
+    return updateJsonFile<ScheduleStore, ScheduledOperation | null>(this.FILENAME, {}, (store) => {
+      const scheduled = store[id]
+      if (!scheduled || scheduled.status !== from) {
+        return { data: store, result: null }
+      }
+      const updated = updater(scheduled)
+      return { data: { ...store, [id]: updated }, result: updated }
+    })
+  }
+}
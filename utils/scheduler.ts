@@ -0,0 +1,22 @@
+import { timingSafeEqual } from "crypto"
+import type { NextRequest } from "next/server"
+
+/**
+ * Header server.js sends on the requests its scheduler makes
+ */
+export const SCHEDULER_HEADER = "x-delegateease-scheduler"
+
+/**
+ * Whether a request was made by the scheduler in server.js rather than by a user.
+ * server.js puts a shared token in DELEGATEEASE_SCHEDULER_TOKEN before starting Next.js.
+ * @param request The incoming request
+ * @returns boolean True if the request carries the scheduler token
+ */
+export function isSchedulerRequest(request: NextRequest): boolean {
+  const expected = process.env.DELEGATEEASE_SCHEDULER_TOKEN
+  const actual = request.headers.get(SCHEDULER_HEADER)
+  if (!expected || !actual || expected.length !== actual.length) {
+    return false
+  }
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(actual))
+}
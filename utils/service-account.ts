@@ -1,35 +1,59 @@
 import fs from "fs"
-import path from "path"
-import os from "os"
-import { randomUUID } from "crypto"
+import { createPrivateKey } from "crypto"
 
 /**
  * Manages service account file operations
  */
 export class ServiceAccountManager {
-  private static readonly TEMP_DIR = path.join(os.tmpdir(), "delegateease")
+  /**
+   * Parse an uploaded service account file in memory, without writing the key to disk
+   * @param file The uploaded service account file
+   * @returns Promise<any> The parsed service account JSON
+   */
+  static async parseFile(file: File): Promise<any> {
+    const content = await file.text()
+    try {
+      return JSON.parse(content)
+    } catch {
+      throw new Error("Service account file is not valid JSON")
+    }
+  }
 
   /**
-   * Save a service account file to a temporary location
-   * @param file The service account file to save
-   * @returns Promise<string> The path to the saved file
+   * Check that a parsed key file is a usable service account key
+   * @param serviceAccount The parsed service account JSON
+   * @returns string[] Human-readable problems with the key; empty when the key is valid
    */
-  static async saveFile(file: File): Promise<string> {
-    // Create temp directory if it doesn't exist
-    if (!fs.existsSync(this.TEMP_DIR)) {
-      fs.mkdirSync(this.TEMP_DIR, { recursive: true })
+  static validate(serviceAccount: any): string[] {
+    const problems: string[] = []
+
+    if (!serviceAccount || typeof serviceAccount !== "object") {
+      return ["Key file must contain a JSON object"]
     }
 
-    // Generate a unique filename
-    const filename = `sa_${Date.now()}_${randomUUID()}.json`
-    const filepath = path.join(this.TEMP_DIR, filename)
+    if (serviceAccount.type !== "service_account") {
+      problems.push(`Key type must be "service_account", got ${JSON.stringify(serviceAccount.type ?? null)}`)
+    }
+
+    if (typeof serviceAccount.client_email !== "string" || !serviceAccount.client_email.includes("@")) {
+      problems.push("client_email is missing or is not an email address")
+    }
 
-    // Convert File to Buffer and write to disk
-    const arrayBuffer = await file.arrayBuffer()
-    const buffer = Buffer.from(arrayBuffer)
-    fs.writeFileSync(filepath, buffer)
+    if (typeof serviceAccount.client_id !== "string" || !/^\d+$/.test(serviceAccount.client_id)) {
+      problems.push("client_id is missing or is not numeric; it is needed for domain-wide delegation")
+    }
+
+    if (typeof serviceAccount.private_key !== "string" || !serviceAccount.private_key) {
+      problems.push("private_key is missing")
+    } else {
+      try {
+        createPrivateKey(serviceAccount.private_key)
+      } catch (error: any) {
+        problems.push(`private_key is not a valid PEM private key: ${error.message}`)
+      }
+    }
 
-    return filepath
+    return problems
   }
 
   /**
@@ -41,26 +65,4 @@ export class ServiceAccountManager {
     const content = await fs.promises.readFile(filepath, "utf-8")
     return JSON.parse(content)
   }
-
-  /**
-   * Clean up a service account file
-   * @param filepath The path to the service account file
-   */
-  static async cleanupFile(filepath: string): Promise<void> {
-    if (fs.existsSync(filepath)) {
-      await fs.promises.unlink(filepath)
-    }
-  }
-
-  /**
-   * Clean up all temporary service account files
-   */
-  static async cleanupAll(): Promise<void> {
-    if (fs.existsSync(this.TEMP_DIR)) {
-      const files = await fs.promises.readdir(this.TEMP_DIR)
-      await Promise.all(
-        files.map((file) => fs.promises.unlink(path.join(this.TEMP_DIR, file)))
-      )
-    }
-  }
-} 
\ No newline at end of file
+}
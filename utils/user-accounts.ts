@@ -0,0 +1,314 @@
+import { createHash, randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto"
+import { promisify } from "util"
+import type { UserAccount, UserAccountInput } from "../types"
+import { DelegationError } from "../lib/delegation-errors"
+import { USER_ROLES, validateMailboxScopes } from "../lib/permissions"
+import { readJsonFile, updateJsonFile } from "./data-store"
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>
+
+/**
+ * A user account as stored on disk, with its password hash
+ */
+interface StoredUser extends UserAccount {
+  passwordHash: string
+}
+
+interface StoredUserSession {
+  userId: string
+  createdAt: string
+  expiresAt: string
+}
+
+type UserStore = Record<string, StoredUser>
+type UserSessionStore = Record<string, StoredUserSession>
+
+/**
+ * Local DelegateEase user accounts and their sign-in sessions.
+ * Passwords are hashed with scrypt; session IDs are only stored hashed.
+ */
+export class UserAccounts {
+  static readonly SESSION_COOKIE = "delegateease_user"
+  static readonly SESSION_MAX_AGE = 12 * 60 * 60
+
+  private static readonly FILENAME = "users.json"
+  private static readonly SESSIONS_FILE = "user-sessions.json"
+  private static readonly MIN_PASSWORD_LENGTH = 8
+  private static readonly KEY_LENGTH = 64
+
+  /**
+   * List every account
+   * @returns Promise<UserAccount[]> The accounts, sorted by username, without password hashes
+   */
+  static async list(): Promise<UserAccount[]> {
+    const users = await readJsonFile<UserStore>(this.FILENAME, {})
+    return Object.keys(users)
+      .map((id) => this.toAccount(users[id]))
+      .sort((a, b) => a.username.localeCompare(b.username))
+  }
+
+  /**
+   * Whether any account exists yet; until one does, the first admin can be created without signing in
+   * @returns Promise<boolean> True once an account has been created
+   */
+  static async hasUsers(): Promise<boolean> {
+    const users = await readJsonFile<UserStore>(this.FILENAME, {})
+    return Object.keys(users).length > 0
+  }
+
+  /**
+   * Create an account
+   * @param input The username, password, role and, for operators, mailbox scopes
+   * @param options firstAdmin creates the initial admin and fails once any account exists
+   * @returns Promise<UserAccount> The new account
+   * @throws DelegationError When a field is invalid or the username is taken
+   */
+  static async create(input: UserAccountInput, options: { firstAdmin?: boolean } = {}): Promise<UserAccount> {
+    const role = options.firstAdmin ? "admin" : input.role
+    const fields = this.validate({ ...input, role }, true)
+    const passwordHash = await this.hashPassword(input.password as string)
+    const now = new Date().toISOString()
+
+    const user: StoredUser = {
+      id: randomUUID(),
+      username: fields.username as string,
+      displayName: fields.displayName,
+      role: fields.role || "viewer",
+      mailboxScopes: fields.mailboxScopes || [],
+      createdAt: now,
+      updatedAt: now,
+      passwordHash,
+    }
+
+    return updateJsonFile<UserStore, UserAccount>(this.FILENAME, {}, (users) => {
+      const ids = Object.keys(users)
+      if (options.firstAdmin && ids.length > 0) {
+        throw new DelegationError("forbidden", "DelegateEase is already set up; sign in as an admin to add users")
+      }
+      if (ids.some((id) => users[id].username === user.username)) {
+        throw new DelegationError("already_exists", `User ${user.username} already exists`)
+      }
+      return { data: { ...users, [user.id]: user }, result: this.toAccount(user) }
+    })
+  }
+
+  /**
+   * Change an account's details, role, scopes or password
+   * @param id The account ID
+   * @param input The fields to change
+   * @returns Promise<UserAccount> The updated account
+   * @throws DelegationError When the account does not exist, a field is invalid, or the last admin would be lost
+   */
+  static async update(id: string, input: UserAccountInput): Promise<UserAccount> {
+    const fields = this.validate(input, false)
+    const passwordHash = input.password ? await this.hashPassword(input.password) : undefined
+
+    const updated = await updateJsonFile<UserStore, UserAccount>(this.FILENAME, {}, (users) => {
+      const existing = users[id]
+      if (!existing) {
+        throw new DelegationError("not_found", `User ${id} not found`)
+      }
+      const next: StoredUser = {
+        ...existing,
+        ...fields,
+        passwordHash: passwordHash || existing.passwordHash,
+        updatedAt: new Date().toISOString(),
+      }
+      const others = Object.keys(users).filter((other) => other !== id)
+      if (others.some((other) => users[other].username === next.username)) {
+        throw new DelegationError("already_exists", `User ${next.username} already exists`)
+      }
+      this.assertAdminRemains(others.map((other) => users[other]).concat(next))
+      return { data: { ...users, [id]: next }, result: this.toAccount(next) }
+    })
+
+    // A disabled account or a new password signs the user out everywhere
+    if (input.disabled || input.password) {
+      await this.endSessions(id)
+    }
+    return updated
+  }
+
+  /**
+   * Delete an account and end its sessions
+   * @param id The account ID
+   * @throws DelegationError When the account does not exist or is the last admin
+   */
+  static async remove(id: string): Promise<void> {
+    await updateJsonFile<UserStore, void>(this.FILENAME, {}, (users) => {
+      if (!users[id]) {
+        throw new DelegationError("not_found", `User ${id} not found`)
+      }
+      const { [id]: _removed, ...remaining } = users
+      this.assertAdminRemains(Object.keys(remaining).map((other) => remaining[other]))
+      return { data: remaining, result: undefined }
+    })
+    await this.endSessions(id)
+  }
+
+  /**
+   * Check a username and password and start a session
+   * @param username The sign-in name
+   * @param password The password
+   * @returns Promise<{ sessionId: string; user: UserAccount }> The session ID to keep in a cookie and the signed-in user
+   * @throws DelegationError When the credentials are wrong or the account is disabled
+   */
+  static async signIn(username: string, password: string): Promise<{ sessionId: string; user: UserAccount }> {
+    const users = await readJsonFile<UserStore>(this.FILENAME, {})
+    const normalized = (username || "").trim().toLowerCase()
+    const stored = Object.keys(users)
+      .map((id) => users[id])
+      .find((user) => user.username === normalized)
+
+    if (!stored || !(await this.verifyPassword(password || "", stored.passwordHash)) || stored.disabled) {
+      throw new DelegationError("unauthenticated", "Invalid username or password")
+    }
+
+    const sessionId = randomBytes(32).toString("hex")
+    const now = new Date()
+    await updateJsonFile<UserSessionStore, void>(this.SESSIONS_FILE, {}, (sessions) => ({
+      data: {
+        ...this.withoutExpired(sessions),
+        [this.hashSessionId(sessionId)]: {
+          userId: stored.id,
+          createdAt: now.toISOString(),
+          expiresAt: new Date(now.getTime() + this.SESSION_MAX_AGE * 1000).toISOString(),
+        },
+      },
+      result: undefined,
+    }))
+
+    const user = await updateJsonFile<UserStore, UserAccount>(this.FILENAME, {}, (current) => {
+      const signedIn = { ...current[stored.id], lastSignInAt: now.toISOString() }
+      return { data: { ...current, [stored.id]: signedIn }, result: this.toAccount(signedIn) }
+    })
+    return { sessionId, user }
+  }
+
+  /**
+   * Look up the user behind a session
+   * @param sessionId The session ID from the session cookie
+   * @returns Promise<UserAccount | null> The user, or null if the session is unknown, expired or the account is disabled
+   */
+  static async getSessionUser(sessionId?: string): Promise<UserAccount | null> {
+    if (!sessionId) {
+      return null
+    }
+
+    const sessions = await readJsonFile<UserSessionStore>(this.SESSIONS_FILE, {})
+    const session = sessions[this.hashSessionId(sessionId)]
+    if (!session || session.expiresAt <= new Date().toISOString()) {
+      return null
+    }
+
+    const users = await readJsonFile<UserStore>(this.FILENAME, {})
+    const user = users[session.userId]
+    return user && !user.disabled ? this.toAccount(user) : null
+  }
+
+  /**
+   * End a session
+   * @param sessionId The session ID from the session cookie
+   */
+  static async signOut(sessionId?: string): Promise<void> {
+    if (!sessionId) {
+      return
+    }
+    const key = this.hashSessionId(sessionId)
+    await updateJsonFile<UserSessionStore, void>(this.SESSIONS_FILE, {}, (sessions) => {
+      const { [key]: _removed, ...remaining } = sessions
+      return { data: remaining, result: undefined }
+    })
+  }
+
+  private static async endSessions(userId: string): Promise<void> {
+    await updateJsonFile<UserSessionStore, void>(this.SESSIONS_FILE, {}, (sessions) => {
+      const remaining: UserSessionStore = {}
+      Object.keys(sessions).forEach((key) => {
+        if (sessions[key].userId !== userId) {
+          remaining[key] = sessions[key]
+        }
+      })
+      return { data: remaining, result: undefined }
+    })
+  }
+
+  private static withoutExpired(sessions: UserSessionStore): UserSessionStore {
+    const now = new Date().toISOString()
+    const active: UserSessionStore = {}
+    Object.keys(sessions).forEach((key) => {
+      if (sessions[key].expiresAt > now) {
+        active[key] = sessions[key]
+      }
+    })
+    return active
+  }
+
+  /**
+   * Check and normalize the fields of a new or changed account
+   */
+  private static validate(input: UserAccountInput, isNew: boolean): Partial<StoredUser> {
+    const problems: string[] = []
+    const fields: Partial<StoredUser> = {}
+
+    if (isNew || input.username !== undefined) {
+      fields.username = (input.username || "").trim().toLowerCase()
+      if (!fields.username) problems.push("username is required")
+    }
+    if (isNew || input.password !== undefined) {
+      if ((input.password || "").length < this.MIN_PASSWORD_LENGTH) {
+        problems.push(`password must be at least ${this.MIN_PASSWORD_LENGTH} characters`)
+      }
+    }
+    if (input.role !== undefined) {
+      if (!USER_ROLES.includes(input.role)) problems.push(`role must be one of ${USER_ROLES.join(", ")}`)
+      fields.role = input.role
+    }
+    if (input.mailboxScopes !== undefined) {
+      const { scopes, problems: scopeProblems } = validateMailboxScopes(input.mailboxScopes)
+      problems.push(...scopeProblems)
+      fields.mailboxScopes = scopes
+    }
+    if (input.displayName !== undefined) {
+      fields.displayName = input.displayName.trim() || undefined
+    }
+    if (input.disabled !== undefined) {
+      fields.disabled = !!input.disabled || undefined
+    }
+
+    if (problems.length > 0) {
+      throw new DelegationError("invalid_request", problems.join("; "), problems)
+    }
+    return fields
+  }
+
+  private static assertAdminRemains(users: StoredUser[]): void {
+    if (!users.some((user) => user.role === "admin" && !user.disabled)) {
+      throw new DelegationError("invalid_request", "At least one active admin is required")
+    }
+  }
+
+  private static async hashPassword(password: string): Promise<string> {
+    const salt = randomBytes(16)
+    const hash = await scryptAsync(password, salt, this.KEY_LENGTH)
+    return `scrypt:${salt.toString("hex")}:${hash.toString("hex")}`
+  }
+
+  private static async verifyPassword(password: string, stored: string): Promise<boolean> {
+    const [scheme, salt, expected] = stored.split(":")
+    if (scheme !== "scrypt" || !salt || !expected) {
+      return false
+    }
+    const hash = await scryptAsync(password, Buffer.from(salt, "hex"), this.KEY_LENGTH)
+    return timingSafeEqual(hash, Buffer.from(expected, "hex"))
+  }
+
+  private static hashSessionId(sessionId: string): string {
+    return createHash("sha256").update(sessionId).digest("hex")
+  }
+
+  private static toAccount(user: StoredUser): UserAccount {
+    const { passwordHash, ...account } = user
+    return account
+  }
+}